@@ -0,0 +1,113 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  AuditEntry,
+  createAuditLog,
+  createJsonlAuditSink,
+  createMemoryAuditSink,
+  hashAuditEntry,
+  verifyAuditChain
+} from '../src/audit.js';
+
+// ============================================================================
+// TEST SUITE: HASH-CHAINED AUDIT LOG
+// ============================================================================
+
+/**
+ * Writes a small chain covering the outcomes routes report.
+ */
+async function seed() {
+  const log = createAuditLog(createMemoryAuditSink());
+  await log.record({ action: 'encrypt', outcome: 'success', subject: 'key:a', txId: 'tx-1', partyId: 'party_a' });
+  await log.record({ action: 'fetch', outcome: 'denied', subject: 'key:b', txId: 'tx-1', partyId: 'party_a' });
+  await log.record({ action: 'decrypt', outcome: 'failure', subject: 'key:a', txId: 'tx-1', partyId: 'party_a', reason: 'possible tampering' });
+  await log.record({ action: 'decrypt', outcome: 'success', subject: 'key:a', txId: 'tx-2', partyId: 'party_a' });
+  return log;
+}
+
+describe('Audit Log', () => {
+  it('should link every entry to the previous one', async () => {
+    const log = await seed();
+    const entries = await log.query({ limit: 100 });
+
+    expect(entries.map((e) => e.seq)).toEqual([1, 2, 3, 4]);
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(await log.verify()).toEqual({ valid: true, checked: 4 });
+  });
+
+  it('should filter by txId and outcome', async () => {
+    const log = await seed();
+
+    expect(await log.query({ txId: 'tx-1', limit: 100 })).toHaveLength(3);
+    expect((await log.query({ outcome: 'failure', limit: 100 }))[0].reason).toBe('possible tampering');
+  });
+
+  it('should keep the chain consistent under concurrent appends', async () => {
+    const log = createAuditLog(createMemoryAuditSink());
+    await Promise.all(Array.from({ length: 20 }, (_, i) =>
+      log.record({ action: 'fetch', outcome: 'success', subject: 'key:a', txId: `tx-${i}` })));
+
+    expect(await log.verify()).toEqual({ valid: true, checked: 20 });
+  });
+
+  // ==========================================================================
+  // TAMPER EVIDENCE
+  // ==========================================================================
+  describe('Tamper Evidence', () => {
+    let entries: AuditEntry[];
+
+    beforeAll(async () => {
+      entries = await (await seed()).query({ limit: 100 });
+    });
+
+    it('should detect an edited entry', () => {
+      const edited = entries.map((e) => e.seq === 3 ? { ...e, outcome: 'success' as const } : e);
+      expect(verifyAuditChain(edited)).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+
+    it('should detect an edited entry whose hash was recomputed', () => {
+      // Re-hashing the forged entry breaks the link from the next one
+      const forged = { ...entries[2], subject: 'key:someone-else' };
+      const rehashed = entries.map((e) => e.seq === 3 ? { ...forged, hash: hashAuditEntry(forged) } : e);
+      expect(verifyAuditChain(rehashed)).toMatchObject({ valid: false, brokenAt: 4 });
+    });
+
+    it('should detect a removed entry', () => {
+      const removed = entries.filter((e) => e.seq !== 2);
+      expect(verifyAuditChain(removed)).toMatchObject({ valid: false, brokenAt: 3 });
+    });
+
+    it('should detect reordered entries', () => {
+      const reordered = [entries[0], entries[2], entries[1], entries[3]];
+      expect(verifyAuditChain(reordered).valid).toBe(false);
+    });
+  });
+
+  // ==========================================================================
+  // JSON-LINES SINK
+  // ==========================================================================
+  describe('JSON-lines Sink', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-audit-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should continue the chain after a restart', async () => {
+      const file = path.join(dir, 'audit.jsonl');
+
+      await createAuditLog(createJsonlAuditSink(file)).record({ action: 'encrypt', outcome: 'success', subject: 'key:a' });
+      const restarted = createAuditLog(createJsonlAuditSink(file));
+      const entry = await restarted.record({ action: 'decrypt', outcome: 'success', subject: 'key:a' });
+
+      expect(entry.seq).toBe(2);
+      expect(await restarted.verify()).toEqual({ valid: true, checked: 2 });
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuthConfig, authenticate, canAccessParty, loadAuthConfigFromEnv, signJwt } from '../src/auth.js';
+
+// ============================================================================
+// TEST SUITE: AUTHENTICATION
+// ============================================================================
+
+describe('Authentication', () => {
+  const env = { ...process.env };
+  let config: AuthConfig;
+
+  beforeEach(() => {
+    process.env.API_KEYS = 'alpha-key:party_a|party_b,ops-key:*';
+    process.env.ADMIN_API_KEYS = 'admin-key';
+    process.env.JWT_SECRET = 'jwt-test-secret';
+    config = loadAuthConfigFromEnv();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  // ==========================================================================
+  // API KEYS
+  // ==========================================================================
+  describe('API Keys', () => {
+    it('should resolve a key to its party scope', () => {
+      const principal = authenticate(config, 'Bearer alpha-key');
+
+      expect(principal?.parties).toEqual(['party_a', 'party_b']);
+      expect(principal?.admin).toBe(false);
+      // The subject must never contain the key itself
+      expect(principal?.subject).not.toContain('alpha-key');
+    });
+
+    it('should treat "*" as every party', () => {
+      const principal = authenticate(config, 'Bearer ops-key');
+      expect(canAccessParty(principal!, 'anyone')).toBe(true);
+    });
+
+    it('should mark admin keys as admin with no party access', () => {
+      const principal = authenticate(config, 'Bearer admin-key');
+
+      expect(principal?.admin).toBe(true);
+      expect(canAccessParty(principal!, 'party_a')).toBe(false);
+    });
+
+    it('should reject unknown keys and malformed headers', () => {
+      expect(authenticate(config, 'Bearer nope')).toBeNull();
+      expect(authenticate(config, 'alpha-key')).toBeNull();
+      expect(authenticate(config, undefined)).toBeNull();
+    });
+  });
+
+  // ==========================================================================
+  // JWT
+  // ==========================================================================
+  describe('JWT', () => {
+    it('should accept a valid token and read its parties', () => {
+      const token = signJwt({ sub: 'svc', parties: ['party_c'], exp: Math.floor(Date.now() / 1000) + 60 }, 'jwt-test-secret');
+      const principal = authenticate(config, `Bearer ${token}`);
+
+      expect(principal?.subject).toBe('jwt:svc');
+      expect(canAccessParty(principal!, 'party_c')).toBe(true);
+      expect(canAccessParty(principal!, 'party_a')).toBe(false);
+    });
+
+    it('should reject a token signed with another secret', () => {
+      const token = signJwt({ sub: 'svc', parties: ['party_c'] }, 'other-secret');
+      expect(authenticate(config, `Bearer ${token}`)).toBeNull();
+    });
+
+    it('should reject an expired token', () => {
+      const token = signJwt({ sub: 'svc', parties: ['party_c'], exp: Math.floor(Date.now() / 1000) - 1 }, 'jwt-test-secret');
+      expect(authenticate(config, `Bearer ${token}`)).toBeNull();
+    });
+
+    it('should reject a token with alg "none"', () => {
+      const header = Buffer.from(JSON.stringify({ alg: 'none' })).toString('base64url');
+      const payload = Buffer.from(JSON.stringify({ sub: 'svc', parties: '*' })).toString('base64url');
+      expect(authenticate(config, `Bearer ${header}.${payload}.`)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { encryptEnvelope } from '@mirfa/crypto';
+import { IdempotencyStore, createMemoryIdempotencyStore, fingerprintBody, isValidIdempotencyKey } from '../src/idempotency.js';
+
+// ============================================================================
+// TEST SUITE: IDEMPOTENCY KEYS
+// ============================================================================
+
+describe('Idempotency', () => {
+  const record = encryptEnvelope('party_a', { amount: 1 }, crypto.randomBytes(32));
+  let clock: number;
+  let store: IdempotencyStore;
+
+  beforeEach(() => {
+    clock = 1_000_000;
+    store = createMemoryIdempotencyStore(60_000, () => clock);
+  });
+
+  it('should hand a key to the first claim only', async () => {
+    expect(await store.claim('k', 'fp')).toBeUndefined();
+    expect(await store.claim('k', 'fp')).toEqual({ fingerprint: 'fp', expiresAt: clock + 60_000 });
+
+    await store.complete('k', record);
+    expect((await store.claim('k', 'other'))?.record).toEqual(record);
+  });
+
+  it('should free a released key', async () => {
+    await store.claim('k', 'fp');
+    await store.release('k');
+    expect(await store.claim('k', 'fp')).toBeUndefined();
+  });
+
+  it('should forget keys once the TTL has passed', async () => {
+    await store.claim('k', 'fp');
+    await store.complete('k', record);
+
+    clock += 60_000;
+    expect(await store.claim('k', 'fp')).toBeUndefined();
+  });
+
+  it('should fingerprint bodies by content', () => {
+    expect(fingerprintBody({ partyId: 'a', payload: 1 })).toBe(fingerprintBody({ partyId: 'a', payload: 1 }));
+    expect(fingerprintBody({ partyId: 'a', payload: 1 })).not.toBe(fingerprintBody({ partyId: 'a', payload: 2 }));
+  });
+
+  it('should fingerprint bodies the same whatever their key order', () => {
+    expect(fingerprintBody({ partyId: 'a', payload: { amount: 1, currency: 'AED', tags: [{ x: 1, y: 2 }] } }))
+      .toBe(fingerprintBody({ payload: { tags: [{ y: 2, x: 1 }], currency: 'AED', amount: 1 }, partyId: 'a' }));
+    // Array order is content
+    expect(fingerprintBody({ payload: [1, 2] })).not.toBe(fingerprintBody({ payload: [2, 1] }));
+  });
+
+  it.each([
+    ['a UUID', crypto.randomUUID(), true],
+    ['an empty key', '', false],
+    ['spaces', 'two words', false],
+    ['non-ASCII', 'clé', false],
+    ['256 characters', 'k'.repeat(256), false]
+  ])('should judge %s', (_name, key, valid) => {
+    expect(isValidIdempotencyKey(key)).toBe(valid);
+  });
+});
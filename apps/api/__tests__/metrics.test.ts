@@ -0,0 +1,159 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { TxSecureRecord, createKeyring, createLocalKeyProvider } from '@mirfa/crypto';
+import { AppOptions, buildApp } from '../src/app.js';
+import { KeyConfig } from '../src/keys.js';
+import { createMetrics } from '../src/metrics.js';
+import { TxStore, createMemoryStore } from '../src/storage.js';
+
+// ============================================================================
+// TEST SUITE: METRICS & READINESS
+// ============================================================================
+
+function localKeys(): KeyConfig {
+  const keyring = createKeyring({ 1: crypto.randomBytes(32) }, 1);
+  const local = createLocalKeyProvider(keyring);
+  return { active: local, providers: new Map([['local', local]]), keyring };
+}
+
+/**
+ * Value of one sample line, e.g. sample(text, 'mirfa_crypto_requests_total{operation="encrypt",outcome="success"}').
+ */
+function sample(text: string, series: string): number | undefined {
+  const line = text.split('\n').find((candidate) => candidate.startsWith(series + ' '));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+}
+
+describe('Metrics & Readiness', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.MASTER_KEY;
+    delete process.env.MASTER_KEYS;
+    delete process.env.KEY_PROVIDER;
+    delete process.env.METRICS_TOKEN;
+    process.env.API_KEYS = 'alpha-key:party_a';
+    process.env.ADMIN_API_KEYS = 'admin-key';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  // ==========================================================================
+  // REGISTRY
+  // ==========================================================================
+  describe('Registry', () => {
+    it('should count outcomes, failure reasons and latency buckets', () => {
+      const metrics = createMetrics();
+      metrics.recordCrypto('decrypt', 200, 3);
+      metrics.recordCrypto('decrypt', 400, 1, 'integrity');
+      metrics.recordCrypto('decrypt', 410, 1);
+      metrics.recordCrypto('decrypt', 502, 20);
+      const text = metrics.render();
+
+      expect(sample(text, 'mirfa_crypto_requests_total{operation="decrypt",outcome="success"}')).toBe(1);
+      expect(sample(text, 'mirfa_crypto_requests_total{operation="decrypt",outcome="failure"}')).toBe(3);
+      expect(sample(text, 'mirfa_crypto_failures_total{operation="decrypt",reason="integrity"}')).toBe(1);
+      expect(sample(text, 'mirfa_crypto_failures_total{operation="decrypt",reason="shredded"}')).toBe(1);
+      expect(sample(text, 'mirfa_crypto_failures_total{operation="decrypt",reason="server_error"}')).toBe(1);
+      expect(sample(text, 'mirfa_crypto_duration_seconds_bucket{operation="decrypt",le="0.001"}')).toBe(2);
+      expect(sample(text, 'mirfa_crypto_duration_seconds_bucket{operation="decrypt",le="0.005"}')).toBe(3);
+      expect(sample(text, 'mirfa_crypto_duration_seconds_bucket{operation="decrypt",le="+Inf"}')).toBe(4);
+      expect(sample(text, 'mirfa_crypto_duration_seconds_count{operation="decrypt"}')).toBe(4);
+      expect(text).toContain('# TYPE mirfa_crypto_duration_seconds histogram');
+    });
+  });
+
+  // ==========================================================================
+  // ROUTES
+  // ==========================================================================
+  describe('Routes', () => {
+    async function withApp(options: AppOptions, test: (app: ReturnType<typeof buildApp>) => Promise<void>) {
+      const app = buildApp({ logger: false, ...options });
+      try {
+        await test(app);
+      } finally {
+        await app.close();
+      }
+    }
+
+    const alpha = { authorization: 'Bearer alpha-key' };
+
+    it('should label crypto requests by route template, never by ID or content', async () => {
+      await withApp({ keys: localKeys() }, async (app) => {
+        const encrypted = await app.inject({ method: 'POST', url: '/tx/encrypt', headers: alpha, payload: { partyId: 'party_a', payload: { secret: 'hunter2' } } });
+        const record = encrypted.json() as TxSecureRecord;
+        await app.inject({ method: 'POST', url: `/tx/${record.id}/decrypt`, headers: alpha });
+        const missing = await app.inject({ method: 'POST', url: `/tx/${crypto.randomUUID()}/decrypt`, headers: alpha });
+        expect(missing.statusCode).toBe(404);
+
+        const text = (await app.inject({ method: 'GET', url: '/metrics' })).body;
+        expect(sample(text, 'mirfa_crypto_requests_total{operation="encrypt",outcome="success"}')).toBe(1);
+        expect(sample(text, 'mirfa_crypto_requests_total{operation="decrypt",outcome="success"}')).toBe(1);
+        expect(sample(text, 'mirfa_crypto_failures_total{operation="decrypt",reason="not_found"}')).toBe(1);
+        expect(sample(text, 'mirfa_http_requests_total{method="POST",route="/tx/:id/decrypt",status="200"}')).toBe(1);
+        expect(text).not.toContain(record.id);
+        expect(text).not.toContain('party_a');
+        expect(text).not.toContain('hunter2');
+      });
+    });
+
+    it('should count a failed authentication tag as an integrity failure', async () => {
+      const keys = localKeys();
+      const store: TxStore = createMemoryStore();
+      await withApp({ keys, store }, async (app) => {
+        const record = (await app.inject({ method: 'POST', url: '/tx/encrypt', headers: alpha, payload: { partyId: 'party_a', payload: { amount: 1 } } })).json() as TxSecureRecord;
+        await store.put({ ...record, payload_tag: (record.payload_tag[0] === '0' ? '1' : '0') + record.payload_tag.slice(1) });
+
+        const decrypted = await app.inject({ method: 'POST', url: `/tx/${record.id}/decrypt`, headers: alpha });
+        expect(decrypted.statusCode).toBe(400);
+
+        const text = (await app.inject({ method: 'GET', url: '/metrics' })).body;
+        expect(sample(text, 'mirfa_crypto_failures_total{operation="decrypt",reason="integrity"}')).toBe(1);
+      });
+    });
+
+    it('should require METRICS_TOKEN when it is set', async () => {
+      await withApp({ keys: localKeys(), metricsToken: 'scrape-token' }, async (app) => {
+        expect((await app.inject({ method: 'GET', url: '/metrics' })).statusCode).toBe(401);
+        expect((await app.inject({ method: 'GET', url: '/metrics', headers: { authorization: 'Bearer nope' } })).statusCode).toBe(401);
+
+        const scraped = await app.inject({ method: 'GET', url: '/metrics', headers: { authorization: 'Bearer scrape-token' } });
+        expect(scraped.statusCode).toBe(200);
+        expect(scraped.headers['content-type']).toContain('text/plain');
+      });
+    });
+
+    it('should be ready only with keys, a store and a passing self-test', async () => {
+      await withApp({ keys: localKeys() }, async (app) => {
+        expect((await app.inject({ method: 'GET', url: '/healthz' })).json()).toEqual({ status: 'ok' });
+
+        const ready = await app.inject({ method: 'GET', url: '/readyz' });
+        expect(ready.statusCode).toBe(200);
+        expect(ready.json()).toEqual({ status: 'ready', checks: { keys: 'ok', store: 'ok', selfTest: 'ok' } });
+      });
+
+      // No master key: alive, but not ready
+      await withApp({}, async (app) => {
+        expect((await app.inject({ method: 'GET', url: '/healthz' })).statusCode).toBe(200);
+
+        const notReady = await app.inject({ method: 'GET', url: '/readyz' });
+        expect(notReady.statusCode).toBe(503);
+        expect(notReady.json()).toEqual({ error: 'Not ready', checks: { keys: 'fail', store: 'ok', selfTest: 'skipped' } });
+      });
+
+      const broken = createMemoryStore();
+      broken.get = async () => {
+        throw new Error('database is locked');
+      };
+      await withApp({ keys: localKeys(), store: broken }, async (app) => {
+        const notReady = await app.inject({ method: 'GET', url: '/readyz' });
+        expect(notReady.statusCode).toBe(503);
+        expect(notReady.json().checks).toEqual({ keys: 'ok', store: 'fail', selfTest: 'ok' });
+        // Details stay in the log
+        expect(notReady.body).not.toContain('database is locked');
+      });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { CounterStore, RateLimiter, createMemoryCounterStore, createRateLimiter, loadRateLimitConfigFromEnv } from '../src/ratelimit.js';
+
+// ============================================================================
+// TEST SUITE: DECRYPT RATE LIMITING
+// ============================================================================
+
+describe('Rate Limiting', () => {
+  let clock: number;
+  let counters: CounterStore;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    clock = 1_000_000;
+    counters = createMemoryCounterStore(() => clock);
+    limiter = createRateLimiter({
+      client: { limit: 3, windowMs: 60_000 },
+      record: { limit: 5, windowMs: 60_000 },
+      lockout: { limit: 2, windowMs: 300_000 }
+    }, counters);
+  });
+
+  it('should count attempts per client', async () => {
+    expect(await limiter.checkClient('alice')).toEqual({ allowed: true, limit: 3, remaining: 2, resetAt: clock + 60_000 });
+    await limiter.checkClient('alice');
+    await limiter.checkClient('alice');
+
+    expect(await limiter.checkClient('alice')).toMatchObject({ allowed: false, reason: 'client', remaining: 0 });
+    // Other clients have their own budget
+    expect((await limiter.checkClient('bob')).allowed).toBe(true);
+  });
+
+  it('should limit one record on its own counter', async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await limiter.checkRecord('tx1')).allowed).toBe(true);
+    }
+    expect(await limiter.checkRecord('tx1')).toMatchObject({ allowed: false, reason: 'record', limit: 5 });
+    expect((await limiter.checkRecord('tx2')).allowed).toBe(true);
+    // Client budgets are untouched by record checks
+    expect(await limiter.checkClient('alice')).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('should start a new window once the old one ends', async () => {
+    for (let i = 0; i < 4; i++) await limiter.checkClient('alice');
+    expect((await limiter.checkClient('alice')).allowed).toBe(false);
+
+    clock += 60_000;
+    expect(await limiter.checkClient('alice')).toMatchObject({ allowed: true, remaining: 2 });
+  });
+
+  it('should lock a record after repeated failures', async () => {
+    await limiter.recordFailure('tx1');
+    expect((await limiter.checkRecord('tx1')).allowed).toBe(true);
+
+    await limiter.recordFailure('tx1');
+    expect(await limiter.checkRecord('tx1')).toEqual({ allowed: false, reason: 'locked', resetAt: clock + 300_000 });
+    expect((await limiter.checkRecord('tx2')).allowed).toBe(true);
+
+    clock += 300_000;
+    expect((await limiter.checkRecord('tx1')).allowed).toBe(true);
+  });
+
+  it('should not lock on failures spread over separate windows', async () => {
+    await limiter.recordFailure('tx1');
+    clock += 300_000;
+    await limiter.recordFailure('tx1');
+
+    expect((await limiter.checkRecord('tx1')).allowed).toBe(true);
+  });
+
+  it('should allow everything when every rule is off', async () => {
+    const open = createRateLimiter({ client: null, record: null, lockout: null }, counters);
+    for (let i = 0; i < 10; i++) await open.recordFailure('tx1');
+
+    expect(await open.checkClient('alice')).toEqual({ allowed: true });
+    expect(await open.checkRecord('tx1')).toEqual({ allowed: true });
+    expect(await counters.get('decrypt:lock:tx1')).toBeUndefined();
+  });
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+  describe('Configuration', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should read "<limit>/<seconds>" rules and "off"', () => {
+      process.env.DECRYPT_RATE_LIMIT_CLIENT = '10/1';
+      process.env.DECRYPT_RATE_LIMIT_RECORD = 'off';
+      delete process.env.DECRYPT_LOCKOUT;
+
+      expect(loadRateLimitConfigFromEnv()).toEqual({
+        client: { limit: 10, windowMs: 1000 },
+        record: null,
+        lockout: { limit: 5, windowMs: 900_000 }
+      });
+    });
+
+    it.each(['10', '10/0', 'ten/60', '-1/60'])('should reject %j', (value) => {
+      process.env.DECRYPT_LOCKOUT = value;
+      expect(() => loadRateLimitConfigFromEnv()).toThrow(/DECRYPT_LOCKOUT must look like/);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, afterEach } from 'vitest';
+import { FastifyBaseLogger } from 'fastify';
+import { createKeyring, createLocalKeyProvider, encryptEnvelope } from '@mirfa/crypto';
+import { createMemoryStore } from '../src/storage.js';
+import { BlobStore } from '../src/blobs.js';
+import { expiryOf, isExpired, loadRetentionPolicyFromEnv, shredRecord, sweepExpired } from '../src/retention.js';
+import { rewrapStore } from '../src/rotation.js';
+
+// ============================================================================
+// TEST SUITE: RETENTION & CRYPTO-SHREDDING
+// ============================================================================
+
+const masterKey = crypto.randomBytes(32);
+const log = { info: () => undefined, warn: () => undefined } as unknown as FastifyBaseLogger;
+const createdAt = '2026-01-01T00:00:00.000Z';
+
+function recordFor(partyId: string, fields: { createdAt?: string; expiresAt?: string } = {}) {
+  return { ...encryptEnvelope(partyId, { amount: 1 }, masterKey), createdAt, ...fields };
+}
+
+function trackedBlobs(): BlobStore & { deleted: string[] } {
+  const deleted: string[] = [];
+  return {
+    deleted,
+    createWriteStream: () => { throw new Error('not used'); },
+    createReadStream: () => { throw new Error('not used'); },
+    async delete(id) {
+      deleted.push(id);
+      return true;
+    }
+  };
+}
+
+describe('Retention', () => {
+  const policy = new Map([['party_a', 30], ['*', 365]]);
+
+  it('should expire at the earlier of expiresAt and the party retention', () => {
+    expect(expiryOf(recordFor('party_a'), policy)?.toISOString()).toBe('2026-01-31T00:00:00.000Z');
+    expect(expiryOf(recordFor('party_b'), policy)?.toISOString()).toBe('2027-01-01T00:00:00.000Z');
+    expect(expiryOf(recordFor('party_a', { expiresAt: '2026-01-02T00:00:00.000Z' }), policy)?.toISOString()).toBe('2026-01-02T00:00:00.000Z');
+    expect(expiryOf(recordFor('party_b'), new Map())).toBeUndefined();
+
+    expect(isExpired(recordFor('party_a'), policy, new Date('2026-01-30T23:59:59Z'))).toBe(false);
+    expect(isExpired(recordFor('party_a'), policy, new Date('2026-01-31T00:00:00Z'))).toBe(true);
+  });
+
+  it('should shred a record and its streamed content', async () => {
+    const store = createMemoryStore();
+    const blobs = trackedBlobs();
+    const record = { ...recordFor('party_a'), stream: { chunk_size: 65536, size: 10 } };
+    await store.put(record);
+
+    const tombstone = await shredRecord(store, blobs, record, 'deleted', new Date(createdAt));
+    expect(tombstone).toEqual({ id: record.id, partyId: 'party_a', createdAt, shreddedAt: createdAt, reason: 'deleted' });
+    expect(blobs.deleted).toEqual([record.id]);
+    expect(await shredRecord(store, blobs, record, 'deleted')).toBeUndefined();
+  });
+
+  it('should sweep expired records and report the ones it could not shred', async () => {
+    const store = createMemoryStore();
+    const expired = recordFor('party_a');
+    const broken = recordFor('party_a');
+    const kept = recordFor('party_b');
+    for (const record of [expired, broken, kept]) await store.put(record);
+
+    const shred = store.shred;
+    store.shred = async (tombstone) => {
+      if (tombstone.id === broken.id) throw new Error('disk full');
+      return shred(tombstone);
+    };
+    const shredded: string[] = [];
+
+    const report = await sweepExpired(store, trackedBlobs(), policy, log, async (tombstone) => shredded.push(tombstone.id), new Date('2026-06-01T00:00:00Z'));
+    expect(report).toEqual({
+      total: 3,
+      shredded: 1,
+      failed: 1,
+      results: [
+        { id: expired.id, status: 'shredded' },
+        { id: broken.id, status: 'failed', error: 'disk full' }
+      ]
+    });
+    expect(shredded).toEqual([expired.id]);
+    expect(await store.getTombstone(expired.id)).toMatchObject({ reason: 'expired' });
+    expect(await store.get(kept.id)).toEqual(kept);
+  });
+
+  it('should not bring back a record shredded during a re-wrap', async () => {
+    const keyring = createKeyring({ 1: masterKey, 2: crypto.randomBytes(32) }, 2);
+    const local = createLocalKeyProvider(keyring);
+    const store = createMemoryStore();
+    const shredded = recordFor('party_a');
+    const kept = recordFor('party_a');
+    for (const record of [shredded, kept]) await store.put(record);
+
+    // Shredded after the job has listed the records, before it writes them back
+    const list = store.list;
+    store.list = async () => {
+      const records = await list();
+      await shredRecord(store, trackedBlobs(), shredded, 'deleted');
+      return records;
+    };
+
+    const report = await rewrapStore(store, { active: local, providers: new Map([['local', local]]), keyring }, log);
+    expect(report).toMatchObject({ total: 2, rewrapped: 1, skipped: 1, failed: 0 });
+    expect(report.results[0]).toEqual({ id: shredded.id, status: 'skipped', from: 'local/mk-1', reason: 'deleted during the run' });
+    expect(await store.get(shredded.id)).toBeUndefined();
+    expect(await store.getTombstone(shredded.id)).toMatchObject({ reason: 'deleted' });
+    expect((await store.get(kept.id))?.mk_version).toBe(2);
+  });
+
+  // ==========================================================================
+  // CONFIGURATION
+  // ==========================================================================
+  describe('Configuration', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('should read "<partyId>:<days>" entries', () => {
+      process.env.RETENTION_DAYS = 'party_a:30, *:3650';
+      expect(loadRetentionPolicyFromEnv()).toEqual(new Map([['party_a', 30], ['*', 3650]]));
+
+      delete process.env.RETENTION_DAYS;
+      expect(loadRetentionPolicyFromEnv().size).toBe(0);
+    });
+
+    it.each(['party_a', 'party_a:0', 'party_a:1.5', ':30', 'party_a:30,party_a:60'])('should reject %j', (value) => {
+      process.env.RETENTION_DAYS = value;
+      expect(() => loadRetentionPolicyFromEnv()).toThrow(/RETENTION_DAYS/);
+    });
+  });
+});
@@ -0,0 +1,838 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { 
+  KeyProvider, 
+  TxSecureRecord, 
+  createFilePartyKeyStore, 
+  createKeyring, 
+  createLocalKeyProvider, 
+  createMemoryPartyKeyStore, 
+  encryptEnvelopeWithProvider 
+} from '@mirfa/crypto';
+import { openPayloadInBrowser, sealPayloadInBrowser } from '@mirfa/crypto/browser';
+import { knownAnswerVectors } from '@mirfa/crypto/test-vectors';
+import { AppOptions, buildApp } from '../src/app.js';
+import { KeyConfig } from '../src/keys.js';
+import { loadAuthConfigFromEnv } from '../src/auth.js';
+import { createMemoryStore } from '../src/storage.js';
+import { toTxMetadata } from '../src/listing.js';
+import { createFileBlobStore } from '../src/blobs.js';
+import { createAuditLog, createMemoryAuditSink } from '../src/audit.js';
+import { createRateLimiter } from '../src/ratelimit.js';
+import { createHandler } from '../api/index.js';
+
+// ============================================================================
+// TEST SUITE: ROUTES
+// ============================================================================
+// The same requests against both entry points: the app listening directly
+// (as src/server.ts runs it) and the serverless handler from api/index.ts.
+
+interface Served {
+  url: string;
+  close(): Promise<void>;
+}
+
+const entryPoints: Array<{ name: string; serve: (options: AppOptions) => Promise<Served> }> = [
+  {
+    name: 'server',
+    serve: async (options) => {
+      const app = buildApp(options);
+      await app.listen({ port: 0, host: '127.0.0.1' });
+      return {
+        url: `http://127.0.0.1:${(app.server.address() as AddressInfo).port}`,
+        close: () => app.close()
+      };
+    }
+  },
+  {
+    name: 'serverless handler',
+    serve: async (options) => {
+      const server = http.createServer(createHandler(() => buildApp(options)));
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      return {
+        url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        close: () => new Promise((resolve) => server.close(() => resolve()))
+      };
+    }
+  }
+];
+
+function localKeys(masterKey: Buffer): KeyConfig {
+  const keyring = createKeyring({ 1: masterKey }, 1);
+  const local = createLocalKeyProvider(keyring);
+  return { active: local, providers: new Map([['local', local]]), keyring };
+}
+
+const env = { ...process.env };
+let blobDir: string;
+
+beforeAll(() => {
+  process.env.API_KEYS = 'alpha-key:party_a';
+  process.env.ADMIN_API_KEYS = 'admin-key';
+  blobDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-routes-'));
+});
+
+afterAll(() => {
+  process.env = { ...env };
+  fs.rmSync(blobDir, { recursive: true, force: true });
+});
+
+describe.each(entryPoints)('$name', ({ serve }) => {
+  const store = createMemoryStore();
+  const audit = createAuditLog(createMemoryAuditSink());
+  let served: Served;
+
+  const request = (route: string, init: RequestInit & { key?: string } = {}) => fetch(`${served.url}${route}`, {
+    ...init,
+    headers: {
+      ...(init.key === undefined ? {} : { Authorization: `Bearer ${init.key}` }),
+      ...(typeof init.body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers
+    }
+  });
+
+  const encrypt = async (payload: unknown) => {
+    const response = await request('/tx/encrypt', {
+      method: 'POST',
+      key: 'alpha-key',
+      body: JSON.stringify({ partyId: 'party_a', payload })
+    });
+    expect(response.status).toBe(200);
+    return await response.json() as TxSecureRecord;
+  };
+
+  beforeAll(async () => {
+    served = await serve({
+      logger: false,
+      store,
+      audit,
+      keys: localKeys(crypto.randomBytes(32)),
+      auth: loadAuthConfigFromEnv(),
+      blobs: createFileBlobStore(blobDir),
+      encryptionAlg: 'CHACHA20-POLY1305',
+      corsOrigin: 'http://localhost:3000'
+    });
+  });
+
+  afterAll(async () => {
+    await served.close();
+  });
+
+  it('should serve the public health check', async () => {
+    const response = await request('/');
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should serve the OpenAPI document built from the route schemas', async () => {
+    const response = await request('/docs');
+    const document = await response.json();
+
+    expect(document).toMatchObject({ openapi: '3.1.0', security: [{ bearerAuth: [] }] });
+    expect(document.paths['/']).toMatchObject({ get: { security: [] } });
+    expect(document.paths['/tx/{id}']).toHaveProperty('delete');
+    expect(document.paths['/tx/encrypt'].post.requestBody.content['application/json'].schema.required).toEqual(['partyId', 'payload']);
+    expect(document.paths['/tx/{id}'].get.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/TxSecureRecord' });
+    expect(document.paths['/tx/stream'].post.requestBody.content).toHaveProperty('application/octet-stream');
+    expect(Object.keys(document.components.schemas)).toContain('ErrorResponse');
+    expect(JSON.stringify(document)).not.toMatch(/"\$ref":"(?!#\/components\/schemas\/)/);
+  });
+
+  it('should require a credential', async () => {
+    const response = await request('/tx?partyId=party_a');
+    expect(response.status).toBe(401);
+  });
+
+  it('should answer 404 for an unknown route without a credential', async () => {
+    const response = await request('/no-such-route');
+    expect(response.status).toBe(404);
+  });
+
+  it('should encrypt, fetch and decrypt with the injected keys and algorithm', async () => {
+    const record = await encrypt({ amount: 100 });
+    expect(record.alg).toBe('CHACHA20-POLY1305');
+    expect(await store.get(record.id)).toEqual(record);
+
+    const fetched = await request(`/tx/${record.id}`, { key: 'alpha-key' });
+    expect(await fetched.json()).toEqual(record);
+
+    const decrypted = await request(`/tx/${record.id}/decrypt`, { method: 'POST', key: 'alpha-key' });
+    expect(await decrypted.json()).toEqual({ payload: { amount: 100 } });
+
+    const entries = await audit.query({ txId: record.id, limit: 10 });
+    expect(entries.map((entry) => entry.action)).toEqual(['encrypt', 'fetch', 'decrypt']);
+  });
+
+  it('should list metadata only', async () => {
+    const record = await encrypt({ amount: 1 });
+    const response = await request('/tx?partyId=party_a&limit=100', { key: 'alpha-key' });
+    const { items } = await response.json() as { items: Array<Record<string, unknown>> };
+
+    expect(items).toContainEqual(toTxMetadata(record));
+    expect(items.every((item) => !('payload_ct' in item) && !('dek_wrapped' in item))).toBe(true);
+  });
+
+  it('should reveal only the requested fields of a field-level record', async () => {
+    const response = await request('/tx/encrypt', {
+      method: 'POST',
+      key: 'alpha-key',
+      body: JSON.stringify({ partyId: 'party_a', payload: { currency: 'AED', account: 'AE07-0331' }, fields: ['account'] })
+    });
+    const record = await response.json() as TxSecureRecord;
+    expect(record.clear).toEqual({ currency: 'AED' });
+
+    const partial = await request(`/tx/${record.id}/decrypt?fields=currency`, { method: 'POST', key: 'alpha-key' });
+    expect(await partial.json()).toEqual({ payload: { currency: 'AED' } });
+
+    const full = await request(`/tx/${record.id}/decrypt`, { method: 'POST', key: 'alpha-key' });
+    expect(await full.json()).toEqual({ payload: { currency: 'AED', account: 'AE07-0331' } });
+
+    const entries = await audit.query({ txId: record.id, action: 'decrypt', limit: 10 });
+    expect(entries.map((entry) => entry.fields)).toEqual([['currency'], undefined]);
+  });
+
+  it('should only wrap and unwrap DEKs for payloads encrypted by the client', async () => {
+    const { sealed, dek } = await sealPayloadInBrowser('party_a', { amount: 42 });
+    const wrap = (body: Record<string, unknown>, key = 'alpha-key') => request('/tx/wrap', { method: 'POST', key, body: JSON.stringify(body) });
+
+    const response = await wrap({ ...sealed, dek });
+    const record = await response.json() as TxSecureRecord;
+    expect(record).toMatchObject({ ...sealed, format_version: 2 });
+    expect(JSON.stringify(record)).not.toContain(dek);
+
+    // The same body again is a replay; another payload under that id is not
+    const replay = await wrap({ ...sealed, dek });
+    expect(replay.headers.get('idempotency-replayed')).toBe('true');
+    expect((await wrap({ ...sealed, payload_ct: 'abcd', dek })).status).toBe(409);
+    expect(await (await wrap({ ...sealed, dek: dek.slice(2) })).json()).toEqual({ error: 'Invalid DEK length: expected 32 bytes' });
+    expect(await (await wrap({ ...sealed, alg: 'CHACHA20-POLY1305', dek })).json()).toEqual({ error: 'alg must be one of AES-256-GCM' });
+
+    const unwrapped = await request(`/tx/${record.id}/unwrap`, { method: 'POST', key: 'alpha-key' });
+    expect(unwrapped.headers.get('cache-control')).toBe('no-store');
+    const released = await unwrapped.json();
+    expect(await openPayloadInBrowser(await (await request(`/tx/${record.id}`, { key: 'alpha-key' })).json(), released.dek)).toEqual({ amount: 42 });
+
+    // Server-side decrypt reads the same record
+    const decrypted = await request(`/tx/${record.id}/decrypt`, { method: 'POST', key: 'alpha-key' });
+    expect(await decrypted.json()).toEqual({ payload: { amount: 42 } });
+
+    const fieldLevel = await request('/tx/encrypt', {
+      method: 'POST',
+      key: 'alpha-key',
+      body: JSON.stringify({ partyId: 'party_a', payload: { amount: 1 }, fields: ['amount'] })
+    });
+    expect((await request(`/tx/${(await fieldLevel.json()).id}/unwrap`, { method: 'POST', key: 'alpha-key' })).status).toBe(400);
+
+    const entries = await audit.query({ txId: record.id, limit: 10 });
+    expect(entries.map((entry) => [entry.action, entry.outcome])).toEqual([
+      ['encrypt', 'success'], ['unwrap', 'success'], ['fetch', 'success'], ['decrypt', 'success']
+    ]);
+  });
+
+  it('should find records by a searchable field', async () => {
+    const encryptSearchable = async (payload: Record<string, unknown>) => {
+      const response = await request('/tx/encrypt', {
+        method: 'POST',
+        key: 'alpha-key',
+        body: JSON.stringify({ partyId: 'party_a', payload, searchable: ['account'] })
+      });
+      return await response.json() as TxSecureRecord;
+    };
+    const search = (body: Record<string, unknown>) => request('/tx/search', { method: 'POST', key: 'alpha-key', body: JSON.stringify(body) });
+
+    const first = await encryptSearchable({ account: 'AE07-0331', amount: 1 });
+    const second = await encryptSearchable({ account: 'AE07-0331', amount: 2 });
+    await encryptSearchable({ account: 'GB29-6016', amount: 3 });
+    expect(Object.keys(first.blind_index!.tokens)).toEqual(['account']);
+
+    const page = await search({ partyId: 'party_a', field: 'account', value: 'AE07-0331', limit: 1 });
+    const { items, nextCursor } = await page.json() as { items: Array<Record<string, unknown>>; nextCursor: string };
+    expect(items).toEqual([toTxMetadata(second)]);
+
+    const rest = await search({ partyId: 'party_a', field: 'account', value: 'AE07-0331', cursor: nextCursor });
+    expect(await rest.json()).toEqual({ items: [toTxMetadata(first)], nextCursor: null });
+
+    // Not indexed, so never found
+    const amount = await search({ partyId: 'party_a', field: 'amount', value: 1 });
+    expect((await amount.json()).items).toEqual([]);
+
+    const entries = await audit.query({ action: 'search', limit: 10 });
+    expect(entries[0]).toMatchObject({ outcome: 'success', partyId: 'party_a', fields: ['account'] });
+    expect(JSON.stringify(entries)).not.toContain('AE07');
+    expect((await audit.query({ txId: first.id, limit: 10 })).map((entry) => entry.action)).toEqual(['encrypt']);
+  });
+
+  it('should replay an encrypt sent again with the same Idempotency-Key', async () => {
+    const key = crypto.randomUUID();
+    const send = (payload: unknown, idempotencyKey = key) => request('/tx/encrypt', {
+      method: 'POST',
+      key: 'alpha-key',
+      headers: { 'Idempotency-Key': idempotencyKey, 'Origin': 'http://localhost:3000' },
+      body: JSON.stringify({ partyId: 'party_a', payload })
+    });
+
+    const first = await send({ amount: 9 });
+    const record = await first.json() as TxSecureRecord;
+    const before = (await store.list()).length;
+
+    const replay = await send({ amount: 9 });
+    expect(replay.headers.get('idempotency-replayed')).toBe('true');
+    expect(replay.headers.get('access-control-expose-headers')).toContain('Idempotency-Replayed');
+    expect(await replay.json()).toEqual(record);
+    expect(await store.list()).toHaveLength(before);
+    expect(await audit.query({ txId: record.id, limit: 10 })).toHaveLength(1);
+
+    const conflict = await send({ amount: 10 });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toEqual({ error: 'Idempotency-Key was already used with a different request' });
+
+    const invalid = await send({ amount: 9 }, 'not a key');
+    expect(invalid.status).toBe(400);
+
+    // A shredded record is not replayed
+    await request(`/tx/${record.id}`, { method: 'DELETE', key: 'alpha-key' });
+    const shredded = await send({ amount: 9 });
+    expect(shredded.status).toBe(410);
+    expect(shredded.headers.get('idempotency-replayed')).toBeNull();
+    expect(await shredded.json()).toEqual({ error: 'Transaction has been shredded' });
+  });
+
+  it('should encrypt and decrypt in batches, failing items on their own', async () => {
+    const batch = (route: string, body: unknown) => request(route, { method: 'POST', key: 'alpha-key', body: JSON.stringify(body) });
+
+    const encrypted = await (await batch('/tx/batch/encrypt', {
+      items: [
+        { partyId: 'party_a', payload: { amount: 1 } },
+        { partyId: 'party_a' },
+        { partyId: 'party_b', payload: {} },
+        { partyId: 'party_a', payload: { amount: 2, note: 'x' }, fields: ['amount'], searchable: ['note'] }
+      ]
+    })).json();
+
+    expect(encrypted).toMatchObject({ total: 4, encrypted: 2, failed: 2 });
+    expect(encrypted.results.slice(1, 3)).toEqual([
+      { index: 1, status: 'failed', statusCode: 400, error: 'payload is required' },
+      { index: 2, status: 'failed', statusCode: 403, error: 'Not authorized for this party' }
+    ]);
+    const [first, fourth] = [encrypted.results[0].record, encrypted.results[3].record] as TxSecureRecord[];
+    expect(first).toMatchObject({ alg: 'CHACHA20-POLY1305', mk_version: 1 });
+    expect(fourth.blind_index?.tokens).toHaveProperty('note');
+    expect(await store.get(fourth.id)).toEqual(fourth);
+
+    const decrypted = await (await batch('/tx/batch/decrypt', { ids: [first.id, 'tx_missing', fourth.id], fields: ['amount'] })).json();
+    expect(decrypted).toEqual({
+      total: 3,
+      decrypted: 2,
+      failed: 1,
+      results: [
+        { index: 0, id: first.id, status: 'decrypted', payload: { amount: 1 } },
+        { index: 1, id: 'tx_missing', status: 'failed', statusCode: 404, error: 'Transaction not found' },
+        { index: 2, id: fourth.id, status: 'decrypted', payload: { amount: 2 } }
+      ]
+    });
+    const entries = await audit.query({ txId: fourth.id, limit: 10 });
+    expect(entries.map((entry) => [entry.action, entry.fields])).toEqual([['encrypt', undefined], ['decrypt', ['amount']]]);
+
+    expect(await (await batch('/tx/batch/encrypt', { items: [] })).json()).toEqual({ error: 'items must hold 1 to 100 items' });
+    expect(await (await batch('/tx/batch/decrypt', { ids: 'tx_1' })).json()).toEqual({ error: 'ids must be an array' });
+  });
+
+  it('should shred deleted and expired records into tombstones', async () => {
+    const deleted = await encrypt({ amount: 7 });
+    const response = await request(`/tx/${deleted.id}`, { method: 'DELETE', key: 'alpha-key' });
+    expect(await response.json()).toMatchObject({ id: deleted.id, partyId: 'party_a', reason: 'deleted' });
+    expect(await store.get(deleted.id)).toBeUndefined();
+
+    for (const [route, method] of [[`/tx/${deleted.id}`, 'GET'], [`/tx/${deleted.id}/decrypt`, 'POST'], [`/tx/${deleted.id}`, 'DELETE']]) {
+      const gone = await request(route, { method, key: 'alpha-key' });
+      expect(gone.status).toBe(410);
+      expect(await gone.json()).toEqual({ error: 'Transaction has been shredded' });
+    }
+
+    // Expired records are shredded when touched, before the sweeper gets to them
+    const expired = await encrypt({ amount: 8 });
+    await store.put({ ...expired, expiresAt: '2020-01-01T00:00:00.000Z' });
+    expect((await request(`/tx/${expired.id}`, { key: 'alpha-key' })).status).toBe(410);
+    expect(await store.getTombstone(expired.id)).toMatchObject({ reason: 'expired' });
+
+    const swept = await encrypt({ amount: 9 });
+    await store.put({ ...swept, expiresAt: '2020-01-01T00:00:00.000Z' });
+    const sweep = await request('/admin/retention/sweep', { method: 'POST', key: 'admin-key' });
+    expect(await sweep.json()).toMatchObject({ shredded: 1, failed: 0, results: [{ id: swept.id, status: 'shredded' }] });
+
+    const entries = await audit.query({ action: 'expire', limit: 10 });
+    expect(entries.filter((entry) => entry.txId).map((entry) => [entry.txId, entry.subject])).toEqual([
+      [expired.id, 'system:retention'],
+      [swept.id, 'system:retention']
+    ]);
+  });
+
+  it('should not import over, or delete, a record changed by a concurrent request', async () => {
+    const shredded = await encrypt({ amount: 10 });
+    const taken = await encrypt({ amount: 11 });
+    const removed = await encrypt({ amount: 12 });
+    for (const record of [shredded, taken]) await store.delete(record.id);
+
+    // Another request imports (and for one ID also shreds) the record right
+    // after the route's checks, while it is still being decrypted
+    const { getTombstone, shred } = store;
+    store.getTombstone = async (id) => {
+      const tombstone = await getTombstone(id);
+      const record = [shredded, taken].find((candidate) => candidate.id === id);
+      if (record && !tombstone && !(await store.get(id))) {
+        await store.put(record);
+        if (record === shredded) {
+          await shred({ id, partyId: 'party_a', createdAt: record.createdAt, shreddedAt: new Date().toISOString(), reason: 'deleted' });
+        }
+      }
+      return tombstone;
+    };
+    // A record removed without a tombstone while the delete was under way
+    store.shred = async (tombstone) => tombstone.id === removed.id ? store.delete(removed.id).then(() => false) : shred(tombstone);
+
+    try {
+      const gone = await request('/tx/import', { method: 'POST', key: 'alpha-key', body: JSON.stringify(shredded) });
+      expect(gone.status).toBe(410);
+      expect(await store.get(shredded.id)).toBeUndefined();
+
+      const conflict = await request('/tx/import', { method: 'POST', key: 'alpha-key', body: JSON.stringify(taken) });
+      expect(conflict.status).toBe(409);
+      expect(await conflict.json()).toEqual({ error: 'Transaction already exists' });
+
+      const missing = await request(`/tx/${removed.id}`, { method: 'DELETE', key: 'alpha-key' });
+      expect(missing.status).toBe(404);
+      expect(await missing.json()).toEqual({ error: 'Transaction not found' });
+    } finally {
+      store.getTombstone = getTombstone;
+      store.shred = shred;
+    }
+  });
+
+  // ==========================================================================
+  // VALIDATION AND ERRORS
+  // ==========================================================================
+  describe('Validation and Errors', () => {
+    it.each([
+      [{ payload: {} }, 'partyId is required'],
+      [{ partyId: 42, payload: {} }, 'partyId must be a string'],
+      [{ partyId: '  ', payload: {} }, 'partyId cannot be empty'],
+      [{ partyId: 'party_a' }, 'payload is required'],
+      [{ partyId: 'party_a', payload: {}, fields: 'a' }, 'fields must be an array'],
+      [{ partyId: 'party_a', payload: {}, fields: ['a', 1] }, 'fields[1] must be a string'],
+      [{ partyId: 'party_a', payload: { a: 1 }, fields: ['b'] }, 'Field "b" is not in the payload'],
+      [{ partyId: 'party_a', payload: [1], fields: ['a'] }, 'payload must be a JSON object to encrypt individual fields'],
+      [{ partyId: 'party_a', payload: { a: {} }, searchable: ['a'] }, 'Field "a" must be a string, number, boolean or null to be searchable'],
+      [{ partyId: 'party_a', payload: { a: 1 }, searchable: [] }, 'searchable must be a non-empty array of field names'],
+      [{ partyId: 'party_a', payload: {}, expiresAt: 'next week' }, 'expiresAt must be an ISO 8601 date'],
+      [{ partyId: 'party_a', payload: {}, expiresAt: '2020-01-01T00:00:00Z' }, 'expiresAt must be in the future']
+    ])('should reject the encrypt body %j', async (body, error) => {
+      const response = await request('/tx/encrypt', { method: 'POST', key: 'alpha-key', body: JSON.stringify(body) });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error });
+    });
+
+    it.each([
+      [{ field: 'account', value: 'x' }, 'partyId is required'],
+      [{ partyId: 'party_a', value: 'x' }, 'field is required'],
+      [{ partyId: 'party_a', field: '', value: 'x' }, 'field must be a string of 1 to 128 characters'],
+      [{ partyId: 'party_a', field: 'account', value: ['x'] }, 'value must be a string, number, boolean or null'],
+      [{ partyId: 'party_a', field: 'account', value: 'x', limit: 0 }, 'limit must be an integer between 1 and 100'],
+      [{ partyId: 'party_a', field: 'account', value: 'x', cursor: 'nope' }, 'cursor is invalid']
+    ])('should reject the search body %j', async (body, error) => {
+      const response = await request('/tx/search', { method: 'POST', key: 'alpha-key', body: JSON.stringify(body) });
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error });
+    });
+
+    it('should refuse parties outside the credential scope', async () => {
+      const response = await request('/tx/encrypt', {
+        method: 'POST',
+        key: 'alpha-key',
+        body: JSON.stringify({ partyId: 'party_b', payload: {} })
+      });
+      expect(response.status).toBe(403);
+
+      const search = await request('/tx/search', {
+        method: 'POST',
+        key: 'alpha-key',
+        body: JSON.stringify({ partyId: 'party_b', field: 'account', value: 'x' })
+      });
+      expect(search.status).toBe(403);
+    });
+
+    it('should return 404 for an unknown transaction', async () => {
+      const response = await request(`/tx/${crypto.randomUUID()}/decrypt`, { method: 'POST', key: 'alpha-key' });
+      expect(response.status).toBe(404);
+    });
+
+    it('should return a generic error for a tampered record', async () => {
+      const record = await encrypt({ amount: 5 });
+      await store.put({ ...record, payload_tag: '00'.repeat(16) });
+
+      const response = await request(`/tx/${record.id}/decrypt`, { method: 'POST', key: 'alpha-key' });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Decryption failed' });
+    });
+
+    it('should restrict admin routes to admin credentials', async () => {
+      expect((await request('/admin/audit/verify', { key: 'alpha-key' })).status).toBe(403);
+
+      const response = await request('/admin/audit/verify', { key: 'admin-key' });
+      expect(await response.json()).toMatchObject({ valid: true });
+    });
+  });
+
+  // ==========================================================================
+  // STREAMING
+  // ==========================================================================
+  it('should stream content up and back down', async () => {
+    const content = crypto.randomBytes(200_000);
+    const upload = await request('/tx/stream?partyId=party_a&filename=data.bin', {
+      method: 'POST',
+      key: 'alpha-key',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: content
+    });
+    const record = await upload.json() as TxSecureRecord;
+    expect(record.stream?.size).toBe(content.length);
+
+    const download = await request(`/tx/${record.id}/stream`, { key: 'alpha-key' });
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(content);
+
+    // The stored size is not authenticated, so it is never sent as the length
+    await store.put({ ...record, stream: { ...record.stream!, size: 1 } });
+    const resized = await request(`/tx/${record.id}/stream`, { key: 'alpha-key' });
+    expect(resized.headers.get('content-length')).toBeNull();
+    expect(resized.headers.get('transfer-encoding')).toBe('chunked');
+    expect(Buffer.from(await resized.arrayBuffer())).toEqual(content);
+  });
+
+  // ==========================================================================
+  // KEY FAILURES
+  // ==========================================================================
+  it('should not leak key errors on encrypt', async () => {
+    const failing: KeyProvider = {
+      name: 'local',
+      keyId: () => 'broken',
+      wrap: async () => { throw new Error('KMS credentials expired for arn:secret'); },
+      unwrap: async () => { throw new Error('KMS credentials expired for arn:secret'); }
+    };
+    const broken = await serve({
+      logger: false,
+      store: createMemoryStore(),
+      keys: { active: failing, providers: new Map([['local', failing]]) },
+      auth: loadAuthConfigFromEnv()
+    });
+
+    try {
+      const response = await fetch(`${broken.url}/tx/encrypt`, {
+        method: 'POST',
+        headers: { 'Authorization': 'Bearer alpha-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partyId: 'party_a', payload: {} })
+      });
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Encryption failed' });
+    } finally {
+      await broken.close();
+    }
+  });
+
+  // ==========================================================================
+  // EXPORT BUNDLES
+  // ==========================================================================
+  it('should move records between vaults in a signed bundle', async () => {
+    const bundleKey = crypto.randomBytes(32);
+    const sourceKey = crypto.randomBytes(32);
+    const source = await serve({ logger: false, store: createMemoryStore(), keys: localKeys(sourceKey), auth: loadAuthConfigFromEnv(), bundleKey });
+    // The destination knows the source key as version 1 and wraps new DEKs with version 2
+    const destinationKeyring = createKeyring({ 1: sourceKey, 2: crypto.randomBytes(32) }, 2);
+    const destinationLocal = createLocalKeyProvider(destinationKeyring);
+    const destinationStore = createMemoryStore();
+    const destination = await serve({
+      logger: false,
+      store: destinationStore,
+      keys: { active: destinationLocal, providers: new Map([['local', destinationLocal]]), keyring: destinationKeyring },
+      auth: loadAuthConfigFromEnv(),
+      bundleKey
+    });
+    const admin = { 'Authorization': 'Bearer admin-key' };
+    const importBundle = (query: string, bundle: unknown) => fetch(`${destination.url}/admin/import${query}`, {
+      method: 'POST',
+      headers: { ...admin, 'Content-Type': 'application/json' },
+      body: JSON.stringify(bundle)
+    });
+
+    try {
+      const created = await fetch(`${source.url}/tx/encrypt`, {
+        method: 'POST',
+        headers: { 'Authorization': 'Bearer alpha-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partyId: 'party_a', payload: { amount: 1 } })
+      });
+      const record = await created.json() as TxSecureRecord;
+
+      const bundle = await (await fetch(`${source.url}/admin/export`, { headers: admin })).json() as { manifest: Record<string, unknown>; ct: string };
+      expect(bundle.manifest).toMatchObject({ count: 1, mk_versions: [1] });
+      expect(JSON.stringify(bundle)).not.toContain(record.dek_wrapped);
+
+      const dryRun = await importBundle('?dryRun=true&wrapping=rewrap', bundle);
+      expect(await dryRun.json()).toMatchObject({ dryRun: true, imported: 1, results: [{ id: record.id, status: 'imported' }] });
+      expect(await destinationStore.list()).toEqual([]);
+
+      const imported = await importBundle('?wrapping=rewrap', bundle);
+      expect(await imported.json()).toMatchObject({ dryRun: false, wrapping: 'rewrap', imported: 1, failed: 0 });
+      expect((await destinationStore.get(record.id))?.mk_version).toBe(2);
+
+      const decrypted = await fetch(`${destination.url}/tx/${record.id}/decrypt`, { method: 'POST', headers: { 'Authorization': 'Bearer alpha-key' } });
+      expect(await decrypted.json()).toEqual({ payload: { amount: 1 } });
+
+      // Importing again skips what is already there, or was shredded since
+      expect(await (await importBundle('', bundle)).json()).toMatchObject({ imported: 0, skipped: 1 });
+      await fetch(`${destination.url}/tx/${record.id}`, { method: 'DELETE', headers: { 'Authorization': 'Bearer alpha-key' } });
+      expect(await (await importBundle('', bundle)).json()).toMatchObject({
+        imported: 0,
+        skipped: 1,
+        results: [{ id: record.id, status: 'skipped', reason: 'shredded' }]
+      });
+      expect(await destinationStore.get(record.id)).toBeUndefined();
+
+      const truncated = await importBundle('', { ...bundle, ct: bundle.ct.slice(0, -2) });
+      expect(truncated.status).toBe(400);
+      expect(await truncated.json()).toEqual({ error: 'Bundle signature does not verify (wrong bundle key or modified bundle)' });
+
+      expect((await importBundle('?wrapping=move', bundle)).status).toBe(400);
+      expect((await fetch(`${source.url}/admin/export`, { headers: { 'Authorization': 'Bearer alpha-key' } })).status).toBe(403);
+    } finally {
+      await source.close();
+      await destination.close();
+    }
+  });
+
+  // ==========================================================================
+  // PARTY KEYS
+  // ==========================================================================
+  it('should re-key and shred one party without touching another', async () => {
+    const keyring = createKeyring({ 1: crypto.randomBytes(32) }, 1);
+    const partyKeys = createMemoryPartyKeyStore();
+    const local = createLocalKeyProvider(keyring, 'local', partyKeys);
+    const partyStore = createMemoryStore();
+    const vault = await serve({
+      logger: false,
+      store: partyStore,
+      keys: { active: local, providers: new Map([['local', local]]), keyring, partyKeys },
+      auth: loadAuthConfigFromEnv()
+    });
+    const send = (route: string, method: string, key = 'admin-key') => fetch(`${vault.url}${route}`, { method, headers: { 'Authorization': `Bearer ${key}` } });
+
+    try {
+      const created = await fetch(`${vault.url}/tx/encrypt`, {
+        method: 'POST',
+        headers: { 'Authorization': 'Bearer alpha-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partyId: 'party_a', payload: { amount: 1 } })
+      });
+      const record = await created.json() as TxSecureRecord;
+      expect(record.kek_version).toBe(1);
+      const other = await encryptEnvelopeWithProvider('party_b', { amount: 2 }, local);
+      await partyStore.put(other);
+
+      const rekeyed = await send('/admin/parties/party_a/rekey', 'POST');
+      expect(await rekeyed.json()).toMatchObject({
+        partyId: 'party_a',
+        kekVersion: 2,
+        retired: [1],
+        rewrapped: 1,
+        failed: 0,
+        results: [{ id: record.id, status: 'rewrapped', from: 1, to: 2 }]
+      });
+      expect((await partyStore.get(record.id))?.kek_version).toBe(2);
+      expect(await partyStore.get(other.id)).toEqual(other);
+      expect((await send(`/tx/${record.id}/decrypt`, 'POST', 'alpha-key').then((response) => response.json()))).toEqual({ payload: { amount: 1 } });
+
+      const shredded = await send('/admin/parties/party_a', 'DELETE');
+      expect(await shredded.json()).toMatchObject({ partyId: 'party_a', keyVersions: 1, shredded: 1, failed: 0 });
+      expect(await partyKeys.list('party_a')).toEqual([]);
+      expect((await send(`/tx/${record.id}`, 'GET', 'alpha-key')).status).toBe(410);
+      expect((await partyKeys.list('party_b')).map(({ version }) => version)).toEqual([1]);
+      expect(await partyStore.get(other.id)).toEqual(other);
+
+      // A party written to again never reuses a shredded version, and copies
+      // under a shredded version read as shredded: past the lockout limit of
+      // 5 failures, none of them is counted as tampering
+      const later = await encryptEnvelopeWithProvider('party_a', { amount: 3 }, local);
+      expect(later.kek_version).toBe(3);
+      await partyKeys.destroy('party_a');
+      const imported = await fetch(`${vault.url}/tx/import`, {
+        method: 'POST',
+        headers: { 'Authorization': 'Bearer alpha-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify(later)
+      });
+      expect(imported.status).toBe(410);
+      await partyStore.put(later);
+      for (let attempt = 0; attempt < 6; attempt++) {
+        const decrypted = await send(`/tx/${later.id}/decrypt`, 'POST', 'alpha-key');
+        expect(decrypted.status).toBe(410);
+        expect(await decrypted.json()).toEqual({ error: 'Transaction has been shredded' });
+      }
+
+      expect((await send('/admin/parties/party_a/rekey', 'POST', 'alpha-key')).status).toBe(403);
+      // Without party keys there is nothing to re-key
+      const unconfigured = await fetch(`${served.url}/admin/parties/party_a/rekey`, { method: 'POST', headers: { 'Authorization': 'Bearer admin-key' } });
+      expect(unconfigured.status).toBe(500);
+      expect(await unconfigured.json()).toEqual({ error: 'Party keys are not configured' });
+    } finally {
+      await vault.close();
+    }
+  });
+
+  // ==========================================================================
+  // RATE LIMITING
+  // ==========================================================================
+  it('should rate limit decrypts and lock out a failing record', async () => {
+    const limitedStore = createMemoryStore();
+    const limitedAudit = createAuditLog(createMemoryAuditSink());
+    const limited = await serve({
+      logger: false,
+      store: limitedStore,
+      audit: limitedAudit,
+      keys: localKeys(crypto.randomBytes(32)),
+      auth: loadAuthConfigFromEnv(),
+      rateLimiter: createRateLimiter({
+        client: { limit: 4, windowMs: 60_000 },
+        record: null,
+        lockout: { limit: 2, windowMs: 60_000 }
+      })
+    });
+    const decrypt = (id: string) => fetch(`${limited.url}/tx/${id}/decrypt`, { method: 'POST', headers: { 'Authorization': 'Bearer alpha-key' } });
+
+    try {
+      const created = await fetch(`${limited.url}/tx/encrypt`, {
+        method: 'POST',
+        headers: { 'Authorization': 'Bearer alpha-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partyId: 'party_a', payload: { amount: 1 } })
+      });
+      const record = await created.json() as TxSecureRecord;
+      await limitedStore.put({ ...record, payload_tag: '00'.repeat(16) });
+
+      const first = await decrypt(record.id);
+      expect(first.status).toBe(400);
+      expect(first.headers.get('ratelimit-limit')).toBe('4');
+      expect(first.headers.get('ratelimit-remaining')).toBe('3');
+      expect(Number(first.headers.get('ratelimit-reset'))).toBeGreaterThan(0);
+
+      // The second failure locks the record, even once it is intact again
+      expect((await decrypt(record.id)).status).toBe(400);
+      await limitedStore.put(record);
+      const locked = await decrypt(record.id);
+      expect(locked.status).toBe(429);
+      expect(await locked.json()).toEqual({ error: 'Transaction is temporarily locked after repeated decryption failures' });
+      expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(0);
+
+      // Locked attempts still count against the client, so one more uses up the budget
+      expect((await decrypt(crypto.randomUUID())).status).toBe(404);
+      const limitedOut = await decrypt(crypto.randomUUID());
+      expect(limitedOut.status).toBe(429);
+      expect(limitedOut.headers.get('ratelimit-remaining')).toBe('0');
+      expect(await limitedOut.json()).toEqual({ error: 'Too many decryption requests, try again later' });
+
+      const denied = await limitedAudit.query({ action: 'decrypt', outcome: 'denied', limit: 10 });
+      expect(denied.map((entry) => entry.reason)).toEqual([
+        'record locked after repeated decryption failures',
+        'client rate limit exceeded'
+      ]);
+
+      // A batch is limited ID by ID
+      const batched = await fetch(`${limited.url}/tx/batch/decrypt`, {
+        method: 'POST',
+        headers: { 'Authorization': 'Bearer alpha-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: [crypto.randomUUID()] })
+      });
+      expect((await batched.json()).results[0]).toMatchObject({ statusCode: 429, error: 'Too many decryption requests, try again later' });
+    } finally {
+      await limited.close();
+    }
+  });
+
+  it('should only charge a record\'s limit to callers allowed to read it', async () => {
+    process.env.API_KEYS = 'alpha-key:party_a,beta-key:party_b';
+    const limitedStore = createMemoryStore();
+    const limited = await serve({
+      logger: false,
+      store: limitedStore,
+      keys: localKeys(crypto.randomBytes(32)),
+      auth: loadAuthConfigFromEnv(),
+      rateLimiter: createRateLimiter({
+        client: null,
+        record: { limit: 4, windowMs: 60_000 },
+        lockout: { limit: 2, windowMs: 60_000 }
+      })
+    });
+    process.env.API_KEYS = 'alpha-key:party_a';
+    const decrypt = (id: string, key = 'alpha-key') => fetch(`${limited.url}/tx/${id}/decrypt`, { method: 'POST', headers: { 'Authorization': `Bearer ${key}` } });
+
+    try {
+      const created = await fetch(`${limited.url}/tx/encrypt`, {
+        method: 'POST',
+        headers: { 'Authorization': 'Bearer alpha-key', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ partyId: 'party_a', payload: { amount: 1 } })
+      });
+      const record = await created.json() as TxSecureRecord;
+
+      // Another party's credential is refused without spending the record's budget
+      for (let i = 0; i < 3; i++) {
+        expect((await decrypt(record.id, 'beta-key')).status).toBe(403);
+      }
+      const owner = await decrypt(record.id);
+      expect(owner.status).toBe(200);
+      expect(owner.headers.get('ratelimit-remaining')).toBe('3');
+
+      // Keys that cannot be used are a server failure, not tampering: no lockout
+      await limitedStore.put({ ...record, key_provider: 'kms' });
+      const unavailable = await decrypt(record.id);
+      expect(unavailable.status).toBe(503);
+      expect(await unavailable.json()).toEqual({ error: 'Keys are unavailable, try again later' });
+      expect((await decrypt(record.id)).status).toBe(503);
+      await limitedStore.put(record);
+      expect((await decrypt(record.id)).status).toBe(200);
+      expect((await decrypt(record.id)).status).toBe(429);
+    } finally {
+      await limited.close();
+    }
+  });
+
+  // ==========================================================================
+  // KNOWN-ANSWER VECTORS
+  // ==========================================================================
+  it('should decrypt every known-answer record', async () => {
+    const keyring = createKeyring(
+      Object.fromEntries(Object.entries(knownAnswerVectors.masterKeys).map(([version, key]) => [version, Buffer.from(key, 'hex')])),
+      2
+    );
+    const partyKeysFile = path.join(blobDir, `vector-party-keys-${crypto.randomUUID()}.json`);
+    fs.writeFileSync(partyKeysFile, JSON.stringify(knownAnswerVectors.partyKeys));
+    const partyKeys = createFilePartyKeyStore(partyKeysFile);
+    const local = createLocalKeyProvider(keyring, 'local', partyKeys);
+    const vectorStore = createMemoryStore();
+    const vault = await serve({
+      logger: false,
+      store: vectorStore,
+      keys: { active: local, providers: new Map([['local', local]]), keyring, partyKeys },
+      auth: loadAuthConfigFromEnv()
+    });
+
+    try {
+      for (const { name, record, plaintext } of knownAnswerVectors.envelope) {
+        await vectorStore.put(record);
+        const decrypted = await fetch(`${vault.url}/tx/${record.id}/decrypt`, { method: 'POST', headers: { 'Authorization': 'Bearer alpha-key' } });
+        expect(decrypted.status, name).toBe(200);
+        expect(await decrypted.json(), name).toEqual({ payload: plaintext });
+      }
+    } finally {
+      await vault.close();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { secretCheckValue, splitSecret } from '@mirfa/crypto';
+import { buildApp } from '../src/app.js';
+import { createSeal, unsealConfigFromEnv } from '../src/seal.js';
+import { parseMasterKeys } from '../src/keys.js';
+
+// ============================================================================
+// TEST SUITE: SEALED STARTUP
+// ============================================================================
+
+describe('Sealed Startup', () => {
+  const env = { ...process.env };
+  const secret = Buffer.from(`1:${crypto.randomBytes(32).toString('hex')},2:${crypto.randomBytes(32).toString('hex')}`);
+  const check = secretCheckValue(secret);
+
+  beforeEach(() => {
+    delete process.env.MASTER_KEY;
+    delete process.env.MASTER_KEYS;
+    delete process.env.KEY_PROVIDER;
+    process.env.API_KEYS = 'alpha-key:party_a';
+    process.env.ADMIN_API_KEYS = 'admin-key';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should unseal once the threshold of shares is in, and zero the keys on seal', () => {
+    const shares = splitSecret(secret, 5, 3);
+    const seal = createSeal({ threshold: 3, check });
+
+    expect(seal.status()).toEqual({ sealed: true, threshold: 3, progress: 0 });
+    expect(seal.submit(shares[4]).progress).toBe(1);
+    expect(() => seal.submit(shares[4])).toThrow('Share 5 has already been submitted');
+    expect(seal.submit(shares[1]).progress).toBe(2);
+    expect(seal.submit(shares[2])).toEqual({ sealed: false, threshold: 3, progress: 3 });
+
+    const keyring = seal.keyring()!;
+    expect(keyring.activeVersion).toBe(2);
+    const key = keyring.keys.get(2)!;
+
+    seal.seal();
+    expect(seal.status().sealed).toBe(true);
+    expect(seal.keyring()).toBeUndefined();
+    expect(key.equals(Buffer.alloc(32))).toBe(true);
+  });
+
+  it('should parse the rebuilt keyring from its bytes, into keys of its own', () => {
+    const bytes = Buffer.from(` ${secret.toString('utf8').replace(',', ' , ')}\n`);
+    const keyring = parseMasterKeys(bytes, 'Unsealed keyring');
+    expect(keyring).toEqual(parseMasterKeys(secret.toString('utf8'), 'MASTER_KEYS'));
+
+    const key = Buffer.from(keyring.keys.get(1)!);
+    bytes.fill(0);
+    expect(keyring.keys.get(1)).toEqual(key);
+
+    expect(() => parseMasterKeys(Buffer.from(`1:${'g'.repeat(64)}`), 'Unsealed keyring')).toThrow('Unsealed keyring version 1 must contain only hexadecimal characters');
+    expect(() => parseMasterKeys(Buffer.from('1'), 'Unsealed keyring')).toThrow('Unsealed keyring entries must look like');
+  });
+
+  it('should discard every share when they do not rebuild the keyring', () => {
+    const shares = splitSecret(secret, 3, 2);
+    const others = splitSecret(Buffer.from(`1:${crypto.randomBytes(32).toString('hex')},2:${crypto.randomBytes(32).toString('hex')}`), 3, 2);
+    const seal = createSeal({ threshold: 2, check });
+
+    seal.submit(shares[0]);
+    expect(() => seal.submit(others[1])).toThrow('Shares do not rebuild the master keyring');
+    expect(seal.status()).toEqual({ sealed: true, threshold: 2, progress: 0 });
+
+    seal.submit(shares[2]);
+    expect(seal.submit(shares[1]).sealed).toBe(false);
+  });
+
+  it('should read and validate the sealed mode settings', () => {
+    expect(unsealConfigFromEnv()).toBeUndefined();
+
+    process.env.UNSEAL_THRESHOLD = '3';
+    process.env.UNSEAL_CHECK = check.toUpperCase();
+    expect(unsealConfigFromEnv()).toEqual({ threshold: 3, check });
+
+    process.env.MASTER_KEY = crypto.randomBytes(32).toString('hex');
+    expect(() => unsealConfigFromEnv()).toThrow('MASTER_KEY and MASTER_KEYS must not be set in sealed mode');
+    delete process.env.MASTER_KEY;
+
+    process.env.UNSEAL_THRESHOLD = '1';
+    expect(() => unsealConfigFromEnv()).toThrow('UNSEAL_THRESHOLD must be an integer from 2 to 255');
+    process.env.UNSEAL_THRESHOLD = '2';
+    process.env.UNSEAL_CHECK = 'abc';
+    expect(() => unsealConfigFromEnv()).toThrow('UNSEAL_CHECK must be a 64-character hex string');
+  });
+
+  it('should refuse crypto routes until unsealed', async () => {
+    const app = buildApp({ logger: false, unseal: { threshold: 2, check } });
+    const [first, second] = splitSecret(secret, 3, 2);
+    const admin = { authorization: 'Bearer admin-key' };
+    const encrypt = () => app.inject({
+      method: 'POST',
+      url: '/tx/encrypt',
+      headers: { authorization: 'Bearer alpha-key' },
+      payload: { partyId: 'party_a', payload: { amount: 1 } }
+    });
+
+    try {
+      expect((await encrypt()).statusCode).toBe(503);
+      expect((await app.inject({ method: 'GET', url: '/' })).statusCode).toBe(200);
+      expect((await app.inject({ method: 'GET', url: '/seal' })).json()).toEqual({ sealed: true, threshold: 2, progress: 0 });
+
+      // Unsealing is for admins only
+      const refused = await app.inject({ method: 'POST', url: '/admin/unseal', headers: { authorization: 'Bearer alpha-key' }, payload: { share: first } });
+      expect(refused.statusCode).toBe(403);
+
+      const bad = await app.inject({ method: 'POST', url: '/admin/unseal', headers: admin, payload: { share: 'not-a-share' } });
+      expect(bad.statusCode).toBe(400);
+
+      await app.inject({ method: 'POST', url: '/admin/unseal', headers: admin, payload: { share: first } });
+      const unsealed = await app.inject({ method: 'POST', url: '/admin/unseal', headers: admin, payload: { share: second } });
+      expect(unsealed.json()).toEqual({ sealed: false, threshold: 2, progress: 2 });
+
+      const encrypted = await encrypt();
+      expect(encrypted.statusCode).toBe(200);
+      expect(encrypted.json().mk_version).toBe(2);
+
+      await app.inject({ method: 'POST', url: '/admin/seal', headers: admin });
+      expect((await encrypt()).statusCode).toBe(503);
+
+      // Shares are never written to the audit log
+      const audit = await app.inject({ method: 'GET', url: '/admin/audit?action=unseal', headers: admin });
+      const reasons = audit.json().entries.map((entry: { reason?: string }) => entry.reason);
+      expect(reasons).toContain('progress=1/2');
+      expect(JSON.stringify(audit.json())).not.toContain(first);
+    } finally {
+      await app.close();
+    }
+  });
+});
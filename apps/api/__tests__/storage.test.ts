@@ -0,0 +1,215 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { createBlindIndex, createKeyring, encryptEnvelope } from '@mirfa/crypto';
+import { TxStore, createMemoryStore, createSqliteStore, createJsonlStore } from '../src/storage.js';
+
+// ============================================================================
+// TEST SUITE: STORAGE BACKENDS
+// ============================================================================
+// Every backend must satisfy the same TxStore contract, so the routes
+// behave identically whichever one is configured.
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-store-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const masterKey = crypto.randomBytes(32);
+
+const backends: Array<{ name: string; open: (file: string) => TxStore; persistent: boolean }> = [
+  { name: 'memory', open: () => createMemoryStore(), persistent: false },
+  { name: 'sqlite', open: (file) => createSqliteStore(file), persistent: true },
+  { name: 'jsonl', open: (file) => createJsonlStore(file), persistent: true }
+];
+
+describe.each(backends)('$name store', ({ name, open, persistent }) => {
+  it('should put, get, list and delete records', async () => {
+    const store = open(path.join(dir, `${name}-crud`));
+    const first = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+    const second = encryptEnvelope('party_b', { amount: 2 }, masterKey);
+
+    await store.put(first);
+    await store.put(second);
+
+    expect(await store.get(first.id)).toEqual(first);
+    expect(await store.get('missing')).toBeUndefined();
+    expect((await store.list()).map((r) => r.id)).toEqual([first.id, second.id]);
+
+    expect(await store.delete(first.id)).toBe(true);
+    expect(await store.delete(first.id)).toBe(false);
+    expect(await store.get(first.id)).toBeUndefined();
+  });
+
+  it('should replace a record written twice with the same ID', async () => {
+    const store = open(path.join(dir, `${name}-replace`));
+    const record = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+
+    await store.put(record);
+    await store.put({ ...record, mk_version: 2 });
+
+    expect((await store.get(record.id))?.mk_version).toBe(2);
+    expect(await store.list()).toHaveLength(1);
+  });
+
+  it('should only insert under an ID never used before', async () => {
+    const store = open(path.join(dir, `${name}-insert`));
+    const record = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+
+    expect(await store.insert(record)).toBe(true);
+    expect(await store.insert({ ...record, mk_version: 2 })).toBe(false);
+    expect(await store.get(record.id)).toEqual(record);
+
+    await store.shred({ id: record.id, partyId: 'party_a', createdAt: record.createdAt, shreddedAt: new Date().toISOString(), reason: 'deleted' });
+    expect(await store.insert(record)).toBe(false);
+    expect(await store.get(record.id)).toBeUndefined();
+  });
+
+  it('should only replace a record that is still stored', async () => {
+    const store = open(path.join(dir, `${name}-conditional`));
+    const record = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+    const shredded = encryptEnvelope('party_a', { amount: 2 }, masterKey);
+
+    expect(await store.replace(record)).toBe(false);
+    expect(await store.get(record.id)).toBeUndefined();
+
+    await store.put(record);
+    await store.put(shredded);
+    expect(await store.replace({ ...record, mk_version: 2 })).toBe(true);
+    expect((await store.get(record.id))?.mk_version).toBe(2);
+
+    // Racing the shred: the replacement is queued behind it and refused
+    const [wasShredded, replaced] = await Promise.all([
+      store.shred({ id: shredded.id, partyId: 'party_a', createdAt: shredded.createdAt, shreddedAt: new Date().toISOString(), reason: 'deleted' }),
+      store.replace({ ...shredded, mk_version: 2 })
+    ]);
+    expect([wasShredded, replaced]).toEqual([true, false]);
+    expect(await store.get(shredded.id)).toBeUndefined();
+    expect((await store.list()).map((r) => r.id)).toEqual([record.id]);
+  });
+
+  it('should page through one party\'s records newest first', async () => {
+    const store = open(path.join(dir, `${name}-query`));
+    const at = (minute: number) => `2026-01-01T00:0${minute}:00.000Z`;
+
+    // Two records share a timestamp to exercise the id tie-break
+    const records = [at(1), at(2), at(2), at(3)].map((createdAt) => ({
+      ...encryptEnvelope('party_a', { createdAt }, masterKey),
+      createdAt
+    }));
+    for (const record of records) await store.put(record);
+    await store.put(encryptEnvelope('party_b', {}, masterKey));
+
+    const firstPage = await store.query({ partyId: 'party_a', limit: 2 });
+    const secondPage = await store.query({ partyId: 'party_a', limit: 2, before: firstPage[1] });
+    const seen = [...firstPage, ...secondPage];
+
+    expect(seen.map((r) => r.createdAt)).toEqual([at(3), at(2), at(2), at(1)]);
+    expect(new Set(seen.map((r) => r.id)).size).toBe(4);
+
+    const windowed = await store.query({ partyId: 'party_a', from: at(2), to: at(2), limit: 10 });
+    expect(windowed).toHaveLength(2);
+  });
+
+  it('should find records by blind index token', async () => {
+    const store = open(path.join(dir, `${name}-index`));
+    const keyring = createKeyring({ 1: masterKey }, 1);
+    const indexed = (partyId: string, payload: Record<string, string>) => ({
+      ...encryptEnvelope(partyId, payload, masterKey),
+      blind_index: createBlindIndex(partyId, payload, Object.keys(payload), keyring)
+    });
+
+    const match = indexed('party_a', { account: 'AE07' });
+    const replaced = indexed('party_a', { account: 'AE07' });
+    await store.put(match);
+    await store.put(replaced);
+    await store.put(indexed('party_a', { account: 'GB29' }));
+    await store.put(indexed('party_a', { iban: 'AE07' }));
+    await store.put(encryptEnvelope('party_a', {}, masterKey));
+    // Re-indexing a record drops its old tokens
+    await store.put({ ...replaced, blind_index: indexed('party_a', { account: 'XX00' }).blind_index });
+
+    const tokens = Object.values(match.blind_index.tokens);
+    const found = await store.query({ partyId: 'party_a', index: { field: 'account', tokens }, limit: 10 });
+    expect(found.map((r) => r.id)).toEqual([match.id]);
+    expect(await store.query({ partyId: 'party_b', index: { field: 'account', tokens }, limit: 10 })).toEqual([]);
+
+    await store.delete(match.id);
+    expect(await store.query({ partyId: 'party_a', index: { field: 'account', tokens }, limit: 10 })).toEqual([]);
+  });
+
+  it('should shred a record into a tombstone', async () => {
+    const file = path.join(dir, `${name}-shred`);
+    const store = open(file);
+    const shredded = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+    const kept = encryptEnvelope('party_a', { amount: 2 }, masterKey);
+    const tombstone = { id: shredded.id, partyId: 'party_a', createdAt: shredded.createdAt, shreddedAt: new Date().toISOString(), reason: 'deleted' as const };
+
+    await store.put(shredded);
+    await store.put(kept);
+    expect(await store.shred(tombstone)).toBe(true);
+    expect(await store.shred(tombstone)).toBe(false);
+
+    expect(await store.get(shredded.id)).toBeUndefined();
+    expect(await store.getTombstone(shredded.id)).toEqual(tombstone);
+    expect(await store.getTombstone(kept.id)).toBeUndefined();
+    expect((await store.list()).map((r) => r.id)).toEqual([kept.id]);
+
+    if (persistent) {
+      expect(await open(file).getTombstone(shredded.id)).toEqual(tombstone);
+      // No copy of the wrapped DEK is left behind in the backing files
+      for (const entry of fs.readdirSync(dir).filter((f) => f.startsWith(`${name}-shred`))) {
+        expect(fs.readFileSync(path.join(dir, entry)).includes(shredded.dek_wrapped)).toBe(false);
+      }
+    }
+  });
+
+  it('should shred records issued together, each once', async () => {
+    const file = path.join(dir, `${name}-batch`);
+    const store = open(file);
+    const shredded = [1, 2, 3].map((amount) => encryptEnvelope('party_a', { amount }, masterKey));
+    const kept = encryptEnvelope('party_a', { amount: 4 }, masterKey);
+    for (const record of [...shredded, kept]) await store.put(record);
+    const tombstoneOf = (record: typeof kept) => ({ id: record.id, partyId: 'party_a', createdAt: record.createdAt, shreddedAt: new Date().toISOString(), reason: 'expired' as const });
+
+    const rename = vi.spyOn(fs.promises, 'rename');
+    try {
+      const results = await Promise.all([...shredded, shredded[0]].map((record) => store.shred(tombstoneOf(record))));
+      expect(results).toEqual([true, true, true, false]);
+      // The JSON-lines log is rewritten once for the whole batch
+      if (name === 'jsonl') expect(rename).toHaveBeenCalledTimes(1);
+    } finally {
+      rename.mockRestore();
+    }
+
+    expect((await store.list()).map((r) => r.id)).toEqual([kept.id]);
+    if (persistent) {
+      const reopened = open(file);
+      expect((await reopened.list()).map((r) => r.id)).toEqual([kept.id]);
+      expect(await reopened.getTombstone(shredded[2].id)).toMatchObject({ reason: 'expired' });
+      expect(fs.readFileSync(file).includes(shredded[1].dek_wrapped)).toBe(false);
+    }
+  });
+
+  it.runIf(persistent)('should survive being reopened', async () => {
+    const file = path.join(dir, `${name}-reopen`);
+    const kept = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+    const removed = encryptEnvelope('party_a', { amount: 2 }, masterKey);
+
+    const store = open(file);
+    await store.put(kept);
+    await store.put(removed);
+    await store.delete(removed.id);
+
+    const reopened = open(file);
+    expect(await reopened.get(kept.id)).toEqual(kept);
+    expect(await reopened.get(removed.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,2301 @@
+import Fastify, { FastifyBaseLogger, FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import fastifyCors from '@fastify/cors';
+import { Readable, pipeline } from 'node:stream';
+import { pipeline as pipelineAsync } from 'node:stream/promises';
+import { 
+  AlgorithmId, 
+  IntegrityError, 
+  PartyKeyShreddedError, 
+  KeyProvider, 
+  Keyring, 
+  TxSecureRecord, 
+  RecordValidationError, 
+  encryptEnvelopeWithProvider, 
+  revealPayload, 
+  validateFieldNames, 
+  validateSearchableFields, 
+  isSearchableValue, 
+  createBlindIndex, 
+  blindIndexTokens, 
+  MAX_FIELD_NAME_LENGTH, 
+  createEnvelopeEncryptStream, 
+  createEnvelopeDecryptStream, 
+  parseRecord, 
+  createBundle, 
+  openBundle, 
+  SealedPayload, 
+  envelopeFromSealedPayload, 
+  validateSealedPayload, 
+  encryptEnvelopeBatch 
+} from '@mirfa/crypto';
+import { TxStore, TxTombstone, createStoreFromEnv } from './storage.js';
+import { BlobStore, createBlobStoreFromEnv } from './blobs.js';
+import { batchMaxItemsFromEnv, encryptionAlgorithmFromEnv } from './policy.js';
+import { KeyConfig, loadKeyConfigFromEnv, providerFor } from './keys.js';
+import { rewrapStore } from './rotation.js';
+import { rekeyParty, shredParty } from './parties.js';
+import { UnsealConfig, UnsealError, createSeal, registerSealGuard, unsealConfigFromEnv } from './seal.js';
+import { Metrics, createMetrics, hasMetricsToken, metricsTokenFromEnv, registerMetrics } from './metrics.js';
+import { checkReadiness } from './health.js';
+import { upgradeStore } from './upgrade.js';
+import { AuthConfig, canAccessParty, loadAuthConfigFromEnv, registerAuth, requireAdmin } from './auth.js';
+import { EXPOSED_HEADERS, corsOriginFromEnv } from './cors.js';
+import { decodeCursor, encodeCursor, toTxMetadata } from './listing.js';
+import { AuditAction, AuditEvent, AuditLog, AuditOutcome, createAuditLog, createAuditSinkFromEnv } from './audit.js';
+import { IdempotencyStore, createIdempotencyStoreFromEnv, fingerprintBody, isValidIdempotencyKey } from './idempotency.js';
+import { 
+  RetentionPolicy, 
+  isExpired, 
+  loadRetentionPolicyFromEnv, 
+  retentionSweepIntervalFromEnv, 
+  shredRecord, 
+  sweepExpired 
+} from './retention.js';
+import { BundleWrapping, importBundleRecords, loadBundleKeyFromEnv } from './bundles.js';
+import { RateLimitVerdict, RateLimiter, createRateLimiter, loadRateLimitConfigFromEnv } from './ratelimit.js';
+import { formatSchemaErrors, routeSchemas, sharedSchemas } from './schemas.js';
+import { collectOpenApi } from './openapi.js';
+
+/** Version of the HTTP API, as published in the OpenAPI document. */
+export const API_VERSION = '0.1.0';
+
+// ============================================================================
+// APP FACTORY
+// ============================================================================
+// The one Fastify app behind both entry points: src/server.ts (long-running)
+// and api/index.ts (serverless). Every dependency can be injected; anything
+// left out is built from the environment exactly as before.
+
+/**
+ * An error answer worked out apart from the reply, e.g. for one item of a batch.
+ */
+interface RouteFailure {
+  statusCode: number;
+  error: string;
+}
+
+export interface AppOptions {
+  /** false silences logging; a logger instance is used as-is. Defaults to true. */
+  logger?: boolean | FastifyBaseLogger;
+  store?: TxStore;
+  blobs?: BlobStore;
+  /** Key providers (and local keyring). Defaults to loadKeyConfigFromEnv(). */
+  keys?: KeyConfig;
+  /** Start sealed (see seal.ts) instead of loading keys. Defaults to UNSEAL_THRESHOLD / UNSEAL_CHECK unless keys are injected. */
+  unseal?: UnsealConfig;
+  auth?: AuthConfig;
+  audit?: AuditLog;
+  /** Decrypt limits and lockout. Defaults to env limits with in-memory counters. */
+  rateLimiter?: RateLimiter;
+  /** Idempotency-Key memory for POST /tx/encrypt. Defaults to in-memory with IDEMPOTENCY_TTL_SECONDS. */
+  idempotency?: IdempotencyStore;
+  /** Retention days by party. Defaults to RETENTION_DAYS. */
+  retention?: RetentionPolicy;
+  /** Background sweep interval in ms; 0 disables it. Defaults to RETENTION_SWEEP_SECONDS. */
+  sweepIntervalMs?: number;
+  /** Key that seals export bundles. Defaults to BUNDLE_KEY. */
+  bundleKey?: Buffer;
+  encryptionAlg?: AlgorithmId;
+  /** Most items in one batch request. Defaults to BATCH_MAX_ITEMS. */
+  batchMaxItems?: number;
+  corsOrigin?: string | string[];
+  /** Registry behind GET /metrics. Defaults to a new one per app. */
+  metrics?: Metrics;
+  /** Bearer token GET /metrics requires. Defaults to METRICS_TOKEN; unset means public. */
+  metricsToken?: string;
+}
+
+/**
+ * Builds the API with all routes registered. Call ready() or listen() on the result.
+ */
+export function buildApp(options: AppOptions = {}): FastifyInstance {
+  const logger = options.logger ?? true;
+  // Schemas validate without coercion: a partyId of 42 is rejected, not turned into "42"
+  const validation = {
+    ajv: { customOptions: { coerceTypes: false, allowUnionTypes: true } },
+    schemaErrorFormatter: formatSchemaErrors
+  };
+  const fastify = (typeof logger === 'boolean'
+    ? Fastify({ logger, ...validation })
+    : Fastify({ loggerInstance: logger, ...validation })) as unknown as FastifyInstance;
+
+  // ==========================================================================
+  // SCHEMAS & OPENAPI
+  // ==========================================================================
+  // Every route declares a JSON schema (see schemas.ts). Requests are
+  // validated against it and the OpenAPI document at /docs is built from it.
+  // Response schemas only document: replies are serialized as they are.
+  for (const schema of sharedSchemas) {
+    fastify.addSchema(schema);
+  }
+  fastify.setSerializerCompiler(() => (data) => JSON.stringify(data));
+  const buildOpenApi = collectOpenApi(fastify, {
+    title: 'Mirfa Secure Transaction Vault',
+    version: API_VERSION,
+    description: 'Envelope-encrypted transaction storage. Errors are always { "error": string }. A sealed vault answers 503 on every route that needs keys.'
+  }, sharedSchemas);
+
+  // Standard CORS Configuration (Sync-style registration)
+  // Origins come from CORS_ORIGIN; the wildcard is no longer the default
+  fastify.register(fastifyCors, {
+    origin: options.corsOrigin ?? corsOriginFromEnv(),
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key'],
+    exposedHeaders: EXPOSED_HEADERS,
+    credentials: false
+  });
+
+  // ==========================================================================
+  // AUTHENTICATION
+  // ==========================================================================
+  // API keys or HS256 JWTs, each scoped to one or more partyIds (see auth.ts).
+  // Routes marked `config: { public: true }` skip the check.
+  registerAuth(fastify, options.auth ?? loadAuthConfigFromEnv());
+
+  // ==========================================================================
+  // SEALED STARTUP
+  // ==========================================================================
+  // With UNSEAL_THRESHOLD / UNSEAL_CHECK set, no key is configured: routes
+  // that need keys answer 503 until enough Shamir shares are submitted
+  // (see seal.ts and ROUTES 23 to 25). A bad seal configuration is fatal.
+  const unsealConfig = options.unseal ?? (options.keys ? undefined : unsealConfigFromEnv());
+  const seal = unsealConfig && createSeal(unsealConfig);
+  if (seal) {
+    registerSealGuard(fastify, seal);
+  }
+
+  // ==========================================================================
+  // METRICS
+  // ==========================================================================
+  // Every response is counted; routes with `config: { metric }` are also
+  // timed as crypto operations (see metrics.ts). Served at GET /metrics.
+  const metrics = options.metrics ?? createMetrics();
+  const metricsToken = options.metricsToken ?? metricsTokenFromEnv();
+  registerMetrics(fastify, metrics);
+
+  // ==========================================================================
+  // STORAGE
+  // ==========================================================================
+  // Backend is chosen by STORE_BACKEND / STORE_PATH (see storage.ts).
+  // A misconfigured store is fatal: unlike a missing key, there is no
+  // sensible way to serve requests without it.
+  const store = options.store ?? createStoreFromEnv();
+
+  // Streamed content is stored encrypted, outside the record, under BLOB_DIR.
+  const blobs = options.blobs ?? createBlobStoreFromEnv();
+
+  // Records created by Idempotency-Key requests, for replays (see idempotency.ts).
+  const idempotency = options.idempotency ?? createIdempotencyStoreFromEnv();
+
+  // Raw uploads are handed to the route as a stream instead of being buffered
+  fastify.addContentTypeParser('application/octet-stream', (_request, payload, done) => {
+    done(null, payload);
+  });
+
+  // ==========================================================================
+  // AUDIT LOG
+  // ==========================================================================
+  // Hash-chained record of who encrypted, fetched or decrypted which txId.
+  // AUDIT_LOG_PATH selects a JSON-lines file; otherwise entries stay in memory.
+  // Auditing fails closed: if an entry cannot be written, the request fails.
+  const audit = options.audit ?? createAuditLog(createAuditSinkFromEnv());
+
+  /**
+   * Appends an audit entry attributed to the caller of this request.
+   */
+  function recordAudit(request: FastifyRequest, event: Omit<AuditEvent, 'subject' | 'ip'>) {
+    return audit.record({
+      ...event,
+      subject: request.principal?.subject ?? 'anonymous',
+      ip: request.ip
+    });
+  }
+
+  // ==========================================================================
+  // RATE LIMITING
+  // ==========================================================================
+  // Decrypt routes are limited per client and per record, and a record that
+  // keeps failing to decrypt is locked for a while (see ratelimit.ts). The
+  // client limit applies before the record is looked up; the record limit
+  // only once it is found and the caller may read it.
+  // Limits come from DECRYPT_RATE_LIMIT_CLIENT / _RECORD and DECRYPT_LOCKOUT.
+  const rateLimiter = options.rateLimiter ?? createRateLimiter(loadRateLimitConfigFromEnv());
+
+  /**
+   * Counts a decrypt attempt on record `id` against the client's limit, or
+   * against the record's own limit and lock. A refusal is logged and
+   * audited, and comes with the error to answer (429).
+   */
+  async function admitDecrypt(request: FastifyRequest, id: string, scope: 'client' | 'record') {
+    const verdict = scope === 'client'
+      ? await rateLimiter.checkClient(request.principal?.subject ?? request.ip)
+      : await rateLimiter.checkRecord(id);
+    const resetSeconds = verdict.resetAt === undefined ? 0 : Math.max(0, Math.ceil((verdict.resetAt - Date.now()) / 1000));
+    if (verdict.allowed) {
+      return { verdict, resetSeconds };
+    }
+
+    const locked = verdict.reason === 'locked';
+    fastify.log.warn({ txId: id, subject: request.principal?.subject, reason: verdict.reason }, 'Decrypt refused by rate limit');
+    await recordAudit(request, { 
+      action: 'decrypt', 
+      outcome: 'denied', 
+      txId: id, 
+      reason: locked ? 'record locked after repeated decryption failures' : `${verdict.reason} rate limit exceeded` 
+    });
+    return { 
+      verdict, 
+      resetSeconds, 
+      error: locked ? 'Transaction is temporarily locked after repeated decryption failures' : 'Too many decryption requests, try again later' 
+    };
+  }
+
+  /**
+   * Sets the RateLimit-* headers from a verdict, unless an earlier check of
+   * the same request left fewer requests remaining.
+   */
+  function setRateLimitHeaders(reply: FastifyReply, verdict: RateLimitVerdict, resetSeconds: number) {
+    if (verdict.limit === undefined || verdict.remaining === undefined) return;
+    const remaining = reply.getHeader('RateLimit-Remaining');
+    if (remaining !== undefined && Number(remaining) <= verdict.remaining) return;
+
+    reply
+      .header('RateLimit-Limit', verdict.limit)
+      .header('RateLimit-Remaining', verdict.remaining)
+      .header('RateLimit-Reset', resetSeconds);
+  }
+
+  /**
+   * preHandler for decrypt routes: counts the attempt against the client's
+   * limit and answers 429 once it is reached.
+   */
+  async function limitDecrypt(request: FastifyRequest, reply: FastifyReply) {
+    const { id } = request.params as { id: string };
+    const { verdict, resetSeconds, error } = await admitDecrypt(request, id, 'client');
+
+    setRateLimitHeaders(reply, verdict, resetSeconds);
+    if (error) {
+      return reply.status(429).header('Retry-After', resetSeconds).send({ 
+        error 
+      });
+    }
+  }
+
+  /**
+   * Counts an authorized decrypt of an existing record against its limit
+   * and lock. Sets the headers on `reply` when there is one (single-record routes).
+   */
+  async function limitRecord(request: FastifyRequest, id: string, reply?: FastifyReply): Promise<RouteFailure | undefined> {
+    const { verdict, resetSeconds, error } = await admitDecrypt(request, id, 'record');
+    if (reply) {
+      setRateLimitHeaders(reply, verdict, resetSeconds);
+      if (error) reply.header('Retry-After', resetSeconds);
+    }
+    return error ? { statusCode: 429, error } : undefined;
+  }
+
+  /**
+   * Resolves the key provider a record was wrapped by. Throws when keys are
+   * not loaded (e.g. a sealed vault) or the provider is not configured.
+   */
+  function recordProvider(record: TxSecureRecord): KeyProvider {
+    return providerFor(getKeys(), record);
+  }
+
+  /**
+   * Logs, audits and answers a decrypt that could not use its keys: sealed,
+   * a missing key version or provider, an unreachable KMS. That says nothing
+   * about the record, so it is a 503 and does not count towards the lockout.
+   */
+  async function keysUnavailable(request: FastifyRequest, action: AuditAction, record: TxSecureRecord, err: Error): Promise<RouteFailure> {
+    fastify.log.error({ txId: record.id, error: err.message }, 'Decryption failed - keys unavailable');
+    await recordAudit(request, { action, outcome: 'failure', txId: record.id, partyId: record.partyId, reason: `keys unavailable: ${err.message}` });
+    request.failureReason = 'server_error';
+    return { statusCode: 503, error: 'Keys are unavailable, try again later' };
+  }
+
+  /**
+   * Logs, audits and answers a failed unwrap or decrypt. Only a failed
+   * authentication (IntegrityError) is possible tampering and counts
+   * towards the record's lockout. A record whose party key was destroyed
+   * is shredded; anything else is keysUnavailable.
+   */
+  async function decryptFailure(request: FastifyRequest, action: AuditAction, record: TxSecureRecord, err: Error): Promise<RouteFailure> {
+    if (err instanceof PartyKeyShreddedError) {
+      fastify.log.info({ txId: record.id, error: err.message }, 'Request for transaction whose party key was shredded');
+      await recordAudit(request, { action, outcome: 'not_found', txId: record.id, partyId: record.partyId, reason: `shredded (party key): ${err.message}` });
+      return { statusCode: 410, error: 'Transaction has been shredded' };
+    }
+    if (!(err instanceof IntegrityError)) {
+      return keysUnavailable(request, action, record, err);
+    }
+
+    // Log the full error internally for debugging
+    // This could indicate tampering, corrupted data, or wrong key
+    fastify.log.warn({ 
+      txId: record.id, 
+      error: err.message 
+    }, 'Decryption failed - possible tampering or data corruption');
+    await recordAudit(request, { 
+      action, 
+      outcome: 'failure', 
+      txId: record.id, 
+      partyId: record.partyId, 
+      reason: `possible tampering: ${err.message}` 
+    });
+    await rateLimiter.recordFailure(record.id);
+    request.failureReason = 'integrity';
+
+    // Return generic error to client
+    // SECURITY: We don't reveal WHY decryption failed
+    // This prevents attackers from learning about our crypto implementation
+    return { statusCode: 400, error: 'Decryption failed' };
+  }
+
+  // ==========================================================================
+  // RETENTION & CRYPTO-SHREDDING
+  // ==========================================================================
+  // Records past their expiresAt or their party's retention period are
+  // shredded: replaced by a tombstone that holds no key material (see
+  // retention.ts). A background sweeper does this every RETENTION_SWEEP_SECONDS,
+  // and any expired record a route touches is shredded on the spot.
+  const retention = options.retention ?? loadRetentionPolicyFromEnv();
+  const sweepIntervalMs = options.sweepIntervalMs ?? retentionSweepIntervalFromEnv();
+
+  /**
+   * Audits a record shredded by the retention policy rather than a caller.
+   */
+  function auditExpiry(tombstone: TxTombstone) {
+    return audit.record({ 
+      action: 'expire', 
+      outcome: 'success', 
+      subject: 'system:retention', 
+      txId: tombstone.id, 
+      partyId: tombstone.partyId 
+    });
+  }
+
+  /**
+   * Looks up a record for a route. Expired records are shredded first, so
+   * they are never served between sweeps; shredded ones yield their tombstone.
+   */
+  async function findRecord(id: string): Promise<{ record?: TxSecureRecord; tombstone?: TxTombstone }> {
+    const record = await store.get(id);
+    if (record && isExpired(record, retention)) {
+      const tombstone = await shredRecord(store, blobs, record, 'expired');
+      if (tombstone) {
+        fastify.log.info({ txId: id, partyId: record.partyId }, 'Expired record shredded on access');
+        await auditExpiry(tombstone);
+      }
+    } else if (record) {
+      return { record };
+    }
+    return { tombstone: await store.getTombstone(id) };
+  }
+
+  /**
+   * Audits a request for a shredded record and returns the answer: 410, or
+   * 403 outside the caller's parties.
+   */
+  async function shreddedFailure(request: FastifyRequest, action: AuditAction, tombstone: TxTombstone): Promise<RouteFailure> {
+    if (!canAccessParty(request.principal, tombstone.partyId)) {
+      await recordAudit(request, { action, outcome: 'denied', txId: tombstone.id, partyId: tombstone.partyId, reason: 'party outside credential scope' });
+      return { statusCode: 403, error: 'Not authorized for this party' };
+    }
+    fastify.log.info({ txId: tombstone.id, reason: tombstone.reason }, 'Request for shredded transaction');
+    await recordAudit(request, { action, outcome: 'not_found', txId: tombstone.id, partyId: tombstone.partyId, reason: `shredded (${tombstone.reason})` });
+    return { statusCode: 410, error: 'Transaction has been shredded' };
+  }
+
+  /**
+   * Answers a request for a shredded record (see shreddedFailure).
+   */
+  async function replyShredded(request: FastifyRequest, reply: FastifyReply, action: AuditAction, tombstone: TxTombstone) {
+    const { statusCode, error } = await shreddedFailure(request, action, tombstone);
+    return reply.status(statusCode).send({ 
+      error 
+    });
+  }
+
+  let sweeping: Promise<unknown> | undefined;
+  /**
+   * Shreds every expired record; concurrent calls share one run.
+   */
+  function runRetentionSweep() {
+    sweeping ??= sweepExpired(store, blobs, retention, fastify.log, auditExpiry).finally(() => {
+      sweeping = undefined;
+    });
+    return sweeping as ReturnType<typeof sweepExpired>;
+  }
+
+  if (sweepIntervalMs > 0) {
+    let timer: NodeJS.Timeout | undefined;
+    fastify.addHook('onReady', async () => {
+      timer = setInterval(() => {
+        runRetentionSweep().catch((err: Error) => fastify.log.error({ error: err.message }, 'Retention sweep failed'));
+      }, sweepIntervalMs);
+      // The sweeper alone must not keep the process alive
+      timer.unref();
+    });
+    fastify.addHook('onClose', async () => {
+      clearInterval(timer);
+    });
+  }
+
+  // ==========================================================================
+  // ERROR HANDLER
+  // ==========================================================================
+  // Unhandled errors (including a failed audit write) keep the { error } shape.
+  // 5xx details are logged, never returned.
+  fastify.setErrorHandler((err: any, request: FastifyRequest, reply: FastifyReply) => {
+    const statusCode = err.statusCode && err.statusCode >= 400 ? err.statusCode : 500;
+    if (statusCode >= 500) {
+      request.log.error({ error: err.message }, 'Unhandled error');
+      return reply.status(statusCode).send({ 
+        error: 'Internal server error' 
+      });
+    }
+    return reply.status(statusCode).send({ 
+      error: err.message 
+    });
+  });
+
+  // ==========================================================================
+  // KEY CONFIGURATION
+  // ==========================================================================
+  // Validate master keys at startup (see keys.ts for the env variables)
+  // REFACTOR: Do NOT exit process on Vercel if key is missing. 
+  // This allows OPTIONS requests to succeed even if config is wrong.
+  let keys: KeyConfig | undefined = options.keys;
+  try {
+    // Only try to load if we are NOT in a build phase or if env is set
+    if (keys) {
+      fastify.log.info({ provider: keys.active.name, keyId: keys.active.keyId() }, 'Using injected key configuration');
+    } else if (seal) {
+      fastify.log.warn({ threshold: seal.status().threshold }, 'Vault is sealed - submit unseal shares to POST /admin/unseal');
+    } else if (process.env.MASTER_KEYS || process.env.MASTER_KEY || process.env.KEY_PROVIDER) {
+      keys = loadKeyConfigFromEnv();
+      fastify.log.info({ 
+        provider: keys.active.name, 
+        keyId: keys.active.keyId(), 
+        versions: keys.keyring ? [...keys.keyring.keys.keys()] : undefined 
+      }, 'Key configuration validated successfully');
+    } else {
+      fastify.log.warn('MASTER_KEY not set at startup - Crypto operations will fail');
+    }
+  } catch (err: any) {
+    fastify.log.error({ error: err.message }, 'Master key validation failed');
+    // Do not process.exit(1) here for Serverless, let it fail in the route
+  }
+
+  /**
+   * Returns the key configuration, retrying the load if startup validation
+   * failed. In sealed mode it is built from the unsealed keyring.
+   */
+  function getKeys(): KeyConfig {
+    if (!keys && seal) {
+      const keyring = seal.keyring();
+      if (!keyring) {
+        throw new Error('Vault is sealed');
+      }
+      keys = loadKeyConfigFromEnv(keyring);
+    }
+    if (!keys) {
+      keys = loadKeyConfigFromEnv();
+    }
+    return keys;
+  }
+
+  /**
+   * The key export bundles are sealed with. Loaded on first use, like the master keys.
+   */
+  function getBundleKey(): Buffer {
+    const bundleKey = options.bundleKey ?? loadBundleKeyFromEnv();
+    if (!bundleKey) {
+      throw new Error('BUNDLE_KEY environment variable is not set');
+    }
+    return bundleKey;
+  }
+
+  /**
+   * The local keyring that blind index tokens are derived from.
+   */
+  function getIndexKeyring(): Keyring {
+    const keyring = getKeys().keyring;
+    if (!keyring) {
+      throw new Error('Blind indexes need the local master keyring (MASTER_KEY or MASTER_KEYS)');
+    }
+    return keyring;
+  }
+
+  // ==========================================================================
+  // ALGORITHM POLICY
+  // ==========================================================================
+  // ENCRYPTION_ALG picks the algorithm for new records (see policy.ts).
+  // Decryption always follows record.alg, so changing it never strands data.
+  // Like the store, an unknown algorithm is fatal at startup.
+  const encryptionAlg = options.encryptionAlg ?? encryptionAlgorithmFromEnv();
+  fastify.log.info({ alg: encryptionAlg }, 'Encryption algorithm for new records');
+
+  // BATCH_MAX_ITEMS caps the items of one batch request (see ROUTES 19 and 20)
+  const batchMaxItems = options.batchMaxItems ?? batchMaxItemsFromEnv();
+
+  // ==========================================================================
+  // HEALTH CHECK ROUTE
+  // ==========================================================================
+  fastify.get('/', { schema: routeSchemas.health, config: { public: true, whileSealed: true } }, async (_request: FastifyRequest, _reply: FastifyReply) => {
+    return { status: 'ok' };
+  });
+
+  // ==========================================================================
+  // LIVENESS, READINESS & METRICS ROUTES
+  // ==========================================================================
+  // GET / stays as it was for existing clients. /healthz answers as long as
+  // the process does; /readyz answers 503 until keys load, the store answers
+  // and a self-test roundtrip passes (see health.ts), so load balancers only
+  // send traffic to instances that can serve it. Both are public, as is
+  // /metrics unless METRICS_TOKEN is set.
+
+  fastify.get('/healthz', { schema: routeSchemas.healthz, config: { public: true, whileSealed: true } }, async () => {
+    return { status: 'ok' };
+  });
+
+  fastify.get('/readyz', { schema: routeSchemas.readyz, config: { public: true, whileSealed: true } }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    const { ready, checks, errors } = await checkReadiness(getKeys, store, encryptionAlg);
+    if (!ready) {
+      fastify.log.warn({ checks, errors }, 'Readiness check failed');
+      return reply.status(503).send({ 
+        error: 'Not ready', 
+        checks 
+      });
+    }
+    return { status: 'ready', checks };
+  });
+
+  fastify.get('/metrics', { schema: routeSchemas.metrics, config: { public: true, whileSealed: true } }, async (request: FastifyRequest, reply: FastifyReply) => {
+    if (metricsToken && !hasMetricsToken(request.headers.authorization, metricsToken)) {
+      return reply.status(401).send({ 
+        error: 'Unauthorized' 
+      });
+    }
+    return reply
+      .type('text/plain; version=0.0.4; charset=utf-8')
+      .send(metrics.render());
+  });
+
+  // ==========================================================================
+  // API DOCUMENTATION ROUTE
+  // ==========================================================================
+  // The OpenAPI 3.1 document, built once from the route schemas on first request.
+  let openApiDocument: Record<string, unknown> | undefined;
+  fastify.get('/docs', { config: { public: true, whileSealed: true } }, async () => {
+    openApiDocument ??= buildOpenApi();
+    return openApiDocument;
+  });
+
+  // ==========================================================================
+  // ROUTE 1: POST /tx/encrypt
+  // ==========================================================================
+  // Encrypts a payload and stores it in the configured store.
+  // 
+  // VALIDATION STRATEGY:
+  // - Check request.body exists and is an object
+  // - Validate partyId: must exist, be a string, and not be empty
+  // - Validate payload: must exist and not be undefined
+  // - Validate fields (optional): top-level payload fields to encrypt one by
+  //   one; the rest of the payload is stored in the record's clear metadata
+  // - Validate searchable (optional): top-level scalar payload fields to store
+  //   blind index tokens for, so POST /tx/search can find the record
+  // - Validate expiresAt (optional): an ISO 8601 date in the future, after
+  //   which the record is shredded
+  // - Validate the Idempotency-Key header (optional): 1 to 255 printable ASCII characters
+  // - Return 400 Bad Request with clear, specific error messages
+  // - Return 403 Forbidden if the credential is not scoped to partyId
+  //
+  // IDEMPOTENCY:
+  // - A repeat of a key with the same body returns the original record
+  //   (with Idempotency-Replayed: true); nothing new is encrypted or stored
+  // - The same key with a different body, or while the first request is
+  //   still running, returns 409
+  // - Keys are scoped to the credential subject; failed requests free the key
+  //
+  // ERROR HANDLING:
+  // - Crypto errors are caught and returned as generic "Encryption failed"
+  // - We don't expose internal error details to prevent information leakage
+  // - All errors are logged internally for debugging
+
+  /**
+   * Why expiresAt is unacceptable (not a date, or not in the future), or null.
+   */
+  function expiresAtError(expiresAt: unknown): string | null {
+    if (typeof expiresAt !== 'string' || Number.isNaN(Date.parse(expiresAt))) {
+      return 'expiresAt must be an ISO 8601 date';
+    }
+    return Date.parse(expiresAt) <= Date.now() ? 'expiresAt must be in the future' : null;
+  }
+
+  interface EncryptRequestBody {
+    partyId: string;
+    payload: unknown;
+    fields?: string[];
+    searchable?: string[];
+    expiresAt?: string;
+  }
+
+  /**
+   * Why an encrypt request body is unacceptable, or null. Used for every
+   * item of POST /tx/batch/encrypt too.
+   */
+  function encryptRequestError(body: unknown): string | null {
+    // Validation 1: Ensure request body exists and is an object
+    if (!body || typeof body !== 'object') {
+      return 'Request body must be a valid JSON object';
+    }
+
+    const { partyId, payload, fields, searchable, expiresAt } = body as Partial<EncryptRequestBody>;
+
+    // Validation 2: partyId must exist
+    if (partyId === undefined || partyId === null) {
+      return 'partyId is required';
+    }
+
+    // Validation 3: partyId must be a string
+    if (typeof partyId !== 'string') {
+      return 'partyId must be a string';
+    }
+
+    // Validation 4: partyId must not be empty
+    if (partyId.trim().length === 0) {
+      return 'partyId cannot be empty';
+    }
+
+    // Validation 5: payload must exist (allow any object, but not undefined)
+    if (payload === undefined) {
+      return 'payload is required';
+    }
+
+    // Validation 6: fields must name distinct top-level fields of an object payload
+    if (fields !== undefined) {
+      try {
+        validateFieldNames(payload, fields);
+      } catch (err: any) {
+        return err.message;
+      }
+    }
+
+    // Validation 7: searchable must name distinct scalar top-level fields
+    if (searchable !== undefined) {
+      try {
+        validateSearchableFields(payload, searchable);
+      } catch (err: any) {
+        return err.message;
+      }
+    }
+
+    // Validation 8: expiresAt must be a date in the future
+    const expiryError = expiresAt === undefined ? null : expiresAtError(expiresAt);
+    if (expiryError) {
+      return expiryError;
+    }
+
+    return null;
+  }
+
+  fastify.post('/tx/encrypt', { schema: routeSchemas.encrypt, config: { metric: 'encrypt' } }, async (request: FastifyRequest<{ Body: EncryptRequestBody }>, reply: FastifyReply) => {
+    // ========================================
+    // STRICT REQUEST VALIDATION
+    // ========================================
+
+    // Validations 1 to 8: body, partyId, payload, fields, searchable, expiresAt
+    const validationError = encryptRequestError(request.body);
+    if (validationError) {
+      return reply.status(400).send({ 
+        error: validationError 
+      });
+    }
+
+    const { partyId, payload, fields, searchable, expiresAt } = request.body;
+
+    // Validation 9: Idempotency-Key, when sent, must be a sensible token
+    const idempotencyHeader = request.headers['idempotency-key'];
+    if (idempotencyHeader !== undefined && (typeof idempotencyHeader !== 'string' || !isValidIdempotencyKey(idempotencyHeader))) {
+      return reply.status(400).send({ 
+        error: 'Idempotency-Key must be 1 to 255 printable ASCII characters' 
+      });
+    }
+
+    // ========================================
+    // PER-PARTY AUTHORIZATION
+    // ========================================
+    if (!canAccessParty(request.principal, partyId)) {
+      fastify.log.warn({ partyId, subject: request.principal?.subject }, 'Encrypt refused for party outside credential scope');
+      await recordAudit(request, { action: 'encrypt', outcome: 'denied', partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    // ========================================
+    // STRUCTURED LOGGING (NO SENSITIVE DATA)
+    // ========================================
+    fastify.log.info({ partyId, subject: request.principal?.subject }, 'Encrypt request received');
+
+    // ========================================
+    // IDEMPOTENT REPLAY
+    // ========================================
+    const idempotencyKey = idempotencyHeader === undefined 
+      ? undefined 
+      : `${request.principal?.subject ?? 'anonymous'}:${idempotencyHeader}`;
+    if (idempotencyKey) {
+      const fingerprint = fingerprintBody(request.body);
+      const previous = await idempotency.claim(idempotencyKey, fingerprint);
+      if (previous) {
+        if (previous.fingerprint !== fingerprint) {
+          fastify.log.warn({ partyId }, 'Idempotency-Key reused with a different request');
+          return reply.status(409).send({ 
+            error: 'Idempotency-Key was already used with a different request' 
+          });
+        }
+        if (!previous.record) {
+          return reply.status(409).send({ 
+            error: 'A request with this Idempotency-Key is still in progress' 
+          });
+        }
+        // A record deleted or expired since is not handed out again
+        const { record: stored, tombstone } = await findRecord(previous.record.id);
+        if (tombstone) {
+          return replyShredded(request, reply, 'encrypt', tombstone);
+        }
+        if (!stored) {
+          return reply.status(404).send({ 
+            error: 'Transaction not found' 
+          });
+        }
+        fastify.log.info({ txId: previous.record.id, partyId }, 'Idempotent replay of encrypt request');
+        return reply.header('Idempotency-Replayed', 'true').send(previous.record);
+      }
+    }
+
+    // ========================================
+    // ENCRYPTION WITH ERROR HANDLING
+    // ========================================
+    let record: TxSecureRecord;
+    try {
+      record = await encryptEnvelopeWithProvider(partyId, payload, getKeys().active, { alg: encryptionAlg, fields });
+      if (searchable) {
+        record = { ...record, blind_index: createBlindIndex(partyId, payload, searchable, getIndexKeyring()) };
+      }
+      if (expiresAt !== undefined) {
+        record = { ...record, expiresAt: new Date(expiresAt).toISOString() };
+      }
+      await store.put(record);
+    } catch (err: any) {
+      if (idempotencyKey) await idempotency.release(idempotencyKey);
+      // Log the full error internally for debugging
+      fastify.log.error({ error: err.message, partyId }, 'Encryption operation failed');
+      await recordAudit(request, { action: 'encrypt', outcome: 'failure', partyId, reason: err.message });
+
+      // Return generic error to client (no internal details)
+      // This prevents information leakage about our crypto implementation
+      return reply.status(400).send({ 
+        error: 'Encryption failed' 
+      });
+    }
+
+    if (idempotencyKey) await idempotency.complete(idempotencyKey, record);
+
+    fastify.log.info({ txId: record.id, partyId }, 'Transaction encrypted and stored');
+    await recordAudit(request, { action: 'encrypt', outcome: 'success', txId: record.id, partyId });
+
+    // Return the full encrypted record (safe to expose)
+    return record;
+  });
+
+  // ==========================================================================
+  // ROUTE 2: GET /tx/:id
+  // ==========================================================================
+  // Retrieves an encrypted record by ID.
+  //
+  // ERROR HANDLING:
+  // - Returns 404 if record not found in the store
+  // - Returns 410 if the record was shredded (deleted or expired)
+  // - Returns 403 if the record belongs to a party outside the credential scope
+  // - Clear, user-friendly error message
+
+  fastify.get('/tx/:id', { schema: routeSchemas.fetch }, async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+    const { id } = request.params;
+
+    // Attempt to retrieve record from the store
+    const { record, tombstone } = await findRecord(id);
+
+    // ========================================
+    // RECORD NOT FOUND HANDLING
+    // ========================================
+    if (tombstone) {
+      return replyShredded(request, reply, 'fetch', tombstone);
+    }
+
+    if (!record) {
+      fastify.log.warn({ txId: id }, 'Transaction not found');
+      await recordAudit(request, { action: 'fetch', outcome: 'not_found', txId: id });
+      return reply.status(404).send({ 
+        error: 'Transaction not found' 
+      });
+    }
+
+    if (!canAccessParty(request.principal, record.partyId)) {
+      fastify.log.warn({ txId: id, subject: request.principal?.subject }, 'Fetch refused for party outside credential scope');
+      await recordAudit(request, { action: 'fetch', outcome: 'denied', txId: id, partyId: record.partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    fastify.log.info({ txId: id }, 'Transaction retrieved');
+    await recordAudit(request, { action: 'fetch', outcome: 'success', txId: id, partyId: record.partyId });
+    return record;
+  });
+
+  // ==========================================================================
+  // ROUTE 3: POST /tx/:id/decrypt
+  // ==========================================================================
+  // Decrypts a transaction record and returns the plain payload.
+  //
+  // SELECTIVE DISCLOSURE:
+  // - ?fields=currency,amount returns only those top-level fields
+  // - On field-level records, only the requested encrypted fields are
+  //   decrypted; the audit entry lists which fields were revealed
+  //
+  // SECURITY CONSIDERATIONS:
+  // - Wrapped in try/catch to handle crypto errors safely
+  // - Generic error messages prevent information leakage
+  // - Failed decryption attempts are logged as warnings (potential tampering)
+  // - We don't expose why decryption failed (wrong key, corrupted data, etc.)
+  // - Only credentials scoped to record.partyId may decrypt (403 otherwise)
+  // - Shredded records return 410; their DEK no longer exists
+  // - Rate limited per client and per record; repeated failures lock the
+  //   record for a while (429, see RATE LIMITING above). The record limit
+  //   is only counted once the caller is authorized for the record
+  // - Keys that cannot be used (sealed, unknown version, KMS down) answer 503
+  //   and are not counted as failures
+
+  /**
+   * Parses ?fields=a,b into a list of names, or null if it names none.
+   */
+  function parseFieldsParam(value: string): string[] | null {
+    const names = [...new Set(value.split(',').map((name) => name.trim()).filter(Boolean))];
+    return names.length > 0 ? names : null;
+  }
+
+  /**
+   * Decrypts a record (or some of its fields) for the caller, with the
+   * checks, logging, audit and per-record rate limit of this route; the
+   * client limit is checked by the caller. Used for every item of
+   * POST /tx/batch/decrypt too, without `reply` (no rate limit headers).
+   */
+  async function decryptForRequest(request: FastifyRequest, id: string, fields?: string[], reply?: FastifyReply): Promise<{ payload: unknown } | RouteFailure> {
+    // ========================================
+    // STRUCTURED LOGGING
+    // ========================================
+    fastify.log.info({ txId: id, subject: request.principal?.subject }, 'Decrypt request received');
+
+    // Attempt to retrieve record from the store
+    const { record, tombstone } = await findRecord(id);
+
+    // ========================================
+    // RECORD NOT FOUND HANDLING
+    // ========================================
+    if (tombstone) {
+      return shreddedFailure(request, 'decrypt', tombstone);
+    }
+
+    if (!record) {
+      fastify.log.warn({ txId: id }, 'Transaction not found for decryption');
+      await recordAudit(request, { action: 'decrypt', outcome: 'not_found', txId: id });
+      return { statusCode: 404, error: 'Transaction not found' };
+    }
+
+    // ========================================
+    // PER-PARTY AUTHORIZATION
+    // ========================================
+    if (!canAccessParty(request.principal, record.partyId)) {
+      fastify.log.warn({ txId: id, subject: request.principal?.subject }, 'Decrypt refused for party outside credential scope');
+      await recordAudit(request, { action: 'decrypt', outcome: 'denied', txId: id, partyId: record.partyId, reason: 'party outside credential scope' });
+      return { statusCode: 403, error: 'Not authorized for this party' };
+    }
+
+    // ========================================
+    // PER-RECORD RATE LIMIT
+    // ========================================
+    const limited = await limitRecord(request, id, reply);
+    if (limited) {
+      return limited;
+    }
+
+    // ========================================
+    // SAFE CRYPTO ERROR HANDLING
+    // ========================================
+    let provider: KeyProvider;
+    try {
+      provider = recordProvider(record);
+    } catch (err: any) {
+      return keysUnavailable(request, 'decrypt', record, err);
+    }
+
+    let payload: unknown;
+    try {
+      // Step 1: Unwrap the DEK with the provider and key version the record carries
+      const dek = await provider.unwrap(record);
+
+      // Step 2: Decrypt the payload (or only the requested fields) using the DEK
+      payload = revealPayload(record, dek, fields);
+    } catch (err: any) {
+      return decryptFailure(request, 'decrypt', record, err);
+    }
+
+    fastify.log.info({ txId: id, fields }, 'Transaction decrypted successfully');
+    await recordAudit(request, { action: 'decrypt', outcome: 'success', txId: id, partyId: record.partyId, fields });
+
+    return { payload };
+  }
+
+  fastify.post<{ Params: { id: string }; Querystring: { fields?: string } }>('/tx/:id/decrypt', { schema: routeSchemas.decrypt, config: { metric: 'decrypt' }, preHandler: limitDecrypt }, async (request, reply) => {
+    const { id } = request.params;
+
+    const fields = request.query.fields === undefined ? undefined : parseFieldsParam(request.query.fields);
+    if (fields === null) {
+      return reply.status(400).send({ 
+        error: 'fields must list at least one field name' 
+      });
+    }
+
+    const outcome = await decryptForRequest(request, id, fields, reply);
+    if ('error' in outcome) {
+      return reply.status(outcome.statusCode).send({ 
+        error: outcome.error 
+      });
+    }
+
+    // Return the decrypted payload
+    return { payload: outcome.payload };
+  });
+
+  // ==========================================================================
+  // ROUTE 4: GET /tx?partyId=&from=&to=&cursor=&limit=
+  // ==========================================================================
+  // Lists a party's transactions, newest first, as metadata only.
+  //
+  // PAGINATION:
+  // - Ordered by createdAt then id (descending), so every record has a stable position
+  // - nextCursor is opaque; pass it back as ?cursor= to get the next page
+  // - limit defaults to 20 and is capped at 100
+  //
+  // SECURITY CONSIDERATIONS:
+  // - No ciphertext, nonces, tags or wrapped DEKs are returned
+  // - partyId is required and must be within the credential's scope
+
+  const DEFAULT_PAGE_SIZE = 20;
+  const MAX_PAGE_SIZE = 100;
+
+  interface ListQuerystring {
+    partyId?: string;
+    from?: string;
+    to?: string;
+    cursor?: string;
+    limit?: string;
+  }
+
+  /**
+   * Normalises a date query parameter to ISO 8601, or returns null if invalid.
+   */
+  function parseDateParam(value: string): string | null {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  fastify.get('/tx', { schema: routeSchemas.list }, async (request: FastifyRequest<{ Querystring: ListQuerystring }>, reply: FastifyReply) => {
+    const { partyId, from, to, cursor, limit } = request.query;
+
+    // ========================================
+    // QUERY VALIDATION
+    // ========================================
+    if (!partyId || partyId.trim().length === 0) {
+      return reply.status(400).send({ 
+        error: 'partyId is required' 
+      });
+    }
+
+    const fromIso = from ? parseDateParam(from) : undefined;
+    const toIso = to ? parseDateParam(to) : undefined;
+    if (fromIso === null || toIso === null) {
+      return reply.status(400).send({ 
+        error: 'from and to must be valid dates' 
+      });
+    }
+
+    const pageSize = limit === undefined ? DEFAULT_PAGE_SIZE : Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return reply.status(400).send({ 
+        error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` 
+      });
+    }
+
+    const before = cursor ? decodeCursor(cursor) : undefined;
+    if (before === null) {
+      return reply.status(400).send({ 
+        error: 'cursor is invalid' 
+      });
+    }
+
+    // ========================================
+    // PER-PARTY AUTHORIZATION
+    // ========================================
+    if (!canAccessParty(request.principal, partyId)) {
+      fastify.log.warn({ partyId, subject: request.principal?.subject }, 'List refused for party outside credential scope');
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    // Fetch one extra record to know whether another page exists
+    const records = await store.query({ partyId, from: fromIso, to: toIso, before, limit: pageSize + 1 });
+    const page = records.slice(0, pageSize);
+    const nextCursor = records.length > pageSize ? encodeCursor(page[page.length - 1]) : null;
+
+    fastify.log.info({ partyId, count: page.length }, 'Transactions listed');
+    return { 
+      items: page.map(toTxMetadata), 
+      nextCursor 
+    };
+  });
+
+  // ==========================================================================
+  // ROUTE 5: POST /admin/keys/rewrap
+  // ==========================================================================
+  // Re-wraps every stored DEK under the active provider's current key.
+  // This covers both master key rotation and moving to another provider.
+  //
+  // KEY ROTATION:
+  // - Only the wrapped DEK changes; payload_ct is never touched
+  // - Records already wrapped by the active key are skipped
+  // - One failing record does not stop the run; it is reported by ID
+  // - Requires an admin credential
+
+  fastify.post('/admin/keys/rewrap', { schema: routeSchemas.rewrap, preHandler: requireAdmin }, async (request: FastifyRequest, reply: FastifyReply) => {
+    let currentKeys: KeyConfig;
+    try {
+      currentKeys = getKeys();
+    } catch (err: any) {
+      fastify.log.error({ error: err.message }, 'Re-wrap aborted: keys unavailable');
+      return reply.status(500).send({ 
+        error: 'Master keyring is not configured' 
+      });
+    }
+
+    fastify.log.info({ provider: currentKeys.active.name, keyId: currentKeys.active.keyId() }, 'DEK re-wrap started');
+    const report = await rewrapStore(store, currentKeys, fastify.log);
+    fastify.log.info({ 
+      total: report.total, 
+      rewrapped: report.rewrapped, 
+      skipped: report.skipped, 
+      failed: report.failed 
+    }, 'DEK re-wrap finished');
+    await recordAudit(request, { 
+      action: 'rewrap', 
+      outcome: report.failed === 0 ? 'success' : 'failure', 
+      reason: `rewrapped=${report.rewrapped} skipped=${report.skipped} failed=${report.failed}` 
+    });
+
+    return report;
+  });
+
+  // ==========================================================================
+  // ROUTE 6: GET /admin/audit
+  // ==========================================================================
+  // Queries the audit log (oldest first). Filters: txId, subject, action,
+  // outcome; page with afterSeq (the last seq you saw) and limit (max 500).
+
+  const MAX_AUDIT_PAGE_SIZE = 500;
+
+  interface AuditQuerystring {
+    txId?: string;
+    subject?: string;
+    action?: AuditAction;
+    outcome?: AuditOutcome;
+    afterSeq?: string;
+    limit?: string;
+  }
+
+  fastify.get<{ Querystring: AuditQuerystring }>('/admin/audit', { schema: routeSchemas.audit, config: { whileSealed: true }, preHandler: requireAdmin }, async (request, reply) => {
+    const { txId, subject, action, outcome, afterSeq, limit } = request.query;
+
+    const pageSize = limit === undefined ? 100 : Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_AUDIT_PAGE_SIZE) {
+      return reply.status(400).send({ 
+        error: `limit must be an integer between 1 and ${MAX_AUDIT_PAGE_SIZE}` 
+      });
+    }
+
+    const after = afterSeq === undefined ? undefined : Number(afterSeq);
+    if (after !== undefined && !Number.isInteger(after)) {
+      return reply.status(400).send({ 
+        error: 'afterSeq must be an integer' 
+      });
+    }
+
+    const entries = await audit.query({ txId, subject, action, outcome, afterSeq: after, limit: pageSize });
+    return { entries };
+  });
+
+  // ==========================================================================
+  // ROUTE 7: GET /admin/audit/verify
+  // ==========================================================================
+  // Recomputes every hash link. { valid: false, brokenAt } points at the first
+  // entry that was edited, removed or reordered.
+
+  fastify.get('/admin/audit/verify', { schema: routeSchemas.auditVerify, config: { whileSealed: true }, preHandler: requireAdmin }, async () => {
+    const result = await audit.verify();
+    if (!result.valid) {
+      fastify.log.error(result, 'Audit chain verification failed');
+    }
+    return result;
+  });
+
+  // ==========================================================================
+  // ROUTE 8: POST /tx/stream?partyId=&filename=
+  // ==========================================================================
+  // Encrypts a raw upload (Content-Type: application/octet-stream) chunk by
+  // chunk while it is received, so large content is never held in memory.
+  //
+  // STORAGE:
+  // - The encrypted content goes to the blob store under the record ID
+  // - The record itself is stored like any other; its payload is { filename }
+  // - record.stream carries the chunk size and plaintext size
+  //
+  // ERROR HANDLING:
+  // - On any failure the partial blob is removed and "Encryption failed" returned
+
+  interface StreamQuerystring {
+    partyId?: string;
+    filename?: string;
+  }
+
+  fastify.post<{ Querystring: StreamQuerystring }>('/tx/stream', { schema: routeSchemas.streamUpload, config: { metric: 'stream_encrypt' } }, async (request, reply) => {
+    const { partyId, filename } = request.query;
+
+    // ========================================
+    // REQUEST VALIDATION
+    // ========================================
+    if (!partyId || partyId.trim().length === 0) {
+      return reply.status(400).send({ 
+        error: 'partyId is required' 
+      });
+    }
+
+    if (request.headers['content-type'] !== 'application/octet-stream') {
+      return reply.status(415).send({ 
+        error: 'Content-Type must be application/octet-stream' 
+      });
+    }
+
+    // ========================================
+    // PER-PARTY AUTHORIZATION
+    // ========================================
+    if (!canAccessParty(request.principal, partyId)) {
+      fastify.log.warn({ partyId, subject: request.principal?.subject }, 'Stream upload refused for party outside credential scope');
+      await recordAudit(request, { action: 'encrypt', outcome: 'denied', partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    fastify.log.info({ partyId, subject: request.principal?.subject }, 'Stream upload received');
+
+    // ========================================
+    // STREAMING ENCRYPTION
+    // ========================================
+    const upload = createEnvelopeEncryptStream(partyId, { alg: encryptionAlg });
+    let record;
+    try {
+      // Resolve the provider first so a key misconfiguration fails before the upload is read
+      const provider = getKeys().active;
+      // An empty body is never parsed, so it arrives as undefined
+      const body = request.body instanceof Readable ? request.body : Readable.from([]);
+
+      await pipelineAsync(body, upload.stream, blobs.createWriteStream(upload.id));
+      record = await upload.seal({ filename: filename ?? null }, provider);
+      await store.put(record);
+    } catch (err: any) {
+      fastify.log.error({ error: err.message, partyId }, 'Stream encryption failed');
+      await blobs.delete(upload.id).catch(() => false);
+      await recordAudit(request, { action: 'encrypt', outcome: 'failure', partyId, reason: err.message });
+      return reply.status(400).send({ 
+        error: 'Encryption failed' 
+      });
+    }
+
+    fastify.log.info({ txId: record.id, partyId, size: record.stream?.size }, 'Stream encrypted and stored');
+    await recordAudit(request, { action: 'encrypt', outcome: 'success', txId: record.id, partyId });
+
+    return record;
+  });
+
+  // ==========================================================================
+  // ROUTE 9: GET /tx/:id/stream
+  // ==========================================================================
+  // Decrypts streamed content chunk by chunk as it is sent.
+  //
+  // SECURITY CONSIDERATIONS:
+  // - Same 404 / 403 / generic 400 behaviour as POST /tx/:id/decrypt
+  // - Every chunk is authenticated before it is sent; if a later chunk fails
+  //   (tampering or truncation) the connection is aborted, so clients must treat
+  //   an incomplete download (no final chunk) as a failure
+  // - The stored plaintext size is not authenticated, so it is not sent as
+  //   Content-Length: the body is chunked and ends with the last chunk
+
+  fastify.get<{ Params: { id: string } }>('/tx/:id/stream', { schema: routeSchemas.streamDownload, config: { metric: 'stream_decrypt' }, preHandler: limitDecrypt }, async (request, reply) => {
+    const { id } = request.params;
+
+    const { record, tombstone } = await findRecord(id);
+
+    if (tombstone) {
+      return replyShredded(request, reply, 'decrypt', tombstone);
+    }
+
+    if (!record) {
+      fastify.log.warn({ txId: id }, 'Transaction not found for stream download');
+      await recordAudit(request, { action: 'decrypt', outcome: 'not_found', txId: id });
+      return reply.status(404).send({ 
+        error: 'Transaction not found' 
+      });
+    }
+
+    if (!canAccessParty(request.principal, record.partyId)) {
+      fastify.log.warn({ txId: id, subject: request.principal?.subject }, 'Stream download refused for party outside credential scope');
+      await recordAudit(request, { action: 'decrypt', outcome: 'denied', txId: id, partyId: record.partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    if (!record.stream) {
+      return reply.status(400).send({ 
+        error: 'Transaction has no streamed content' 
+      });
+    }
+
+    const limited = await limitRecord(request, id, reply);
+    if (limited) {
+      return reply.status(limited.statusCode).send({ 
+        error: limited.error 
+      });
+    }
+
+    let provider: KeyProvider;
+    try {
+      provider = recordProvider(record);
+    } catch (err: any) {
+      const { statusCode, error } = await keysUnavailable(request, 'decrypt', record, err);
+      return reply.status(statusCode).send({ 
+        error 
+      });
+    }
+
+    let decrypted;
+    try {
+      const dek = await provider.unwrap(record);
+      decrypted = createEnvelopeDecryptStream(record, dek);
+    } catch (err: any) {
+      const { statusCode, error } = await decryptFailure(request, 'decrypt', record, err);
+      return reply.status(statusCode).send({ 
+        error 
+      });
+    }
+
+    // The outcome is only known once the last chunk has been authenticated
+    const partyId = record.partyId;
+    const plaintext = pipeline(blobs.createReadStream(id), decrypted, (err) => {
+      // Only a chunk that does not authenticate is possible tampering: not a
+      // client hanging up early, nor a blob that cannot be read
+      const tampered = err instanceof IntegrityError;
+      if (tampered) {
+        fastify.log.warn({ txId: id, error: err.message }, 'Stream decryption failed mid-stream - possible tampering or truncation');
+        rateLimiter.recordFailure(id).catch((limitErr: Error) => fastify.log.error({ error: limitErr.message, txId: id }, 'Failure count failed after stream'));
+      } else if (err) {
+        fastify.log.warn({ txId: id, error: err.message }, 'Stream download interrupted');
+      } else {
+        fastify.log.info({ txId: id }, 'Stream decrypted successfully');
+      }
+      recordAudit(request, err
+        ? { action: 'decrypt', outcome: 'failure', txId: id, partyId, reason: tampered ? `possible tampering: ${err.message}` : `stream interrupted: ${err.message}` }
+        : { action: 'decrypt', outcome: 'success', txId: id, partyId }
+      ).catch((auditErr: Error) => fastify.log.error({ error: auditErr.message, txId: id }, 'Audit write failed after stream'));
+    });
+
+    return reply
+      .type('application/octet-stream')
+      .send(plaintext);
+  });
+
+  // ==========================================================================
+  // ROUTE 10: POST /tx/import
+  // ==========================================================================
+  // Stores an already-encrypted record supplied by the client, e.g. one
+  // exported from another deployment sharing the same keys.
+  //
+  // VALIDATION STRATEGY:
+  // - The body must pass the record schema; the 400 names the failing field
+  // - Streamed records are refused (their content is not part of the record)
+  // - The record must unwrap and decrypt with this server's keys, so nothing
+  //   undecryptable is ever stored; the payload itself is not returned
+  // - 403 outside the credential's parties, 409 if the ID is already taken,
+  //   410 if it was shredded (checked again, atomically, as it is stored)
+
+  fastify.post('/tx/import', { schema: routeSchemas.import }, async (request: FastifyRequest<{ Body: unknown }>, reply: FastifyReply) => {
+    // ========================================
+    // SCHEMA VALIDATION
+    // ========================================
+    let record: TxSecureRecord;
+    try {
+      record = parseRecord(request.body);
+    } catch (err: any) {
+      if (!(err instanceof RecordValidationError)) throw err;
+      return reply.status(400).send({ 
+        error: err.message 
+      });
+    }
+
+    if (record.stream) {
+      return reply.status(400).send({ 
+        error: 'Streamed records cannot be imported' 
+      });
+    }
+
+    // ========================================
+    // PER-PARTY AUTHORIZATION
+    // ========================================
+    if (!canAccessParty(request.principal, record.partyId)) {
+      fastify.log.warn({ txId: record.id, subject: request.principal?.subject }, 'Import refused for party outside credential scope');
+      await recordAudit(request, { action: 'import', outcome: 'denied', txId: record.id, partyId: record.partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    if (await store.get(record.id)) {
+      return reply.status(409).send({ 
+        error: 'Transaction already exists' 
+      });
+    }
+
+    // A shredded ID stays shredded
+    if (await store.getTombstone(record.id)) {
+      return reply.status(410).send({ 
+        error: 'Transaction has been shredded' 
+      });
+    }
+
+    // ========================================
+    // DECRYPTABILITY CHECK
+    // ========================================
+    try {
+      const dek = await providerFor(getKeys(), record).unwrap(record);
+      revealPayload(record, dek);
+    } catch (err: any) {
+      fastify.log.warn({ txId: record.id, error: err.message }, 'Import refused - record does not decrypt with configured keys');
+      await recordAudit(request, { action: 'import', outcome: 'failure', txId: record.id, partyId: record.partyId, reason: err.message });
+      // A copy of a record whose party was shredded here stays shredded
+      if (err instanceof PartyKeyShreddedError) {
+        return reply.status(410).send({ 
+          error: 'Transaction has been shredded' 
+        });
+      }
+      return reply.status(400).send({ 
+        error: 'Record cannot be decrypted with this server\'s keys' 
+      });
+    }
+
+    // The checks above ran before the slow decryptability check: the ID may
+    // have been taken, or taken and shredded, since
+    if (!(await store.insert(record))) {
+      const shredded = await store.getTombstone(record.id);
+      fastify.log.info({ txId: record.id }, 'Import refused - ID taken by a concurrent request');
+      await recordAudit(request, { action: 'import', outcome: 'failure', txId: record.id, partyId: record.partyId, reason: shredded ? 'shredded concurrently' : 'imported concurrently' });
+      if (shredded) {
+        return reply.status(410).send({ 
+          error: 'Transaction has been shredded' 
+        });
+      }
+      return reply.status(409).send({ 
+        error: 'Transaction already exists' 
+      });
+    }
+    fastify.log.info({ txId: record.id, partyId: record.partyId }, 'Transaction imported');
+    await recordAudit(request, { action: 'import', outcome: 'success', txId: record.id, partyId: record.partyId });
+
+    return toTxMetadata(record);
+  });
+
+  // ==========================================================================
+  // ROUTE 11: POST /admin/records/upgrade
+  // ==========================================================================
+  // Upgrades every stored record to the current format_version (see
+  // upgradeRecord in @mirfa/crypto). Today that means binding metadata as AAD
+  // on records written before format 2. Same report shape as the re-wrap.
+
+  fastify.post('/admin/records/upgrade', { schema: routeSchemas.upgrade, preHandler: requireAdmin }, async (request: FastifyRequest, reply: FastifyReply) => {
+    let currentKeys: KeyConfig;
+    try {
+      currentKeys = getKeys();
+    } catch (err: any) {
+      fastify.log.error({ error: err.message }, 'Format upgrade aborted: keys unavailable');
+      return reply.status(500).send({ 
+        error: 'Master keyring is not configured' 
+      });
+    }
+
+    const report = await upgradeStore(store, currentKeys, fastify.log);
+    fastify.log.info({ 
+      total: report.total, 
+      upgraded: report.upgraded, 
+      skipped: report.skipped, 
+      failed: report.failed 
+    }, 'Record format upgrade finished');
+    await recordAudit(request, { 
+      action: 'upgrade', 
+      outcome: report.failed === 0 ? 'success' : 'failure', 
+      reason: `upgraded=${report.upgraded} skipped=${report.skipped} failed=${report.failed}` 
+    });
+
+    return report;
+  });
+
+  // ==========================================================================
+  // ROUTE 12: POST /tx/search
+  // ==========================================================================
+  // Finds a party's records whose searchable field equals a value exactly,
+  // using the blind index tokens stored at encryption time.
+  //
+  // SECURITY CONSIDERATIONS:
+  // - Nothing is decrypted: the value is turned into tokens (one per master
+  //   key version) and matched against stored tokens; results are metadata only
+  // - partyId is required and must be within the credential's scope
+  // - The value is sent in the body, never logged or audited
+  // - Same pagination as GET /tx
+
+  interface SearchRequestBody {
+    partyId: string;
+    field: string;
+    value: unknown;
+    cursor?: string;
+    limit?: number;
+  }
+
+  fastify.post('/tx/search', { schema: routeSchemas.search }, async (request: FastifyRequest<{ Body: SearchRequestBody }>, reply: FastifyReply) => {
+    // ========================================
+    // REQUEST VALIDATION
+    // ========================================
+    if (!request.body || typeof request.body !== 'object') {
+      return reply.status(400).send({ 
+        error: 'Request body must be a valid JSON object' 
+      });
+    }
+
+    const { partyId, field, value, cursor, limit } = request.body;
+
+    if (typeof partyId !== 'string' || partyId.trim().length === 0) {
+      return reply.status(400).send({ 
+        error: 'partyId is required' 
+      });
+    }
+
+    if (typeof field !== 'string' || field.length === 0 || field.length > MAX_FIELD_NAME_LENGTH) {
+      return reply.status(400).send({ 
+        error: `field must be a string of 1 to ${MAX_FIELD_NAME_LENGTH} characters` 
+      });
+    }
+
+    if (!isSearchableValue(value)) {
+      return reply.status(400).send({ 
+        error: 'value must be a string, number, boolean or null' 
+      });
+    }
+
+    const pageSize = limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return reply.status(400).send({ 
+        error: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}` 
+      });
+    }
+
+    const before = cursor === undefined ? undefined : typeof cursor === 'string' ? decodeCursor(cursor) : null;
+    if (before === null) {
+      return reply.status(400).send({ 
+        error: 'cursor is invalid' 
+      });
+    }
+
+    // ========================================
+    // PER-PARTY AUTHORIZATION
+    // ========================================
+    if (!canAccessParty(request.principal, partyId)) {
+      fastify.log.warn({ partyId, subject: request.principal?.subject }, 'Search refused for party outside credential scope');
+      await recordAudit(request, { action: 'search', outcome: 'denied', partyId, fields: [field], reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    let keyring: Keyring;
+    try {
+      keyring = getIndexKeyring();
+    } catch (err: any) {
+      fastify.log.error({ error: err.message }, 'Search aborted: keys unavailable');
+      return reply.status(500).send({ 
+        error: 'Master keyring is not configured' 
+      });
+    }
+
+    // ========================================
+    // TOKEN LOOKUP (NO DECRYPTION)
+    // ========================================
+    const tokens = blindIndexTokens(keyring, partyId, field, value);
+    const records = await store.query({ partyId, index: { field, tokens }, before, limit: pageSize + 1 });
+    const page = records.slice(0, pageSize);
+    const nextCursor = records.length > pageSize ? encodeCursor(page[page.length - 1]) : null;
+
+    fastify.log.info({ partyId, field, count: page.length }, 'Transactions searched');
+    await recordAudit(request, { action: 'search', outcome: 'success', partyId, fields: [field] });
+
+    return { 
+      items: page.map(toTxMetadata), 
+      nextCursor 
+    };
+  });
+
+  // ==========================================================================
+  // ROUTE 13: DELETE /tx/:id
+  // ==========================================================================
+  // Crypto-shreds a record: the record and its wrapped DEK are destroyed and
+  // a tombstone takes their place, so copies of the ciphertext can no longer
+  // be decrypted. Returns the tombstone; later requests for the ID get 410.
+
+  fastify.delete<{ Params: { id: string } }>('/tx/:id', { schema: routeSchemas.delete }, async (request, reply) => {
+    const { id } = request.params;
+    const { record, tombstone } = await findRecord(id);
+
+    if (tombstone) {
+      return replyShredded(request, reply, 'delete', tombstone);
+    }
+
+    if (!record) {
+      await recordAudit(request, { action: 'delete', outcome: 'not_found', txId: id });
+      return reply.status(404).send({ 
+        error: 'Transaction not found' 
+      });
+    }
+
+    if (!canAccessParty(request.principal, record.partyId)) {
+      fastify.log.warn({ txId: id, subject: request.principal?.subject }, 'Delete refused for party outside credential scope');
+      await recordAudit(request, { action: 'delete', outcome: 'denied', txId: id, partyId: record.partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    const shredded = await shredRecord(store, blobs, record, 'deleted');
+    if (!shredded) {
+      // Shredded by a concurrent request in the meantime, or removed without
+      // a tombstone
+      const tombstone = await store.getTombstone(id);
+      if (tombstone) {
+        return replyShredded(request, reply, 'delete', tombstone);
+      }
+      await recordAudit(request, { action: 'delete', outcome: 'not_found', txId: id, partyId: record.partyId });
+      return reply.status(404).send({ 
+        error: 'Transaction not found' 
+      });
+    }
+
+    fastify.log.info({ txId: id, partyId: record.partyId }, 'Transaction shredded');
+    await recordAudit(request, { action: 'delete', outcome: 'success', txId: id, partyId: record.partyId });
+    return shredded;
+  });
+
+  // ==========================================================================
+  // ROUTE 14: POST /admin/retention/sweep
+  // ==========================================================================
+  // Runs the retention sweep now instead of waiting for the background
+  // sweeper, e.g. from a cron job when RETENTION_SWEEP_SECONDS=0.
+
+  fastify.post('/admin/retention/sweep', { schema: routeSchemas.retentionSweep, preHandler: requireAdmin }, async (request: FastifyRequest) => {
+    const report = await runRetentionSweep();
+    fastify.log.info({ 
+      total: report.total, 
+      shredded: report.shredded, 
+      failed: report.failed 
+    }, 'Retention sweep finished');
+    await recordAudit(request, { 
+      action: 'expire', 
+      outcome: report.failed === 0 ? 'success' : 'failure', 
+      reason: `shredded=${report.shredded} failed=${report.failed}` 
+    });
+
+    return report;
+  });
+
+  // ==========================================================================
+  // ROUTE 15: GET /admin/export?partyId=
+  // ==========================================================================
+  // Exports every stored record (or one party's) as an encrypted, signed
+  // bundle (see bundle.ts in @mirfa/crypto) for backup or migration.
+  // Records stay encrypted throughout; nothing is decrypted here.
+  //
+  // - Streamed records are left out: their content lives in BLOB_DIR
+  // - Shredded records have nothing left to export
+  // - Returns 500 when BUNDLE_KEY is not configured
+
+  fastify.get<{ Querystring: { partyId?: string } }>('/admin/export', { schema: routeSchemas.export, preHandler: requireAdmin }, async (request, reply) => {
+    const { partyId } = request.query;
+
+    let bundleKey: Buffer;
+    try {
+      bundleKey = getBundleKey();
+    } catch (err: any) {
+      fastify.log.error({ error: err.message }, 'Export aborted: bundle key unavailable');
+      return reply.status(500).send({ 
+        error: 'Bundle key is not configured' 
+      });
+    }
+
+    const records = (await store.list()).filter((record) => !record.stream && (partyId === undefined || record.partyId === partyId));
+    const bundle = createBundle(records, bundleKey);
+
+    fastify.log.info({ partyId, count: records.length }, 'Records exported');
+    await recordAudit(request, { action: 'export', outcome: 'success', partyId, reason: `records=${records.length}` });
+
+    return bundle;
+  });
+
+  // ==========================================================================
+  // ROUTE 16: POST /admin/import?dryRun=&wrapping=keep|rewrap
+  // ==========================================================================
+  // Imports a bundle produced by GET /admin/export.
+  //
+  // - The signature, manifest (count, key versions, digest) and every record
+  //   are verified before anything is written; a bad bundle is a 400
+  // - dryRun=true runs every check, including trial decryption, and reports
+  //   what would happen without storing anything
+  // - wrapping=keep (default) stores records as they are; wrapping=rewrap
+  //   re-wraps their DEKs under this server's active key
+  // - Existing and shredded IDs are skipped; same report shape as the re-wrap
+
+  const MAX_BUNDLE_BYTES = 64 * 1024 * 1024;
+
+  interface ImportBundleQuerystring {
+    dryRun?: string;
+    wrapping?: string;
+  }
+
+  fastify.post<{ Querystring: ImportBundleQuerystring; Body: unknown }>('/admin/import', { 
+    schema: routeSchemas.importBundle, 
+    preHandler: requireAdmin, 
+    bodyLimit: MAX_BUNDLE_BYTES 
+  }, async (request, reply) => {
+    const { dryRun = 'false', wrapping = 'keep' } = request.query;
+
+    if (dryRun !== 'true' && dryRun !== 'false') {
+      return reply.status(400).send({ 
+        error: 'dryRun must be true or false' 
+      });
+    }
+    if (wrapping !== 'keep' && wrapping !== 'rewrap') {
+      return reply.status(400).send({ 
+        error: 'wrapping must be "keep" or "rewrap"' 
+      });
+    }
+
+    let bundleKey: Buffer;
+    let currentKeys: KeyConfig;
+    try {
+      bundleKey = getBundleKey();
+      currentKeys = getKeys();
+    } catch (err: any) {
+      fastify.log.error({ error: err.message }, 'Import aborted: keys unavailable');
+      return reply.status(500).send({ 
+        error: 'Bundle key or master keyring is not configured' 
+      });
+    }
+
+    // ========================================
+    // BUNDLE VERIFICATION
+    // ========================================
+    // Messages describe the bundle only, never key material
+    let opened: ReturnType<typeof openBundle>;
+    try {
+      opened = openBundle(request.body, bundleKey);
+    } catch (err: any) {
+      fastify.log.warn({ error: err.message }, 'Bundle import refused');
+      await recordAudit(request, { action: 'import', outcome: 'failure', reason: err.message });
+      return reply.status(400).send({ 
+        error: err.message 
+      });
+    }
+
+    const report = await importBundleRecords(
+      store, 
+      currentKeys, 
+      opened.manifest, 
+      opened.records, 
+      { dryRun: dryRun === 'true', wrapping: wrapping as BundleWrapping }, 
+      fastify.log, 
+      (record) => recordAudit(request, { action: 'import', outcome: 'success', txId: record.id, partyId: record.partyId })
+    );
+    fastify.log.info({ 
+      dryRun: report.dryRun, 
+      total: report.total, 
+      imported: report.imported, 
+      skipped: report.skipped, 
+      failed: report.failed 
+    }, 'Bundle import finished');
+    await recordAudit(request, { 
+      action: 'import', 
+      outcome: report.failed === 0 ? 'success' : 'failure', 
+      reason: `${report.dryRun ? 'dry run ' : ''}bundle imported=${report.imported} skipped=${report.skipped} failed=${report.failed}` 
+    });
+
+    return report;
+  });
+
+  // ==========================================================================
+  // ROUTE 17: POST /tx/wrap
+  // ==========================================================================
+  // Stores a payload the client encrypted itself (see browser.ts in
+  // @mirfa/crypto): the body carries the ciphertext and the DEK, and the
+  // server only wraps the DEK. The plaintext never reaches the server.
+  //
+  // VALIDATION STRATEGY:
+  // - The schema checks the shape; id must be a UUID and alg AES-256-GCM,
+  //   the only algorithm WebCrypto offers
+  // - Nonce, tag and DEK lengths are checked; the ciphertext cannot be,
+  //   since that would mean decrypting it
+  // - Field-level encryption and blind indexes need the plaintext, so they
+  //   are not available here
+  //
+  // IDEMPOTENCY:
+  // - The client picks the id, so sending the same body again returns the
+  //   stored record (Idempotency-Replayed: true); any other record with that
+  //   id is a 409, a shredded one a 410
+  //
+  // SECURITY CONSIDERATIONS:
+  // - The DEK is never logged or stored unwrapped
+
+  interface WrapRequestBody extends SealedPayload {
+    dek: string;
+    expiresAt?: string;
+  }
+
+  fastify.post<{ Body: WrapRequestBody }>('/tx/wrap', { schema: routeSchemas.wrap, config: { metric: 'wrap' } }, async (request, reply) => {
+    const { dek, expiresAt, ...sealed } = request.body;
+
+    // ========================================
+    // REQUEST VALIDATION
+    // ========================================
+    if (sealed.partyId.trim().length === 0) {
+      return reply.status(400).send({ 
+        error: 'partyId cannot be empty' 
+      });
+    }
+
+    const expiryError = expiresAt === undefined ? null : expiresAtError(expiresAt);
+    if (expiryError) {
+      return reply.status(400).send({ 
+        error: expiryError 
+      });
+    }
+
+    const dekBytes = Buffer.from(dek, 'hex');
+    try {
+      validateSealedPayload(sealed, dekBytes);
+    } catch (err: any) {
+      return reply.status(400).send({ 
+        error: err.message 
+      });
+    }
+
+    if (!canAccessParty(request.principal, sealed.partyId)) {
+      fastify.log.warn({ partyId: sealed.partyId, subject: request.principal?.subject }, 'Wrap refused for party outside credential scope');
+      await recordAudit(request, { action: 'encrypt', outcome: 'denied', txId: sealed.id, partyId: sealed.partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    // ========================================
+    // REPLAYS AND ID CONFLICTS
+    // ========================================
+    const existing = await store.get(sealed.id);
+    if (existing) {
+      const same = existing.partyId === sealed.partyId 
+        && (['payload_nonce', 'payload_ct', 'payload_tag'] as const).every((field) => existing[field] === sealed[field].toLowerCase());
+      if (!same) {
+        return reply.status(409).send({ 
+          error: 'Transaction already exists' 
+        });
+      }
+      fastify.log.info({ txId: existing.id, partyId: existing.partyId }, 'Replay of wrap request');
+      return reply.header('Idempotency-Replayed', 'true').send(existing);
+    }
+    if (await store.getTombstone(sealed.id)) {
+      return reply.status(410).send({ 
+        error: 'Transaction has been shredded' 
+      });
+    }
+
+    // ========================================
+    // DEK WRAPPING
+    // ========================================
+    let record: TxSecureRecord;
+    try {
+      record = await envelopeFromSealedPayload(sealed, dekBytes, getKeys().active);
+      if (expiresAt !== undefined) {
+        record = { ...record, expiresAt: new Date(expiresAt).toISOString() };
+      }
+      await store.put(record);
+    } catch (err: any) {
+      fastify.log.error({ error: err.message, partyId: sealed.partyId }, 'Wrap operation failed');
+      await recordAudit(request, { action: 'encrypt', outcome: 'failure', txId: sealed.id, partyId: sealed.partyId, reason: err.message });
+      return reply.status(400).send({ 
+        error: 'Encryption failed' 
+      });
+    } finally {
+      dekBytes.fill(0);
+    }
+
+    fastify.log.info({ txId: record.id, partyId: record.partyId }, 'Client-encrypted transaction wrapped and stored');
+    await recordAudit(request, { action: 'encrypt', outcome: 'success', txId: record.id, partyId: record.partyId, reason: 'encrypted by client' });
+
+    return record;
+  });
+
+  // ==========================================================================
+  // ROUTE 18: POST /tx/:id/unwrap
+  // ==========================================================================
+  // Returns a record's unwrapped DEK (hex) so the client can decrypt the
+  // payload itself. Same authorization, rate limits and lockout as decrypt.
+  //
+  // SECURITY CONSIDERATIONS:
+  // - Field-level records are refused: with the DEK a client could read
+  //   every field, bypassing selective disclosure; streamed records too,
+  //   since their content is not in the record
+  // - Responses are marked Cache-Control: no-store
+  // - A DEK that fails to unwrap counts as a decrypt failure
+
+  fastify.post<{ Params: { id: string } }>('/tx/:id/unwrap', { schema: routeSchemas.unwrap, config: { metric: 'unwrap' }, preHandler: limitDecrypt }, async (request, reply) => {
+    const { id } = request.params;
+    const { record, tombstone } = await findRecord(id);
+
+    if (tombstone) {
+      return replyShredded(request, reply, 'unwrap', tombstone);
+    }
+
+    if (!record) {
+      await recordAudit(request, { action: 'unwrap', outcome: 'not_found', txId: id });
+      return reply.status(404).send({ 
+        error: 'Transaction not found' 
+      });
+    }
+
+    if (!canAccessParty(request.principal, record.partyId)) {
+      fastify.log.warn({ txId: id, subject: request.principal?.subject }, 'Unwrap refused for party outside credential scope');
+      await recordAudit(request, { action: 'unwrap', outcome: 'denied', txId: id, partyId: record.partyId, reason: 'party outside credential scope' });
+      return reply.status(403).send({ 
+        error: 'Not authorized for this party' 
+      });
+    }
+
+    if (record.fields || record.stream) {
+      return reply.status(400).send({ 
+        error: 'Field-level and streamed records can only be decrypted by the server' 
+      });
+    }
+
+    const limited = await limitRecord(request, id, reply);
+    if (limited) {
+      return reply.status(limited.statusCode).send({ 
+        error: limited.error 
+      });
+    }
+
+    let provider: KeyProvider;
+    try {
+      provider = recordProvider(record);
+    } catch (err: any) {
+      const { statusCode, error } = await keysUnavailable(request, 'unwrap', record, err);
+      return reply.status(statusCode).send({ 
+        error 
+      });
+    }
+
+    let dek: Buffer;
+    try {
+      dek = await provider.unwrap(record);
+    } catch (err: any) {
+      const { statusCode, error } = await decryptFailure(request, 'unwrap', record, err);
+      return reply.status(statusCode).send({ 
+        error 
+      });
+    }
+
+    fastify.log.info({ txId: id }, 'DEK released to client');
+    await recordAudit(request, { action: 'unwrap', outcome: 'success', txId: id, partyId: record.partyId });
+
+    const hex = dek.toString('hex');
+    dek.fill(0);
+    return reply.header('Cache-Control', 'no-store').send({ 
+      dek: hex 
+    });
+  });
+
+
+  // ==========================================================================
+  // ROUTE 19: POST /tx/batch/encrypt
+  // ==========================================================================
+  // Encrypts and stores up to BATCH_MAX_ITEMS payloads in one request, for
+  // jobs that would otherwise make one round trip per transaction.
+  //
+  // PER-ITEM RESULTS:
+  // - Every item is checked like a POST /tx/encrypt body, and authorized,
+  //   logged and audited on its own; a bad item fails alone
+  // - Results keep the order of the items; a failed item carries the status
+  //   and error POST /tx/encrypt would have answered
+  // - The request itself only fails (400) when items is empty or too long
+  // - Items carry no Idempotency-Key: resubmitting a batch stores new records
+  //
+  // The DEKs are wrapped by encryptEnvelopeBatch, which sets up the active
+  // key once for the whole batch.
+
+  const MAX_BATCH_BYTES = 16 * 1024 * 1024;
+
+  type BatchItemResult<Status extends string, Success> =
+    | ({ index: number; status: Status } & Success)
+    | ({ index: number; status: 'failed' } & RouteFailure);
+
+  fastify.post<{ Body: { items: unknown[] } }>('/tx/batch/encrypt', { 
+    schema: routeSchemas.batchEncrypt, 
+    config: { metric: 'batch_encrypt' }, 
+    bodyLimit: MAX_BATCH_BYTES 
+  }, async (request, reply) => {
+    const { items } = request.body;
+
+    // ========================================
+    // BATCH VALIDATION
+    // ========================================
+    if (items.length === 0 || items.length > batchMaxItems) {
+      return reply.status(400).send({ 
+        error: `items must hold 1 to ${batchMaxItems} items` 
+      });
+    }
+
+    fastify.log.info({ items: items.length, subject: request.principal?.subject }, 'Batch encrypt request received');
+
+    // ========================================
+    // PER-ITEM VALIDATION & AUTHORIZATION
+    // ========================================
+    const results: Array<BatchItemResult<'encrypted', { record: TxSecureRecord }>> = new Array(items.length);
+    const accepted: Array<{ index: number; body: EncryptRequestBody }> = [];
+    for (const [index, item] of items.entries()) {
+      const validationError = encryptRequestError(item);
+      if (validationError) {
+        results[index] = { index, status: 'failed', statusCode: 400, error: validationError };
+        continue;
+      }
+
+      const body = item as EncryptRequestBody;
+      if (!canAccessParty(request.principal, body.partyId)) {
+        fastify.log.warn({ partyId: body.partyId, subject: request.principal?.subject }, 'Encrypt refused for party outside credential scope');
+        await recordAudit(request, { action: 'encrypt', outcome: 'denied', partyId: body.partyId, reason: 'party outside credential scope' });
+        results[index] = { index, status: 'failed', statusCode: 403, error: 'Not authorized for this party' };
+        continue;
+      }
+      accepted.push({ index, body });
+    }
+
+    // ========================================
+    // ENCRYPTION WITH ERROR HANDLING
+    // ========================================
+    let encrypted: Awaited<ReturnType<typeof encryptEnvelopeBatch>>;
+    try {
+      encrypted = await encryptEnvelopeBatch(
+        accepted.map(({ body }) => ({ partyId: body.partyId, payload: body.payload, fields: body.fields })),
+        getKeys().active,
+        { alg: encryptionAlg, maxItems: batchMaxItems }
+      );
+    } catch (err: any) {
+      // e.g. no master key configured: every item fails the same way
+      encrypted = accepted.map(() => ({ error: err.message }));
+    }
+
+    for (const [i, { index, body }] of accepted.entries()) {
+      const { partyId, payload, searchable, expiresAt } = body;
+      try {
+        let record = encrypted[i].record;
+        if (!record) {
+          throw new Error(encrypted[i].error);
+        }
+        if (searchable) {
+          record = { ...record, blind_index: createBlindIndex(partyId, payload, searchable, getIndexKeyring()) };
+        }
+        if (expiresAt !== undefined) {
+          record = { ...record, expiresAt: new Date(expiresAt).toISOString() };
+        }
+        await store.put(record);
+
+        fastify.log.info({ txId: record.id, partyId }, 'Transaction encrypted and stored');
+        await recordAudit(request, { action: 'encrypt', outcome: 'success', txId: record.id, partyId });
+        results[index] = { index, status: 'encrypted', record };
+      } catch (err: any) {
+        fastify.log.error({ error: err.message, partyId }, 'Encryption operation failed');
+        await recordAudit(request, { action: 'encrypt', outcome: 'failure', partyId, reason: err.message });
+        results[index] = { index, status: 'failed', statusCode: 400, error: 'Encryption failed' };
+      }
+    }
+
+    const failed = results.filter((result) => result.status === 'failed').length;
+    return { 
+      total: items.length, 
+      encrypted: items.length - failed, 
+      failed, 
+      results 
+    };
+  });
+
+  // ==========================================================================
+  // ROUTE 20: POST /tx/batch/decrypt
+  // ==========================================================================
+  // Decrypts up to BATCH_MAX_ITEMS records in one request.
+  //
+  // PER-ITEM RESULTS:
+  // - Every ID is rate limited, authorized, logged and audited exactly as
+  //   POST /tx/:id/decrypt would, so a batch is no way around the limits
+  // - Results keep the order of the IDs; a failed ID carries the status
+  //   and error POST /tx/:id/decrypt would have answered (404, 410, 429...)
+  // - `fields` applies to every record, like ?fields= on the single route
+
+  interface BatchDecryptRequestBody {
+    ids: string[];
+    fields?: string[];
+  }
+
+  fastify.post<{ Body: BatchDecryptRequestBody }>('/tx/batch/decrypt', { 
+    schema: routeSchemas.batchDecrypt, 
+    config: { metric: 'batch_decrypt' }, 
+    bodyLimit: MAX_BATCH_BYTES 
+  }, async (request, reply) => {
+    const { ids } = request.body;
+
+    // ========================================
+    // BATCH VALIDATION
+    // ========================================
+    if (ids.length === 0 || ids.length > batchMaxItems) {
+      return reply.status(400).send({ 
+        error: `ids must hold 1 to ${batchMaxItems} items` 
+      });
+    }
+
+    const fields = request.body.fields && [...new Set(request.body.fields)];
+    if (fields?.length === 0) {
+      return reply.status(400).send({ 
+        error: 'fields must list at least one field name' 
+      });
+    }
+
+    fastify.log.info({ items: ids.length, subject: request.principal?.subject }, 'Batch decrypt request received');
+
+    // ========================================
+    // PER-ITEM DECRYPTION
+    // ========================================
+    const results: Array<{ id: string } & BatchItemResult<'decrypted', { payload: unknown }>> = [];
+    for (const [index, id] of ids.entries()) {
+      const { error } = await admitDecrypt(request, id, 'client');
+      const outcome = error ? { statusCode: 429, error } : await decryptForRequest(request, id, fields);
+      results.push('error' in outcome 
+        ? { index, id, status: 'failed', ...outcome } 
+        : { index, id, status: 'decrypted', payload: outcome.payload });
+    }
+
+    const failed = results.filter((result) => result.status === 'failed').length;
+    return { 
+      total: ids.length, 
+      decrypted: ids.length - failed, 
+      failed, 
+      results 
+    };
+  });
+
+  // ==========================================================================
+  // ROUTE 21: POST /admin/parties/:partyId/rekey
+  // ==========================================================================
+  // Moves one party to a new KEK version (see parties.ts): its DEKs are
+  // re-wrapped under the new version, and older versions are deleted once
+  // every record has moved. Other parties are not touched.
+  //
+  // - Records without a KEK yet (wrapped before PARTY_KEYS_FILE) move too
+  // - With failures, old versions are kept and the run can be repeated
+  // - Returns 500 when party keys are not configured
+
+  fastify.post<{ Params: { partyId: string } }>('/admin/parties/:partyId/rekey', { schema: routeSchemas.rekeyParty, preHandler: requireAdmin }, async (request, reply) => {
+    const { partyId } = request.params;
+
+    let currentKeys: KeyConfig;
+    try {
+      currentKeys = getKeys();
+    } catch (err: any) {
+      fastify.log.error({ error: err.message }, 'Party re-key aborted: keys unavailable');
+      return reply.status(500).send({ 
+        error: 'Master keyring is not configured' 
+      });
+    }
+    if (!currentKeys.partyKeys) {
+      return reply.status(500).send({ 
+        error: 'Party keys are not configured' 
+      });
+    }
+
+    const report = await rekeyParty(store, currentKeys, currentKeys.partyKeys, partyId, fastify.log);
+    fastify.log.info({ 
+      partyId, 
+      kekVersion: report.kekVersion, 
+      rewrapped: report.rewrapped, 
+      skipped: report.skipped, 
+      failed: report.failed 
+    }, 'Party re-key finished');
+    await recordAudit(request, { 
+      action: 'rekey', 
+      outcome: report.failed === 0 ? 'success' : 'failure', 
+      partyId, 
+      reason: `kek_version=${report.kekVersion} rewrapped=${report.rewrapped} failed=${report.failed} retired=${report.retired.length}` 
+    });
+
+    return report;
+  });
+
+  // ==========================================================================
+  // ROUTE 22: DELETE /admin/parties/:partyId
+  // ==========================================================================
+  // Crypto-shreds every record of one party. With party keys configured, its
+  // KEK versions are deleted first, so copies of its records held elsewhere
+  // (backups, exports) can no longer be decrypted either. Without them, this
+  // is DELETE /tx/:id for each of the party's records.
+
+  fastify.delete<{ Params: { partyId: string } }>('/admin/parties/:partyId', { schema: routeSchemas.shredParty, preHandler: requireAdmin }, async (request, reply) => {
+    const { partyId } = request.params;
+
+    let currentKeys: KeyConfig;
+    try {
+      currentKeys = getKeys();
+    } catch (err: any) {
+      fastify.log.error({ error: err.message }, 'Party shred aborted: keys unavailable');
+      return reply.status(500).send({ 
+        error: 'Master keyring is not configured' 
+      });
+    }
+
+    const report = await shredParty(store, blobs, currentKeys.partyKeys, partyId, fastify.log, (tombstone) => 
+      recordAudit(request, { action: 'delete', outcome: 'success', txId: tombstone.id, partyId, reason: 'party shredded' }));
+    fastify.log.info({ 
+      partyId, 
+      keyVersions: report.keyVersions, 
+      shredded: report.shredded, 
+      failed: report.failed 
+    }, 'Party shredded');
+    await recordAudit(request, { 
+      action: 'delete', 
+      outcome: report.failed === 0 ? 'success' : 'failure', 
+      partyId, 
+      reason: `party shredded: key_versions=${report.keyVersions} shredded=${report.shredded} failed=${report.failed}` 
+    });
+
+    return report;
+  });
+
+  // ==========================================================================
+  // ROUTE 23: GET /seal
+  // ==========================================================================
+  // Public seal status, for operators and load balancers: whether the vault
+  // is sealed and how many of the needed shares have been submitted.
+
+  fastify.get('/seal', { schema: routeSchemas.sealStatus, config: { public: true, whileSealed: true } }, async () => {
+    return seal ? seal.status() : { sealed: false };
+  });
+
+  // ==========================================================================
+  // ROUTE 24: POST /admin/unseal
+  // ==========================================================================
+  // Takes one Shamir share. Once UNSEAL_THRESHOLD shares are in, the keyring
+  // is rebuilt and checked against UNSEAL_CHECK, and routes that need keys
+  // are served again. Wrong shares discard everything submitted so far.
+  //
+  // - Shares are never logged or audited, only the progress
+  // - Submitting after the vault is unsealed changes nothing
+
+  fastify.post<{ Body: { share: string } }>('/admin/unseal', { schema: routeSchemas.unseal, config: { whileSealed: true }, preHandler: requireAdmin }, async (request, reply) => {
+    if (!seal) {
+      return reply.status(400).send({ 
+        error: 'Vault is not in sealed mode' 
+      });
+    }
+
+    const wasSealed = seal.status().sealed;
+    let status;
+    try {
+      status = seal.submit(request.body.share);
+    } catch (err: any) {
+      if (!(err instanceof UnsealError)) {
+        fastify.log.error({ error: err.message }, 'Unseal failed');
+        await recordAudit(request, { action: 'unseal', outcome: 'failure', reason: 'unseal failed' });
+        return reply.status(500).send({ 
+          error: 'Unseal failed' 
+        });
+      }
+      fastify.log.warn({ subject: request.principal?.subject, error: err.message }, 'Unseal share refused');
+      await recordAudit(request, { action: 'unseal', outcome: 'failure', reason: err.message });
+      return reply.status(400).send({ 
+        error: err.message 
+      });
+    }
+
+    if (wasSealed && !status.sealed) {
+      keys = undefined;
+      fastify.log.info('Vault unsealed');
+    }
+    await recordAudit(request, { 
+      action: 'unseal', 
+      outcome: 'success', 
+      reason: status.sealed ? `progress=${status.progress}/${status.threshold}` : 'unsealed' 
+    });
+    return status;
+  });
+
+  // ==========================================================================
+  // ROUTE 25: POST /admin/seal
+  // ==========================================================================
+  // Seals the vault again: the keyring is zeroed in memory, and routes that
+  // need keys answer 503 until it is unsealed with shares again.
+
+  fastify.post('/admin/seal', { schema: routeSchemas.seal, config: { whileSealed: true }, preHandler: requireAdmin }, async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!seal) {
+      return reply.status(400).send({ 
+        error: 'Vault is not in sealed mode' 
+      });
+    }
+
+    seal.seal();
+    keys = undefined;
+    fastify.log.warn({ subject: request.principal?.subject }, 'Vault sealed');
+    await recordAudit(request, { action: 'seal', outcome: 'success' });
+    return seal.status();
+  });
+
+  return fastify;
+}
@@ -0,0 +1,211 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+
+// ============================================================================
+// HASH-CHAINED AUDIT LOG
+// ============================================================================
+// Every encrypt, fetch and decrypt (including refusals and failures) is
+// appended as one entry. Each entry's hash covers its own content and the
+// previous entry's hash, so editing, removing or reordering any entry breaks
+// the chain from that point on. verifyAuditChain() detects this.
+//
+// Entries never contain payload content, ciphertext or key material.
+
+export type AuditAction = 'encrypt' | 'fetch' | 'decrypt' | 'unwrap' | 'import' | 'rewrap' | 'upgrade' | 'search' | 'delete' | 'expire' | 'export' | 'rekey' | 'seal' | 'unseal';
+
+export type AuditOutcome = 'success' | 'denied' | 'not_found' | 'failure';
+
+/**
+ * What a route reports; sequence number, time and hashes are added by the log.
+ */
+export interface AuditEvent {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  /** Credential subject of the caller ("anonymous" when unauthenticated). */
+  subject: string;
+  ip?: string;
+  txId?: string;
+  partyId?: string;
+  /** Why the operation was refused or failed. */
+  reason?: string;
+  /** Payload fields a decrypt revealed, when it asked for specific ones. */
+  fields?: string[];
+}
+
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  txId?: string;
+  subject?: string;
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  /** Only entries with seq greater than this. */
+  afterSeq?: number;
+  limit: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  /** seq of the first entry that does not verify. */
+  brokenAt?: number;
+  reason?: string;
+}
+
+/**
+ * Where entries are persisted. Implementations only append and read back.
+ */
+export interface AuditSink {
+  append(entry: AuditEntry): Promise<void>;
+  readAll(): Promise<AuditEntry[]>;
+}
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Hash of an entry: SHA-256 over the previous hash and the entry content
+ * in a fixed field order (so it does not depend on object key order).
+ */
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const content = [
+    entry.seq,
+    entry.timestamp,
+    entry.action,
+    entry.outcome,
+    entry.subject,
+    entry.ip ?? null,
+    entry.txId ?? null,
+    entry.partyId ?? null,
+    entry.reason ?? null,
+    // Only hashed when present, so entries written before it still verify
+    ...(entry.fields ? [entry.fields] : [])
+  ];
+  return crypto.createHash('sha256').update(entry.prevHash).update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Checks sequence numbers, links and hashes of a full chain.
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditVerification {
+  let prevHash = GENESIS_HASH;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.seq !== i + 1) {
+      return { valid: false, checked: i, brokenAt: entry.seq, reason: `expected seq ${i + 1}` };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { valid: false, checked: i, brokenAt: entry.seq, reason: 'prevHash does not match previous entry' };
+    }
+    if (hashAuditEntry(entry) !== entry.hash) {
+      return { valid: false, checked: i, brokenAt: entry.seq, reason: 'hash does not match entry content' };
+    }
+    prevHash = entry.hash;
+  }
+
+  return { valid: true, checked: entries.length };
+}
+
+/**
+ * Keeps entries in process memory. Lost on restart.
+ */
+export function createMemoryAuditSink(): AuditSink {
+  const entries: AuditEntry[] = [];
+  return {
+    async append(entry) {
+      entries.push(entry);
+    },
+    async readAll() {
+      return [...entries];
+    }
+  };
+}
+
+/**
+ * Appends one JSON line per entry to a file.
+ */
+export function createJsonlAuditSink(path: string): AuditSink {
+  return {
+    async append(entry) {
+      await fs.promises.appendFile(path, JSON.stringify(entry) + '\n', 'utf8');
+    },
+    async readAll() {
+      if (!fs.existsSync(path)) return [];
+      const content = await fs.promises.readFile(path, 'utf8');
+      return content.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line) as AuditEntry);
+    }
+  };
+}
+
+/**
+ * Builds the sink selected by AUDIT_LOG_PATH (JSON-lines file), or memory.
+ */
+export function createAuditSinkFromEnv(): AuditSink {
+  return process.env.AUDIT_LOG_PATH ? createJsonlAuditSink(process.env.AUDIT_LOG_PATH) : createMemoryAuditSink();
+}
+
+export interface AuditLog {
+  record(event: AuditEvent): Promise<AuditEntry>;
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+  verify(): Promise<AuditVerification>;
+}
+
+/**
+ * Creates the audit log on top of a sink. Appends are serialised so that
+ * sequence numbers and hash links stay consistent under concurrency.
+ */
+export function createAuditLog(sink: AuditSink): AuditLog {
+  // Head of the chain, loaded lazily from the sink on first append
+  let head: Promise<{ seq: number; hash: string }> | undefined;
+
+  const loadHead = async () => {
+    const entries = await sink.readAll();
+    const last = entries[entries.length - 1];
+    return last ? { seq: last.seq, hash: last.hash } : { seq: 0, hash: GENESIS_HASH };
+  };
+
+  return {
+    record(event) {
+      const previous = head ?? loadHead();
+      const appended = previous.then(async (prev) => {
+        const unsigned: Omit<AuditEntry, 'hash'> = {
+          ...event,
+          seq: prev.seq + 1,
+          timestamp: new Date().toISOString(),
+          prevHash: prev.hash
+        };
+        const entry: AuditEntry = { ...unsigned, hash: hashAuditEntry(unsigned) };
+        await sink.append(entry);
+        return entry;
+      });
+
+      // A failed append leaves the head where it was; the next append retries from the sink
+      head = appended.then(
+        (entry) => ({ seq: entry.seq, hash: entry.hash }),
+        () => loadHead()
+      );
+      return appended;
+    },
+
+    async query(query) {
+      const entries = await sink.readAll();
+      return entries
+        .filter((entry) =>
+          (query.txId === undefined || entry.txId === query.txId) &&
+          (query.subject === undefined || entry.subject === query.subject) &&
+          (query.action === undefined || entry.action === query.action) &&
+          (query.outcome === undefined || entry.outcome === query.outcome) &&
+          (query.afterSeq === undefined || entry.seq > query.afterSeq))
+        .slice(0, query.limit);
+    },
+
+    async verify() {
+      return verifyAuditChain(await sink.readAll());
+    }
+  };
+}
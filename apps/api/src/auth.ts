@@ -0,0 +1,199 @@
+import crypto from 'node:crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+
+// ============================================================================
+// AUTHENTICATION & PER-PARTY AUTHORIZATION
+// ============================================================================
+// Every non-public route requires `Authorization: Bearer <credential>`,
+// where the credential is either an API key or an HS256-signed JWT.
+//
+// API_KEYS        "<key>:<party>|<party>,<key>:*"   ("*" = every party)
+// ADMIN_API_KEYS  "<key>,<key>"                     (admin routes only)
+// JWT_SECRET      HMAC secret for JWTs with claims:
+//                 { sub, parties: string[] | "*", admin?: boolean, exp? }
+// AUTH_DISABLED   "true" to turn authentication off (local development only)
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    principal?: Principal;
+  }
+  interface FastifyContextConfig {
+    /** Route is reachable without a credential. */
+    public?: boolean;
+  }
+}
+
+/**
+ * The authenticated caller.
+ */
+export interface Principal {
+  /** Stable, non-secret identifier of the credential (for logs and audit). */
+  subject: string;
+  /** Parties the caller may encrypt for and decrypt. */
+  parties: string[] | '*';
+  /** Whether the caller may use /admin routes. */
+  admin: boolean;
+}
+
+export interface AuthConfig {
+  disabled: boolean;
+  /** Principals keyed by the SHA-256 of their API key. */
+  apiKeys: Map<string, Principal>;
+  jwtSecret?: Buffer;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Subject for an API key: a short hash prefix, never the key itself.
+ */
+function apiKeySubject(key: string): string {
+  return `key:${sha256(key).slice(0, 12)}`;
+}
+
+/**
+ * Builds the authentication config from environment variables.
+ */
+export function loadAuthConfigFromEnv(): AuthConfig {
+  const apiKeys = new Map<string, Principal>();
+
+  for (const entry of (process.env.API_KEYS || '').split(',').map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    const key = entry.slice(0, separator);
+    const scope = entry.slice(separator + 1);
+
+    if (separator <= 0 || !scope) {
+      throw new Error('API_KEYS entries must look like "<key>:<party>|<party>" or "<key>:*"');
+    }
+    apiKeys.set(sha256(key), {
+      subject: apiKeySubject(key),
+      parties: scope === '*' ? '*' : scope.split('|').filter(Boolean),
+      admin: false
+    });
+  }
+
+  for (const key of (process.env.ADMIN_API_KEYS || '').split(',').map((k) => k.trim()).filter(Boolean)) {
+    apiKeys.set(sha256(key), { subject: apiKeySubject(key), parties: [], admin: true });
+  }
+
+  return {
+    disabled: process.env.AUTH_DISABLED === 'true',
+    apiKeys,
+    jwtSecret: process.env.JWT_SECRET ? Buffer.from(process.env.JWT_SECRET, 'utf8') : undefined
+  };
+}
+
+/**
+ * Verifies an HS256 JWT and returns its principal, or null if invalid.
+ */
+function verifyJwt(token: string, secret: Buffer): Principal | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  let parsedHeader: any;
+  let claims: any;
+  try {
+    parsedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch (err) {
+    return null;
+  }
+
+  // Only HS256 is accepted; never trust "none" or asymmetric algs here
+  if (parsedHeader?.alg !== 'HS256') return null;
+
+  const expected = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp === 'number' && claims.exp <= now) return null;
+  if (typeof claims.nbf === 'number' && claims.nbf > now) return null;
+  if (typeof claims.sub !== 'string' || !claims.sub) return null;
+
+  const parties = claims.parties === '*'
+    ? '*'
+    : Array.isArray(claims.parties) ? claims.parties.filter((p: unknown) => typeof p === 'string') : [];
+
+  return { subject: `jwt:${claims.sub}`, parties, admin: claims.admin === true };
+}
+
+/**
+ * Resolves a bearer credential to a principal, or null if it is not valid.
+ */
+export function authenticate(config: AuthConfig, authorization: string | undefined): Principal | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization ?? '');
+  if (!match) return null;
+  const credential = match[1];
+
+  // JWTs have exactly three dot-separated segments; API keys have none
+  if (config.jwtSecret && credential.split('.').length === 3) {
+    return verifyJwt(credential, config.jwtSecret);
+  }
+
+  return config.apiKeys.get(sha256(credential)) ?? null;
+}
+
+/**
+ * Signs an HS256 JWT. Used by tests and operator tooling to mint credentials.
+ */
+export function signJwt(claims: Record<string, unknown>, secret: string | Buffer): string {
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+/**
+ * Whether the principal may act on records of the given party.
+ */
+export function canAccessParty(principal: Principal | undefined, partyId: string): boolean {
+  if (!principal) return false;
+  return principal.parties === '*' || principal.parties.includes(partyId);
+}
+
+/**
+ * Registers the authentication hook. Routes opt out with `config: { public: true }`.
+ */
+export function registerAuth(fastify: FastifyInstance, config: AuthConfig) {
+  if (config.disabled) {
+    fastify.log.warn('AUTH_DISABLED=true - every request is treated as an all-party admin');
+  } else if (config.apiKeys.size === 0 && !config.jwtSecret) {
+    fastify.log.warn('No API_KEYS, ADMIN_API_KEYS or JWT_SECRET configured - protected routes will reject every request');
+  }
+
+  fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    // Unknown routes still 404, with or without a credential
+    if (request.routeOptions.url === undefined || request.routeOptions.config?.public) return;
+
+    if (config.disabled) {
+      request.principal = { subject: 'anonymous', parties: '*', admin: true };
+      return;
+    }
+
+    const principal = authenticate(config, request.headers.authorization);
+    if (!principal) {
+      request.log.warn({ url: request.url }, 'Rejected request with missing or invalid credential');
+      return reply.status(401).send({
+        error: 'Authentication required'
+      });
+    }
+    request.principal = principal;
+  });
+}
+
+/**
+ * preHandler for /admin routes.
+ */
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+  if (!request.principal?.admin) {
+    request.log.warn({ subject: request.principal?.subject }, 'Rejected non-admin request to admin route');
+    return reply.status(403).send({
+      error: 'Admin credential required'
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable, Writable } from 'node:stream';
+
+/**
+ * Where streamed (chunk-encrypted) content lives, keyed by record ID.
+ * Only ciphertext is ever written here.
+ */
+export interface BlobStore {
+  createWriteStream(id: string): Writable;
+  createReadStream(id: string): Readable;
+  /** Removes a blob. Resolves to false when it did not exist. */
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Record IDs are UUIDs; anything else must never reach the filesystem.
+ */
+function blobPath(dir: string, id: string): string {
+  if (!/^[0-9a-zA-Z-]+$/.test(id)) {
+    throw new Error(`Invalid blob ID "${id}"`);
+  }
+  return path.join(dir, id);
+}
+
+/**
+ * One file per blob in a directory, created on first use.
+ */
+export function createFileBlobStore(dir: string): BlobStore {
+  return {
+    createWriteStream(id) {
+      fs.mkdirSync(dir, { recursive: true });
+      return fs.createWriteStream(blobPath(dir, id), { flags: 'wx' });
+    },
+    createReadStream(id) {
+      return fs.createReadStream(blobPath(dir, id));
+    },
+    async delete(id) {
+      try {
+        await fs.promises.unlink(blobPath(dir, id));
+        return true;
+      } catch (err: any) {
+        if (err.code === 'ENOENT') return false;
+        throw err;
+      }
+    }
+  };
+}
+
+/**
+ * Builds the blob store from BLOB_DIR (defaults to ./mirfa-blobs).
+ */
+export function createBlobStoreFromEnv(): BlobStore {
+  return createFileBlobStore(process.env.BLOB_DIR || 'mirfa-blobs');
+}
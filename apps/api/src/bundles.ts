@@ -0,0 +1,132 @@
+import { FastifyBaseLogger } from 'fastify';
+import { PartyKeyShreddedError, TxBundleManifest, TxSecureRecord, revealPayload, rewrapDEKWithProvider } from '@mirfa/crypto';
+import { KeyConfig, providerFor, validateMasterKeyHex } from './keys.js';
+import { TxStore } from './storage.js';
+
+// ============================================================================
+// BUNDLE IMPORT
+// ============================================================================
+// Loads records from an opened export bundle (see bundle.ts in @mirfa/crypto)
+// into the store. Every record must unwrap and decrypt with this server's
+// keys before it is accepted, exactly like POST /tx/import.
+//
+// - keep:   records are stored as they are; the destination must hold the
+//           source's master key versions (or provider keys)
+// - rewrap: DEKs are re-wrapped under the active key on the way in, so the
+//           source's key versions can be retired afterwards
+
+export type BundleWrapping = 'keep' | 'rewrap';
+
+/**
+ * Reads BUNDLE_KEY (64 hex chars), shared by every environment that
+ * exchanges bundles. Undefined when unset: export and import are disabled.
+ */
+export function loadBundleKeyFromEnv(): Buffer | undefined {
+  const hex = process.env.BUNDLE_KEY;
+  return hex ? validateMasterKeyHex('BUNDLE_KEY', hex) : undefined;
+}
+
+/**
+ * Outcome of importing one record. In a dry run, "imported" means it would be.
+ */
+export interface BundleImportResult {
+  id: string;
+  status: 'imported' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+export interface BundleImportReport {
+  manifest: TxBundleManifest;
+  dryRun: boolean;
+  wrapping: BundleWrapping;
+  total: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  results: BundleImportResult[];
+}
+
+/**
+ * Imports records one at a time, so a failure only affects that record.
+ * IDs already stored or shredded are skipped. `onImport` runs after each
+ * record is stored (never in a dry run).
+ */
+export async function importBundleRecords(
+  store: TxStore,
+  keys: KeyConfig,
+  manifest: TxBundleManifest,
+  records: TxSecureRecord[],
+  options: { dryRun: boolean; wrapping: BundleWrapping },
+  log: FastifyBaseLogger,
+  onImport: (record: TxSecureRecord) => Promise<unknown> = async () => undefined
+): Promise<BundleImportReport> {
+  const report: BundleImportReport = {
+    manifest,
+    ...options,
+    total: records.length,
+    imported: 0,
+    skipped: 0,
+    failed: 0,
+    results: []
+  };
+  const seen = new Set<string>();
+
+  const skip = (id: string, reason: string) => {
+    report.skipped++;
+    report.results.push({ id, status: 'skipped', reason });
+  };
+
+  for (const original of records) {
+    const { id } = original;
+    if (seen.has(id)) {
+      skip(id, 'listed twice in the bundle');
+      continue;
+    }
+    seen.add(id);
+
+    if (await store.get(id)) {
+      skip(id, 'already exists');
+      continue;
+    }
+    if (await store.getTombstone(id)) {
+      skip(id, 'shredded');
+      continue;
+    }
+
+    try {
+      // Streamed content lives outside the record, so it cannot travel in a bundle
+      if (original.stream) {
+        throw new Error('Streamed records cannot be imported');
+      }
+
+      const dek = await providerFor(keys, original).unwrap(original);
+      revealPayload(original, dek);
+
+      const record = options.wrapping === 'rewrap'
+        ? await rewrapDEKWithProvider(original, providerFor(keys, original), keys.active)
+        : original;
+
+      if (!options.dryRun) {
+        // Checked again as the record is written: the ID may have been taken,
+        // or taken and shredded, while it was being decrypted
+        if (!(await store.insert(record))) {
+          skip(id, (await store.getTombstone(id)) ? 'shredded' : 'already exists');
+          continue;
+        }
+        await onImport(record);
+      }
+      report.imported++;
+      report.results.push({ id, status: 'imported' });
+    } catch (err: any) {
+      if (err instanceof PartyKeyShreddedError) {
+        skip(id, 'shredded');
+        continue;
+      }
+      report.failed++;
+      report.results.push({ id, status: 'failed', reason: err.message });
+      log.warn({ txId: id, error: err.message }, 'Bundle record import failed');
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,17 @@
+import { RATE_LIMIT_HEADERS } from './ratelimit.js';
+
+/**
+ * Allowed CORS origins from CORS_ORIGIN ("https://a.example,https://b.example").
+ * Defaults to the local web app; "*" must be opted into explicitly.
+ */
+export function corsOriginFromEnv(): string | string[] {
+  const value = process.env.CORS_ORIGIN || 'http://localhost:3000';
+  if (value.trim() === '*') return '*';
+  return value.split(',').map((origin) => origin.trim()).filter(Boolean);
+}
+
+/**
+ * Response headers browsers may read: the rate limit headers, and
+ * Idempotency-Replayed on a replayed encrypt.
+ */
+export const EXPOSED_HEADERS = [...RATE_LIMIT_HEADERS, 'Idempotency-Replayed'];
@@ -0,0 +1,94 @@
+import crypto from 'node:crypto';
+import { AlgorithmId, decryptPayload, encryptPayload, generateDEK } from '@mirfa/crypto';
+import { KeyConfig } from './keys.js';
+import { TxStore } from './storage.js';
+
+// ============================================================================
+// READINESS CHECKS
+// ============================================================================
+// GET /healthz only says the process is up. GET /readyz says whether it can
+// do its job, which GET / never did (it answered "ok" with no master key):
+//
+// - keys: the key configuration loads (keys are valid, the vault is unsealed)
+// - store: a lookup reaches the transaction store
+// - selfTest: a payload encrypted under a fresh DEK, wrapped and unwrapped by
+//   the active provider, decrypts back to itself. Nothing is stored, and the
+//   DEK is wrapped without a record context, so no party key is created for it.
+//
+// Each check has CHECK_TIMEOUT_MS; failure details go to the log only.
+
+const CHECK_TIMEOUT_MS = 5000;
+
+export type CheckResult = 'ok' | 'fail' | 'skipped';
+
+export interface ReadinessReport {
+  ready: boolean;
+  checks: { keys: CheckResult; store: CheckResult; selfTest: CheckResult };
+  /** Why each failed check failed; for the log, never the response. */
+  errors: string[];
+}
+
+/**
+ * Rejects if `work` takes longer than CHECK_TIMEOUT_MS.
+ */
+async function withTimeout<T>(work: Promise<T>, name: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`${name} check timed out after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+  });
+  try {
+    return await Promise.race([work, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Encrypt -> wrap -> unwrap -> decrypt with the active provider, in memory.
+ */
+async function roundtrip(keys: KeyConfig, alg: AlgorithmId): Promise<void> {
+  const probe = { selfTest: crypto.randomUUID() };
+  const dek = generateDEK();
+  const encrypted = encryptPayload(probe, dek, undefined, alg);
+  const wrapped = await keys.active.wrap(dek);
+  const unwrapped = await keys.active.unwrap(wrapped);
+  const decrypted = decryptPayload({ ...encrypted, alg }, unwrapped) as typeof probe;
+  if (!unwrapped.equals(dek) || decrypted?.selfTest !== probe.selfTest) {
+    throw new Error('Self-test roundtrip returned different data');
+  }
+}
+
+/**
+ * Runs every readiness check. The self-test is skipped when keys did not load.
+ */
+export async function checkReadiness(getKeys: () => KeyConfig, store: TxStore, alg: AlgorithmId): Promise<ReadinessReport> {
+  const report: ReadinessReport = { ready: false, checks: { keys: 'fail', store: 'fail', selfTest: 'skipped' }, errors: [] };
+
+  let keys: KeyConfig | undefined;
+  try {
+    keys = getKeys();
+    report.checks.keys = 'ok';
+  } catch (err: any) {
+    report.errors.push(`keys: ${err.message}`);
+  }
+
+  try {
+    await withTimeout(store.get(`readyz-${crypto.randomUUID()}`), 'Store');
+    report.checks.store = 'ok';
+  } catch (err: any) {
+    report.errors.push(`store: ${err.message}`);
+  }
+
+  if (keys) {
+    try {
+      await withTimeout(roundtrip(keys, alg), 'Self-test');
+      report.checks.selfTest = 'ok';
+    } catch (err: any) {
+      report.checks.selfTest = 'fail';
+      report.errors.push(`selfTest: ${err.message}`);
+    }
+  }
+
+  report.ready = Object.values(report.checks).every((result) => result === 'ok');
+  return report;
+}
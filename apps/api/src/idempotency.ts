@@ -0,0 +1,108 @@
+import crypto from 'node:crypto';
+import { TxSecureRecord } from '@mirfa/crypto';
+
+// ============================================================================
+// IDEMPOTENT ENCRYPTION
+// ============================================================================
+// A client that retries POST /tx/encrypt with the same Idempotency-Key gets
+// the record its first attempt created instead of a second one. Keys are
+// scoped to the caller's credential subject and remembered for a TTL.
+//
+// The default store keeps keys in process memory, so on serverless or
+// multi-instance deployments a retry is only recognised by the instance that
+// served the first attempt; plug in a shared store for stronger guarantees.
+
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * What is remembered for one key. `record` is absent while the first
+ * request is still being processed.
+ */
+export interface IdempotencyEntry {
+  /** SHA-256 of the request body the key was first used with. */
+  fingerprint: string;
+  record?: TxSecureRecord;
+  expiresAt: number;
+}
+
+export interface IdempotencyStore {
+  /**
+   * Claims a key for a new request. Resolves to undefined if the key was free
+   * (it is now held as in progress), or to the existing entry otherwise.
+   * Must be atomic: two concurrent claims of one key never both succeed.
+   */
+  claim(key: string, fingerprint: string): Promise<IdempotencyEntry | undefined>;
+  /** Stores the record a claimed key produced. */
+  complete(key: string, record: TxSecureRecord): Promise<void>;
+  /** Frees a claimed key whose request failed, so it can be retried. */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Keeps keys in process memory. Expired keys are swept every so often.
+ */
+export function createMemoryIdempotencyStore(ttlMs: number, now: () => number = Date.now): IdempotencyStore {
+  const entries = new Map<string, IdempotencyEntry>();
+  let claims = 0;
+
+  const sweep = (time: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= time) entries.delete(key);
+    }
+  };
+
+  return {
+    async claim(key, fingerprint) {
+      const time = now();
+      if (++claims % 1000 === 0) sweep(time);
+
+      const existing = entries.get(key);
+      if (existing && existing.expiresAt > time) {
+        return { ...existing };
+      }
+      entries.set(key, { fingerprint, expiresAt: time + ttlMs });
+      return undefined;
+    },
+
+    async complete(key, record) {
+      const entry = entries.get(key);
+      if (entry) entry.record = record;
+    },
+
+    async release(key) {
+      entries.delete(key);
+    }
+  };
+}
+
+/**
+ * Builds the store with IDEMPOTENCY_TTL_SECONDS (default 86400, one day).
+ */
+export function createIdempotencyStoreFromEnv(): IdempotencyStore {
+  const seconds = Number(process.env.IDEMPOTENCY_TTL_SECONDS || 86400);
+  if (!Number.isInteger(seconds) || seconds < 1) {
+    throw new Error('IDEMPOTENCY_TTL_SECONDS must be a positive integer');
+  }
+  return createMemoryIdempotencyStore(seconds * 1000);
+}
+
+/**
+ * Whether a header value is usable as a key: 1 to 255 printable ASCII characters.
+ */
+export function isValidIdempotencyKey(value: string): boolean {
+  return value.length > 0 && value.length <= MAX_IDEMPOTENCY_KEY_LENGTH && /^[\x21-\x7e]+$/.test(value);
+}
+
+/**
+ * Fingerprint of a request body, to tell a replay from a different request.
+ * Object keys are sorted at every level, so a client that serialises the
+ * same body in another key order is still recognised as replaying it.
+ */
+export function fingerprintBody(body: unknown): string {
+  const canonical = JSON.stringify(body, (_key, value) =>
+    value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : value
+  );
+  return crypto.createHash('sha256').update(canonical ?? '', 'utf8').digest('hex');
+}
@@ -0,0 +1,241 @@
+import { 
+  KeyProvider, 
+  Keyring, 
+  PartyKeyStore, 
+  TxSecureRecord, 
+  createKeyring, 
+  createLocalKeyProvider, 
+  createFileKeyProvider, 
+  createFilePartyKeyStore, 
+  createKmsKeyProvider 
+} from '@mirfa/crypto';
+
+// ============================================================================
+// MASTER KEY VALIDATION AT API LAYER
+// ============================================================================
+// DEFENSIVE PROGRAMMING: Validate master keys before server starts
+// This prevents runtime failures and provides clear error messages
+// We check: existence, length (64 hex = 32 bytes), and hex format
+//
+// KEY ROTATION:
+// - MASTER_KEYS holds every version as "1:<hex>,2:<hex>"
+// - MASTER_KEY_VERSION selects the active version (defaults to the highest)
+// - MASTER_KEY alone is still accepted and loaded as version 1
+
+/**
+ * Validates a single master key hex string.
+ * Returns a validated Buffer or throws an error with a clear message.
+ * 
+ * Security considerations:
+ * - We validate at startup to fail fast
+ * - We don't log the actual key value
+ * - We provide clear error messages for ops/deployment teams
+ * - Hex given as bytes is decoded without ever becoming a string, so the
+ *   caller can zero it afterwards (strings cannot be wiped)
+ */
+export function validateMasterKeyHex(name: string, hex: string | Buffer): Buffer {
+  // Check 1: Must be exactly 64 hex characters (32 bytes)
+  if (hex.length !== 64) {
+    throw new Error(`${name} must be a 64-character hex string (32 bytes)`);
+  }
+  
+  // Check 2: Must be valid hexadecimal
+  const digits = typeof hex === 'string' ? Buffer.from(hex, 'latin1') : hex;
+  const key = Buffer.alloc(32);
+  for (let i = 0; i < key.length; i++) {
+    const high = hexDigit(digits[2 * i]);
+    const low = hexDigit(digits[2 * i + 1]);
+    if (high < 0 || low < 0) {
+      key.fill(0);
+      throw new Error(`${name} must contain only hexadecimal characters`);
+    }
+    key[i] = (high << 4) | low;
+  }
+  return key;
+}
+
+/**
+ * Value of one ASCII hex digit, or -1.
+ */
+function hexDigit(byte: number): number {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  const lower = byte | 0x20;
+  return lower >= 0x61 && lower <= 0x66 ? lower - 0x57 : -1;
+}
+
+/**
+ * Builds the master keyring from environment variables.
+ */
+export function validateAndGetKeyring(): Keyring {
+  const MASTER_KEYS = process.env.MASTER_KEYS;
+  const MASTER_KEY_HEX = process.env.MASTER_KEY;
+  
+  // Single-key deployments: MASTER_KEY is version 1
+  if (!MASTER_KEYS) {
+    if (!MASTER_KEY_HEX) {
+      throw new Error('MASTER_KEY or MASTER_KEYS environment variable is not set');
+    }
+    return createKeyring({ 1: validateMasterKeyHex('MASTER_KEY', MASTER_KEY_HEX) }, 1);
+  }
+  
+  return parseMasterKeys(MASTER_KEYS, 'MASTER_KEYS');
+}
+
+/**
+ * Parses a keyring written as MASTER_KEYS ("1:<hex>,2:<hex>"). `name` says
+ * where it came from in errors. MASTER_KEY_VERSION picks the active version.
+ * Given as bytes (an unsealed keyring), it is parsed in place: only views
+ * into `value` are taken, so zeroing it afterwards leaves no copy of the hex.
+ */
+export function parseMasterKeys(value: string | Buffer, name: string): Keyring {
+  const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : value;
+  const keys = new Map<number, Buffer>();
+  try {
+    for (const entry of splitBytes(bytes, 0x2c)) {
+      const [versionBytes, hex] = splitBytes(trimBytes(entry), 0x3a);
+      // The version is not secret, so it may become a string
+      const version = Number(versionBytes.toString('utf8'));
+      
+      if (!hex?.length || !Number.isInteger(version) || version < 1) {
+        throw new Error(`${name} entries must look like "<version>:<64 hex chars>"`);
+      }
+      if (keys.has(version)) {
+        throw new Error(`${name} contains version ${version} more than once`);
+      }
+      keys.set(version, validateMasterKeyHex(`${name} version ${version}`, hex));
+    }
+    
+    const activeVersion = process.env.MASTER_KEY_VERSION
+      ? Number(process.env.MASTER_KEY_VERSION)
+      : Math.max(...keys.keys());
+    
+    return createKeyring(keys, activeVersion);
+  } catch (err) {
+    // Keys decoded before the error would otherwise linger until collected
+    for (const key of keys.values()) key.fill(0);
+    throw err;
+  }
+}
+
+/**
+ * Splits bytes on a separator byte, returning views rather than copies.
+ */
+function splitBytes(bytes: Buffer, separator: number): Buffer[] {
+  const parts: Buffer[] = [];
+  let start = 0;
+  for (let end = bytes.indexOf(separator); end !== -1; end = bytes.indexOf(separator, start)) {
+    parts.push(bytes.subarray(start, end));
+    start = end + 1;
+  }
+  parts.push(bytes.subarray(start));
+  return parts;
+}
+
+/**
+ * Drops ASCII whitespace from both ends, as a view.
+ */
+function trimBytes(bytes: Buffer): Buffer {
+  const isSpace = (byte: number) => byte === 0x20 || (byte >= 0x09 && byte <= 0x0d);
+  let start = 0;
+  let end = bytes.length;
+  while (start < end && isSpace(bytes[start])) start++;
+  while (end > start && isSpace(bytes[end - 1])) end--;
+  return bytes.subarray(start, end);
+}
+
+// ============================================================================
+// KEY PROVIDER SELECTION
+// ============================================================================
+// KEY_PROVIDER picks who wraps new DEKs:
+// - local (default): the MASTER_KEY / MASTER_KEYS keyring in process memory
+// - file:  a JSON keystore at KEYSTORE_FILE
+// - kms:   a KMS-style HTTP service at KMS_ENDPOINT using key KMS_KEY_ID
+//          (optional KMS_TOKEN bearer credential)
+//
+// Records remember which provider wrapped them, so the local keyring stays
+// available for unwrapping older records after switching providers.
+//
+// PARTY KEYS:
+// - PARTY_KEYS_FILE turns on the key hierarchy (see party-keys.ts in
+//   @mirfa/crypto): DEKs are wrapped by a per-party KEK derived from the
+//   master key, so one party can be re-keyed or crypto-shredded on its own
+// - Only for local and file providers: a KMS key never leaves the KMS
+// - Records wrapped before it was turned on keep working, and move under
+//   their party's KEK on the next re-wrap
+
+export interface KeyConfig {
+  /** Provider used to wrap new DEKs. */
+  active: KeyProvider;
+  /** Every configured provider, by name. */
+  providers: Map<string, KeyProvider>;
+  /** The local keyring, when MASTER_KEY / MASTER_KEYS are set. */
+  keyring?: Keyring;
+  /** Per-party KEK salts, when PARTY_KEYS_FILE is set. The local and file providers wrap under them. */
+  partyKeys?: PartyKeyStore;
+}
+
+/**
+ * Builds the active key provider (and any fallback local provider) from env.
+ * An `unsealed` keyring (see seal.ts) stands in for MASTER_KEY / MASTER_KEYS.
+ */
+export function loadKeyConfigFromEnv(unsealed?: Keyring): KeyConfig {
+  const providerName = process.env.KEY_PROVIDER || 'local';
+  const providers = new Map<string, KeyProvider>();
+  
+  let partyKeys: PartyKeyStore | undefined;
+  if (process.env.PARTY_KEYS_FILE) {
+    if (providerName === 'kms') {
+      throw new Error('PARTY_KEYS_FILE requires KEY_PROVIDER=local or file');
+    }
+    partyKeys = createFilePartyKeyStore(process.env.PARTY_KEYS_FILE);
+  }
+  
+  let keyring: Keyring | undefined;
+  if (unsealed) {
+    keyring = unsealed;
+    providers.set('local', createLocalKeyProvider(keyring, 'local', partyKeys));
+  } else if (providerName === 'local' || process.env.MASTER_KEYS || process.env.MASTER_KEY) {
+    keyring = validateAndGetKeyring();
+    providers.set('local', createLocalKeyProvider(keyring, 'local', partyKeys));
+  }
+  
+  switch (providerName) {
+    case 'local':
+      break;
+    case 'file': {
+      if (!process.env.KEYSTORE_FILE) {
+        throw new Error('KEYSTORE_FILE must be set when KEY_PROVIDER=file');
+      }
+      providers.set('file', createFileKeyProvider(process.env.KEYSTORE_FILE, partyKeys));
+      break;
+    }
+    case 'kms': {
+      if (!process.env.KMS_ENDPOINT || !process.env.KMS_KEY_ID) {
+        throw new Error('KMS_ENDPOINT and KMS_KEY_ID must be set when KEY_PROVIDER=kms');
+      }
+      providers.set('kms', createKmsKeyProvider({
+        endpoint: process.env.KMS_ENDPOINT,
+        keyId: process.env.KMS_KEY_ID,
+        token: process.env.KMS_TOKEN
+      }));
+      break;
+    }
+    default:
+      throw new Error(`Unknown KEY_PROVIDER "${providerName}": expected local, file or kms`);
+  }
+  
+  return { active: providers.get(providerName)!, providers, keyring, partyKeys };
+}
+
+/**
+ * Returns the provider that wrapped a record's DEK.
+ * Records written before providers existed were wrapped by the local keyring.
+ */
+export function providerFor(config: KeyConfig, record: Pick<TxSecureRecord, 'key_provider'>): KeyProvider {
+  const name = record.key_provider ?? 'local';
+  const provider = config.providers.get(name);
+  if (!provider) {
+    throw new Error(`Record was wrapped by key provider "${name}", which is not configured`);
+  }
+  return provider;
+}
@@ -0,0 +1,44 @@
+import { TxSecureRecord } from '@mirfa/crypto';
+
+/**
+ * What GET /tx returns per record: metadata only, never ciphertext or wrapped keys.
+ */
+export type TxMetadata = Pick<TxSecureRecord, 'id' | 'partyId' | 'createdAt' | 'alg' | 'mk_version'> &
+  Partial<Pick<TxSecureRecord, 'format_version' | 'key_provider' | 'key_id' | 'expiresAt'>>;
+
+export function toTxMetadata(record: TxSecureRecord): TxMetadata {
+  return {
+    id: record.id,
+    partyId: record.partyId,
+    createdAt: record.createdAt,
+    alg: record.alg,
+    mk_version: record.mk_version,
+    format_version: record.format_version,
+    key_provider: record.key_provider,
+    key_id: record.key_id,
+    expiresAt: record.expiresAt
+  };
+}
+
+/**
+ * Opaque cursor pointing just after a record in newest-first order.
+ * Clients must treat it as an opaque string.
+ */
+export function encodeCursor(record: Pick<TxSecureRecord, 'createdAt' | 'id'>): string {
+  return Buffer.from(JSON.stringify([record.createdAt, record.id]), 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor, returning null if it was not produced by encodeCursor.
+ */
+export function decodeCursor(cursor: string): { createdAt: string; id: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(decoded) && decoded.length === 2 && typeof decoded[0] === 'string' && typeof decoded[1] === 'string') {
+      return { createdAt: decoded[0], id: decoded[1] };
+    }
+  } catch (err) {
+    // Fall through to the invalid-cursor result
+  }
+  return null;
+}
@@ -0,0 +1,204 @@
+import crypto from 'node:crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+
+// ============================================================================
+// PROMETHEUS METRICS
+// ============================================================================
+// Counters and histograms served in the Prometheus text format at GET
+// /metrics. Routes that encrypt or decrypt name their operation with
+// `config: { metric: '<operation>' }`; one hook records every such request
+// when its response is sent:
+//
+//   mirfa_crypto_requests_total{operation, outcome}    success / failure
+//   mirfa_crypto_failures_total{operation, reason}     see FailureReason
+//   mirfa_crypto_duration_seconds{operation}           histogram
+//   mirfa_http_requests_total{method, route, status}   every route
+//
+// Label values only ever come from fixed sets or route templates
+// ("/tx/:id/decrypt"), never from IDs, parties or payload content, so the
+// metrics neither leak data nor grow with it.
+//
+// METRICS_TOKEN   optional; when set, /metrics needs "Authorization: Bearer <token>"
+
+/**
+ * The crypto operations routes can be labelled with.
+ */
+export type CryptoOperation =
+  'encrypt' | 'decrypt' | 'wrap' | 'unwrap' | 'stream_encrypt' | 'stream_decrypt' | 'batch_encrypt' | 'batch_decrypt';
+
+/**
+ * Why a crypto request failed, from its status code unless the handler knew better.
+ */
+export type FailureReason =
+  'invalid_request' | 'unauthenticated' | 'forbidden' | 'not_found' | 'conflict' | 'shredded' |
+  'rate_limited' | 'integrity' | 'sealed' | 'server_error' | 'other';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** Set by handlers that know more than the status code, e.g. a failed authentication tag. */
+    failureReason?: FailureReason;
+  }
+  interface FastifyContextConfig {
+    /** Crypto operation the route is counted under. */
+    metric?: CryptoOperation;
+  }
+}
+
+const REASONS_BY_STATUS: Record<number, FailureReason> = {
+  400: 'invalid_request',
+  401: 'unauthenticated',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  410: 'shredded',
+  429: 'rate_limited',
+  503: 'sealed'
+};
+
+/** Seconds; crypto is sub-millisecond, KMS round-trips and large streams are not. */
+const DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type Labels = Record<string, string>;
+
+/**
+ * Escapes a label value for the text format.
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  return entries.length === 0 ? '' : `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+interface Counter {
+  inc(labels: Labels, value?: number): void;
+  render(): string[];
+}
+
+function createCounter(name: string, help: string): Counter {
+  const values = new Map<string, number>();
+
+  return {
+    inc(labels, value = 1) {
+      const key = formatLabels(labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+
+    render() {
+      return [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        ...[...values].map(([labels, value]) => `${name}${labels} ${value}`)
+      ];
+    }
+  };
+}
+
+interface Histogram {
+  observe(labels: Labels, value: number): void;
+  render(): string[];
+}
+
+function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  return {
+    observe(labels, value) {
+      const key = formatLabels(labels);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+        series.set(key, entry);
+      }
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+    },
+
+    render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+      for (const { labels, counts, sum, count } of series.values()) {
+        buckets.forEach((bound, i) => lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`));
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`);
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`);
+      }
+      return lines;
+    }
+  };
+}
+
+export interface Metrics {
+  /** One finished request to a route labelled with `operation`. */
+  recordCrypto(operation: CryptoOperation, statusCode: number, durationMs: number, reason?: FailureReason): void;
+  /** One finished request to any route, by its template (or "unmatched"). */
+  recordHttp(method: string, route: string, statusCode: number): void;
+  /** Everything so far, in the Prometheus text format (version 0.0.4). */
+  render(): string;
+}
+
+/**
+ * An empty metrics registry, kept in process memory.
+ */
+export function createMetrics(): Metrics {
+  const cryptoRequests = createCounter('mirfa_crypto_requests_total', 'Encrypt and decrypt requests by operation and outcome');
+  const cryptoFailures = createCounter('mirfa_crypto_failures_total', 'Failed encrypt and decrypt requests by operation and reason');
+  const cryptoDuration = createHistogram('mirfa_crypto_duration_seconds', 'Encrypt and decrypt request latency', DURATION_BUCKETS);
+  const httpRequests = createCounter('mirfa_http_requests_total', 'HTTP requests by method, route template and status code');
+
+  return {
+    recordCrypto(operation, statusCode, durationMs, reason) {
+      const failed = statusCode >= 400;
+      cryptoRequests.inc({ operation, outcome: failed ? 'failure' : 'success' });
+      if (failed) {
+        cryptoFailures.inc({ operation, reason: reason ?? REASONS_BY_STATUS[statusCode] ?? (statusCode >= 500 ? 'server_error' : 'other') });
+      }
+      cryptoDuration.observe({ operation }, durationMs / 1000);
+    },
+
+    recordHttp(method, route, statusCode) {
+      httpRequests.inc({ method, route, status: String(statusCode) });
+    },
+
+    render() {
+      return [cryptoRequests, cryptoFailures, cryptoDuration, httpRequests]
+        .flatMap((metric) => metric.render())
+        .join('\n') + '\n';
+    }
+  };
+}
+
+/**
+ * Reads METRICS_TOKEN; unset means /metrics is public.
+ */
+export function metricsTokenFromEnv(): string | undefined {
+  return process.env.METRICS_TOKEN || undefined;
+}
+
+/**
+ * Whether an Authorization header carries the metrics token, compared in constant time.
+ */
+export function hasMetricsToken(header: string | undefined, token: string): boolean {
+  const expected = crypto.createHash('sha256').update(`Bearer ${token}`).digest();
+  const given = crypto.createHash('sha256').update(header ?? '').digest();
+  return crypto.timingSafeEqual(expected, given);
+}
+
+/**
+ * Registers the hook that records every response.
+ */
+export function registerMetrics(fastify: FastifyInstance, metrics: Metrics) {
+  fastify.addHook('onResponse', async (request: FastifyRequest, reply: FastifyReply) => {
+    const route = request.routeOptions.url ?? 'unmatched';
+    metrics.recordHttp(request.method, route, reply.statusCode);
+
+    const operation = request.routeOptions.config?.metric;
+    if (operation) {
+      metrics.recordCrypto(operation, reply.statusCode, reply.elapsedTime, request.failureReason);
+    }
+  });
+}
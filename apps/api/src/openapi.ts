@@ -0,0 +1,149 @@
+import { FastifyInstance, RouteOptions } from 'fastify';
+import { RouteSchema } from './schemas.js';
+
+// ============================================================================
+// OPENAPI DOCUMENT
+// ============================================================================
+// Built from the JSON schemas the routes are validated with, so the document
+// cannot drift from what the server accepts. Routes are collected as they
+// are registered (onRoute), which is why the collector must be attached
+// before any route.
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+interface CollectedRoute {
+  method: string;
+  url: string;
+  schema: RouteSchema;
+  public: boolean;
+}
+
+type JsonSchema = Record<string, any>;
+
+const PARAMETER_LOCATIONS = [['params', 'path'], ['querystring', 'query'], ['headers', 'header']] as const;
+
+/**
+ * Rewrites Fastify's "Name#" references into OpenAPI component references.
+ */
+function toOpenApiSchema(schema: unknown): any {
+  if (Array.isArray(schema)) return schema.map(toOpenApiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => {
+    if (key === '$ref' && typeof value === 'string') {
+      const [id, pointer] = value.split('#');
+      return [key, `#/components/schemas/${id}${pointer ?? ''}`];
+    }
+    return [key, toOpenApiSchema(value)];
+  }));
+}
+
+function toParameters(schema: RouteSchema): JsonSchema[] {
+  return PARAMETER_LOCATIONS.flatMap(([part, location]) => {
+    const object = schema[part] as JsonSchema | undefined;
+    const required: string[] = object?.required ?? [];
+    return Object.entries(object?.properties ?? {}).map(([name, property]: [string, any]) => {
+      const { description, ...rest } = property;
+      return {
+        name,
+        in: location,
+        required: location === 'path' || required.includes(name),
+        ...(description ? { description } : {}),
+        schema: toOpenApiSchema(rest)
+      };
+    });
+  });
+}
+
+function toRequestBody(schema: RouteSchema): JsonSchema | undefined {
+  if (schema.consumes) {
+    return {
+      required: true,
+      content: Object.fromEntries(schema.consumes.map((type) => [type, { schema: { type: 'string', format: 'binary' } }]))
+    };
+  }
+  if (schema.body) {
+    return { required: true, content: { 'application/json': { schema: toOpenApiSchema(schema.body) } } };
+  }
+  return undefined;
+}
+
+function toResponses(schema: RouteSchema): JsonSchema {
+  const responses = Object.entries((schema.response ?? {}) as Record<string, JsonSchema>);
+  if (responses.length === 0) {
+    return { 200: { description: 'OK' } };
+  }
+
+  return Object.fromEntries(responses.map(([status, response]) => {
+    const { description, ...body } = response;
+    const types = status.startsWith('2') && schema.produces ? schema.produces : ['application/json'];
+    return [status, {
+      description: description ?? (status.startsWith('2') ? 'OK' : 'Error'),
+      content: Object.fromEntries(types.map((type) => [type, { schema: toOpenApiSchema(body) }]))
+    }];
+  }));
+}
+
+/**
+ * Starts collecting routes from `fastify` and returns a function that builds
+ * the document. `components` are the shared schemas (with $id) routes refer to.
+ */
+export function collectOpenApi(fastify: FastifyInstance, info: OpenApiInfo, components: JsonSchema[]): () => JsonSchema {
+  const routes: CollectedRoute[] = [];
+
+  fastify.addHook('onRoute', (route: RouteOptions) => {
+    const schema = route.schema as RouteSchema | undefined;
+    // Routes without a schema (/docs itself) or hidden ones (CORS preflight)
+    // are left out, as are the HEAD routes Fastify adds for every GET
+    if (!schema || schema.hide) return;
+    const methods = [route.method].flat().filter((method) => method !== 'HEAD');
+
+    for (const method of methods) {
+      routes.push({
+        method: method.toLowerCase(),
+        url: route.url,
+        schema,
+        public: (route.config as { public?: boolean } | undefined)?.public === true
+      });
+    }
+  });
+
+  return () => {
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+
+    for (const route of routes) {
+      const path = route.url.replace(/:(\w+)/g, '{$1}');
+      const { summary, description, tags } = route.schema;
+      const requestBody = toRequestBody(route.schema);
+      const parameters = toParameters(route.schema);
+
+      paths[path] ??= {};
+      paths[path][route.method] = {
+        ...(summary ? { summary } : {}),
+        ...(description ? { description } : {}),
+        ...(tags ? { tags } : {}),
+        ...(route.public ? { security: [] } : {}),
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(requestBody ? { requestBody } : {}),
+        responses: toResponses(route.schema)
+      };
+    }
+
+    return {
+      openapi: '3.1.0',
+      info,
+      security: [{ bearerAuth: [] }],
+      paths,
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', description: 'An API key or an HS256 JWT' }
+        },
+        schemas: Object.fromEntries(components.map(({ $id, ...schema }) => [$id, toOpenApiSchema(schema)]))
+      }
+    };
+  };
+}
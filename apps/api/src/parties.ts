@@ -0,0 +1,145 @@
+import { FastifyBaseLogger } from 'fastify';
+import { PartyKeyStore, rewrapDEKWithProvider } from '@mirfa/crypto';
+import { KeyConfig, providerFor } from './keys.js';
+import { TxStore, TxTombstone } from './storage.js';
+import { BlobStore } from './blobs.js';
+import { shredRecords } from './retention.js';
+
+// ============================================================================
+// PARTY RE-KEYING & SHREDDING
+// ============================================================================
+// With party keys configured (PARTY_KEYS_FILE), each party's DEKs are wrapped
+// by a KEK of its own. That makes two operations possible on one party
+// without touching anyone else's records:
+//
+// - Re-keying: a new KEK version becomes active, the party's DEKs are
+//   re-wrapped under it, and older versions are deleted once every record
+//   has moved. Backups wrapped under the old versions are shredded with them.
+// - Shredding: the party's KEK versions are deleted first, so every copy of
+//   its records (backups included) becomes undecryptable, then its records
+//   are replaced by tombstones.
+
+/**
+ * Outcome of re-keying one party.
+ */
+export interface RekeyReport {
+  partyId: string;
+  /** The new active KEK version. */
+  kekVersion: number;
+  /** KEK versions deleted afterwards; none when a record failed. */
+  retired: number[];
+  total: number;
+  rewrapped: number;
+  skipped: number;
+  failed: number;
+  results: Array<{ id: string; status: 'rewrapped' | 'skipped' | 'failed'; from?: number; to?: number; reason?: string; error?: string }>;
+}
+
+/**
+ * Moves a party to a new KEK version, one record at a time so a failure
+ * only affects that record. Old versions are only retired when none failed.
+ */
+export async function rekeyParty(
+  store: TxStore,
+  keys: KeyConfig,
+  partyKeys: PartyKeyStore,
+  partyId: string,
+  log: FastifyBaseLogger
+): Promise<RekeyReport> {
+  const { version } = await partyKeys.rotate(partyId);
+  const records = (await store.list()).filter((record) => record.partyId === partyId);
+  const report: RekeyReport = {
+    partyId,
+    kekVersion: version,
+    retired: [],
+    total: records.length,
+    rewrapped: 0,
+    skipped: 0,
+    failed: 0,
+    results: []
+  };
+
+  for (const record of records) {
+    const from = record.kek_version;
+
+    // Written after the new version became active
+    if (from === version && record.key_provider === keys.active.name) {
+      report.skipped++;
+      report.results.push({ id: record.id, status: 'skipped', from });
+      continue;
+    }
+
+    try {
+      const rewrapped = await rewrapDEKWithProvider(record, providerFor(keys, record), keys.active);
+      if (!(await store.replace(rewrapped))) {
+        report.skipped++;
+        report.results.push({ id: record.id, status: 'skipped', from, reason: 'deleted during the run' });
+        continue;
+      }
+      report.rewrapped++;
+      report.results.push({ id: record.id, status: 'rewrapped', from, to: rewrapped.kek_version });
+      log.info({ txId: record.id, partyId }, 'DEK re-wrapped under new party key');
+    } catch (err: any) {
+      report.failed++;
+      report.results.push({ id: record.id, status: 'failed', from, error: err.message });
+      log.warn({ txId: record.id, partyId, error: err.message }, 'Party DEK re-wrap failed');
+    }
+  }
+
+  if (report.failed === 0) {
+    report.retired = (await partyKeys.list(partyId))
+      .map((partyKey) => partyKey.version)
+      .filter((kekVersion) => kekVersion < version);
+    await partyKeys.destroy(partyId, report.retired);
+  }
+  return report;
+}
+
+/**
+ * Outcome of shredding one party.
+ */
+export interface PartyShredReport {
+  partyId: string;
+  /** KEK versions deleted. */
+  keyVersions: number;
+  total: number;
+  shredded: number;
+  failed: number;
+  results: Array<{ id: string; status: 'shredded' | 'failed'; error?: string }>;
+}
+
+/**
+ * Crypto-shreds a party: its KEK versions first (when party keys are
+ * configured), then its records, together (see shredRecords). `onShred`
+ * runs after each record.
+ */
+export async function shredParty(
+  store: TxStore,
+  blobs: BlobStore,
+  partyKeys: PartyKeyStore | undefined,
+  partyId: string,
+  log: FastifyBaseLogger,
+  onShred: (tombstone: TxTombstone) => Promise<unknown> = async () => undefined
+): Promise<PartyShredReport> {
+  const keyVersions = partyKeys ? await partyKeys.destroy(partyId) : 0;
+  const records = (await store.list()).filter((record) => record.partyId === partyId);
+  const report: PartyShredReport = { partyId, keyVersions, total: records.length, shredded: 0, failed: 0, results: [] };
+
+  const outcomes = await shredRecords(store, blobs, records, 'deleted');
+  for (const [index, record] of records.entries()) {
+    const outcome = outcomes[index];
+    try {
+      if (outcome.status === 'rejected') throw outcome.reason;
+      const tombstone = outcome.value;
+      if (tombstone) await onShred(tombstone);
+      report.shredded++;
+      report.results.push({ id: record.id, status: 'shredded' });
+    } catch (err: any) {
+      report.failed++;
+      report.results.push({ id: record.id, status: 'failed', error: err.message });
+      log.warn({ txId: record.id, partyId, error: err.message }, 'Shredding party record failed');
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,25 @@
+import { AlgorithmId, DEFAULT_ALGORITHM, DEFAULT_MAX_BATCH_SIZE, SUPPORTED_ALGORITHMS, isSupportedAlgorithm } from '@mirfa/crypto';
+
+/**
+ * Algorithm new records are encrypted with, from ENCRYPTION_ALG
+ * (case-insensitive, defaults to AES-256-GCM). Existing records are
+ * always decrypted with the algorithm they name, whatever this is set to.
+ */
+export function encryptionAlgorithmFromEnv(): AlgorithmId {
+  const value = (process.env.ENCRYPTION_ALG || DEFAULT_ALGORITHM).trim().toUpperCase();
+  if (!isSupportedAlgorithm(value)) {
+    throw new Error(`Unsupported ENCRYPTION_ALG "${value}": expected one of ${SUPPORTED_ALGORITHMS.join(', ')}`);
+  }
+  return value;
+}
+
+/**
+ * Most items one batch request may hold, from BATCH_MAX_ITEMS (default 100).
+ */
+export function batchMaxItemsFromEnv(): number {
+  const value = Number(process.env.BATCH_MAX_ITEMS || DEFAULT_MAX_BATCH_SIZE);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error('BATCH_MAX_ITEMS must be a positive integer');
+  }
+  return value;
+}
@@ -0,0 +1,192 @@
+// ============================================================================
+// DECRYPT RATE LIMITING
+// ============================================================================
+// Decrypt attempts are counted in fixed windows, per client (credential
+// subject) and per record. A record that fails to decrypt too often within
+// a window is locked for a while, whoever asks: repeated failures mean
+// tampering or probing, and there is nothing legitimate to retry.
+//
+// The client limit is counted as soon as a request is authenticated. The
+// record limit and lock only apply once the record is found and the caller
+// may read it, and only failed authentication (not a missing key or a KMS
+// outage) counts as a failure.
+//
+// Counters live in a CounterStore. The default keeps them in process memory,
+// so on serverless or multi-instance deployments every instance counts
+// separately; plug in a shared store (e.g. Redis INCR + PEXPIRE) for global limits.
+
+/**
+ * Response headers set on decrypt routes, exposed to cross-origin callers.
+ */
+export const RATE_LIMIT_HEADERS = ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'Retry-After'];
+
+export interface Counter {
+  count: number;
+  /** Epoch milliseconds at which the window ends. */
+  resetAt: number;
+}
+
+/**
+ * Where counters are kept. Expired counters must behave as absent.
+ */
+export interface CounterStore {
+  /** Adds one to the counter, starting a new window of `windowMs` if it has none. */
+  increment(key: string, windowMs: number): Promise<Counter>;
+  /** Returns the counter, or undefined when absent or expired. */
+  get(key: string): Promise<Counter | undefined>;
+  reset(key: string): Promise<void>;
+}
+
+/** At most `limit` events per `windowMs`. */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitConfig {
+  /** Decrypts per client; null disables the limit. */
+  client: RateLimitRule | null;
+  /** Decrypts per record, across all clients; null disables the limit. */
+  record: RateLimitRule | null;
+  /** `limit` failures within `windowMs` lock the record for `windowMs`; null disables lockout. */
+  lockout: RateLimitRule | null;
+}
+
+/**
+ * Outcome of counting one attempt. `limit`, `remaining` and `resetAt`
+ * describe the rule counted, for the RateLimit-* headers.
+ */
+export interface RateLimitVerdict {
+  allowed: boolean;
+  /** Why the attempt was refused. */
+  reason?: 'client' | 'record' | 'locked';
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+}
+
+export interface RateLimiter {
+  /** Counts a decrypt attempt by `client`, before its record is looked up. */
+  checkClient(client: string): Promise<RateLimitVerdict>;
+  /**
+   * Counts a decrypt attempt on `recordId`. Only call it once the record
+   * exists and the caller may read it, so no one can spend another party's
+   * budget or lock its records out.
+   */
+  checkRecord(recordId: string): Promise<RateLimitVerdict>;
+  /** Counts a failed decrypt, locking the record once the threshold is reached. */
+  recordFailure(recordId: string): Promise<void>;
+}
+
+/**
+ * Keeps counters in process memory. Expired counters are swept every
+ * so often so that one-off keys do not accumulate.
+ */
+export function createMemoryCounterStore(now: () => number = Date.now): CounterStore {
+  const counters = new Map<string, Counter>();
+  let writes = 0;
+
+  const sweep = (time: number) => {
+    for (const [key, counter] of counters) {
+      if (counter.resetAt <= time) counters.delete(key);
+    }
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const time = now();
+      if (++writes % 1000 === 0) sweep(time);
+
+      let counter = counters.get(key);
+      if (!counter || counter.resetAt <= time) {
+        counter = { count: 0, resetAt: time + windowMs };
+        counters.set(key, counter);
+      }
+      counter.count++;
+      return { ...counter };
+    },
+
+    async get(key) {
+      const counter = counters.get(key);
+      return counter && counter.resetAt > now() ? { ...counter } : undefined;
+    },
+
+    async reset(key) {
+      counters.delete(key);
+    }
+  };
+}
+
+/**
+ * Parses a rule written as "<limit>/<seconds>". "off" (or "0") disables it.
+ */
+export function parseRateLimitRule(name: string, value: string): RateLimitRule | null {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === 'off' || trimmed === '0') return null;
+
+  const [limit, seconds] = trimmed.split('/').map(Number);
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(seconds) || seconds < 1) {
+    throw new Error(`${name} must look like "<limit>/<seconds>" (e.g. "60/60") or "off"`);
+  }
+  return { limit, windowMs: seconds * 1000 };
+}
+
+/**
+ * Decrypt limits from the environment:
+ *
+ * DECRYPT_RATE_LIMIT_CLIENT  per credential (default 60/60)
+ * DECRYPT_RATE_LIMIT_RECORD  per record, all clients together (default 30/60)
+ * DECRYPT_LOCKOUT            failures before a record is locked, and for how long (default 5/900)
+ */
+export function loadRateLimitConfigFromEnv(): RateLimitConfig {
+  return {
+    client: parseRateLimitRule('DECRYPT_RATE_LIMIT_CLIENT', process.env.DECRYPT_RATE_LIMIT_CLIENT || '60/60'),
+    record: parseRateLimitRule('DECRYPT_RATE_LIMIT_RECORD', process.env.DECRYPT_RATE_LIMIT_RECORD || '30/60'),
+    lockout: parseRateLimitRule('DECRYPT_LOCKOUT', process.env.DECRYPT_LOCKOUT || '5/900')
+  };
+}
+
+/**
+ * Creates the decrypt rate limiter on top of a counter store.
+ */
+export function createRateLimiter(config: RateLimitConfig, counters: CounterStore = createMemoryCounterStore()): RateLimiter {
+  /**
+   * Adds one to a rule's counter and turns it into a verdict.
+   */
+  async function count(reason: NonNullable<RateLimitVerdict['reason']>, key: string, rule: RateLimitRule | null): Promise<RateLimitVerdict> {
+    if (!rule) return { allowed: true };
+
+    const counter = await counters.increment(key, rule.windowMs);
+    if (counter.count > rule.limit) {
+      return { allowed: false, reason, limit: rule.limit, remaining: 0, resetAt: counter.resetAt };
+    }
+    return { allowed: true, limit: rule.limit, remaining: rule.limit - counter.count, resetAt: counter.resetAt };
+  }
+
+  return {
+    checkClient(client) {
+      return count('client', `decrypt:client:${client}`, config.client);
+    },
+
+    async checkRecord(recordId) {
+      // A locked record is refused without counting against it
+      if (config.lockout) {
+        const lock = await counters.get(`decrypt:lock:${recordId}`);
+        if (lock) {
+          return { allowed: false, reason: 'locked', resetAt: lock.resetAt };
+        }
+      }
+      return count('record', `decrypt:record:${recordId}`, config.record);
+    },
+
+    async recordFailure(recordId) {
+      if (!config.lockout) return;
+
+      const failures = await counters.increment(`decrypt:failures:${recordId}`, config.lockout.windowMs);
+      if (failures.count >= config.lockout.limit) {
+        await counters.increment(`decrypt:lock:${recordId}`, config.lockout.windowMs);
+        await counters.reset(`decrypt:failures:${recordId}`);
+      }
+    }
+  };
+}
@@ -0,0 +1,165 @@
+import { FastifyBaseLogger } from 'fastify';
+import { TxSecureRecord } from '@mirfa/crypto';
+import { TxStore, TxTombstone } from './storage.js';
+import { BlobStore } from './blobs.js';
+
+// ============================================================================
+// RETENTION & CRYPTO-SHREDDING
+// ============================================================================
+// A record expires at its own expiresAt or when its party's retention period
+// (RETENTION_DAYS) runs out, whichever comes first. Expired or deleted
+// records are shredded: the record (and with it the only copy of its wrapped
+// DEK) is replaced by a tombstone, and any streamed blob is removed.
+//
+// Ciphertext that survives elsewhere (a copied blob, an exported payload) is
+// useless without the wrapped DEK. Backups of the store itself still hold the
+// wrapped DEK; rotating the master key and retiring the old version shreds those.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention in days by partyId. "*" applies to parties not listed.
+ */
+export type RetentionPolicy = ReadonlyMap<string, number>;
+
+/**
+ * Reads RETENTION_DAYS ("party_a:30,*:3650"). Unset means records only
+ * expire at their own expiresAt.
+ */
+export function loadRetentionPolicyFromEnv(): RetentionPolicy {
+  const policy = new Map<string, number>();
+  const value = process.env.RETENTION_DAYS;
+  if (!value) return policy;
+
+  for (const entry of value.split(',')) {
+    const [partyId, daysStr] = entry.trim().split(':');
+    const days = Number(daysStr);
+    if (!partyId || !Number.isInteger(days) || days < 1) {
+      throw new Error('RETENTION_DAYS entries must look like "<partyId or *>:<days>"');
+    }
+    if (policy.has(partyId)) {
+      throw new Error(`RETENTION_DAYS lists "${partyId}" more than once`);
+    }
+    policy.set(partyId, days);
+  }
+  return policy;
+}
+
+/**
+ * Sweep interval from RETENTION_SWEEP_SECONDS (default 3600). 0 disables the
+ * background sweeper; expired records are then only shredded when accessed
+ * or by POST /admin/retention/sweep.
+ */
+export function retentionSweepIntervalFromEnv(): number {
+  const seconds = Number(process.env.RETENTION_SWEEP_SECONDS ?? 3600);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new Error('RETENTION_SWEEP_SECONDS must be a non-negative integer');
+  }
+  return seconds * 1000;
+}
+
+/**
+ * When a record expires, or undefined if it never does.
+ */
+export function expiryOf(record: Pick<TxSecureRecord, 'partyId' | 'createdAt' | 'expiresAt'>, policy: RetentionPolicy): Date | undefined {
+  const days = policy.get(record.partyId) ?? policy.get('*');
+  const candidates = [
+    record.expiresAt === undefined ? NaN : Date.parse(record.expiresAt),
+    days === undefined ? NaN : Date.parse(record.createdAt) + days * DAY_MS
+  ].filter((time) => !Number.isNaN(time));
+
+  return candidates.length > 0 ? new Date(Math.min(...candidates)) : undefined;
+}
+
+export function isExpired(record: TxSecureRecord, policy: RetentionPolicy, now: Date = new Date()): boolean {
+  const expiry = expiryOf(record, policy);
+  return expiry !== undefined && expiry <= now;
+}
+
+/**
+ * Replaces a record by its tombstone and removes any streamed content.
+ * Resolves to undefined if the record was already gone.
+ */
+export async function shredRecord(
+  store: TxStore,
+  blobs: BlobStore,
+  record: TxSecureRecord,
+  reason: TxTombstone['reason'],
+  now: Date = new Date()
+): Promise<TxTombstone | undefined> {
+  const tombstone: TxTombstone = {
+    id: record.id,
+    partyId: record.partyId,
+    createdAt: record.createdAt,
+    shreddedAt: now.toISOString(),
+    reason
+  };
+  if (!(await store.shred(tombstone))) return undefined;
+
+  // Without the DEK the blob is noise, so a failed removal is not fatal
+  if (record.stream) await blobs.delete(record.id).catch(() => false);
+  return tombstone;
+}
+
+/**
+ * Shreds several records at once, so a store that rewrites its files on
+ * shred (jsonl) does it once for all of them. Outcomes are in the order
+ * of `records`; a failure only affects that record.
+ */
+export function shredRecords(
+  store: TxStore,
+  blobs: BlobStore,
+  records: TxSecureRecord[],
+  reason: TxTombstone['reason'],
+  now: Date = new Date()
+): Promise<PromiseSettledResult<TxTombstone | undefined>[]> {
+  return Promise.allSettled(records.map((record) => shredRecord(store, blobs, record, reason, now)));
+}
+
+/**
+ * Outcome of one retention sweep. Only expired records appear in results.
+ */
+export interface SweepReport {
+  total: number;
+  shredded: number;
+  failed: number;
+  results: Array<{ id: string; status: 'shredded' | 'failed'; error?: string }>;
+}
+
+/**
+ * Shreds every expired record in the store, together (see shredRecords).
+ * A failure only affects that record. `onShred` runs after each successful
+ * shred, in store order.
+ */
+export async function sweepExpired(
+  store: TxStore,
+  blobs: BlobStore,
+  policy: RetentionPolicy,
+  log: FastifyBaseLogger,
+  onShred: (tombstone: TxTombstone) => Promise<unknown> = async () => undefined,
+  now: Date = new Date()
+): Promise<SweepReport> {
+  const records = await store.list();
+  const report: SweepReport = { total: records.length, shredded: 0, failed: 0, results: [] };
+
+  const expired = records.filter((record) => isExpired(record, policy, now));
+  const outcomes = await shredRecords(store, blobs, expired, 'expired', now);
+
+  for (const [index, record] of expired.entries()) {
+    const outcome = outcomes[index];
+    try {
+      if (outcome.status === 'rejected') throw outcome.reason;
+      const tombstone = outcome.value;
+      if (tombstone) await onShred(tombstone);
+      report.shredded++;
+      report.results.push({ id: record.id, status: 'shredded' });
+      log.info({ txId: record.id, partyId: record.partyId }, 'Expired record shredded');
+    } catch (err: any) {
+      report.failed++;
+      report.results.push({ id: record.id, status: 'failed', error: err.message });
+      log.warn({ txId: record.id, error: err.message }, 'Shredding expired record failed');
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,95 @@
+import { FastifyBaseLogger } from 'fastify';
+import { TxSecureRecord, keyringKeyId, rewrapDEKWithProvider } from '@mirfa/crypto';
+import { KeyConfig, providerFor } from './keys.js';
+import { TxStore } from './storage.js';
+
+/**
+ * Outcome of re-wrapping a single record.
+ */
+export interface RewrapResult {
+  id: string;
+  status: 'rewrapped' | 'skipped' | 'failed';
+  from: string;
+  to?: string;
+  /** Why a record was skipped, when it was not already current. */
+  reason?: string;
+  error?: string;
+}
+
+/**
+ * Summary of a bulk DEK re-wrap run.
+ */
+export interface RewrapReport {
+  provider: string;
+  keyId: string;
+  total: number;
+  rewrapped: number;
+  skipped: number;
+  failed: number;
+  results: RewrapResult[];
+}
+
+/**
+ * Describes the key that wrapped a record, e.g. "local/mk-1".
+ * Legacy records without key_id are identified by their mk_version.
+ */
+function wrappingKeyOf(record: TxSecureRecord): string {
+  return `${record.key_provider ?? 'local'}/${record.key_id ?? keyringKeyId(record.mk_version)}`;
+}
+
+/**
+ * Re-wraps every DEK in the store under the active provider's current key.
+ * Records are updated one at a time so a failure only affects that record.
+ */
+export async function rewrapStore(
+  store: TxStore,
+  keys: KeyConfig,
+  log: FastifyBaseLogger
+): Promise<RewrapReport> {
+  const target = `${keys.active.name}/${keys.active.keyId()}`;
+  const records = await store.list();
+  const report: RewrapReport = {
+    provider: keys.active.name,
+    keyId: keys.active.keyId(),
+    total: records.length,
+    rewrapped: 0,
+    skipped: 0,
+    failed: 0,
+    results: []
+  };
+
+  let processed = 0;
+  for (const record of records) {
+    processed++;
+    const from = wrappingKeyOf(record);
+
+    if (from === target) {
+      report.skipped++;
+      report.results.push({ id: record.id, status: 'skipped', from });
+      continue;
+    }
+
+    try {
+      const rewrapped = await rewrapDEKWithProvider(record, providerFor(keys, record), keys.active);
+      if (!(await store.replace(rewrapped))) {
+        report.skipped++;
+        report.results.push({ id: record.id, status: 'skipped', from, reason: 'deleted during the run' });
+        continue;
+      }
+      report.rewrapped++;
+      report.results.push({ id: record.id, status: 'rewrapped', from, to: wrappingKeyOf(rewrapped) });
+      log.info({ txId: record.id, processed, total: report.total }, 'DEK re-wrapped');
+    } catch (err: any) {
+      report.failed++;
+      report.results.push({
+        id: record.id,
+        status: 'failed',
+        from,
+        error: err.message
+      });
+      log.warn({ txId: record.id, processed, total: report.total, error: err.message }, 'DEK re-wrap failed');
+    }
+  }
+
+  return report;
+}
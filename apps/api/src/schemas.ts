@@ -0,0 +1,811 @@
+import { FastifySchema } from 'fastify';
+import { MAX_FIELD_NAME_LENGTH, SUPPORTED_ALGORITHMS } from '@mirfa/crypto';
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from './idempotency.js';
+
+// ============================================================================
+// ROUTE SCHEMAS
+// ============================================================================
+// JSON schemas for every route. Fastify validates params, query strings,
+// headers and bodies against them before a handler runs, and openapi.ts
+// turns them into the document served at /docs.
+//
+// Schemas check shape (required fields, types); handlers still check
+// meaning (a field exists in the payload, a date is in the future), so
+// their specific messages are unchanged. Response schemas only document:
+// the app serializes with JSON.stringify, so they never drop a field.
+
+/**
+ * A route schema plus the OpenAPI fields Fastify ignores.
+ */
+export interface RouteSchema extends FastifySchema {
+  summary?: string;
+  description?: string;
+  tags?: string[];
+  /** Left out of the OpenAPI document, as @fastify/cors marks its preflight route. */
+  hide?: boolean;
+  /** Request content types other than JSON (documented, not parsed). */
+  consumes?: string[];
+  /** Response content types other than JSON. */
+  produces?: string[];
+}
+
+// ==========================================================================
+// SHARED SCHEMAS
+// ==========================================================================
+// Registered with fastify.addSchema and referenced as { $ref: '<$id>#' }.
+
+const hex = { type: 'string', description: 'Hex-encoded bytes' };
+
+const errorResponse = {
+  $id: 'ErrorResponse',
+  type: 'object',
+  required: ['error'],
+  properties: {
+    error: { type: 'string', description: 'What went wrong; never includes key material or crypto internals' }
+  }
+};
+
+const txSecureRecord = {
+  $id: 'TxSecureRecord',
+  type: 'object',
+  description: 'An encrypted transaction record, safe to store and transmit. Validated in full by parseRecord.',
+  required: ['id', 'partyId', 'createdAt', 'payload_nonce', 'payload_ct', 'payload_tag', 'dek_wrap_nonce', 'dek_wrapped', 'dek_wrap_tag', 'alg', 'mk_version'],
+  properties: {
+    id: { type: 'string' },
+    partyId: { type: 'string' },
+    createdAt: { type: 'string', description: 'ISO 8601' },
+    expiresAt: { type: 'string', description: 'ISO 8601' },
+    payload_nonce: hex,
+    payload_ct: hex,
+    payload_tag: hex,
+    dek_wrap_nonce: hex,
+    dek_wrapped: hex,
+    dek_wrap_tag: hex,
+    alg: { type: 'string', enum: [...SUPPORTED_ALGORITHMS] },
+    mk_version: { type: 'integer', minimum: 1 },
+    kek_version: { type: 'integer', minimum: 1, description: 'Party KEK version; absent when the master key wraps the DEK directly' },
+    format_version: { type: 'integer', minimum: 1 },
+    key_provider: { type: 'string' },
+    key_id: { type: 'string' },
+    stream: {
+      type: 'object',
+      properties: {
+        chunk_size: { type: 'integer' },
+        size: { type: 'integer', description: 'Plaintext size in bytes' }
+      }
+    },
+    fields: {
+      type: 'object',
+      description: 'Individually encrypted top-level payload fields',
+      additionalProperties: {
+        type: 'object',
+        properties: { nonce: hex, ct: hex, tag: hex }
+      }
+    },
+    clear: { type: 'object', description: 'Unencrypted fields of a field-level record' },
+    blind_index: {
+      type: 'object',
+      properties: {
+        mk_version: { type: 'integer' },
+        tokens: { type: 'object', additionalProperties: hex }
+      }
+    }
+  }
+};
+
+const txMetadata = {
+  $id: 'TxMetadata',
+  type: 'object',
+  description: 'Record metadata only: never ciphertext or wrapped keys',
+  required: ['id', 'partyId', 'createdAt', 'alg', 'mk_version'],
+  properties: {
+    id: { type: 'string' },
+    partyId: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    expiresAt: { type: 'string', format: 'date-time' },
+    alg: { type: 'string' },
+    mk_version: { type: 'integer' },
+    format_version: { type: 'integer' },
+    key_provider: { type: 'string' },
+    key_id: { type: 'string' }
+  }
+};
+
+const txPage = {
+  $id: 'TxPage',
+  type: 'object',
+  required: ['items', 'nextCursor'],
+  properties: {
+    items: { type: 'array', items: { $ref: 'TxMetadata#' } },
+    nextCursor: { type: ['string', 'null'], description: 'Pass back as cursor for the next page; null on the last page' }
+  }
+};
+
+const txTombstone = {
+  $id: 'TxTombstone',
+  type: 'object',
+  description: 'What remains of a shredded record',
+  required: ['id', 'partyId', 'createdAt', 'shreddedAt', 'reason'],
+  properties: {
+    id: { type: 'string' },
+    partyId: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+    shreddedAt: { type: 'string', format: 'date-time' },
+    reason: { type: 'string', enum: ['deleted', 'expired'] }
+  }
+};
+
+const txBundle = {
+  $id: 'TxBundle',
+  type: 'object',
+  description: 'Records sealed for export; only the manifest is readable',
+  required: ['manifest', 'alg', 'nonce', 'ct', 'tag', 'signature'],
+  properties: {
+    manifest: {
+      type: 'object',
+      required: ['bundle_version', 'createdAt', 'count', 'mk_versions', 'digest'],
+      properties: {
+        bundle_version: { type: 'integer' },
+        createdAt: { type: 'string', description: 'ISO 8601' },
+        count: { type: 'integer' },
+        mk_versions: { type: 'array', items: { type: 'integer' } },
+        digest: { type: 'string', description: 'SHA-256 of the records, hex' }
+      }
+    },
+    alg: { type: 'string' },
+    nonce: hex,
+    ct: hex,
+    tag: hex,
+    signature: { type: 'string', description: 'HMAC-SHA256, hex' }
+  }
+};
+
+/**
+ * Bulk admin operations share one report shape: counts plus one result per record.
+ */
+function reportSchema($id: string, counts: string[], extra: Record<string, unknown> = {}) {
+  return {
+    $id,
+    type: 'object',
+    properties: {
+      ...extra,
+      total: { type: 'integer' },
+      ...Object.fromEntries(counts.map((count) => [count, { type: 'integer' }])),
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string' },
+            status: { type: 'string', enum: counts },
+            from: { description: 'Key or format version before (rewrap, upgrade, rekey)' },
+            to: { description: 'Key or format version after (rewrap, upgrade, rekey)' },
+            error: { type: 'string' },
+            reason: { type: 'string' }
+          }
+        }
+      }
+    }
+  };
+}
+
+const auditEntry = {
+  $id: 'AuditEntry',
+  type: 'object',
+  properties: {
+    seq: { type: 'integer' },
+    timestamp: { type: 'string', format: 'date-time' },
+    action: { type: 'string' },
+    outcome: { type: 'string', enum: ['success', 'denied', 'not_found', 'failure'] },
+    subject: { type: 'string' },
+    ip: { type: 'string' },
+    txId: { type: 'string' },
+    partyId: { type: 'string' },
+    reason: { type: 'string' },
+    fields: { type: 'array', items: { type: 'string' } },
+    prevHash: { type: 'string' },
+    hash: { type: 'string' }
+  }
+};
+
+const sealStatus = {
+  $id: 'SealStatus',
+  type: 'object',
+  required: ['sealed'],
+  properties: {
+    sealed: { type: 'boolean' },
+    threshold: { type: 'integer', description: 'Sealed mode only: shares needed to unseal' },
+    progress: { type: 'integer', description: 'Sealed mode only: shares submitted so far' }
+  }
+};
+
+export const sharedSchemas = [
+  errorResponse,
+  txSecureRecord,
+  txMetadata,
+  txPage,
+  txTombstone,
+  txBundle,
+  auditEntry,
+  sealStatus,
+  reportSchema('RewrapReport', ['rewrapped', 'skipped', 'failed'], { provider: { type: 'string' }, keyId: { type: 'string' } }),
+  reportSchema('UpgradeReport', ['upgraded', 'skipped', 'failed'], { formatVersion: { type: 'integer' } }),
+  reportSchema('SweepReport', ['shredded', 'failed']),
+  reportSchema('RekeyReport', ['rewrapped', 'skipped', 'failed'], {
+    partyId: { type: 'string' },
+    kekVersion: { type: 'integer' },
+    retired: { type: 'array', items: { type: 'integer' }, description: 'KEK versions deleted after the re-key' }
+  }),
+  reportSchema('PartyShredReport', ['shredded', 'failed'], {
+    partyId: { type: 'string' },
+    keyVersions: { type: 'integer', description: 'KEK versions deleted' }
+  }),
+  reportSchema('BundleImportReport', ['imported', 'skipped', 'failed'], {
+    manifest: { $ref: 'TxBundle#/properties/manifest' },
+    dryRun: { type: 'boolean' },
+    wrapping: { type: 'string', enum: ['keep', 'rewrap'] }
+  })
+];
+
+// ==========================================================================
+// BUILDING BLOCKS
+// ==========================================================================
+
+const ref = (id: string) => ({ $ref: `${id}#` });
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: 'Invalid request, or the operation failed (generic message)',
+  401: 'Missing or invalid credential',
+  403: 'Party outside the credential scope, or admin credential required',
+  404: 'Transaction not found',
+  409: 'Conflict with an existing transaction or Idempotency-Key',
+  410: 'Transaction has been shredded',
+  415: 'Unsupported content type',
+  429: 'Rate limited or locked; see Retry-After',
+  500: 'Server misconfiguration (e.g. keys not configured)',
+  503: 'Vault is sealed (submit unseal shares first), or the keys a record needs are unavailable'
+};
+
+/**
+ * Response entries for the given error statuses, all { error }.
+ */
+function errors(...statuses: number[]) {
+  return Object.fromEntries(statuses.map((status) => [
+    status,
+    { ...ref('ErrorResponse'), description: ERROR_DESCRIPTIONS[status] }
+  ]));
+}
+
+/**
+ * Batch responses: counts plus one result per item, in request order.
+ */
+function batchReport(done: string, result: Record<string, unknown>) {
+  return {
+    type: 'object',
+    properties: {
+      total: { type: 'integer' },
+      [done]: { type: 'integer' },
+      failed: { type: 'integer' },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['index', 'status'],
+          properties: {
+            index: { type: 'integer' },
+            status: { type: 'string', enum: [done, 'failed'] },
+            ...result,
+            statusCode: { type: 'integer', description: 'What the single-item route would have answered' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  };
+}
+
+const idParams = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', description: 'Transaction ID' } }
+};
+
+const partyParams = {
+  type: 'object',
+  required: ['partyId'],
+  properties: { partyId: { type: 'string' } }
+};
+
+const readinessCheck = { type: 'string', enum: ['ok', 'fail', 'skipped'] };
+
+const readinessChecks = {
+  type: 'object',
+  properties: { keys: readinessCheck, store: readinessCheck, selfTest: readinessCheck }
+};
+
+const pageQuery = {
+  cursor: { type: 'string', description: 'nextCursor from the previous page' },
+  limit: { type: 'string', description: 'Page size, 1 to 100 (default 20)' }
+};
+
+// ==========================================================================
+// ROUTES
+// ==========================================================================
+
+export const routeSchemas = {
+  health: {
+    summary: 'Health check',
+    tags: ['System'],
+    response: {
+      200: { type: 'object', properties: { status: { type: 'string' } } }
+    }
+  },
+
+  healthz: {
+    summary: 'Liveness: the process is up',
+    tags: ['System'],
+    response: {
+      200: { type: 'object', properties: { status: { type: 'string' } } }
+    }
+  },
+
+  readyz: {
+    summary: 'Readiness: keys loaded, store reachable, self-test passed',
+    description: 'Answers 503 with the result of each check until all pass. The self-test encrypts, wraps, unwraps and decrypts a probe in memory.',
+    tags: ['System'],
+    response: {
+      200: {
+        type: 'object',
+        properties: { status: { type: 'string' }, checks: readinessChecks }
+      },
+      503: {
+        type: 'object',
+        description: 'Not ready; see checks',
+        properties: { error: { type: 'string' }, checks: readinessChecks }
+      }
+    }
+  },
+
+  metrics: {
+    summary: 'Prometheus metrics',
+    description: 'Text exposition format. Needs Authorization: Bearer <METRICS_TOKEN> when METRICS_TOKEN is set.',
+    tags: ['System'],
+    produces: ['text/plain'],
+    response: {
+      200: { type: 'string', description: 'Prometheus text format 0.0.4' },
+      ...errors(401)
+    }
+  },
+
+  encrypt: {
+    summary: 'Encrypt a payload and store it',
+    tags: ['Transactions'],
+    headers: {
+      type: 'object',
+      properties: {
+        'idempotency-key': {
+          type: 'string',
+          description: `Optional, 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} printable ASCII characters; a repeat returns the original record`
+        }
+      }
+    },
+    body: {
+      type: 'object',
+      required: ['partyId', 'payload'],
+      properties: {
+        partyId: { type: 'string' },
+        payload: { description: 'Any JSON value' },
+        fields: { type: 'array', items: { type: 'string' }, description: 'Top-level fields to encrypt one by one' },
+        searchable: { type: 'array', items: { type: 'string' }, description: 'Top-level scalar fields to store blind index tokens for' },
+        expiresAt: { type: 'string', description: 'ISO 8601 date in the future; the record is shredded then' }
+      }
+    },
+    response: {
+      200: { ...ref('TxSecureRecord'), description: 'The stored record (Idempotency-Replayed: true on a replay)' },
+      ...errors(400, 401, 403, 404, 409, 410, 500)
+    }
+  },
+
+  fetch: {
+    summary: 'Fetch an encrypted record',
+    tags: ['Transactions'],
+    params: idParams,
+    response: {
+      200: ref('TxSecureRecord'),
+      ...errors(401, 403, 404, 410)
+    }
+  },
+
+  decrypt: {
+    summary: 'Decrypt a record',
+    description: 'Rate limited per client and per record (RateLimit-* headers).',
+    tags: ['Transactions'],
+    params: idParams,
+    querystring: {
+      type: 'object',
+      properties: {
+        fields: { type: 'string', description: 'Comma-separated top-level fields to reveal instead of the whole payload' }
+      }
+    },
+    response: {
+      200: { type: 'object', required: ['payload'], properties: { payload: { description: 'The decrypted JSON value' } } },
+      ...errors(400, 401, 403, 404, 410, 429, 500, 503)
+    }
+  },
+
+  list: {
+    summary: 'List a party\'s records, newest first',
+    tags: ['Transactions'],
+    querystring: {
+      type: 'object',
+      required: ['partyId'],
+      properties: {
+        partyId: { type: 'string' },
+        from: { type: 'string', description: 'Earliest createdAt (inclusive)' },
+        to: { type: 'string', description: 'Latest createdAt (inclusive)' },
+        ...pageQuery
+      }
+    },
+    response: {
+      200: ref('TxPage'),
+      ...errors(400, 401, 403)
+    }
+  },
+
+  search: {
+    summary: 'Find records by an exact searchable field value',
+    tags: ['Transactions'],
+    body: {
+      type: 'object',
+      required: ['partyId', 'field', 'value'],
+      properties: {
+        partyId: { type: 'string' },
+        field: { type: 'string', description: `A field made searchable at encryption, 1 to ${MAX_FIELD_NAME_LENGTH} characters` },
+        value: { type: ['string', 'number', 'boolean', 'null'] },
+        cursor: { type: 'string' },
+        limit: { type: 'integer', description: '1 to 100 (default 20)' }
+      }
+    },
+    response: {
+      200: ref('TxPage'),
+      ...errors(400, 401, 403, 500)
+    }
+  },
+
+  delete: {
+    summary: 'Crypto-shred a record',
+    tags: ['Transactions'],
+    params: idParams,
+    response: {
+      200: ref('TxTombstone'),
+      ...errors(401, 403, 404, 410)
+    }
+  },
+
+  wrap: {
+    summary: 'Store a payload encrypted by the client',
+    description: 'The client encrypts with its own DEK (see @mirfa/crypto/browser) and sends it along; the server only wraps the DEK. Sending the same body again returns the stored record.',
+    tags: ['Transactions'],
+    body: {
+      type: 'object',
+      required: ['id', 'partyId', 'alg', 'payload_nonce', 'payload_ct', 'payload_tag', 'dek'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        partyId: { type: 'string' },
+        alg: { type: 'string', enum: ['AES-256-GCM'] },
+        payload_nonce: hex,
+        payload_ct: hex,
+        payload_tag: hex,
+        dek: { type: 'string', description: 'The 32-byte DEK the payload was encrypted with, hex' },
+        expiresAt: { type: 'string', description: 'ISO 8601 date in the future; the record is shredded then' }
+      }
+    },
+    response: {
+      200: { ...ref('TxSecureRecord'), description: 'The stored record (Idempotency-Replayed: true on a replay)' },
+      ...errors(400, 401, 403, 409, 410)
+    }
+  },
+
+  unwrap: {
+    summary: 'Release a record\'s DEK to decrypt it client-side',
+    description: 'Rate limited like decrypt. Refused for field-level and streamed records.',
+    tags: ['Transactions'],
+    params: idParams,
+    response: {
+      200: { type: 'object', required: ['dek'], properties: { dek: { type: 'string', description: 'The unwrapped DEK, hex' } } },
+      ...errors(400, 401, 403, 404, 410, 429, 500, 503)
+    }
+  },
+
+  batchEncrypt: {
+    summary: 'Encrypt and store several payloads',
+    description: 'Each item is checked, authorized and audited like a POST /tx/encrypt body and fails on its own. Items carry no Idempotency-Key.',
+    tags: ['Transactions'],
+    body: {
+      type: 'object',
+      required: ['items'],
+      properties: {
+        items: { type: 'array', items: { description: 'A POST /tx/encrypt body' }, description: '1 to BATCH_MAX_ITEMS (default 100)' }
+      }
+    },
+    response: {
+      200: batchReport('encrypted', { record: ref('TxSecureRecord') }),
+      ...errors(400, 401)
+    }
+  },
+
+  batchDecrypt: {
+    summary: 'Decrypt several records',
+    description: 'Each ID is rate limited, authorized and audited like POST /tx/{id}/decrypt and fails on its own.',
+    tags: ['Transactions'],
+    body: {
+      type: 'object',
+      required: ['ids'],
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, description: '1 to BATCH_MAX_ITEMS (default 100)' },
+        fields: { type: 'array', items: { type: 'string' }, description: 'Top-level fields to reveal from every record' }
+      }
+    },
+    response: {
+      200: batchReport('decrypted', { id: { type: 'string' }, payload: { description: 'The decrypted JSON value' } }),
+      ...errors(400, 401)
+    }
+  },
+
+  import: {
+    summary: 'Import an encrypted record',
+    tags: ['Transactions'],
+    body: ref('TxSecureRecord'),
+    response: {
+      200: ref('TxMetadata'),
+      ...errors(400, 401, 403, 409, 410)
+    }
+  },
+
+  streamUpload: {
+    summary: 'Encrypt a raw upload chunk by chunk',
+    tags: ['Streams'],
+    consumes: ['application/octet-stream'],
+    querystring: {
+      type: 'object',
+      required: ['partyId'],
+      properties: {
+        partyId: { type: 'string' },
+        filename: { type: 'string' }
+      }
+    },
+    response: {
+      200: ref('TxSecureRecord'),
+      ...errors(400, 401, 403, 415)
+    }
+  },
+
+  streamDownload: {
+    summary: 'Decrypt streamed content chunk by chunk',
+    description: 'Sent chunked. A download cut off before its final chunk failed mid-stream and must be discarded.',
+    tags: ['Streams'],
+    produces: ['application/octet-stream'],
+    params: idParams,
+    response: {
+      200: { type: 'string', format: 'binary', description: 'The plaintext content' },
+      ...errors(400, 401, 403, 404, 410, 429, 503)
+    }
+  },
+
+  rewrap: {
+    summary: 'Re-wrap every DEK under the active key',
+    tags: ['Admin'],
+    response: {
+      200: ref('RewrapReport'),
+      ...errors(401, 403, 500)
+    }
+  },
+
+  upgrade: {
+    summary: 'Upgrade every record to the current format',
+    tags: ['Admin'],
+    response: {
+      200: ref('UpgradeReport'),
+      ...errors(401, 403, 500)
+    }
+  },
+
+  rekeyParty: {
+    summary: 'Move one party to a new key-encryption key',
+    description: 'Re-wraps the party\'s DEKs under a new KEK version, then deletes older versions if every record moved.',
+    tags: ['Admin'],
+    params: partyParams,
+    response: {
+      200: ref('RekeyReport'),
+      ...errors(401, 403, 500)
+    }
+  },
+
+  shredParty: {
+    summary: 'Crypto-shred every record of one party',
+    description: 'Deletes the party\'s KEK versions (when party keys are configured), then replaces each of its records by a tombstone.',
+    tags: ['Admin'],
+    params: partyParams,
+    response: {
+      200: ref('PartyShredReport'),
+      ...errors(401, 403, 500)
+    }
+  },
+
+  audit: {
+    summary: 'Query the audit log',
+    tags: ['Admin'],
+    querystring: {
+      type: 'object',
+      properties: {
+        txId: { type: 'string' },
+        subject: { type: 'string' },
+        action: { type: 'string' },
+        outcome: { type: 'string' },
+        afterSeq: { type: 'string', description: 'Only entries after this seq' },
+        limit: { type: 'string', description: '1 to 500 (default 100)' }
+      }
+    },
+    response: {
+      200: { type: 'object', properties: { entries: { type: 'array', items: ref('AuditEntry') } } },
+      ...errors(400, 401, 403)
+    }
+  },
+
+  auditVerify: {
+    summary: 'Verify the audit hash chain',
+    tags: ['Admin'],
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          valid: { type: 'boolean' },
+          checked: { type: 'integer' },
+          brokenAt: { type: 'integer' },
+          reason: { type: 'string' }
+        }
+      },
+      ...errors(401, 403)
+    }
+  },
+
+  retentionSweep: {
+    summary: 'Shred every expired record now',
+    tags: ['Admin'],
+    response: {
+      200: ref('SweepReport'),
+      ...errors(401, 403)
+    }
+  },
+
+  export: {
+    summary: 'Export records as an encrypted, signed bundle',
+    tags: ['Admin'],
+    querystring: {
+      type: 'object',
+      properties: { partyId: { type: 'string', description: 'Only this party\'s records' } }
+    },
+    response: {
+      200: ref('TxBundle'),
+      ...errors(401, 403, 500)
+    }
+  },
+
+  sealStatus: {
+    summary: 'Whether the vault is sealed',
+    tags: ['System'],
+    response: {
+      200: ref('SealStatus')
+    }
+  },
+
+  unseal: {
+    summary: 'Submit one unseal share',
+    description: 'Once the threshold of shares is in, the master keyring is rebuilt and checked. Wrong shares discard every share submitted so far.',
+    tags: ['Admin'],
+    body: {
+      type: 'object',
+      required: ['share'],
+      properties: { share: { type: 'string', description: 'A share from `mirfa split`, "<x>-<hex>"' } }
+    },
+    response: {
+      200: ref('SealStatus'),
+      ...errors(400, 401, 403, 500)
+    }
+  },
+
+  seal: {
+    summary: 'Seal the vault',
+    description: 'Zeroes the master keyring in memory; routes that need keys answer 503 until the vault is unsealed again.',
+    tags: ['Admin'],
+    response: {
+      200: ref('SealStatus'),
+      ...errors(400, 401, 403)
+    }
+  },
+
+  importBundle: {
+    summary: 'Import a bundle from GET /admin/export',
+    tags: ['Admin'],
+    querystring: {
+      type: 'object',
+      properties: {
+        dryRun: { type: 'string', description: 'true to only report what would be imported (default false)' },
+        wrapping: { type: 'string', description: 'keep (default) stores records as they are; rewrap re-wraps their DEKs under the active key' }
+      }
+    },
+    body: ref('TxBundle'),
+    response: {
+      200: ref('BundleImportReport'),
+      ...errors(400, 401, 403, 500)
+    }
+  }
+} satisfies Record<string, RouteSchema>;
+
+// ==========================================================================
+// VALIDATION MESSAGES
+// ==========================================================================
+
+/**
+ * The subset of an Ajv error the messages are built from.
+ */
+interface SchemaError {
+  keyword: string;
+  instancePath: string;
+  params: Record<string, any>;
+}
+
+const ARTICLES: Record<string, string> = { string: 'a string', number: 'a number', integer: 'an integer', boolean: 'a boolean', null: 'null', object: 'an object', array: 'an array' };
+
+/**
+ * "/fields/0" -> "fields[0]"
+ */
+function pathOf(instancePath: string): string {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map((part, index) => /^\d+$/.test(part) ? `[${part}]` : `${index > 0 ? '.' : ''}${part}`)
+    .join('');
+}
+
+/**
+ * Turns the first schema violation into a message in the same register as
+ * the handlers' own ("partyId is required", "partyId must be a string").
+ * Only the first error is reported, as Fastify validates with allErrors off.
+ */
+export function formatSchemaErrors(errors: SchemaError[], context: string): Error {
+  const error = errors[0];
+  const path = pathOf(error.instancePath);
+  const name = path || (context === 'body' ? 'Request body' : context);
+
+  let message: string;
+  switch (error.keyword) {
+    case 'required':
+      message = `${path ? `${path}.` : ''}${error.params.missingProperty} is required`;
+      break;
+    case 'type': {
+      if (!path && context === 'body') {
+        message = 'Request body must be a valid JSON object';
+        break;
+      }
+      // "a string, number, boolean or null": only the first type takes an article
+      const types: string[] = [error.params.type].flat().flatMap((type: string) => type.split(','));
+      const [first, ...rest] = types.map((type, index) => index === 0 ? ARTICLES[type] ?? type : type);
+      message = `${name} must be ${rest.length > 0 ? `${[first, ...rest.slice(0, -1)].join(', ')} or ${rest[rest.length - 1]}` : first}`;
+      break;
+    }
+    case 'enum':
+      message = `${name} must be one of ${error.params.allowedValues.join(', ')}`;
+      break;
+    case 'format':
+      message = error.params.format === 'date-time' ? `${name} must be an ISO 8601 date` : `${name} must be a valid ${error.params.format}`;
+      break;
+    case 'minimum':
+    case 'maximum':
+      message = `${name} must be ${error.keyword === 'minimum' ? 'at least' : 'at most'} ${error.params.limit}`;
+      break;
+    default:
+      message = `${name} is invalid`;
+  }
+  return new Error(message);
+}
@@ -0,0 +1,165 @@
+import crypto from 'node:crypto';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { Keyring, SecretShare, combineShares, parseShare, secretCheckValue } from '@mirfa/crypto';
+import { parseMasterKeys } from './keys.js';
+
+// ============================================================================
+// SEALED STARTUP (SHAMIR UNSEALING)
+// ============================================================================
+// In sealed mode no master key is configured at all. The keyring, written
+// as MASTER_KEYS ("1:<hex>,2:<hex>"), is split into N Shamir shares (see
+// shamir.ts in @mirfa/crypto, or `mirfa split`) held by different people,
+// and the API starts sealed: every route that needs keys answers 503 until
+// UNSEAL_THRESHOLD shares have been submitted to POST /admin/unseal.
+//
+// UNSEAL_THRESHOLD  shares needed (M)
+// UNSEAL_CHECK      secretCheckValue of the keyring, printed by `mirfa split`;
+//                   tells a rebuilt keyring from the garbage wrong shares give
+//
+// POST /admin/seal zeroes the keys in memory and starts over. Shares are
+// never logged or audited, and are zeroed once used.
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    /** Route needs no keys, so it is served while the vault is sealed. */
+    whileSealed?: boolean;
+  }
+}
+
+export interface UnsealConfig {
+  threshold: number;
+  /** secretCheckValue of the keyring, hex. */
+  check: string;
+}
+
+export interface SealStatus {
+  sealed: boolean;
+  /** Sealed mode only: shares needed, and shares submitted so far. */
+  threshold?: number;
+  progress?: number;
+}
+
+/**
+ * A share that cannot be used; the message is safe to return to the caller.
+ */
+export class UnsealError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsealError';
+  }
+}
+
+/**
+ * Reads UNSEAL_THRESHOLD and UNSEAL_CHECK. Unset means the vault is not
+ * sealed: keys come from MASTER_KEY / MASTER_KEYS or a provider as usual.
+ */
+export function unsealConfigFromEnv(): UnsealConfig | undefined {
+  const { UNSEAL_THRESHOLD, UNSEAL_CHECK } = process.env;
+  if (!UNSEAL_THRESHOLD && !UNSEAL_CHECK) return undefined;
+
+  const threshold = Number(UNSEAL_THRESHOLD);
+  if (!Number.isInteger(threshold) || threshold < 2 || threshold > 255) {
+    throw new Error('UNSEAL_THRESHOLD must be an integer from 2 to 255');
+  }
+  if (!UNSEAL_CHECK || !/^[0-9a-fA-F]{64}$/.test(UNSEAL_CHECK)) {
+    throw new Error('UNSEAL_CHECK must be a 64-character hex string');
+  }
+  // A master key in the environment would make the shares pointless
+  if (process.env.MASTER_KEY || process.env.MASTER_KEYS) {
+    throw new Error('MASTER_KEY and MASTER_KEYS must not be set in sealed mode');
+  }
+  if ((process.env.KEY_PROVIDER || 'local') !== 'local') {
+    throw new Error('Sealed mode requires KEY_PROVIDER=local');
+  }
+  return { threshold, check: UNSEAL_CHECK.toLowerCase() };
+}
+
+export interface Seal {
+  status(): SealStatus;
+  /** The unsealed keyring, or undefined while sealed. */
+  keyring(): Keyring | undefined;
+  /**
+   * Adds a share. At the threshold the keyring is rebuilt and checked; on a
+   * mismatch every share is discarded and an UnsealError thrown.
+   */
+  submit(share: string): SealStatus;
+  /** Zeroes the keyring and any submitted shares. */
+  seal(): void;
+}
+
+/**
+ * Seal state for one process, starting sealed.
+ */
+export function createSeal(config: UnsealConfig): Seal {
+  let shares: SecretShare[] = [];
+  let unsealed: Keyring | undefined;
+
+  function discardShares() {
+    for (const { y } of shares) y.fill(0);
+    shares = [];
+  }
+
+  function status(): SealStatus {
+    return { sealed: !unsealed, threshold: config.threshold, progress: unsealed ? config.threshold : shares.length };
+  }
+
+  return {
+    status,
+
+    keyring: () => unsealed,
+
+    submit(share) {
+      if (unsealed) return status();
+
+      let decoded: SecretShare;
+      try {
+        decoded = parseShare(share);
+      } catch (err: any) {
+        throw new UnsealError(err.message);
+      }
+      if (shares.some(({ x }) => x === decoded.x)) {
+        throw new UnsealError(`Share ${decoded.x} has already been submitted`);
+      }
+      if (shares.length > 0 && decoded.y.length !== shares[0].y.length) {
+        throw new UnsealError('Share does not match the shares submitted so far');
+      }
+      shares.push(decoded);
+      if (shares.length < config.threshold) return status();
+
+      const secret = combineShares(shares);
+      discardShares();
+      try {
+        const check = Buffer.from(secretCheckValue(secret), 'hex');
+        if (!crypto.timingSafeEqual(check, Buffer.from(config.check, 'hex'))) {
+          throw new UnsealError('Shares do not rebuild the master keyring; submit them again');
+        }
+        unsealed = parseMasterKeys(secret, 'Unsealed keyring');
+      } finally {
+        secret.fill(0);
+      }
+      return status();
+    },
+
+    seal() {
+      discardShares();
+      for (const key of unsealed?.keys.values() ?? []) key.fill(0);
+      unsealed = undefined;
+    }
+  };
+}
+
+/**
+ * Registers the hook that answers 503 on routes that need keys while sealed.
+ * Routes opt out with `config: { whileSealed: true }`.
+ */
+export function registerSealGuard(fastify: FastifyInstance, seal: Seal) {
+  fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    // Unknown routes still 404, and CORS preflights need no keys
+    if (request.routeOptions.url === undefined || request.method === 'OPTIONS') return;
+    if (request.routeOptions.config?.whileSealed || !seal.status().sealed) return;
+
+    return reply.status(503).send({
+      error: 'Vault is sealed'
+    });
+  });
+}
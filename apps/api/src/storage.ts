@@ -1,7 +1,100 @@
 import { TxSecureRecord } from '@mirfa/crypto';
+import { createMemoryStore } from './storage/memory.js';
+import { createSqliteStore } from './storage/sqlite.js';
+import { createJsonlStore } from './storage/jsonl.js';
 
 /**
- * In-memory storage for secure transaction records.
- * Uses a singleton Map instance.
+ * Filter for listing one party's records, newest first.
+ * `before` is the position of the last record of the previous page.
  */
-export const store = new Map<string, TxSecureRecord>();
+export interface TxQuery {
+  partyId: string;
+  /** Inclusive lower bound on createdAt (ISO 8601). */
+  from?: string;
+  /** Inclusive upper bound on createdAt (ISO 8601). */
+  to?: string;
+  before?: { createdAt: string; id: string };
+  /** Only records whose blind index holds one of these tokens for the field. */
+  index?: { field: string; tokens: string[] };
+  limit: number;
+}
+
+/**
+ * What remains of a shredded record: enough to answer 410 Gone and to show
+ * when and why it went, nothing that could help decrypt it.
+ */
+export interface TxTombstone {
+  id: string;
+  partyId: string;
+  createdAt: string;
+  shreddedAt: string;
+  reason: 'deleted' | 'expired';
+}
+
+/**
+ * Storage backend for secure transaction records.
+ * Every backend stores the record exactly as produced by @mirfa/crypto;
+ * backends that read records back from disk validate them with parseRecord.
+ */
+export interface TxStore {
+  /** Returns the record, or undefined when no record has this ID. */
+  get(id: string): Promise<TxSecureRecord | undefined>;
+
+  /** Inserts or replaces a record. */
+  put(record: TxSecureRecord): Promise<void>;
+
+  /**
+   * Stores a record under an ID that has never been used. Resolves to false,
+   * changing nothing, when the ID is stored or was shredded.
+   */
+  insert(record: TxSecureRecord): Promise<boolean>;
+
+  /**
+   * Replaces a record only while it is still stored, so a bulk job that
+   * read it earlier cannot bring back a record deleted or shredded since.
+   * Resolves to false, changing nothing, when there is no record.
+   */
+  replace(record: TxSecureRecord): Promise<boolean>;
+
+  /** Returns every record, oldest first. */
+  list(): Promise<TxSecureRecord[]>;
+
+  /** Returns up to `limit` records of a party, ordered by createdAt then id, descending. */
+  query(query: TxQuery): Promise<TxSecureRecord[]>;
+
+  /** Removes a record. Resolves to false when it did not exist. */
+  delete(id: string): Promise<boolean>;
+
+  /**
+   * Replaces a record by its tombstone. The wrapped DEK and ciphertext must
+   * not remain readable in the backend's own files. Resolves to false when
+   * there was no record.
+   */
+  shred(tombstone: TxTombstone): Promise<boolean>;
+
+  /** Returns the tombstone of a shredded record. */
+  getTombstone(id: string): Promise<TxTombstone | undefined>;
+}
+
+export { createMemoryStore, createSqliteStore, createJsonlStore };
+
+/**
+ * Builds the store selected by environment variables.
+ *
+ * STORE_BACKEND  memory (default) | sqlite | jsonl
+ * STORE_PATH     database or log file path for sqlite / jsonl
+ */
+export function createStoreFromEnv(): TxStore {
+  const backend = process.env.STORE_BACKEND || 'memory';
+
+  switch (backend) {
+    case 'memory':
+      return createMemoryStore();
+    case 'sqlite':
+      return createSqliteStore(process.env.STORE_PATH || 'mirfa.db');
+    case 'jsonl':
+      return createJsonlStore(process.env.STORE_PATH || 'mirfa-tx.jsonl');
+    default:
+      throw new Error(`Unknown STORE_BACKEND "${backend}": expected memory, sqlite or jsonl`);
+  }
+}
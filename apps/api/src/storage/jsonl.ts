@@ -0,0 +1,156 @@
+import fs from 'node:fs';
+import { TxSecureRecord, parseRecord } from '@mirfa/crypto';
+import type { TxStore, TxTombstone } from '../storage.js';
+import { queryRecords } from './query.js';
+
+type LogEntry =
+  | { op: 'put'; record: TxSecureRecord }
+  | { op: 'delete'; id: string }
+  | { op: 'shred'; tombstone: TxTombstone };
+
+/**
+ * Append-only JSON-lines store. Every write appends one line; the file is
+ * replayed into memory on startup, so the last entry for an ID wins.
+ * Shredding is the exception: the log is rewritten without any earlier
+ * line of the shredded record, since those lines hold its wrapped DEK.
+ * Shreds issued together share one rewrite.
+ */
+export function createJsonlStore(path: string): TxStore {
+  const records = new Map<string, TxSecureRecord>();
+  const tombstones = new Map<string, TxTombstone>();
+
+  if (fs.existsSync(path)) {
+    const lines = fs.readFileSync(path, 'utf8').split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (err) {
+        // A crash mid-append can only damage the final line
+        if (index >= lines.length - 2) return;
+        throw new Error(`Corrupt store file ${path} at line ${index + 1}`);
+      }
+
+      if (entry.op === 'put') {
+        let record: TxSecureRecord;
+        try {
+          record = parseRecord(entry.record);
+        } catch (err: any) {
+          throw new Error(`Corrupt store file ${path} at line ${index + 1}: ${err.message}`);
+        }
+        records.set(record.id, record);
+      } else if (entry.op === 'delete') {
+        records.delete(entry.id);
+      } else if (entry.op === 'shred') {
+        records.delete(entry.tombstone.id);
+        tombstones.set(entry.tombstone.id, entry.tombstone);
+      }
+    });
+  }
+
+  // Serialise writes so lines never interleave, and so each one sees the
+  // in-memory state left by the writes queued before it
+  let pending: Promise<unknown> = Promise.resolve();
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const write = pending.then(task);
+    pending = write.catch(() => undefined);
+    return write;
+  };
+  const append = (entry: LogEntry) => fs.promises.appendFile(path, JSON.stringify(entry) + '\n', 'utf8');
+
+  // Shreds waiting for the next compaction. Each one that arrives before it
+  // starts is covered by the same rewrite, so shredding k records together
+  // (a retention sweep) rewrites the log once rather than k times
+  let batch: { tombstones: Map<string, TxTombstone>; done: Promise<Set<string>> } | undefined;
+
+  // Rewrites the whole log from memory, minus the batch's records, and swaps
+  // it in atomically. Resolves to the IDs that were shredded.
+  const compact = (tombstone: TxTombstone): Promise<Set<string>> => {
+    if (!batch) {
+      const tombstoned = new Map<string, TxTombstone>();
+      batch = {
+        tombstones: tombstoned,
+        done: enqueue(async () => {
+          batch = undefined;
+          const shredded = [...tombstoned.values()].filter((entry) => records.has(entry.id));
+          const ids = new Set(shredded.map((entry) => entry.id));
+          if (shredded.length === 0) return ids;
+
+          const entries: LogEntry[] = [
+            ...[...records.values()].filter((record) => !ids.has(record.id)).map((record) => ({ op: 'put' as const, record })),
+            ...[...tombstones.values(), ...shredded].map((entry) => ({ op: 'shred' as const, tombstone: entry }))
+          ];
+          await fs.promises.writeFile(`${path}.tmp`, entries.map((entry) => JSON.stringify(entry) + '\n').join(''), 'utf8');
+          await fs.promises.rename(`${path}.tmp`, path);
+          for (const entry of shredded) {
+            records.delete(entry.id);
+            tombstones.set(entry.id, entry);
+          }
+          return ids;
+        })
+      };
+    }
+    batch.tombstones.set(tombstone.id, tombstone);
+    return batch.done;
+  };
+
+  return {
+    async get(id) {
+      return records.get(id);
+    },
+
+    async put(record) {
+      await enqueue(async () => {
+        await append({ op: 'put', record });
+        records.set(record.id, record);
+      });
+    },
+
+    async insert(record) {
+      return enqueue(async () => {
+        if (records.has(record.id) || tombstones.has(record.id)) return false;
+        await append({ op: 'put', record });
+        records.set(record.id, record);
+        return true;
+      });
+    },
+
+    async replace(record) {
+      return enqueue(async () => {
+        if (!records.has(record.id)) return false;
+        await append({ op: 'put', record });
+        records.set(record.id, record);
+        return true;
+      });
+    },
+
+    async list() {
+      return [...records.values()];
+    },
+
+    async query(query) {
+      return queryRecords(records.values(), query);
+    },
+
+    async delete(id) {
+      return enqueue(async () => {
+        if (!records.has(id)) return false;
+        await append({ op: 'delete', id });
+        records.delete(id);
+        return true;
+      });
+    },
+
+    async shred(tombstone) {
+      // The same ID twice in one batch: only the first call shreds it
+      if (batch?.tombstones.has(tombstone.id)) return false;
+      return (await compact(tombstone)).has(tombstone.id);
+    },
+
+    async getTombstone(id) {
+      return tombstones.get(id);
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import { TxSecureRecord } from '@mirfa/crypto';
+import type { TxStore, TxTombstone } from '../storage.js';
+import { queryRecords } from './query.js';
+
+/**
+ * In-memory store. Contents are lost on restart or serverless cold start.
+ */
+export function createMemoryStore(): TxStore {
+  const records = new Map<string, TxSecureRecord>();
+  const tombstones = new Map<string, TxTombstone>();
+
+  return {
+    async get(id) {
+      return records.get(id);
+    },
+
+    async put(record) {
+      records.set(record.id, record);
+    },
+
+    async insert(record) {
+      if (records.has(record.id) || tombstones.has(record.id)) return false;
+      records.set(record.id, record);
+      return true;
+    },
+
+    async replace(record) {
+      if (!records.has(record.id)) return false;
+      records.set(record.id, record);
+      return true;
+    },
+
+    async list() {
+      return [...records.values()];
+    },
+
+    async query(query) {
+      return queryRecords(records.values(), query);
+    },
+
+    async delete(id) {
+      return records.delete(id);
+    },
+
+    async shred(tombstone) {
+      if (!records.delete(tombstone.id)) return false;
+      tombstones.set(tombstone.id, tombstone);
+      return true;
+    },
+
+    async getTombstone(id) {
+      return tombstones.get(id);
+    }
+  };
+}
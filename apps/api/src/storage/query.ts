@@ -0,0 +1,38 @@
+import { TxSecureRecord } from '@mirfa/crypto';
+import type { TxQuery } from '../storage.js';
+
+/**
+ * Orders records newest first, breaking createdAt ties by id so every
+ * record has a unique, stable position for cursors.
+ */
+export function compareNewestFirst(a: Pick<TxSecureRecord, 'createdAt' | 'id'>, b: Pick<TxSecureRecord, 'createdAt' | 'id'>): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  if (a.id !== b.id) return a.id < b.id ? 1 : -1;
+  return 0;
+}
+
+/**
+ * Whether a record's blind index holds one of the tokens for the field.
+ */
+function matchesIndex(record: TxSecureRecord, index: NonNullable<TxQuery['index']>): boolean {
+  const tokens = record.blind_index?.tokens;
+  return !!tokens && Object.hasOwn(tokens, index.field) && index.tokens.includes(tokens[index.field]);
+}
+
+/**
+ * TxStore.query for backends that hold every record in memory.
+ */
+export function queryRecords(records: Iterable<TxSecureRecord>, query: TxQuery): TxSecureRecord[] {
+  const matches: TxSecureRecord[] = [];
+
+  for (const record of records) {
+    if (record.partyId !== query.partyId) continue;
+    if (query.from && record.createdAt < query.from) continue;
+    if (query.to && record.createdAt > query.to) continue;
+    if (query.before && compareNewestFirst(record, query.before) <= 0) continue;
+    if (query.index && !matchesIndex(record, query.index)) continue;
+    matches.push(record);
+  }
+
+  return matches.sort(compareNewestFirst).slice(0, query.limit);
+}
@@ -0,0 +1,166 @@
+import Database from 'better-sqlite3';
+import { TxSecureRecord, parseRecord } from '@mirfa/crypto';
+import type { TxStore, TxTombstone } from '../storage.js';
+
+/**
+ * SQLite store. The full record is kept as JSON next to the columns
+ * we query on, so new record fields need no migration. Blind index
+ * tokens are copied into their own table so searches can use an index.
+ * Shredded rows are overwritten on disk (secure_delete) and the WAL is
+ * checkpointed, so no copy of the wrapped DEK is left in the database files.
+ */
+export function createSqliteStore(path: string): TxStore {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('secure_delete = ON');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS tx_records (
+      seq        INTEGER PRIMARY KEY AUTOINCREMENT,
+      id         TEXT NOT NULL UNIQUE,
+      party_id   TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      record     TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS tx_records_party_created ON tx_records (party_id, created_at);
+    CREATE TABLE IF NOT EXISTS tx_blind_index (
+      tx_id    TEXT NOT NULL,
+      party_id TEXT NOT NULL,
+      field    TEXT NOT NULL,
+      token    TEXT NOT NULL,
+      PRIMARY KEY (tx_id, field)
+    );
+    CREATE INDEX IF NOT EXISTS tx_blind_index_lookup ON tx_blind_index (party_id, field, token);
+    CREATE TABLE IF NOT EXISTS tx_tombstones (
+      id          TEXT PRIMARY KEY,
+      party_id    TEXT NOT NULL,
+      created_at  TEXT NOT NULL,
+      shredded_at TEXT NOT NULL,
+      reason      TEXT NOT NULL
+    );
+  `);
+
+  const selectOne = db.prepare<[string], { record: string }>('SELECT record FROM tx_records WHERE id = ?');
+  const selectAll = db.prepare<[], { record: string }>('SELECT record FROM tx_records ORDER BY seq');
+  const upsert = db.prepare(`
+    INSERT INTO tx_records (id, party_id, created_at, record) VALUES (@id, @partyId, @createdAt, @record)
+    ON CONFLICT (id) DO UPDATE SET party_id = excluded.party_id, created_at = excluded.created_at, record = excluded.record
+  `);
+  const insert = db.prepare('INSERT INTO tx_records (id, party_id, created_at, record) VALUES (@id, @partyId, @createdAt, @record) ON CONFLICT (id) DO NOTHING');
+  const update = db.prepare('UPDATE tx_records SET party_id = @partyId, created_at = @createdAt, record = @record WHERE id = @id');
+  const selectPage = db.prepare<[{ partyId: string; from: string | null; to: string | null; beforeCreatedAt: string | null; beforeId: string | null; field: string | null; tokens: string; limit: number }], { record: string }>(`
+    SELECT record FROM tx_records
+    WHERE party_id = @partyId
+      AND (@from IS NULL OR created_at >= @from)
+      AND (@to IS NULL OR created_at <= @to)
+      AND (@beforeCreatedAt IS NULL OR (created_at, id) < (@beforeCreatedAt, @beforeId))
+      AND (@field IS NULL OR id IN (
+        SELECT tx_id FROM tx_blind_index
+        WHERE party_id = @partyId AND field = @field AND token IN (SELECT value FROM json_each(@tokens))
+      ))
+    ORDER BY created_at DESC, id DESC
+    LIMIT @limit
+  `);
+  const remove = db.prepare<[string]>('DELETE FROM tx_records WHERE id = ?');
+  const removeTokens = db.prepare<[string]>('DELETE FROM tx_blind_index WHERE tx_id = ?');
+  const insertToken = db.prepare('INSERT INTO tx_blind_index (tx_id, party_id, field, token) VALUES (@txId, @partyId, @field, @token)');
+
+  // The record row and its tokens change together
+  const writeTokens = (record: TxSecureRecord) => {
+    removeTokens.run(record.id);
+    for (const [field, token] of Object.entries(record.blind_index?.tokens ?? {})) {
+      insertToken.run({ txId: record.id, partyId: record.partyId, field, token });
+    }
+  };
+  const rowOf = (record: TxSecureRecord) => ({ id: record.id, partyId: record.partyId, createdAt: record.createdAt, record: JSON.stringify(record) });
+  const putRecord = db.transaction((record: TxSecureRecord) => {
+    upsert.run(rowOf(record));
+    writeTokens(record);
+  });
+  const replaceRecord = db.transaction((record: TxSecureRecord) => {
+    if (update.run(rowOf(record)).changes === 0) return false;
+    writeTokens(record);
+    return true;
+  });
+  const removeRecord = db.transaction((id: string) => {
+    removeTokens.run(id);
+    return remove.run(id).changes > 0;
+  });
+  const insertTombstone = db.prepare(`
+    INSERT OR REPLACE INTO tx_tombstones (id, party_id, created_at, shredded_at, reason)
+    VALUES (@id, @partyId, @createdAt, @shreddedAt, @reason)
+  `);
+  const selectTombstone = db.prepare<[string], { id: string; party_id: string; created_at: string; shredded_at: string; reason: TxTombstone['reason'] }>(
+    'SELECT * FROM tx_tombstones WHERE id = ?'
+  );
+  const insertRecord = db.transaction((record: TxSecureRecord) => {
+    if (selectTombstone.get(record.id) || insert.run(rowOf(record)).changes === 0) return false;
+    writeTokens(record);
+    return true;
+  });
+  const shredRecord = db.transaction((tombstone: TxTombstone) => {
+    if (!removeRecord(tombstone.id)) return false;
+    insertTombstone.run(tombstone);
+    return true;
+  });
+
+  // Rows are validated on the way out, so a hand-edited row fails loudly
+  const fromRow = (row: { record: string }): TxSecureRecord => parseRecord(JSON.parse(row.record));
+
+  return {
+    async get(id) {
+      const row = selectOne.get(id);
+      return row ? fromRow(row) : undefined;
+    },
+
+    async put(record) {
+      putRecord(record);
+    },
+
+    async insert(record) {
+      return insertRecord(record);
+    },
+
+    async replace(record) {
+      return replaceRecord(record);
+    },
+
+    async list() {
+      return selectAll.all().map(fromRow);
+    },
+
+    async query(query) {
+      return selectPage.all({
+        partyId: query.partyId,
+        from: query.from ?? null,
+        to: query.to ?? null,
+        beforeCreatedAt: query.before?.createdAt ?? null,
+        beforeId: query.before?.id ?? null,
+        field: query.index?.field ?? null,
+        tokens: JSON.stringify(query.index?.tokens ?? []),
+        limit: query.limit
+      }).map(fromRow);
+    },
+
+    async delete(id) {
+      return removeRecord(id);
+    },
+
+    async shred(tombstone) {
+      const shredded = shredRecord(tombstone);
+      // Pages holding the old row may still sit in the WAL until a checkpoint
+      if (shredded) db.pragma('wal_checkpoint(TRUNCATE)');
+      return shredded;
+    },
+
+    async getTombstone(id) {
+      const row = selectTombstone.get(id);
+      return row && {
+        id: row.id,
+        partyId: row.party_id,
+        createdAt: row.created_at,
+        shreddedAt: row.shredded_at,
+        reason: row.reason
+      };
+    }
+  };
+}
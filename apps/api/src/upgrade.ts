@@ -0,0 +1,80 @@
+import { FastifyBaseLogger } from 'fastify';
+import { CURRENT_FORMAT_VERSION, formatVersionOf, upgradeRecord } from '@mirfa/crypto';
+import { KeyConfig, providerFor } from './keys.js';
+import { TxStore } from './storage.js';
+
+/**
+ * Outcome of upgrading a single record.
+ */
+export interface UpgradeResult {
+  id: string;
+  status: 'upgraded' | 'skipped' | 'failed';
+  from: number;
+  to?: number;
+  /** Why a record was skipped, when it was not already current. */
+  reason?: string;
+  error?: string;
+}
+
+/**
+ * Summary of a bulk format upgrade run.
+ */
+export interface UpgradeReport {
+  formatVersion: number;
+  total: number;
+  upgraded: number;
+  skipped: number;
+  failed: number;
+  results: UpgradeResult[];
+}
+
+/**
+ * Upgrades every stored record to the current format version.
+ * Each record stays with the provider that wrapped it; use the re-wrap
+ * route to move keys. A failure only affects that record.
+ */
+export async function upgradeStore(
+  store: TxStore,
+  keys: KeyConfig,
+  log: FastifyBaseLogger
+): Promise<UpgradeReport> {
+  const records = await store.list();
+  const report: UpgradeReport = {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    total: records.length,
+    upgraded: 0,
+    skipped: 0,
+    failed: 0,
+    results: []
+  };
+
+  let processed = 0;
+  for (const record of records) {
+    processed++;
+    const from = formatVersionOf(record);
+
+    if (from >= CURRENT_FORMAT_VERSION) {
+      report.skipped++;
+      report.results.push({ id: record.id, status: 'skipped', from });
+      continue;
+    }
+
+    try {
+      const upgraded = await upgradeRecord(record, providerFor(keys, record));
+      if (!(await store.replace(upgraded))) {
+        report.skipped++;
+        report.results.push({ id: record.id, status: 'skipped', from, reason: 'deleted during the run' });
+        continue;
+      }
+      report.upgraded++;
+      report.results.push({ id: record.id, status: 'upgraded', from, to: formatVersionOf(upgraded) });
+      log.info({ txId: record.id, processed, total: report.total }, 'Record format upgraded');
+    } catch (err: any) {
+      report.failed++;
+      report.results.push({ id: record.id, status: 'failed', from, error: err.message });
+      log.warn({ txId: record.id, processed, total: report.total, error: err.message }, 'Record format upgrade failed');
+    }
+  }
+
+  return report;
+}
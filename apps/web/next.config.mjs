@@ -1,6 +1,13 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // @mirfa/client and @mirfa/crypto/browser ship TypeScript sources with ESM
+  // ".js" import specifiers
+  transpilePackages: ['@mirfa/client', '@mirfa/crypto'],
+  webpack: (config) => {
+    config.resolve.extensionAlias = { '.js': ['.ts', '.js'] };
+    return config;
+  },
 };
 
 export default nextConfig;
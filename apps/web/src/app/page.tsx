@@ -1,66 +1,114 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { MirfaError, NetworkError, TimeoutError, TxMetadata, TxSecureRecord, createMirfaClient } from '@mirfa/client';
 import './styles.css';
 
 // ============================================================================
-// TYPE DEFINITIONS
+// API ERRORS
 // ============================================================================
+// The client throws an ApiError carrying the server's { error } message, or
+// NetworkError / TimeoutError when the API could not be reached.
 
-interface EncryptedRecord {
-  id: string;
-  partyId: string;
-  createdAt: string;
-  payload_nonce: string;
-  payload_ct: string;
-  payload_tag: string;
-  dek_wrap_nonce: string;
-  dek_wrapped: string;
-  dek_wrap_tag: string;
-  alg: string;
-  mk_version: number;
-}
-
-interface DecryptedResponse {
-  payload: unknown;
+function errorMessage(err: unknown, fallback: string): string {
+  if (err instanceof NetworkError || err instanceof TimeoutError) {
+    return 'Network error: Unable to connect to API';
+  }
+  return err instanceof MirfaError ? err.message : fallback;
 }
 
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
 
+// Credential is kept in localStorage so it survives reloads
+const CREDENTIAL_STORAGE_KEY = 'mirfa.credential';
+
 export default function Home() {
   // ------------------------------------------------------------------------
   // STATE MANAGEMENT
   // ------------------------------------------------------------------------
   
+  // Credential (API key or JWT) sent as a Bearer token
+  const [credential, setCredential] = useState('');
+  
+  // End-to-end mode: payloads are encrypted and decrypted in this browser and
+  // the API only wraps and unwraps DEKs, so it never receives the plaintext
+  const [endToEnd, setEndToEnd] = useState(false);
+  
   // Encryption form state
   const [partyId, setPartyId] = useState('');
   const [payloadJson, setPayloadJson] = useState('');
+  const [encryptFields, setEncryptFields] = useState('');
+  const [searchableFields, setSearchableFields] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
   const [encryptLoading, setEncryptLoading] = useState(false);
-  const [encryptedRecord, setEncryptedRecord] = useState<EncryptedRecord | null>(null);
+  const [encryptedRecord, setEncryptedRecord] = useState<TxSecureRecord | null>(null);
+  // Submission that got no response: resubmitting the same body reuses its
+  // Idempotency-Key, so a retry returns the stored record instead of a duplicate
+  const [pendingSubmission, setPendingSubmission] = useState<{ body: string; key: string } | null>(null);
   
   // Transaction form state
   const [txId, setTxId] = useState('');
+  const [revealFields, setRevealFields] = useState('');
   const [fetchLoading, setFetchLoading] = useState(false);
   const [decryptLoading, setDecryptLoading] = useState(false);
-  const [fetchedRecord, setFetchedRecord] = useState<EncryptedRecord | null>(null);
+  const [shredLoading, setShredLoading] = useState(false);
+  const [fetchedRecord, setFetchedRecord] = useState<TxSecureRecord | null>(null);
   const [decryptedPayload, setDecryptedPayload] = useState<unknown | null>(null);
 
+  // History panel state
+  const [historyPartyId, setHistoryPartyId] = useState('');
+  const [searchField, setSearchField] = useState('');
+  const [searchValue, setSearchValue] = useState('');
+  const [historyItems, setHistoryItems] = useState<TxMetadata[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
   // Modal State
   const [showModal, setShowModal] = useState(false);
-  const [modalContent, setModalContent] = useState<EncryptedRecord | null>(null);
+  const [modalContent, setModalContent] = useState<TxSecureRecord | null>(null);
 
   // Messages
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
 
   // ------------------------------------------------------------------------
-  // API BASE URL
+  // API CLIENT
   // ------------------------------------------------------------------------
-  // Use environment variable in production, fallback to localhost for dev
-  // FIXED: Remove any trailing slash to prevent double-slash errors (//tx/encrypt)
-  const API_BASE = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001').replace(/\/$/, '');
+  // Use environment variable in production, fallback to localhost for dev.
+  // The client reads the credential on every call, so it is created once.
+  const credentialRef = useRef('');
+  credentialRef.current = credential;
+  const api = useMemo(() => createMirfaClient({
+    baseUrl: process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001',
+    credential: () => credentialRef.current || undefined
+  }), []);
+
+  // ------------------------------------------------------------------------
+  // CREDENTIAL
+  // ------------------------------------------------------------------------
+  useEffect(() => {
+    setCredential(localStorage.getItem(CREDENTIAL_STORAGE_KEY) || '');
+  }, []);
+
+  const handleCredentialChange = (value: string) => {
+    setCredential(value);
+    if (value) {
+      localStorage.setItem(CREDENTIAL_STORAGE_KEY, value);
+    } else {
+      localStorage.removeItem(CREDENTIAL_STORAGE_KEY);
+    }
+  };
+
+  // ------------------------------------------------------------------------
+  // HELPER: FIELD LISTS
+  // ------------------------------------------------------------------------
+  // "amount, note" -> ['amount', 'note']; empty input -> undefined
+  const splitFieldList = (value: string): string[] | undefined => {
+    const names = value.split(',').map((name) => name.trim()).filter(Boolean);
+    return names.length > 0 ? names : undefined;
+  };
 
   // ------------------------------------------------------------------------
   // HANDLER: ENCRYPT & SAVE
@@ -83,28 +131,57 @@ export default function Home() {
       return;
     }
     
-    setEncryptLoading(true);
-    try {
-      const response = await fetch(`${API_BASE}/tx/encrypt`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ partyId, payload })
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok) {
-        setError(data.error || 'Encryption failed');
+    // Optional: comma-separated top-level fields to encrypt one by one
+    const fields = splitFieldList(encryptFields);
+    // Optional: fields to store blind index tokens for (see history search)
+    const searchable = splitFieldList(searchableFields);
+    
+    // Optional: local date and time after which the record is shredded
+    const expiry = expiresAt ? new Date(expiresAt).toISOString() : undefined;
+    
+    if (endToEnd) {
+      if (fields || searchable) {
+        setError('Field-level encryption and searchable fields need server-side encryption');
         return;
       }
+      setEncryptLoading(true);
+      try {
+        const record = await api.encryptLocally({ partyId, payload, expiresAt: expiry });
+        setEncryptedRecord(record);
+        setTxId(record.id);
+        setSuccess('Encrypted in your browser! Only the ciphertext was sent.');
+        setModalContent(record);
+        setShowModal(true);
+      } catch (err) {
+        setError(errorMessage(err, 'Encryption failed'));
+      } finally {
+        setEncryptLoading(false);
+      }
+      return;
+    }
+    
+    const request = { partyId, payload, fields, searchable, expiresAt: expiry };
+    const body = JSON.stringify(request);
+    const idempotencyKey = pendingSubmission?.body === body ? pendingSubmission.key : crypto.randomUUID();
+    setPendingSubmission({ body, key: idempotencyKey });
+    
+    setEncryptLoading(true);
+    try {
+      const record = await api.encrypt(request, { idempotencyKey });
       
-      setEncryptedRecord(data);
-      setTxId(data.id); // Auto-fill for convenience
+      // The server answered, so the next submission is a new request
+      setPendingSubmission(null);
+      setEncryptedRecord(record);
+      setTxId(record.id); // Auto-fill for convenience
       setSuccess('Encryption successful! Record stored securely.');
-      setModalContent(data);
+      setModalContent(record);
       setShowModal(true);
     } catch (err) {
-      setError('Network error: Unable to connect to API');
+      // Only a request that got no answer may still have been stored
+      if (!(err instanceof NetworkError || err instanceof TimeoutError)) {
+        setPendingSubmission(null);
+      }
+      setError(errorMessage(err, 'Encryption failed'));
     } finally {
       setEncryptLoading(false);
     }
@@ -126,18 +203,10 @@ export default function Home() {
     
     setFetchLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/tx/${txId}`);
-      const data = await response.json();
-      
-      if (!response.ok) {
-        setError(data.error || 'Failed to fetch transaction');
-        return;
-      }
-      
-      setFetchedRecord(data);
+      setFetchedRecord(await api.get(txId));
       setSuccess('Transaction retrieved successfully');
     } catch (err) {
-      setError('Network error: Unable to connect to API');
+      setError(errorMessage(err, 'Failed to fetch transaction'));
     } finally {
       setFetchLoading(false);
     }
@@ -156,28 +225,84 @@ export default function Home() {
       return;
     }
     
+    // Optional: reveal only these fields instead of the whole payload
+    const fields = splitFieldList(revealFields);
+    if (endToEnd && fields) {
+      setError('Revealing single fields needs server-side decryption');
+      return;
+    }
+    
     setDecryptLoading(true);
     try {
-      const response = await fetch(`${API_BASE}/tx/${txId}/decrypt`, {
-        method: 'POST'
-      });
-      
-      const data: DecryptedResponse | { error: string } = await response.json();
-      
-      if (!response.ok) {
-        setError((data as { error: string }).error || 'Decryption failed');
-        return;
-      }
-      
-      setDecryptedPayload((data as DecryptedResponse).payload);
+      setDecryptedPayload(endToEnd ? await api.decryptLocally(txId) : await api.decrypt(txId, { fields }));
       setSuccess('Transaction decrypted successfully');
     } catch (err) {
-      setError('Network error: Unable to connect to API');
+      setError(errorMessage(err, 'Decryption failed'));
     } finally {
       setDecryptLoading(false);
     }
   };
 
+  // ------------------------------------------------------------------------
+  // HANDLER: SHRED TRANSACTION
+  // ------------------------------------------------------------------------
+  // Destroys the record's wrapped DEK; the payload can never be decrypted again.
+  const handleShred = async () => {
+    setError('');
+    setSuccess('');
+    
+    if (!txId.trim()) {
+      setError('Transaction ID is required');
+      return;
+    }
+    if (!window.confirm('Shred this transaction? Its payload can never be decrypted again.')) {
+      return;
+    }
+    
+    setShredLoading(true);
+    try {
+      await api.delete(txId);
+      setFetchedRecord(null);
+      setDecryptedPayload(null);
+      setSuccess('Transaction shredded');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to shred transaction'));
+    } finally {
+      setShredLoading(false);
+    }
+  };
+
+  // ------------------------------------------------------------------------
+  // HANDLER: LOAD TRANSACTION HISTORY
+  // ------------------------------------------------------------------------
+  // Loads the first page, or appends the next page when `more` is set.
+  // With a search field, only records whose indexed value matches exactly.
+  const handleLoadHistory = async (more = false) => {
+    setError('');
+    
+    if (!historyPartyId.trim()) {
+      setError('Party ID is required to browse history');
+      return;
+    }
+    
+    const cursor = more && historyCursor ? historyCursor : undefined;
+    const field = searchField.trim();
+    
+    setHistoryLoading(true);
+    try {
+      const page = field
+        ? await api.search({ partyId: historyPartyId, field, value: searchValue, cursor, limit: 10 })
+        : await api.list({ partyId: historyPartyId, cursor, limit: 10 });
+      
+      setHistoryItems(more ? [...historyItems, ...page.items] : page.items);
+      setHistoryCursor(page.nextCursor);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to load history'));
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
   // ------------------------------------------------------------------------
   // HANDLER: COPY TRANSACTION ID
   // ------------------------------------------------------------------------
@@ -204,6 +329,37 @@ export default function Home() {
         </p>
       </header>
 
+      {/* CREDENTIAL */}
+      <section className="card credential-card">
+        <div className="form-group">
+          <div className="label-row">
+            <label htmlFor="credential" className="label">API Key or JWT</label>
+            {credential && (
+              <button className="label-action" onClick={() => handleCredentialChange('')}>
+                Clear
+              </button>
+            )}
+          </div>
+          <input
+            id="credential"
+            type="password"
+            className="input"
+            placeholder="Paste the credential issued for your party"
+            value={credential}
+            onChange={(e) => handleCredentialChange(e.target.value.trim())}
+            autoComplete="off"
+          />
+        </div>
+        <label className="checkbox-row">
+          <input
+            type="checkbox"
+            checked={endToEnd}
+            onChange={(e) => setEndToEnd(e.target.checked)}
+          />
+          Encrypt and decrypt in this browser (end-to-end, whole payloads only)
+        </label>
+      </section>
+
       {/* ERROR/SUCCESS MESSAGES */}
       {error && <div className="message error">{error}</div>}
       {success && <div className="message success">{success}</div>}
@@ -251,6 +407,50 @@ export default function Home() {
             />
           </div>
 
+          <div className="form-group">
+            <div className="label-row">
+              <label htmlFor="encryptFields" className="label">Encrypt Fields Individually (optional)</label>
+            </div>
+            <input
+              id="encryptFields"
+              type="text"
+              className="input"
+              placeholder="e.g., amount, description (other fields stay clear)"
+              value={encryptFields}
+              onChange={(e) => setEncryptFields(e.target.value)}
+              disabled={encryptLoading}
+            />
+          </div>
+
+          <div className="form-group">
+            <div className="label-row">
+              <label htmlFor="searchableFields" className="label">Searchable Fields (optional)</label>
+            </div>
+            <input
+              id="searchableFields"
+              type="text"
+              className="input"
+              placeholder="e.g., account (exact-match search in history)"
+              value={searchableFields}
+              onChange={(e) => setSearchableFields(e.target.value)}
+              disabled={encryptLoading}
+            />
+          </div>
+
+          <div className="form-group">
+            <div className="label-row">
+              <label htmlFor="expiresAt" className="label">Expires At (optional)</label>
+            </div>
+            <input
+              id="expiresAt"
+              type="datetime-local"
+              className="input"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              disabled={encryptLoading}
+            />
+          </div>
+
           <button
             className="button primary"
             onClick={handleEncrypt}
@@ -307,6 +507,19 @@ export default function Home() {
             />
           </div>
 
+          <div className="form-group">
+            <label htmlFor="revealFields" className="label">Reveal Only Fields (optional)</label>
+            <input
+              id="revealFields"
+              type="text"
+              className="input"
+              placeholder="e.g., currency (blank = whole payload)"
+              value={revealFields}
+              onChange={(e) => setRevealFields(e.target.value)}
+              disabled={fetchLoading || decryptLoading}
+            />
+          </div>
+
           <div className="button-group">
             <button
               className="button secondary"
@@ -324,6 +537,14 @@ export default function Home() {
             </button>
           </div>
 
+          <button
+            className="button secondary view-btn"
+            onClick={handleShred}
+            disabled={fetchLoading || decryptLoading || shredLoading}
+          >
+            {shredLoading ? 'Shredding...' : 'Shred Transaction'}
+          </button>
+
           {/* FETCHED RECORD DISPLAY */}
           {fetchedRecord ? (
             <div className="result-box">
@@ -350,6 +571,76 @@ export default function Home() {
         </section>
       </div>
 
+      {/* TRANSACTION HISTORY */}
+      <section className="card history-card">
+        <h2 className="card-title">Transaction History</h2>
+        
+        <div className="history-controls">
+          <input
+            type="text"
+            className="input"
+            placeholder="Party ID, e.g. user_12345"
+            value={historyPartyId}
+            onChange={(e) => setHistoryPartyId(e.target.value)}
+            disabled={historyLoading}
+          />
+          <input
+            type="text"
+            className="input"
+            placeholder="Searchable field (optional)"
+            value={searchField}
+            onChange={(e) => setSearchField(e.target.value)}
+            disabled={historyLoading}
+          />
+          <input
+            type="text"
+            className="input"
+            placeholder="Exact text value"
+            value={searchValue}
+            onChange={(e) => setSearchValue(e.target.value)}
+            disabled={historyLoading}
+          />
+          <button
+            className="button secondary"
+            onClick={() => handleLoadHistory()}
+            disabled={historyLoading}
+          >
+            {historyLoading ? 'Loading...' : searchField.trim() ? 'Search' : 'Browse'}
+          </button>
+        </div>
+
+        {historyItems.length > 0 ? (
+          <ul className="history-list">
+            {historyItems.map((item) => (
+              <li key={item.id}>
+                <button
+                  className={`history-item${item.id === txId ? ' selected' : ''}`}
+                  onClick={() => {
+                    setTxId(item.id);
+                    setFetchedRecord(null);
+                    setDecryptedPayload(null);
+                  }}
+                >
+                  <span className="history-id">{item.id.slice(0, 12)}...</span>
+                  <span className="history-date">{new Date(item.createdAt).toLocaleString()}</span>
+                  <span className="history-meta">{item.alg} · mk v{item.mk_version}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {historyCursor ? (
+          <button
+            className="button secondary"
+            onClick={() => handleLoadHistory(true)}
+            disabled={historyLoading}
+          >
+            Load More
+          </button>
+        ) : null}
+      </section>
+
       {/* MODAL */}
       {showModal && modalContent && (
         <div className="modal-backdrop" onClick={() => setShowModal(false)}>
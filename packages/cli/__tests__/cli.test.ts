@@ -0,0 +1,343 @@
+import crypto from 'node:crypto';
+import { Readable, PassThrough } from 'node:stream';
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { TxSecureRecord, combineShares, createKeyring, createPartyKey, decryptPayload, encryptEnvelope, rewrapDEK, secretCheckValue, unwrapDEK } from '@mirfa/crypto';
+import { knownAnswerVectors } from '@mirfa/crypto/test-vectors';
+import { run } from '../src/cli.js';
+import { CliIO, readAll } from '../src/io.js';
+import { createJsonlStore } from '../../../apps/api/src/storage/jsonl.js';
+
+// ============================================================================
+// TEST SUITE: MIRFA CLI
+// ============================================================================
+
+/**
+ * Runs the CLI against in-memory streams and a fake filesystem.
+ */
+async function mirfa(
+  argv: string[],
+  options: { stdin?: string; env?: Record<string, string>; files?: Map<string, string>; prompt?: string; fetch?: typeof fetch } = {}
+) {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const files = options.files ?? new Map<string, string>();
+  const io: CliIO = {
+    stdin: Readable.from([Buffer.from(options.stdin ?? '')]),
+    stdout,
+    stderr,
+    env: options.env ?? {},
+    prompt: async () => {
+      if (options.prompt === undefined) throw new Error('no terminal');
+      return options.prompt;
+    },
+    openFile: (path) => {
+      const content = files.get(path);
+      if (content === undefined) {
+        const missing = new PassThrough();
+        process.nextTick(() => missing.destroy(new Error(`ENOENT: ${path}`)));
+        return missing;
+      }
+      return Readable.from([Buffer.from(content)]);
+    },
+    writeNewFile: async (path, content) => {
+      if (files.has(path)) throw new Error(`EEXIST: ${path}`);
+      files.set(path, content);
+    },
+    fetch: options.fetch ?? (async () => {
+      throw new Error('no network');
+    })
+  };
+
+  const code = await run(argv, io);
+  stdout.end();
+  stderr.end();
+  return {
+    code,
+    stdout: (await readAll(stdout)).toString('utf8'),
+    stderr: (await readAll(stderr)).toString('utf8')
+  };
+}
+
+function open(record: TxSecureRecord, masterKey: Buffer) {
+  return decryptPayload(record, unwrapDEK(record, masterKey));
+}
+
+describe('mirfa CLI', () => {
+  let masterKey: Buffer;
+  let env: Record<string, string>;
+
+  beforeEach(() => {
+    masterKey = crypto.randomBytes(32);
+    env = { MASTER_KEY: masterKey.toString('hex') };
+  });
+
+  it('should encrypt stdin into a record and decrypt it back', async () => {
+    const encrypted = await mirfa(['encrypt', '--party', 'party_a', '--alg', 'CHACHA20-POLY1305'], { stdin: '{"amount":42}', env });
+    expect(encrypted.code).toBe(0);
+
+    const record = JSON.parse(encrypted.stdout) as TxSecureRecord;
+    expect(record).toMatchObject({ partyId: 'party_a', alg: 'CHACHA20-POLY1305', mk_version: 1 });
+    expect(open(record, masterKey)).toEqual({ amount: 42 });
+
+    const decrypted = await mirfa(['decrypt'], { stdin: encrypted.stdout, env });
+    expect(JSON.parse(decrypted.stdout)).toEqual({ amount: 42 });
+  });
+
+  it('should encrypt plain text with --text and print it raw', async () => {
+    const encrypted = await mirfa(['encrypt', '--party', 'party_a', '--text'], { stdin: 'not json\n', env });
+    const decrypted = await mirfa(['decrypt', '--text'], { stdin: encrypted.stdout, env });
+    expect(decrypted.stdout).toBe('not json\n');
+  });
+
+  it('should encrypt and reveal individual fields', async () => {
+    const encrypted = await mirfa(['encrypt', '--party', 'party_a', '--fields', 'account'], { stdin: '{"currency":"AED","account":"AE07"}', env });
+    expect(JSON.parse(encrypted.stdout).clear).toEqual({ currency: 'AED' });
+
+    const decrypted = await mirfa(['decrypt', '--fields', 'currency'], { stdin: encrypted.stdout, env });
+    expect(JSON.parse(decrypted.stdout)).toEqual({ currency: 'AED' });
+  });
+
+  it('should inspect a record without a key', async () => {
+    const record = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+    const result = await mirfa(['inspect', 'record.json'], { files: new Map([['record.json', JSON.stringify(record)]]) });
+
+    expect(result.code).toBe(0);
+    expect(JSON.parse(result.stdout)).toMatchObject({ id: record.id, alg: 'AES-256-GCM', format_version: 2 });
+    expect(result.stdout).not.toContain(record.payload_ct);
+  });
+
+  it('should report the invalid field on inspect', async () => {
+    const record = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+    const result = await mirfa(['inspect'], { stdin: JSON.stringify({ ...record, payload_tag: 'zz' }) });
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toContain('Invalid record: payload_tag');
+  });
+
+  it('should move a record to a new master key', async () => {
+    const record = encryptEnvelope('party_a', { amount: 7 }, masterKey);
+    const newKey = crypto.randomBytes(32);
+    const result = await mirfa(['rewrap', '--to', 'file:new.key'], {
+      stdin: JSON.stringify(record),
+      env,
+      files: new Map([['new.key', newKey.toString('hex') + '\n']])
+    });
+
+    const rewrapped = JSON.parse(result.stdout) as TxSecureRecord;
+    expect(rewrapped.mk_version).toBe(2);
+    expect(rewrapped.payload_ct).toBe(record.payload_ct);
+    expect(decryptPayload(rewrapped, unwrapDEK(rewrapped, { activeVersion: 2, keys: new Map([[2, newKey]]) }))).toEqual({ amount: 7 });
+    // The old key no longer opens it
+    expect(() => unwrapDEK(rewrapped, { activeVersion: 2, keys: new Map([[2, masterKey]]) })).toThrow(/Failed to unwrap DEK/);
+  });
+
+  it('should wrap and unwrap under party keys from --party-keys', async () => {
+    const partyKey = createPartyKey('party_a', 2);
+    const files = new Map([['party-keys.json', JSON.stringify({ parties: { party_a: [{ version: 2, salt: partyKey.salt, createdAt: partyKey.createdAt }] } })]]);
+
+    const encrypted = await mirfa(['encrypt', '--party', 'party_a', '--party-keys', 'party-keys.json'], { stdin: '{"amount":5}', env, files });
+    const record = JSON.parse(encrypted.stdout) as TxSecureRecord;
+    expect(record.kek_version).toBe(2);
+    expect(decryptPayload(record, unwrapDEK(record, masterKey, partyKey))).toEqual({ amount: 5 });
+
+    const decrypted = await mirfa(['decrypt', '--party-keys', 'party-keys.json'], { stdin: encrypted.stdout, env, files });
+    expect(JSON.parse(decrypted.stdout)).toEqual({ amount: 5 });
+
+    const without = await mirfa(['decrypt'], { stdin: encrypted.stdout, env });
+    expect(without.code).toBe(1);
+    expect(without.stderr).toContain('is wrapped by a party key; pass --party-keys');
+
+    const unknown = await mirfa(['encrypt', '--party', 'party_b', '--party-keys', 'party-keys.json'], { stdin: '{}', env, files });
+    expect(unknown.code).toBe(1);
+    expect(unknown.stderr).toContain('Party party_b has no key in the party key file');
+  });
+
+  it('should fail cleanly with the wrong key', async () => {
+    const record = encryptEnvelope('party_a', { amount: 1 }, masterKey);
+    const result = await mirfa(['decrypt'], { stdin: JSON.stringify(record), env: { MASTER_KEY: crypto.randomBytes(32).toString('hex') } });
+
+    expect(result.code).toBe(1);
+    expect(result.stderr).toMatch(/Failed to unwrap DEK/);
+    expect(result.stdout).toBe('');
+  });
+
+  it('should decrypt every known-answer record', async () => {
+    const files = new Map([['party-keys.json', JSON.stringify(knownAnswerVectors.partyKeys)]]);
+
+    for (const { name, record, plaintext } of knownAnswerVectors.envelope) {
+      const vectorEnv = { MASTER_KEY: knownAnswerVectors.masterKeys[record.mk_version] };
+      const result = await mirfa(['decrypt', '--party-keys', 'party-keys.json'], { stdin: JSON.stringify(record), env: vectorEnv, files });
+      expect(result.stderr, name).toBe('');
+      expect(JSON.parse(result.stdout), name).toEqual(plaintext);
+    }
+  });
+
+  // ==========================================================================
+  // KEY SOURCES
+  // ==========================================================================
+  describe('Key Sources', () => {
+    it('should read the key from a prompt', async () => {
+      const record = encryptEnvelope('party_a', { amount: 3 }, masterKey);
+      const result = await mirfa(['decrypt', '--key', 'prompt'], { stdin: JSON.stringify(record), prompt: masterKey.toString('hex') });
+      expect(JSON.parse(result.stdout)).toEqual({ amount: 3 });
+    });
+
+    it.each([
+      [['--key', 'env:MISSING'], /MISSING is not set/],
+      [['--key', 'file:nope.key'], /ENOENT/],
+      [['--key', 'hunter2'], /Invalid key source/]
+    ])('should reject %j', async (args, message) => {
+      const result = await mirfa(['decrypt', ...args], { stdin: '{}', env });
+      expect(result.code).toBe(1);
+      expect(result.stderr).toMatch(message);
+    });
+
+    it('should reject a malformed key', async () => {
+      const result = await mirfa(['encrypt', '--party', 'party_a'], { stdin: '{}', env: { MASTER_KEY: 'abcd' } });
+      expect(result.stderr).toContain('MASTER_KEY must be a 64-character hex string');
+    });
+
+    it('should generate keys and never overwrite a key file', async () => {
+      const files = new Map<string, string>();
+      expect((await mirfa(['keygen', '--out', 'mk.hex'], { files })).code).toBe(0);
+      expect(files.get('mk.hex')).toMatch(/^[0-9a-f]{64}\n$/);
+
+      const again = await mirfa(['keygen', '--out', 'mk.hex'], { files });
+      expect(again.code).toBe(1);
+      expect(again.stderr).toContain('EEXIST');
+    });
+  });
+
+  // ==========================================================================
+  // UNSEAL SHARES
+  // ==========================================================================
+  describe('Unseal Shares', () => {
+    it('should split the master keys into shares that rebuild them', async () => {
+      const keys = `1:${crypto.randomBytes(32).toString('hex')},2:${masterKey.toString('hex')}`;
+      const result = await mirfa(['split', '--shares', '5', '--threshold', '3'], { env: { MASTER_KEYS: keys } });
+      expect(result.code).toBe(0);
+
+      const { threshold, check, shares } = JSON.parse(result.stdout);
+      expect(threshold).toBe(3);
+      expect(shares).toHaveLength(5);
+      const rebuilt = combineShares([shares[0], shares[2], shares[4]]);
+      expect(rebuilt.toString()).toBe(keys);
+      expect(secretCheckValue(rebuilt)).toBe(check);
+      expect(result.stderr).toContain('UNSEAL_THRESHOLD=3');
+    });
+
+    it('should refuse a threshold above the share count', async () => {
+      const result = await mirfa(['split', '--shares', '2', '--threshold', '3'], { env: { MASTER_KEYS: masterKey.toString('hex') } });
+      expect(result.code).toBe(1);
+      expect(result.stderr).toMatch(/Shares must be an integer from the threshold/);
+    });
+
+    it('should submit a share to the API', async () => {
+      const requests: Array<{ url: string; init?: RequestInit }> = [];
+      const fakeFetch = (async (url: URL, init?: RequestInit) => {
+        requests.push({ url: String(url), init });
+        return new Response(JSON.stringify({ sealed: true, threshold: 3, progress: 1 }), { status: 200 });
+      }) as typeof fetch;
+
+      const result = await mirfa(['unseal', '--url', 'http://vault.test'], {
+        env: { MIRFA_ADMIN_KEY: 'admin-key' },
+        prompt: '1-abcd',
+        fetch: fakeFetch
+      });
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('1 of 3 submitted');
+      expect(requests[0].url).toBe('http://vault.test/admin/unseal');
+      expect(JSON.parse(String(requests[0].init?.body))).toEqual({ share: '1-abcd' });
+      expect((requests[0].init?.headers as Record<string, string>).authorization).toBe('Bearer admin-key');
+    });
+
+    it('should report an unseal refused by the API', async () => {
+      const fakeFetch = (async () => new Response(JSON.stringify({ error: 'Share 1 has already been submitted' }), { status: 400 })) as typeof fetch;
+      const result = await mirfa(['unseal', '--url', 'http://vault.test', '--share', 'env:SHARE'], {
+        env: { MIRFA_ADMIN_KEY: 'admin-key', SHARE: '1-abcd' },
+        fetch: fakeFetch
+      });
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain('Share 1 has already been submitted');
+    });
+  });
+
+  // ==========================================================================
+  // BULK (JSON LINES)
+  // ==========================================================================
+  describe('Bulk', () => {
+    it('should process JSON lines and report failing lines', async () => {
+      const good = encryptEnvelope('party_a', { n: 1 }, masterKey);
+      const other = encryptEnvelope('party_b', { n: 2 }, masterKey);
+      const foreign = encryptEnvelope('party_a', { n: 3 }, crypto.randomBytes(32));
+      const input = [good, other, foreign].map((record) => JSON.stringify(record)).join('\n') + '\n\n';
+
+      const result = await mirfa(['decrypt', '--jsonl'], { stdin: input, env });
+
+      expect(result.code).toBe(1);
+      expect(result.stdout.trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+        { id: good.id, partyId: 'party_a', payload: { n: 1 } },
+        { id: other.id, partyId: 'party_b', payload: { n: 2 } }
+      ]);
+      expect(result.stderr).toMatch(/^line 3: Failed to unwrap DEK/);
+    });
+
+    it('should read the file of a JSON-lines store as the records it holds', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-cli-'));
+      const file = path.join(dir, 'store.jsonl');
+      try {
+        const store = createJsonlStore(file);
+        const [kept, replaced, deleted, shredded] = [1, 2, 3, 4].map((n) => encryptEnvelope('party_a', { n }, masterKey));
+        for (const record of [kept, replaced, deleted, shredded]) await store.put(record);
+        await store.put(rewrapDEK(replaced, createKeyring({ 1: masterKey, 2: masterKey }, 2)));
+        await store.delete(deleted.id);
+        await store.shred({ id: shredded.id, partyId: 'party_a', createdAt: shredded.createdAt, shreddedAt: new Date().toISOString(), reason: 'deleted' });
+        // Written after the shred's compaction, so the log holds every kind of line
+        await store.delete(kept.id);
+        await store.put(kept);
+        const files = new Map([['store.jsonl', fs.readFileSync(file, 'utf8')]]);
+
+        const decrypted = await mirfa(['decrypt', '--jsonl', 'store.jsonl'], { env, files });
+        expect(decrypted.stderr).toBe('');
+        expect(decrypted.code).toBe(0);
+        expect(decrypted.stdout.trim().split('\n').map((line) => JSON.parse(line))).toEqual([
+          { id: replaced.id, partyId: 'party_a', payload: { n: 2 } },
+          { id: kept.id, partyId: 'party_a', payload: { n: 1 } }
+        ]);
+
+        const inspected = await mirfa(['inspect', '--jsonl', 'store.jsonl'], { files });
+        expect(inspected.stdout.trim().split('\n').map((line) => JSON.parse(line).mk_version)).toEqual([2, 1]);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should encrypt one payload per line', async () => {
+      const result = await mirfa(['encrypt', '--party', 'party_a', '--jsonl'], { stdin: '{"n":1}\n{"n":2}\n', env });
+      const records = result.stdout.trim().split('\n').map((line) => JSON.parse(line) as TxSecureRecord);
+
+      expect(records.map((record) => open(record, masterKey))).toEqual([{ n: 1 }, { n: 2 }]);
+    });
+  });
+
+  // ==========================================================================
+  // USAGE
+  // ==========================================================================
+  describe('Usage', () => {
+    it.each([
+      [[]],
+      [['frobnicate']],
+      [['encrypt']],
+      [['encrypt', '--party', 'p', '--alg', 'DES']],
+      [['decrypt', '--bogus']],
+      [['inspect', 'a.json', 'b.json']]
+    ])('should exit 2 for %j', async (argv) => {
+      const result = await mirfa(argv, { env });
+      expect(result.code).toBe(2);
+      expect(result.stderr).toContain('Usage: mirfa');
+    });
+  });
+});
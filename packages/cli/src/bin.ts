@@ -0,0 +1,36 @@
+#!/usr/bin/env -S node --import tsx
+import fs from 'node:fs';
+import readline from 'node:readline';
+import { Writable } from 'node:stream';
+import { run } from './cli.js';
+
+/**
+ * Reads one line from the terminal with echo turned off.
+ */
+function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new Error('Key prompt needs an interactive terminal (use env: or file: instead)'));
+  }
+  process.stderr.write(question);
+  const muted = new Writable({ write: (_chunk, _encoding, done) => done() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+
+  return new Promise((resolve) => {
+    rl.question('', (answer) => {
+      rl.close();
+      process.stderr.write('\n');
+      resolve(answer);
+    });
+  });
+}
+
+process.exitCode = await run(process.argv.slice(2), {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  env: process.env,
+  prompt: promptHidden,
+  openFile: (path) => fs.createReadStream(path),
+  writeNewFile: (path, content, mode) => fs.promises.writeFile(path, content, { flag: 'wx', mode }),
+  fetch: globalThis.fetch
+});
@@ -0,0 +1,500 @@
+import { parseArgs, ParseArgsConfig } from 'node:util';
+import {
+  AlgorithmId,
+  PartyKey,
+  PartyKeyShreddedError,
+  PartyKeySource,
+  SUPPORTED_ALGORITHMS,
+  TxSecureRecord,
+  createKeyring,
+  createLocalKeyProvider,
+  encryptEnvelope,
+  formatVersionOf,
+  isSupportedAlgorithm,
+  parsePartyKeysFile,
+  parseRecord,
+  revealPayload,
+  rewrapDEKWithProvider,
+  secretCheckValue,
+  splitSecret,
+  unwrapDEK
+} from '@mirfa/crypto';
+import { CliIO, readAll, readLines, write } from './io.js';
+import { DEFAULT_KEY_SOURCE, generateMasterKeyHex, readMasterKey, readMasterKeys, readSecret } from './keys.js';
+
+// ============================================================================
+// MIRFA CLI
+// ============================================================================
+// Offline vault operations on records, with no API server involved; only
+// `unseal` talks to a running API. Every record-reading command takes a file
+// argument or stdin, and with --jsonl processes one record (or payload) per
+// line, or the records of a JSON-lines store file.
+
+const USAGE = `Usage: mirfa <command> [options] [file]
+
+Commands:
+  encrypt   Encrypt a JSON payload (or --text) into a record
+            --party <id> (required)  --alg <alg>  --key-version <n>
+            --fields <a,b>  encrypt these payload fields one by one, keep the rest clear
+  decrypt   Decrypt a record and print its payload (--text prints strings raw)
+            --fields <a,b>  reveal only these payload fields
+  inspect   Validate a record's structure and print its metadata (no key needed)
+  rewrap    Re-wrap a record's DEK from one master key to another
+            --from <source>  --to <source>  --to-version <n>
+  keygen    Print a new random master key (--out <path> writes it to a new file)
+  split     Split the master keys into unseal shares for a sealed API
+            --shares <n> (required)  --threshold <m> (required)
+            --keys <source>  MASTER_KEYS-format keys (default env:MASTER_KEYS)
+  unseal    Submit one unseal share to a sealed API
+            --url <api> (required)  --share <source> (default prompt)
+            --credential <source>  admin API key or JWT (default env:MIRFA_ADMIN_KEY)
+
+Options:
+  --key <source>  Master key: env:NAME, file:PATH or prompt (default ${DEFAULT_KEY_SOURCE})
+  --party-keys <path>
+                  Party key file (as PARTY_KEYS_FILE on the API) for encrypt, decrypt
+                  and rewrap: DEKs are wrapped under per-party KEKs
+  --jsonl         One record or payload per input line; failures are reported
+                  per line on stderr and the exit code is 1 if any line failed.
+                  A JSON-lines store file is read as the records it holds
+
+Algorithms: ${SUPPORTED_ALGORITHMS.join(', ')}
+`;
+
+/**
+ * Bad arguments: reported with the usage text and exit code 2.
+ */
+class UsageError extends Error {}
+
+const COMMON_OPTIONS = {
+  jsonl: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+} satisfies ParseArgsConfig['options'];
+
+const KEY_OPTION = {
+  key: { type: 'string', default: DEFAULT_KEY_SOURCE }
+} satisfies ParseArgsConfig['options'];
+
+const PARTY_KEYS_OPTION = {
+  'party-keys': { type: 'string' }
+} satisfies ParseArgsConfig['options'];
+
+function parse<O extends NonNullable<ParseArgsConfig['options']>>(args: string[], options: O) {
+  try {
+    return parseArgs({ args, options: { ...COMMON_OPTIONS, ...options }, allowPositionals: true, strict: true });
+  } catch (err: any) {
+    throw new UsageError(err.message);
+  }
+}
+
+function parseVersion(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new UsageError(`${name} must be a positive integer`);
+  }
+  return version;
+}
+
+function parseFieldList(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const names = value.split(',').map((name) => name.trim()).filter(Boolean);
+  if (names.length === 0) {
+    throw new UsageError('--fields must list at least one field name');
+  }
+  return names;
+}
+
+/**
+ * Party keys from --party-keys, read-only: the API creates and rotates them,
+ * so a party missing from the file is an error, not a new key nobody keeps.
+ */
+async function readPartyKeys(path: string | undefined, io: CliIO): Promise<PartyKeySource | undefined> {
+  if (path === undefined) return undefined;
+  const { parties, destroyed } = parsePartyKeysFile((await readAll(io.openFile(path))).toString('utf8'), path);
+  return {
+    async active(partyId) {
+      const partyKey = parties.get(partyId)?.at(-1);
+      if (!partyKey) {
+        throw new Error(`Party ${partyId} has no key in the party key file`);
+      }
+      return partyKey;
+    },
+    async get(partyId, version) {
+      return parties.get(partyId)?.find((partyKey) => partyKey.version === version);
+    },
+    async destroyedUpTo(partyId) {
+      return destroyed.get(partyId) ?? 0;
+    }
+  };
+}
+
+/**
+ * The party key a record's DEK is wrapped under, if any, from --party-keys.
+ */
+async function partyKeyFor(record: TxSecureRecord, partyKeys: PartyKeySource | undefined): Promise<PartyKey | undefined> {
+  if (record.kek_version === undefined) return undefined;
+  if (!partyKeys) {
+    throw new Error(`Record ${record.id} is wrapped by a party key; pass --party-keys`);
+  }
+  const partyKey = await partyKeys.get(record.partyId, record.kek_version);
+  if (!partyKey) {
+    if (record.kek_version <= await partyKeys.destroyedUpTo(record.partyId)) {
+      throw new PartyKeyShreddedError(`Party key version ${record.kek_version} of ${record.partyId} has been shredded`);
+    }
+    throw new Error(`Party key version ${record.kek_version} of ${record.partyId} is not in the party key file`);
+  }
+  return partyKey;
+}
+
+function inputFile(positionals: string[]): string | undefined {
+  if (positionals.length > 1) {
+    throw new UsageError('Expected at most one input file');
+  }
+  return positionals[0];
+}
+
+/**
+ * Parses and validates a record, refusing ones this tool cannot unwrap offline.
+ */
+function readRecord(text: string, requireLocalKey: boolean): TxSecureRecord {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Input is not valid JSON');
+  }
+  const record = parseRecord(json);
+  if (requireLocalKey && record.key_provider !== undefined && record.key_provider !== 'local') {
+    throw new Error(`Record ${record.id} was wrapped by key provider "${record.key_provider}"; only local master keys are supported`);
+  }
+  return record;
+}
+
+type InputLine = { line: number; text: string };
+
+/**
+ * Parses a line of a JSON-lines store file (storage/jsonl.ts in the API),
+ * or returns undefined for anything else, such as a bare record.
+ */
+function storeEntryOf(text: string): { op: string; id?: string; record?: unknown } | undefined {
+  let entry: any;
+  try {
+    entry = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+  if (entry === null || typeof entry !== 'object' || typeof entry.op !== 'string') return undefined;
+  const id = entry.op === 'put' ? entry.record?.id : entry.op === 'shred' ? entry.tombstone?.id : entry.id;
+  return { op: entry.op, id, record: entry.record };
+}
+
+/**
+ * Yields one record per line. A store file (its first line is a store
+ * entry) is replayed the way the API loads it: a record per ID from its last
+ * `put`, none for IDs a later `delete` or `shred` removed. That needs the
+ * whole file in memory; other input is still read a line at a time.
+ */
+async function* recordLines(lines: AsyncIterable<InputLine>): AsyncGenerator<InputLine> {
+  const latest = new Map<string, InputLine>();
+  let isStore: boolean | undefined;
+
+  for await (const input of lines) {
+    isStore ??= storeEntryOf(input.text) !== undefined;
+    if (!isStore) {
+      yield input;
+      continue;
+    }
+
+    const entry = storeEntryOf(input.text);
+    if (entry?.op === 'put' && typeof entry.id === 'string') {
+      latest.set(entry.id, { line: input.line, text: JSON.stringify(entry.record) });
+    } else if ((entry?.op === 'delete' || entry?.op === 'shred') && typeof entry.id === 'string') {
+      latest.delete(entry.id);
+    } else {
+      // Not a store entry we know: reported by the handler like any bad line
+      latest.set(`line ${input.line}`, input);
+    }
+  }
+  yield* latest.values();
+}
+
+/**
+ * Runs `handle` once on the whole input, or once per line with --jsonl,
+ * writing each result as JSON. Returns the exit code. With `records`, the
+ * lines may also be a JSON-lines store file, read as the records it holds.
+ */
+async function processInput(
+  io: CliIO,
+  file: string | undefined,
+  jsonl: boolean,
+  handle: (text: string) => unknown,
+  options: { records?: boolean; format?: (result: any) => string } = {}
+): Promise<number> {
+  const input = file === undefined ? io.stdin : io.openFile(file);
+  const { records = false, format = (result: any) => JSON.stringify(result, null, 2) + '\n' } = options;
+
+  if (!jsonl) {
+    const result = await handle((await readAll(input)).toString('utf8'));
+    await write(io.stdout, format(result));
+    return 0;
+  }
+
+  let failed = 0;
+  for await (const { line, text } of records ? recordLines(readLines(input)) : readLines(input)) {
+    try {
+      await write(io.stdout, JSON.stringify(await handle(text)) + '\n');
+    } catch (err: any) {
+      failed++;
+      await write(io.stderr, `line ${line}: ${err.message}\n`);
+    }
+  }
+  return failed === 0 ? 0 : 1;
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+async function encryptCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parse(args, {
+    ...KEY_OPTION,
+    ...PARTY_KEYS_OPTION,
+    party: { type: 'string' },
+    alg: { type: 'string' },
+    'key-version': { type: 'string' },
+    fields: { type: 'string' },
+    text: { type: 'boolean' }
+  });
+  if (!values.party || values.party.trim().length === 0) {
+    throw new UsageError('--party is required');
+  }
+  if (values.alg !== undefined && !isSupportedAlgorithm(values.alg)) {
+    throw new UsageError(`--alg must be one of ${SUPPORTED_ALGORITHMS.join(', ')}`);
+  }
+  const file = inputFile(positionals);
+  const version = parseVersion(values['key-version'], '--key-version') ?? 1;
+  const keyring = createKeyring({ [version]: await readMasterKey(values.key, io) }, version);
+  const partyId = values.party;
+  const alg = values.alg as AlgorithmId | undefined;
+  const fields = parseFieldList(values.fields);
+  const partyKey = await (await readPartyKeys(values['party-keys'], io))?.active(partyId);
+
+  return processInput(io, file, values.jsonl ?? false, (text) => {
+    let payload: unknown = text;
+    if (!values.text) {
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        throw new Error('Payload is not valid JSON (use --text for plain text)');
+      }
+    }
+    return encryptEnvelope(partyId, payload, keyring, { alg, fields, partyKey });
+  });
+}
+
+async function decryptCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parse(args, {
+    ...KEY_OPTION,
+    ...PARTY_KEYS_OPTION,
+    fields: { type: 'string' },
+    text: { type: 'boolean' }
+  });
+  const file = inputFile(positionals);
+  const fields = parseFieldList(values.fields);
+  const masterKey = await readMasterKey(values.key, io);
+  const partyKeys = await readPartyKeys(values['party-keys'], io);
+
+  const decrypt = async (text: string) => {
+    const record = readRecord(text, true);
+    // A single key stands for whichever version the record was wrapped with
+    const keyring = createKeyring({ [record.mk_version]: masterKey }, record.mk_version);
+    const dek = unwrapDEK(record, keyring, await partyKeyFor(record, partyKeys));
+    return { record, payload: revealPayload(record, dek, fields) };
+  };
+
+  if (values.jsonl) {
+    return processInput(io, file, true, async (text) => {
+      const { record, payload } = await decrypt(text);
+      return { id: record.id, partyId: record.partyId, payload };
+    }, { records: true });
+  }
+  return processInput(io, file, false, async (text) => (await decrypt(text)).payload, {
+    format: (payload) => values.text && typeof payload === 'string' ? payload : JSON.stringify(payload, null, 2) + '\n'
+  });
+}
+
+async function inspectCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parse(args, {});
+  const file = inputFile(positionals);
+
+  return processInput(io, file, values.jsonl ?? false, (text) => {
+    const record = readRecord(text, false);
+    return {
+      id: record.id,
+      partyId: record.partyId,
+      createdAt: record.createdAt,
+      expiresAt: record.expiresAt,
+      alg: record.alg,
+      mk_version: record.mk_version,
+      kek_version: record.kek_version,
+      format_version: formatVersionOf(record),
+      key_provider: record.key_provider ?? 'local',
+      key_id: record.key_id,
+      payload_bytes: record.payload_ct.length / 2,
+      stream: record.stream,
+      fields: record.fields ? Object.keys(record.fields) : undefined,
+      clear: record.clear,
+      searchable: record.blind_index ? Object.keys(record.blind_index.tokens) : undefined
+    };
+  }, { records: true });
+}
+
+async function rewrapCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parse(args, {
+    ...PARTY_KEYS_OPTION,
+    from: { type: 'string', default: DEFAULT_KEY_SOURCE },
+    to: { type: 'string' },
+    'to-version': { type: 'string' }
+  });
+  if (!values.to) {
+    throw new UsageError('--to is required');
+  }
+  const file = inputFile(positionals);
+  const toVersion = parseVersion(values['to-version'], '--to-version');
+  const fromKey = await readMasterKey(values.from, io, 'current master key');
+  const toKey = await readMasterKey(values.to, io, 'new master key');
+  const partyKeys = await readPartyKeys(values['party-keys'], io);
+
+  return processInput(io, file, values.jsonl ?? false, async (text) => {
+    const record = readRecord(text, true);
+    // Without --to-version the new key is taken to be the next version
+    const version = toVersion ?? record.mk_version + 1;
+    if (version === record.mk_version && fromKey.equals(toKey)) {
+      throw new Error(`Record ${record.id} is already wrapped by this key`);
+    }
+    // Fails early, naming what is missing, when the party key is not available
+    await partyKeyFor(record, partyKeys);
+    const from = createLocalKeyProvider(createKeyring({ [record.mk_version]: fromKey }, record.mk_version), 'local', partyKeys);
+    const to = createLocalKeyProvider(createKeyring({ [version]: toKey }, version), 'local', partyKeys);
+    return rewrapDEKWithProvider(record, from, to);
+  }, { records: true });
+}
+
+async function keygenCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parse(args, {
+    out: { type: 'string' }
+  });
+  if (positionals.length > 0) {
+    throw new UsageError('keygen takes no input file');
+  }
+  const hex = generateMasterKeyHex();
+  if (values.out) {
+    // Owner-only, and never overwrites an existing key
+    await io.writeNewFile(values.out, hex + '\n', 0o600);
+    await write(io.stderr, `Wrote new master key to ${values.out}\n`);
+  } else {
+    await write(io.stdout, hex + '\n');
+  }
+  return 0;
+}
+
+async function splitCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parse(args, {
+    keys: { type: 'string', default: 'env:MASTER_KEYS' },
+    shares: { type: 'string' },
+    threshold: { type: 'string' }
+  });
+  if (positionals.length > 0) {
+    throw new UsageError('split takes no input file');
+  }
+  if (values.shares === undefined || values.threshold === undefined) {
+    throw new UsageError('--shares and --threshold are required');
+  }
+  const shareCount = Number(values.shares);
+  const threshold = Number(values.threshold);
+  const keys = await readMasterKeys(values.keys, io);
+  // Written back exactly as the API parses it once unsealed
+  const secret = Buffer.from([...keys].map(([version, key]) => `${version}:${key.toString('hex')}`).join(','), 'utf8');
+  try {
+    const shares = splitSecret(secret, shareCount, threshold);
+    await write(io.stdout, JSON.stringify({ threshold, check: secretCheckValue(secret), shares }, null, 2) + '\n');
+    await write(io.stderr, `Set UNSEAL_THRESHOLD=${threshold} and UNSEAL_CHECK on the API, hand out one share per person, and unset MASTER_KEYS\n`);
+  } finally {
+    secret.fill(0);
+  }
+  return 0;
+}
+
+async function unsealCommand(args: string[], io: CliIO): Promise<number> {
+  const { values, positionals } = parse(args, {
+    url: { type: 'string' },
+    share: { type: 'string', default: 'prompt' },
+    credential: { type: 'string', default: 'env:MIRFA_ADMIN_KEY' }
+  });
+  if (positionals.length > 0) {
+    throw new UsageError('unseal takes no input file');
+  }
+  if (!values.url) {
+    throw new UsageError('--url is required');
+  }
+  const { text: share } = await readSecret(values.share, io, 'unseal share');
+  const { text: credential } = await readSecret(values.credential, io, 'admin credential');
+
+  const response = await io.fetch(new URL('/admin/unseal', values.url), {
+    method: 'POST',
+    headers: { authorization: `Bearer ${credential}`, 'content-type': 'application/json' },
+    body: JSON.stringify({ share })
+  });
+  const body = await response.json().catch(() => ({})) as { error?: string; sealed?: boolean; threshold?: number; progress?: number };
+  if (!response.ok) {
+    throw new Error(body.error ?? `API answered ${response.status}`);
+  }
+  await write(io.stdout, body.sealed
+    ? `Share accepted: ${body.progress} of ${body.threshold} submitted, still sealed\n`
+    : 'Vault unsealed\n');
+  return 0;
+}
+
+const COMMANDS: Record<string, (args: string[], io: CliIO) => Promise<number>> = {
+  encrypt: encryptCommand,
+  decrypt: decryptCommand,
+  inspect: inspectCommand,
+  rewrap: rewrapCommand,
+  keygen: keygenCommand,
+  split: splitCommand,
+  unseal: unsealCommand
+};
+
+/**
+ * Runs the CLI and resolves to its exit code:
+ * 0 on success, 1 if the operation failed, 2 on a usage error.
+ */
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  const [name, ...args] = argv;
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    await write(name ? io.stdout : io.stderr, USAGE);
+    return name ? 0 : 2;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    await write(io.stderr, `Unknown command "${name}"\n\n${USAGE}`);
+    return 2;
+  }
+  if (args.includes('--help') || args.includes('-h')) {
+    await write(io.stdout, USAGE);
+    return 0;
+  }
+
+  try {
+    return await command(args, io);
+  } catch (err: any) {
+    if (err instanceof UsageError) {
+      await write(io.stderr, `${err.message}\n\n${USAGE}`);
+      return 2;
+    }
+    await write(io.stderr, `mirfa ${name}: ${err.message}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,54 @@
+import { Readable, Writable } from 'node:stream';
+import readline from 'node:readline';
+
+/**
+ * Everything a command touches outside its arguments, so commands can be
+ * run against in-memory streams in tests.
+ */
+export interface CliIO {
+  stdin: Readable;
+  stdout: Writable;
+  stderr: Writable;
+  env: Record<string, string | undefined>;
+  /** Asks for a secret without echoing it. */
+  prompt(question: string): Promise<string>;
+  openFile(path: string): Readable;
+  /** Creates a file, failing if it already exists. */
+  writeNewFile(path: string, content: string, mode: number): Promise<void>;
+  /** For the few commands that talk to the API (unseal). */
+  fetch: typeof fetch;
+}
+
+/**
+ * Reads a whole stream into memory.
+ */
+export async function readAll(input: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of input) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Yields the non-blank lines of a JSON-lines stream with their 1-based line numbers.
+ * Lines are read one at a time, so exports larger than memory are fine.
+ */
+export async function* readLines(input: Readable): AsyncGenerator<{ line: number; text: string }> {
+  let line = 0;
+  for await (const text of readline.createInterface({ input, crlfDelay: Infinity })) {
+    line++;
+    if (text.trim().length > 0) {
+      yield { line, text };
+    }
+  }
+}
+
+/**
+ * Writes to a stream, waiting for it to drain when its buffer is full.
+ */
+export async function write(output: Writable, text: string): Promise<void> {
+  if (!output.write(text)) {
+    await new Promise((resolve) => output.once('drain', resolve));
+  }
+}
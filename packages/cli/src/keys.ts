@@ -0,0 +1,85 @@
+import crypto from 'node:crypto';
+import { CliIO, readAll } from './io.js';
+
+// ============================================================================
+// MASTER KEY SOURCES
+// ============================================================================
+// Keys are never passed on the command line (they would end up in shell
+// history and `ps`). A key source is one of:
+//
+//   env:NAME     hex key in environment variable NAME (default env:MASTER_KEY)
+//   file:PATH    hex key in a file (surrounding whitespace is ignored)
+//   prompt       typed in at the terminal, without echo
+//
+// Unseal shares and API credentials are read from the same kinds of source.
+
+export const DEFAULT_KEY_SOURCE = 'env:MASTER_KEY';
+
+/**
+ * Validates a hex master key, naming where it came from on failure.
+ */
+function parseKeyHex(hex: string, origin: string): Buffer {
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error(`${origin} must be a 64-character hex string (32 bytes)`);
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/**
+ * Resolves a source (see above) to its text, trimmed, along with where it
+ * came from for error messages. Also used for unseal shares and credentials.
+ */
+export async function readSecret(source: string, io: CliIO, label: string, hint = ''): Promise<{ text: string; origin: string }> {
+  if (source.startsWith('env:')) {
+    const name = source.slice('env:'.length);
+    const value = io.env[name];
+    if (!value) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return { text: value.trim(), origin: name };
+  }
+
+  if (source.startsWith('file:')) {
+    const path = source.slice('file:'.length);
+    return { text: (await readAll(io.openFile(path))).toString('utf8').trim(), origin: `File ${path}` };
+  }
+
+  if (source === 'prompt') {
+    return { text: (await io.prompt(`Enter ${label}${hint}: `)).trim(), origin: `The entered ${label}` };
+  }
+
+  throw new Error(`Invalid key source "${source}" for the ${label}: expected env:NAME, file:PATH or prompt`);
+}
+
+/**
+ * Resolves a key source (see above) to a 32-byte master key.
+ */
+export async function readMasterKey(source: string, io: CliIO, label = 'master key'): Promise<Buffer> {
+  const { text, origin } = await readSecret(source, io, label, ' (hex)');
+  return parseKeyHex(text, origin);
+}
+
+/**
+ * Resolves a key source to a keyring in the MASTER_KEYS format
+ * ("<version>:<hex>,..."); a bare hex key is version 1, as MASTER_KEY is.
+ */
+export async function readMasterKeys(source: string, io: CliIO): Promise<Map<number, Buffer>> {
+  const { text, origin } = await readSecret(source, io, 'master keys');
+  const keys = new Map<number, Buffer>();
+  for (const entry of text.includes(':') ? text.split(',') : [`1:${text}`]) {
+    const [versionStr, hex = ''] = entry.trim().split(':');
+    const version = Number(versionStr);
+    if (!Number.isInteger(version) || version < 1 || keys.has(version)) {
+      throw new Error(`${origin} entries must look like "<version>:<64 hex chars>", one per version`);
+    }
+    keys.set(version, parseKeyHex(hex, `${origin} version ${version}`));
+  }
+  return keys;
+}
+
+/**
+ * Generates a new random master key as hex.
+ */
+export function generateMasterKeyHex(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BadRequestError,
+  ConflictError,
+  GoneError,
+  MirfaClientOptions,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  createMirfaClient
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: API CLIENT
+// ============================================================================
+
+interface Call {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * A client whose fetch answers from `responses` in order (an Error is thrown
+ * as a network failure) and records every call.
+ */
+function clientWith(responses: Array<Response | Error | 'hang'>, options: Partial<MirfaClientOptions> = {}) {
+  const calls: Call[] = [];
+  const fetch = async (url: RequestInfo | URL, init: RequestInit = {}) => {
+    calls.push({ url: String(url), init });
+    const next = responses.shift();
+    if (next === undefined) throw new Error('unexpected request');
+    if (next === 'hang') {
+      return new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    }
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  const client = createMirfaClient({ baseUrl: 'http://api.test/', credential: 'key-a', retryDelayMs: 1, fetch, ...options });
+  return { client, calls };
+}
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+describe('API Client', () => {
+  it('should send the credential and JSON, and return typed results', async () => {
+    const { client, calls } = clientWith([json(200, { payload: { amount: 1 } }), json(200, { items: [], nextCursor: null })]);
+
+    expect(await client.decrypt('tx/1', { fields: ['amount', 'note'] })).toEqual({ amount: 1 });
+    expect(await client.list({ partyId: 'party_a', limit: 10 })).toEqual({ items: [], nextCursor: null });
+
+    expect(calls[0].url).toBe('http://api.test/tx/tx%2F1/decrypt?fields=amount%2Cnote');
+    expect(calls[0].init).toMatchObject({ method: 'POST', headers: { Authorization: 'Bearer key-a' } });
+    expect(calls[1].url).toBe('http://api.test/tx?partyId=party_a&limit=10');
+  });
+
+  it.each([
+    [400, BadRequestError],
+    [409, ConflictError],
+    [410, GoneError],
+    [500, ServerError]
+  ])('should throw the { error } of a %i response as its own class', async (status, ErrorClass) => {
+    const { client } = clientWith([json(status, { error: 'Something specific' })]);
+
+    const error = await client.get('tx_1').catch((err) => err);
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error).toMatchObject({ status, message: 'Something specific' });
+  });
+
+  it('should report Retry-After on 429 and never retry it', async () => {
+    const { client, calls } = clientWith([json(429, { error: 'Too many decryption requests, try again later' }, { 'Retry-After': '30' })]);
+
+    const error = await client.decrypt('tx_1').catch((err) => err);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(30);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should retry encrypt with the same Idempotency-Key', async () => {
+    const record = { id: 'tx_1' };
+    const { client, calls } = clientWith([new Error('socket hang up'), json(503, {}), json(200, record)]);
+
+    expect(await client.encrypt({ partyId: 'party_a', payload: {} })).toEqual(record);
+
+    const keys = calls.map((call) => (call.init.headers as Record<string, string>)['Idempotency-Key']);
+    expect(keys).toHaveLength(3);
+    expect(new Set(keys).size).toBe(1);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const { client, calls } = clientWith([new Error('ECONNREFUSED'), new Error('ECONNREFUSED')], { retries: 1 });
+
+    await expect(client.get('tx_1')).rejects.toBeInstanceOf(NetworkError);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should not retry calls that are unsafe to repeat', async () => {
+    const { client, calls } = clientWith([json(503, { error: 'Service unavailable' }), json(503, { error: 'Service unavailable' })]);
+
+    await expect(client.delete('tx_1')).rejects.toBeInstanceOf(ServerError);
+    await expect(client.batchEncrypt([{ partyId: 'party_a', payload: {} }])).rejects.toBeInstanceOf(ServerError);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('should time out each attempt', async () => {
+    const { client } = clientWith(['hang'], { timeoutMs: 10, retries: 0 });
+
+    const error = await client.health().catch((err) => err);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(10);
+  });
+
+  it('should send only ciphertext and the DEK when encrypting locally, and decrypt locally', async () => {
+    const calls: Call[] = [];
+    let sent: Record<string, string> = {};
+    const answers = [
+      (init: RequestInit) => {
+        sent = JSON.parse(String(init.body));
+        return json(200, { ...sent, dek: undefined });
+      },
+      () => json(200, { ...sent, dek: undefined, format_version: 2 }),
+      () => json(200, { dek: sent.dek })
+    ];
+    const local = createMirfaClient({
+      baseUrl: 'http://api.test',
+      fetch: async (url, init = {}) => {
+        calls.push({ url: String(url), init });
+        return answers.shift()!(init);
+      }
+    });
+
+    await local.encryptLocally({ partyId: 'party_a', payload: { secret: 'never sent' } });
+    expect(calls[0].url).toBe('http://api.test/tx/wrap');
+    expect(String(calls[0].init.body)).not.toContain('never sent');
+    expect(Object.keys(sent).sort()).toEqual(['alg', 'dek', 'id', 'partyId', 'payload_ct', 'payload_nonce', 'payload_tag']);
+
+    expect(await local.decryptLocally(sent.id)).toEqual({ secret: 'never sent' });
+    expect(calls.map((call) => call.url)).toEqual([
+      'http://api.test/tx/wrap',
+      `http://api.test/tx/${sent.id}`,
+      `http://api.test/tx/${sent.id}/unwrap`
+    ]);
+  });
+
+  it('should name the status when an error response has no { error }', async () => {
+    const { client } = clientWith([new Response('Bad gateway', { status: 502 })], { retries: 0 });
+
+    await expect(client.verifyAudit()).rejects.toThrow('Request failed with status 502');
+  });
+});
@@ -0,0 +1,364 @@
+import { BROWSER_ALGORITHM, openPayloadInBrowser, sealPayloadInBrowser } from '@mirfa/crypto/browser';
+import { MirfaError, NetworkError, TimeoutError, errorFromResponse } from './errors.js';
+import {
+  AuditEntry,
+  AuditQuery,
+  AuditVerification,
+  BatchDecryptReport,
+  BatchEncryptReport,
+  BundleImportReport,
+  EncryptRequest,
+  ListQuery,
+  LocalEncryptRequest,
+  PartyShredReport,
+  RekeyReport,
+  RewrapReport,
+  SealStatus,
+  SearchRequest,
+  SweepReport,
+  TxBundle,
+  TxMetadata,
+  TxPage,
+  TxSecureRecord,
+  TxTombstone,
+  UpgradeReport
+} from './types.js';
+
+// ============================================================================
+// MIRFA API CLIENT
+// ============================================================================
+// Typed wrapper around the HTTP API for browsers and Node 18+ (global fetch).
+//
+// Every attempt has a timeout. Calls that are safe to repeat are retried on
+// network errors, timeouts and 502/503/504 with exponential backoff: reads,
+// decrypt (single and batch), search, and encrypt, which always sends an
+// Idempotency-Key (the same one on every attempt) so a retry can never store
+// a second record. Batch encrypt has no such key and is never retried.
+// 429 is never retried: the limit would only be hit again.
+//
+// encryptLocally / decryptLocally encrypt and decrypt with WebCrypto in this
+// process (see @mirfa/crypto/browser); the API only wraps and unwraps DEKs.
+
+export interface MirfaClientOptions {
+  /** API origin, e.g. "http://localhost:3001". A trailing slash is ignored. */
+  baseUrl: string;
+  /** API key or JWT sent as a Bearer token; a function is read on every call. */
+  credential?: string | (() => string | undefined);
+  /** Per attempt, in ms. Defaults to 30 000. */
+  timeoutMs?: number;
+  /** Extra attempts for retryable failures. Defaults to 2. */
+  retries?: number;
+  /** Delay before the first retry, doubled for each next one. Defaults to 250 ms. */
+  retryDelayMs?: number;
+  /** Defaults to the global fetch. */
+  fetch?: typeof fetch;
+}
+
+export interface EncryptOptions {
+  /** Reuse to make a resubmission return the stored record. Defaults to a new UUID. */
+  idempotencyKey?: string;
+}
+
+export interface BundleImportOptions {
+  /** Only report what would be imported. */
+  dryRun?: boolean;
+  /** "rewrap" re-wraps DEKs under the destination's active key. Defaults to "keep". */
+  wrapping?: 'keep' | 'rewrap';
+}
+
+export type UploadBody = Blob | BufferSource | ReadableStream<Uint8Array>;
+
+interface RequestSpec {
+  method: 'GET' | 'POST' | 'DELETE';
+  path: string;
+  query?: Record<string, string | number | boolean | undefined>;
+  json?: unknown;
+  body?: UploadBody;
+  headers?: Record<string, string>;
+  /** Safe to send again if no answer arrived. */
+  retryable: boolean;
+}
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Creates a client. Every method rejects with a MirfaError subclass.
+ */
+export function createMirfaClient(options: MirfaClientOptions) {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const retries = options.retries ?? 2;
+  const retryDelayMs = options.retryDelayMs ?? 250;
+  const fetchImpl = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+
+  function urlOf(spec: RequestSpec): string {
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(spec.query ?? {})) {
+      if (value !== undefined) params.set(name, String(value));
+    }
+    const query = params.toString();
+    return `${baseUrl}${spec.path}${query ? `?${query}` : ''}`;
+  }
+
+  function headersOf(spec: RequestSpec): Record<string, string> {
+    const credential = typeof options.credential === 'function' ? options.credential() : options.credential;
+    return {
+      ...(credential ? { Authorization: `Bearer ${credential}` } : {}),
+      ...(spec.json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(spec.body !== undefined ? { 'Content-Type': 'application/octet-stream' } : {}),
+      ...spec.headers
+    };
+  }
+
+  /**
+   * One attempt: resolves with the response (error statuses included) and
+   * the result of `read`, which runs within the same timeout.
+   */
+  async function attempt<T>(spec: RequestSpec, read: (response: Response) => Promise<T>): Promise<{ response: Response; result?: T }> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const init: RequestInit & { duplex?: 'half' } = {
+        method: spec.method,
+        headers: headersOf(spec),
+        body: spec.json !== undefined ? JSON.stringify(spec.json) : spec.body,
+        signal: controller.signal
+      };
+      // Node's fetch only sends a stream body when told it is half-duplex
+      if (spec.body instanceof ReadableStream) init.duplex = 'half';
+
+      const response = await fetchImpl(urlOf(spec), init);
+      return response.ok ? { response, result: await read(response) } : { response };
+    } catch (err) {
+      if (err instanceof MirfaError) throw err;
+      if (controller.signal.aborted) throw new TimeoutError(timeoutMs);
+      throw new NetworkError(`Unable to reach the API: ${(err as Error).message}`, { cause: err });
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Sends a request, retrying if allowed, and returns what `read` made of a
+   * successful response. Error responses are thrown as ApiError subclasses.
+   */
+  async function send<T>(spec: RequestSpec, read: (response: Response) => Promise<T>): Promise<T> {
+    for (let attemptNo = 0; ; attemptNo++) {
+      const canRetry = spec.retryable && attemptNo < retries;
+      let outcome: { response: Response; result?: T };
+      try {
+        outcome = await attempt(spec, read);
+      } catch (err) {
+        if (canRetry && (err instanceof NetworkError || err instanceof TimeoutError)) {
+          await sleep(retryDelayMs * 2 ** attemptNo);
+          continue;
+        }
+        throw err;
+      }
+
+      const { response, result } = outcome;
+      if (response.ok) return result as T;
+      if (canRetry && RETRYABLE_STATUSES.has(response.status)) {
+        await sleep(retryDelayMs * 2 ** attemptNo);
+        continue;
+      }
+
+      const body = await response.json().catch(() => undefined);
+      throw errorFromResponse(response.status, body, response.headers.get('Retry-After'));
+    }
+  }
+
+  const json = <T>(spec: RequestSpec) => send(spec, async (response) => {
+    try {
+      return await response.json() as T;
+    } catch (err) {
+      throw new MirfaError('The API returned an invalid JSON response', { cause: err });
+    }
+  });
+
+  const id = (txId: string) => encodeURIComponent(txId);
+
+  const unwrap = async (txId: string) => {
+    const { dek } = await json<{ dek: string }>({ method: 'POST', path: `/tx/${id(txId)}/unwrap`, retryable: true });
+    return dek;
+  };
+
+  return {
+    /** GET / */
+    health: () => json<{ status: string }>({ method: 'GET', path: '/', retryable: true }),
+
+    /** Whether the vault is sealed; needs no credential. */
+    sealStatus: () => json<SealStatus>({ method: 'GET', path: '/seal', retryable: true }),
+
+    // ========================================
+    // TRANSACTIONS
+    // ========================================
+
+    /** Encrypts and stores a payload. Retries reuse the Idempotency-Key. */
+    encrypt: (request: EncryptRequest, encryptOptions: EncryptOptions = {}) => json<TxSecureRecord>({
+      method: 'POST',
+      path: '/tx/encrypt',
+      json: request,
+      headers: { 'Idempotency-Key': encryptOptions.idempotencyKey ?? globalThis.crypto.randomUUID() },
+      retryable: true
+    }),
+
+    /** The encrypted record. */
+    get: (txId: string) => json<TxSecureRecord>({ method: 'GET', path: `/tx/${id(txId)}`, retryable: true }),
+
+    /**
+     * The decrypted payload; with `fields`, only those fields of a field-level
+     * record (an object holding just them).
+     */
+    decrypt: async (txId: string, decryptOptions: { fields?: string[] } = {}) => {
+      const { payload } = await json<{ payload: unknown }>({
+        method: 'POST',
+        path: `/tx/${id(txId)}/decrypt`,
+        query: { fields: decryptOptions.fields?.join(',') },
+        retryable: true
+      });
+      return payload;
+    },
+
+    /** Crypto-shreds a record. Not retried: a repeat would answer 410. */
+    delete: (txId: string) => json<TxTombstone>({ method: 'DELETE', path: `/tx/${id(txId)}`, retryable: false }),
+
+    /** One page of a party's records, newest first. */
+    list: (query: ListQuery) => json<TxPage>({ method: 'GET', path: '/tx', query: { ...query }, retryable: true }),
+
+    /** One page of records whose searchable `field` equals `value`. */
+    search: (request: SearchRequest) => json<TxPage>({ method: 'POST', path: '/tx/search', json: request, retryable: true }),
+
+    /**
+     * Encrypts up to BATCH_MAX_ITEMS payloads; each item succeeds or fails on
+     * its own. Not retried: items carry no Idempotency-Key.
+     */
+    batchEncrypt: (items: EncryptRequest[]) => json<BatchEncryptReport>({
+      method: 'POST',
+      path: '/tx/batch/encrypt',
+      json: { items },
+      retryable: false
+    }),
+
+    /** Decrypts up to BATCH_MAX_ITEMS records; each ID succeeds or fails on its own. */
+    batchDecrypt: (ids: string[], decryptOptions: { fields?: string[] } = {}) => json<BatchDecryptReport>({
+      method: 'POST',
+      path: '/tx/batch/decrypt',
+      json: { ids, fields: decryptOptions.fields },
+      retryable: true
+    }),
+
+    // ========================================
+    // CLIENT-SIDE ENCRYPTION
+    // ========================================
+
+    /**
+     * Encrypts the payload here and sends only ciphertext and DEK to be
+     * wrapped. Retries are replays of the same record.
+     */
+    encryptLocally: async (request: LocalEncryptRequest) => {
+      const { sealed, dek } = await sealPayloadInBrowser(request.partyId, request.payload);
+      return json<TxSecureRecord>({
+        method: 'POST',
+        path: '/tx/wrap',
+        json: { ...sealed, dek, expiresAt: request.expiresAt },
+        retryable: true
+      });
+    },
+
+    /** A record's DEK (hex), released for decryption here. */
+    unwrap,
+
+    /**
+     * Fetches the record and its DEK and decrypts here. Only whole-payload
+     * AES-256-GCM records can be; the DEK is not requested for others.
+     */
+    decryptLocally: async (txId: string): Promise<unknown> => {
+      const record = await json<TxSecureRecord>({ method: 'GET', path: `/tx/${id(txId)}`, retryable: true });
+      if (record.alg !== BROWSER_ALGORITHM || record.fields || record.stream) {
+        throw new MirfaError('This record can only be decrypted by the server');
+      }
+      const dek = await unwrap(txId);
+      try {
+        return await openPayloadInBrowser(record, dek);
+      } catch (err) {
+        throw new MirfaError((err as Error).message, { cause: err });
+      }
+    },
+
+    /** Stores an already-encrypted record. Not retried: a repeat would answer 409. */
+    importRecord: (record: TxSecureRecord) => json<TxMetadata>({ method: 'POST', path: '/tx/import', json: record, retryable: false }),
+
+    // ========================================
+    // STREAMS
+    // ========================================
+
+    /** Encrypts raw content as a streamed record. Not retried: the body may be consumed. */
+    uploadStream: (partyId: string, body: UploadBody, uploadOptions: { filename?: string } = {}) => json<TxSecureRecord>({
+      method: 'POST',
+      path: '/tx/stream',
+      query: { partyId, filename: uploadOptions.filename },
+      body,
+      retryable: false
+    }),
+
+    /**
+     * The decrypted content as a stream. The timeout covers the response
+     * headers only; a stream that errors part-way must be discarded.
+     */
+    downloadStream: (txId: string) => send(
+      { method: 'GET', path: `/tx/${id(txId)}/stream`, retryable: true },
+      async (response) => response.body ?? new ReadableStream<Uint8Array>({ start: (controller) => controller.close() })
+    ),
+
+    // ========================================
+    // ADMIN (admin credential required)
+    // ========================================
+
+    rewrap: () => json<RewrapReport>({ method: 'POST', path: '/admin/keys/rewrap', retryable: false }),
+
+    upgrade: () => json<UpgradeReport>({ method: 'POST', path: '/admin/records/upgrade', retryable: false }),
+
+    sweepRetention: () => json<SweepReport>({ method: 'POST', path: '/admin/retention/sweep', retryable: false }),
+
+    /** Moves a party to a new key-encryption key. Needs party keys on the server. */
+    rekeyParty: (partyId: string) => json<RekeyReport>({ method: 'POST', path: `/admin/parties/${id(partyId)}/rekey`, retryable: false }),
+
+    /** Crypto-shreds every record of a party, and its key-encryption keys. */
+    shredParty: (partyId: string) => json<PartyShredReport>({ method: 'DELETE', path: `/admin/parties/${id(partyId)}`, retryable: false }),
+
+    /** Submits one unseal share. Not retried: a repeat would be refused as already submitted. */
+    unseal: (share: string) => json<SealStatus>({ method: 'POST', path: '/admin/unseal', json: { share }, retryable: false }),
+
+    /** Seals the vault; routes that need keys answer 503 until it is unsealed. */
+    seal: () => json<SealStatus>({ method: 'POST', path: '/admin/seal', retryable: false }),
+
+    audit: async (query: AuditQuery = {}) => {
+      const { entries } = await json<{ entries: AuditEntry[] }>({ method: 'GET', path: '/admin/audit', query: { ...query }, retryable: true });
+      return entries;
+    },
+
+    verifyAudit: () => json<AuditVerification>({ method: 'GET', path: '/admin/audit/verify', retryable: true }),
+
+    exportBundle: (exportOptions: { partyId?: string } = {}) => json<TxBundle>({
+      method: 'GET',
+      path: '/admin/export',
+      query: exportOptions,
+      retryable: true
+    }),
+
+    importBundle: (bundle: TxBundle, importOptions: BundleImportOptions = {}) => json<BundleImportReport>({
+      method: 'POST',
+      path: '/admin/import',
+      query: { dryRun: importOptions.dryRun, wrapping: importOptions.wrapping },
+      json: bundle,
+      retryable: false
+    })
+  };
+}
+
+export type MirfaClient = ReturnType<typeof createMirfaClient>;
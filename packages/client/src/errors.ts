@@ -0,0 +1,134 @@
+// ============================================================================
+// CLIENT ERRORS
+// ============================================================================
+// Every failed call throws a MirfaError. Answers from the API become an
+// ApiError subclass chosen by status, carrying the server's { error }
+// message; failures to get an answer at all are NetworkError or TimeoutError.
+
+/**
+ * Base class of everything the client throws.
+ */
+export class MirfaError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'MirfaError';
+  }
+}
+
+/**
+ * The API answered with an error status. `message` is its { error } text.
+ */
+export class ApiError extends MirfaError {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** 400: the request was invalid, or the operation failed (e.g. decryption). */
+export class BadRequestError extends ApiError {
+  constructor(message: string) {
+    super(400, message);
+    this.name = 'BadRequestError';
+  }
+}
+
+/** 401: the credential is missing or invalid. */
+export class AuthenticationError extends ApiError {
+  constructor(message: string) {
+    super(401, message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/** 403: the party is outside the credential's scope, or the route is admin-only. */
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(403, message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+/** 404: no such transaction. */
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** 409: the ID is taken, or the Idempotency-Key was used for a different request. */
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(409, message);
+    this.name = 'ConflictError';
+  }
+}
+
+/** 410: the transaction has been shredded and cannot be recovered. */
+export class GoneError extends ApiError {
+  constructor(message: string) {
+    super(410, message);
+    this.name = 'GoneError';
+  }
+}
+
+/** 429: rate limited or locked. `retryAfter` is in seconds, from Retry-After. */
+export class RateLimitError extends ApiError {
+  constructor(message: string, readonly retryAfter?: number) {
+    super(429, message);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** 5xx: the server failed or is misconfigured. */
+export class ServerError extends ApiError {
+  constructor(status: number, message: string) {
+    super(status, message);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * The request never got an answer (connection refused, DNS, CORS...).
+ */
+export class NetworkError extends MirfaError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * No answer within the client's timeout.
+ */
+export class TimeoutError extends MirfaError {
+  constructor(readonly timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs} ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * The ApiError for an error response. Bodies without an { error } string
+ * (e.g. from a proxy) get a message naming the status.
+ */
+export function errorFromResponse(status: number, body: unknown, retryAfter?: string | null): ApiError {
+  const message = body && typeof body === 'object' && typeof (body as { error?: unknown }).error === 'string'
+    ? (body as { error: string }).error
+    : `Request failed with status ${status}`;
+
+  switch (status) {
+    case 400: return new BadRequestError(message);
+    case 401: return new AuthenticationError(message);
+    case 403: return new ForbiddenError(message);
+    case 404: return new NotFoundError(message);
+    case 409: return new ConflictError(message);
+    case 410: return new GoneError(message);
+    case 429: {
+      const seconds = Number(retryAfter);
+      return new RateLimitError(message, retryAfter && Number.isFinite(seconds) ? seconds : undefined);
+    }
+  }
+  return status >= 500 ? new ServerError(status, message) : new ApiError(status, message);
+}
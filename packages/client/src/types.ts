@@ -0,0 +1,182 @@
+import type { TxBundle, TxBundleManifest, TxSecureRecord } from '@mirfa/crypto';
+
+// ============================================================================
+// API TYPES
+// ============================================================================
+// Request and response bodies, as published in the API's OpenAPI document
+// (GET /docs). Record and bundle types come from @mirfa/crypto, type-only,
+// so no crypto code reaches a browser bundle.
+
+export type { TxBundle, TxBundleManifest, TxSecureRecord };
+
+export interface EncryptRequest {
+  partyId: string;
+  payload: unknown;
+  /** Top-level payload fields to encrypt one by one. */
+  fields?: string[];
+  /** Top-level scalar fields to store blind index tokens for. */
+  searchable?: string[];
+  /** ISO 8601 date in the future; the record is shredded then. */
+  expiresAt?: string;
+}
+
+/**
+ * What encryptLocally accepts: fields and searchable need the server to see
+ * the plaintext, so they are not available.
+ */
+export type LocalEncryptRequest = Pick<EncryptRequest, 'partyId' | 'payload' | 'expiresAt'>;
+
+/**
+ * Record metadata only: never ciphertext or wrapped keys.
+ */
+export type TxMetadata = Pick<TxSecureRecord, 'id' | 'partyId' | 'createdAt' | 'alg' | 'mk_version'> &
+  Partial<Pick<TxSecureRecord, 'format_version' | 'key_provider' | 'key_id' | 'expiresAt'>>;
+
+export interface TxPage {
+  items: TxMetadata[];
+  /** Pass back as `cursor` for the next page; null on the last page. */
+  nextCursor: string | null;
+}
+
+export interface ListQuery {
+  partyId: string;
+  /** Earliest createdAt (inclusive). */
+  from?: string;
+  /** Latest createdAt (inclusive). */
+  to?: string;
+  cursor?: string;
+  /** 1 to 100 (default 20). */
+  limit?: number;
+}
+
+/**
+ * One result of a batch, in request order. A failed item carries the status
+ * and error the single-item route would have answered.
+ */
+export type BatchItemResult<Status extends string, Success> =
+  | ({ index: number; status: Status } & Success)
+  | { index: number; status: 'failed'; statusCode: number; error: string };
+
+export interface BatchEncryptReport {
+  total: number;
+  encrypted: number;
+  failed: number;
+  results: Array<BatchItemResult<'encrypted', { record: TxSecureRecord }>>;
+}
+
+export interface BatchDecryptReport {
+  total: number;
+  decrypted: number;
+  failed: number;
+  results: Array<{ id: string } & BatchItemResult<'decrypted', { payload: unknown }>>;
+}
+
+export interface SearchRequest {
+  partyId: string;
+  field: string;
+  value: string | number | boolean | null;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * What remains of a shredded record.
+ */
+export interface TxTombstone {
+  id: string;
+  partyId: string;
+  createdAt: string;
+  shreddedAt: string;
+  reason: 'deleted' | 'expired';
+}
+
+interface BulkReport<Status extends string> {
+  total: number;
+  failed: number;
+  results: Array<{ id: string; status: Status; from?: string | number; to?: string | number; error?: string; reason?: string }>;
+}
+
+export interface RewrapReport extends BulkReport<'rewrapped' | 'skipped' | 'failed'> {
+  provider: string;
+  keyId: string;
+  rewrapped: number;
+  skipped: number;
+}
+
+export interface UpgradeReport extends BulkReport<'upgraded' | 'skipped' | 'failed'> {
+  formatVersion: number;
+  upgraded: number;
+  skipped: number;
+}
+
+export interface SweepReport extends BulkReport<'shredded' | 'failed'> {
+  shredded: number;
+}
+
+export interface RekeyReport extends BulkReport<'rewrapped' | 'skipped' | 'failed'> {
+  partyId: string;
+  /** The party's new key-encryption key version. */
+  kekVersion: number;
+  /** Versions deleted afterwards; none when a record failed. */
+  retired: number[];
+  rewrapped: number;
+  skipped: number;
+}
+
+export interface PartyShredReport extends BulkReport<'shredded' | 'failed'> {
+  partyId: string;
+  /** Key-encryption key versions deleted. */
+  keyVersions: number;
+  shredded: number;
+}
+
+export interface SealStatus {
+  sealed: boolean;
+  /** Sealed mode only: shares needed to unseal. */
+  threshold?: number;
+  /** Sealed mode only: shares submitted so far. */
+  progress?: number;
+}
+
+export interface BundleImportReport extends BulkReport<'imported' | 'skipped' | 'failed'> {
+  manifest: TxBundleManifest;
+  dryRun: boolean;
+  wrapping: 'keep' | 'rewrap';
+  imported: number;
+  skipped: number;
+}
+
+export type AuditAction =
+  'encrypt' | 'fetch' | 'decrypt' | 'unwrap' | 'import' | 'rewrap' | 'upgrade' | 'search' | 'delete' | 'expire' | 'export' | 'rekey' | 'seal' | 'unseal';
+export type AuditOutcome = 'success' | 'denied' | 'not_found' | 'failure';
+
+export interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  action: AuditAction;
+  outcome: AuditOutcome;
+  subject: string;
+  ip?: string;
+  txId?: string;
+  partyId?: string;
+  reason?: string;
+  fields?: string[];
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  txId?: string;
+  subject?: string;
+  action?: AuditAction;
+  outcome?: AuditOutcome;
+  afterSeq?: number;
+  limit?: number;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: number;
+  reason?: string;
+}
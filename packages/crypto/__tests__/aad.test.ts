@@ -0,0 +1,146 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  encryptEnvelope,
+  encryptPayload,
+  wrapDEK,
+  generateDEK,
+  decryptPayload,
+  unwrapDEK,
+  rewrapDEK,
+  createKeyring,
+  createLocalKeyProvider,
+  encryptEnvelopeWithProvider,
+  TxSecureRecord
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: METADATA BOUND AS AAD
+// ============================================================================
+
+/**
+ * Unwraps and decrypts in one step, the way the API does.
+ */
+function open(record: TxSecureRecord, masterKey: Buffer) {
+  return decryptPayload(record, unwrapDEK(record, masterKey));
+}
+
+describe('Additional Authenticated Data', () => {
+  let masterKey: Buffer;
+  let recordA: TxSecureRecord;
+  let recordB: TxSecureRecord;
+
+  beforeEach(() => {
+    masterKey = crypto.randomBytes(32);
+    recordA = encryptEnvelope('party_a', { amount: 100 }, masterKey);
+    recordB = encryptEnvelope('party_b', { amount: 999 }, masterKey);
+  });
+
+  it('should write format 2 records that roundtrip', () => {
+    expect(recordA.format_version).toBe(2);
+    expect(open(recordA, masterKey)).toEqual({ amount: 100 });
+  });
+
+  // ==========================================================================
+  // CROSS-RECORD SPLICING
+  // ==========================================================================
+  describe('Cross-record Splicing', () => {
+    it('should reject a record whose partyId was swapped', () => {
+      const spliced = { ...recordA, partyId: recordB.partyId };
+      expect(() => open(spliced, masterKey)).toThrow(/Failed to unwrap DEK/);
+    });
+
+    it('should reject a record whose id was swapped', () => {
+      const spliced = { ...recordA, id: recordB.id };
+      expect(() => open(spliced, masterKey)).toThrow(/Failed to unwrap DEK/);
+    });
+
+    it('should reject a wrapped DEK moved onto another record', () => {
+      const spliced = {
+        ...recordB,
+        dek_wrap_nonce: recordA.dek_wrap_nonce,
+        dek_wrapped: recordA.dek_wrapped,
+        dek_wrap_tag: recordA.dek_wrap_tag
+      };
+      expect(() => unwrapDEK(spliced, masterKey)).toThrow(/Failed to unwrap DEK/);
+    });
+
+    it('should reject a whole ciphertext moved under another record\'s metadata', () => {
+      // Attacker copies every crypto field of A into B, keeping B's id and partyId
+      const spliced = { ...recordA, id: recordB.id, partyId: recordB.partyId };
+      expect(() => open(spliced, masterKey)).toThrow();
+    });
+
+    it('should reject a relabelled mk_version', () => {
+      const keyring = createKeyring({ 1: masterKey, 2: masterKey }, 1);
+      const relabelled = { ...recordA, mk_version: 2 };
+      expect(() => unwrapDEK(relabelled, keyring)).toThrow(/Failed to unwrap DEK/);
+    });
+
+    it('should leave the payload untouched when rotation re-wraps its DEK', () => {
+      // mk_version is bound to the DEK wrap only, so a new version needs no re-encryption
+      const keyring = createKeyring({ 1: masterKey, 2: crypto.randomBytes(32) }, 2);
+      const rewrapped = rewrapDEK(recordA, keyring);
+
+      expect(rewrapped).toMatchObject({ mk_version: 2, payload_ct: recordA.payload_ct, payload_tag: recordA.payload_tag });
+      expect(decryptPayload(rewrapped, unwrapDEK(rewrapped, keyring))).toEqual(open(recordA, masterKey));
+    });
+
+    it('should reject a payload whose metadata changed even with the right DEK', () => {
+      const dek = unwrapDEK(recordA, masterKey);
+      const spliced = { ...recordA, partyId: 'party_b' };
+      expect(() => decryptPayload(spliced, dek)).toThrow(/Failed to decrypt payload/);
+    });
+
+    it('should reject a format flag downgraded to 1', () => {
+      const downgraded = { ...recordA, format_version: 1 };
+      expect(() => open(downgraded, masterKey)).toThrow();
+    });
+  });
+
+  // ==========================================================================
+  // LEGACY (FORMAT 1) RECORDS
+  // ==========================================================================
+  describe('Legacy Records', () => {
+    let legacy: TxSecureRecord;
+
+    beforeEach(() => {
+      // Written the way records were before AAD: no AAD, no format_version
+      const dek = generateDEK();
+      legacy = {
+        id: crypto.randomUUID(),
+        partyId: 'party_a',
+        createdAt: new Date().toISOString(),
+        ...encryptPayload({ amount: 5 }, dek),
+        ...wrapDEK(dek, masterKey),
+        alg: 'AES-256-GCM',
+        mk_version: 1
+      };
+    });
+
+    it('should still decrypt records written without AAD', () => {
+      expect(open(legacy, masterKey)).toEqual({ amount: 5 });
+    });
+
+    it('should keep legacy records readable after a re-wrap', () => {
+      const keyring = createKeyring({ 1: masterKey, 2: crypto.randomBytes(32) }, 2);
+      const rewrapped = rewrapDEK(legacy, keyring);
+
+      expect(rewrapped.format_version).toBeUndefined();
+      expect(decryptPayload(rewrapped, unwrapDEK(rewrapped, keyring))).toEqual({ amount: 5 });
+    });
+  });
+
+  // ==========================================================================
+  // KEY PROVIDERS
+  // ==========================================================================
+  describe('Key Providers', () => {
+    it('should bind AAD through the provider path too', async () => {
+      const provider = createLocalKeyProvider(masterKey);
+      const record = await encryptEnvelopeWithProvider('party_a', { amount: 1 }, provider);
+
+      expect(decryptPayload(record, await provider.unwrap(record))).toEqual({ amount: 1 });
+      await expect(provider.unwrap({ ...record, partyId: 'party_b' })).rejects.toThrow(/Failed to unwrap DEK/);
+    });
+  });
+});
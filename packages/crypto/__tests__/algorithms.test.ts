@@ -0,0 +1,144 @@
+import crypto from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SUPPORTED_ALGORITHMS,
+  AlgorithmId,
+  getAlgorithm,
+  encryptEnvelope,
+  encryptEnvelopeWithProvider,
+  encryptPayload,
+  decryptPayload,
+  unwrapDEK,
+  rewrapDEK,
+  generateDEK,
+  createKeyring,
+  createLocalKeyProvider,
+  createEncryptStream,
+  createDecryptStream,
+  TxSecureRecord
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: ALGORITHM REGISTRY
+// ============================================================================
+
+/**
+ * Flips one bit of a hex field.
+ */
+function flip(hex: string): string {
+  const bytes = Buffer.from(hex, 'hex');
+  bytes[0] ^= 0x01;
+  return bytes.toString('hex');
+}
+
+function open(record: TxSecureRecord, masterKey: Buffer) {
+  return decryptPayload(record, unwrapDEK(record, masterKey));
+}
+
+describe.each(SUPPORTED_ALGORITHMS)('%s', (alg) => {
+  let masterKey: Buffer;
+  let record: TxSecureRecord;
+
+  beforeEach(() => {
+    masterKey = crypto.randomBytes(32);
+    record = encryptEnvelope('party_a', { amount: 100, note: 'secret' }, masterKey, { alg });
+  });
+
+  it('should roundtrip and record the algorithm', () => {
+    expect(record.alg).toBe(alg);
+    expect(open(record, masterKey)).toEqual({ amount: 100, note: 'secret' });
+  });
+
+  it('should roundtrip through a key provider', async () => {
+    const provider = createLocalKeyProvider(masterKey);
+    const fromProvider = await encryptEnvelopeWithProvider('party_a', { amount: 1 }, provider, { alg });
+
+    expect(fromProvider.alg).toBe(alg);
+    expect(decryptPayload(fromProvider, await provider.unwrap(fromProvider))).toEqual({ amount: 1 });
+  });
+
+  it('should keep the algorithm across a re-wrap', () => {
+    const keyring = createKeyring({ 1: masterKey, 2: crypto.randomBytes(32) }, 2);
+    const rewrapped = rewrapDEK(record, keyring);
+
+    expect(rewrapped.alg).toBe(alg);
+    expect(decryptPayload(rewrapped, unwrapDEK(rewrapped, keyring))).toEqual({ amount: 100, note: 'secret' });
+  });
+
+  it('should roundtrip a chunked stream', async () => {
+    const dek = generateDEK();
+    const content = crypto.randomBytes(1000);
+    const collect = async (source: Readable) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of source) chunks.push(chunk as Buffer);
+      return Buffer.concat(chunks);
+    };
+
+    const sealed = await collect(Readable.from([content]).pipe(createEncryptStream(dek, { chunkSize: 100, alg })));
+    const output: Buffer[] = [];
+    await pipeline(Readable.from([sealed]), createDecryptStream(dek, { alg }), async function* (source) {
+      for await (const chunk of source) output.push(chunk as Buffer);
+    });
+    expect(Buffer.concat(output)).toEqual(content);
+  });
+
+  // ==========================================================================
+  // TAMPER DETECTION
+  // ==========================================================================
+  describe('Tamper Detection', () => {
+    it.each(['payload_ct', 'payload_tag', 'payload_nonce'] as const)('should reject a modified %s', (field) => {
+      const tampered = { ...record, [field]: flip(record[field]) };
+      expect(() => open(tampered, masterKey)).toThrow(/Failed to decrypt payload/);
+    });
+
+    it.each(['dek_wrapped', 'dek_wrap_tag', 'dek_wrap_nonce'] as const)('should reject a modified %s', (field) => {
+      const tampered = { ...record, [field]: flip(record[field]) };
+      expect(() => unwrapDEK(tampered, masterKey)).toThrow(/Failed to unwrap DEK/);
+    });
+  });
+
+  // ==========================================================================
+  // CROSS-ALGORITHM
+  // ==========================================================================
+  describe('Cross-algorithm', () => {
+    const others = SUPPORTED_ALGORITHMS.filter((other) => other !== alg);
+
+    it.each(others)('should reject the record relabelled as %s', (other: AlgorithmId) => {
+      const relabelled = { ...record, alg: other };
+      expect(() => open(relabelled, masterKey)).toThrow();
+    });
+
+    it.each(others)('should not open %s ciphertext even without AAD', (other: AlgorithmId) => {
+      // Rules out the AAD alone being what tells the algorithms apart
+      const dek = generateDEK();
+      const legacyStyle = encryptPayload({ amount: 1 }, dek, undefined, alg);
+      expect(() => decryptPayload({ ...legacyStyle, alg: other }, dek)).toThrow(/Failed to decrypt payload/);
+    });
+  });
+});
+
+describe('Algorithm Registry', () => {
+  it('should use AES-256-GCM by default', () => {
+    expect(encryptEnvelope('party_a', {}, crypto.randomBytes(32)).alg).toBe('AES-256-GCM');
+  });
+
+  it('should reject unknown algorithms on both sides', () => {
+    const masterKey = crypto.randomBytes(32);
+    const record = encryptEnvelope('party_a', {}, masterKey);
+
+    expect(() => getAlgorithm('DES')).toThrow(/Unsupported algorithm "DES"/);
+    expect(() => encryptEnvelope('party_a', {}, masterKey, { alg: 'ROT13' as AlgorithmId })).toThrow(/Unsupported algorithm/);
+    expect(() => unwrapDEK({ ...record, alg: 'ROT13' as AlgorithmId }, masterKey)).toThrow(/Unsupported algorithm/);
+  });
+
+  it('should reject a truncated tag', () => {
+    const algorithm = getAlgorithm('AES-256-GCM');
+    const key = crypto.randomBytes(32);
+    const nonce = crypto.randomBytes(12);
+    const { ciphertext, tag } = algorithm.seal(key, nonce, Buffer.from('data'));
+
+    expect(() => algorithm.open(key, nonce, ciphertext, tag.subarray(0, 4))).toThrow(/Invalid tag length/);
+  });
+});
@@ -0,0 +1,73 @@
+import crypto from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MAX_BATCH_SIZE,
+  KeyProvider,
+  createKeyring,
+  createLocalKeyProvider,
+  encryptEnvelopeBatch,
+  revealPayload
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: BATCH ENCRYPTION
+// ============================================================================
+
+const keyring = createKeyring({ 1: crypto.randomBytes(32), 2: crypto.randomBytes(32) }, 2);
+
+describe('Batch Encryption', () => {
+  it('should encrypt every item with its own DEK and the same key version', async () => {
+    const provider = createLocalKeyProvider(keyring);
+    const items = [
+      { partyId: 'party_a', payload: { amount: 1 } },
+      { partyId: 'party_b', payload: { amount: 2, note: 'x' }, fields: ['amount'] }
+    ];
+
+    const results = await encryptEnvelopeBatch(items, provider, { alg: 'CHACHA20-POLY1305' });
+
+    expect(results.map(({ record }) => record?.partyId)).toEqual(['party_a', 'party_b']);
+    for (const [i, { record }] of results.entries()) {
+      expect(record).toMatchObject({ alg: 'CHACHA20-POLY1305', mk_version: 2, key_id: 'mk-2', format_version: 2 });
+      expect(revealPayload(record!, await provider.unwrap(record!))).toEqual(items[i].payload);
+    }
+    expect(results[0].record!.dek_wrapped).not.toBe(results[1].record!.dek_wrapped);
+  });
+
+  it('should fail items on their own', async () => {
+    const results = await encryptEnvelopeBatch([
+      { partyId: 'party_a', payload: [1], fields: ['amount'] },
+      { partyId: 'party_a', payload: { amount: 1 } }
+    ], createLocalKeyProvider(keyring));
+
+    expect(results[0]).toEqual({ error: expect.stringMatching(/object/) });
+    expect(results[1].record).toBeDefined();
+  });
+
+  it('should wrap one by one with providers that cannot batch', async () => {
+    const local = createLocalKeyProvider(keyring);
+    let calls = 0;
+    const provider: KeyProvider = {
+      name: 'local',
+      keyId: () => local.keyId(),
+      unwrap: (record) => local.unwrap(record),
+      wrap: async (dek, context) => {
+        if (++calls === 2) throw new Error('KMS wrap request failed: timeout');
+        return local.wrap(dek, context);
+      }
+    };
+
+    const results = await encryptEnvelopeBatch([1, 2, 3].map((n) => ({ partyId: 'party_a', payload: n })), provider);
+
+    expect(calls).toBe(3);
+    expect(results.map(({ error }) => error)).toEqual([undefined, 'KMS wrap request failed: timeout', undefined]);
+  });
+
+  it('should refuse batches over the size limit', async () => {
+    const items = Array.from({ length: 3 }, () => ({ partyId: 'party_a', payload: {} }));
+    const provider = createLocalKeyProvider(keyring);
+
+    await expect(encryptEnvelopeBatch(items, provider, { maxItems: 2 })).rejects.toThrow('Batch too large: expected at most 2 items, got 3');
+    expect(await encryptEnvelopeBatch(items, provider)).toHaveLength(3);
+    expect(DEFAULT_MAX_BATCH_SIZE).toBe(100);
+  });
+});
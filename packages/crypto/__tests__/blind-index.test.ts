@@ -0,0 +1,94 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  blindIndexTokens,
+  computeBlindIndexToken,
+  createBlindIndex,
+  createKeyring,
+  encryptEnvelope,
+  parseRecord,
+  rewrapDEK,
+  RecordValidationError,
+  Keyring
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: BLIND INDEXES
+// ============================================================================
+
+const payload = { account: 'AE07 0331 2345 6789 0123 456', amount: 1250, settled: true, memo: null };
+
+describe('Blind Indexes', () => {
+  let masterKey: Buffer;
+  let keyring: Keyring;
+
+  beforeEach(() => {
+    masterKey = crypto.randomBytes(32);
+    keyring = createKeyring({ 1: masterKey }, 1);
+  });
+
+  it('should give equal values in one field and party the same token', () => {
+    const first = createBlindIndex('party_a', payload, ['account', 'amount'], keyring);
+    const second = createBlindIndex('party_a', { ...payload, amount: 9 }, ['account', 'amount'], keyring);
+
+    expect(first.mk_version).toBe(1);
+    expect(first.tokens.account).toMatch(/^[0-9a-f]{64}$/);
+    expect(second.tokens.account).toBe(first.tokens.account);
+    expect(second.tokens.amount).not.toBe(first.tokens.amount);
+  });
+
+  it('should separate parties, fields, value types and keys', () => {
+    const token = computeBlindIndexToken(masterKey, 'party_a', 'account', '1250');
+
+    expect(computeBlindIndexToken(masterKey, 'party_b', 'account', '1250')).not.toBe(token);
+    expect(computeBlindIndexToken(masterKey, 'party_a', 'amount', '1250')).not.toBe(token);
+    expect(computeBlindIndexToken(masterKey, 'party_a', 'account', 1250)).not.toBe(token);
+    expect(computeBlindIndexToken(crypto.randomBytes(32), 'party_a', 'account', '1250')).not.toBe(token);
+  });
+
+  it('should not contain the value', () => {
+    const index = createBlindIndex('party_a', payload, ['account'], keyring);
+    expect(JSON.stringify(index)).not.toContain('AE07');
+  });
+
+  it('should find records indexed before a master key rotation', () => {
+    const index = createBlindIndex('party_a', payload, ['account'], keyring);
+    const rotated = createKeyring({ 1: masterKey, 2: crypto.randomBytes(32) }, 2);
+
+    const tokens = blindIndexTokens(rotated, 'party_a', 'account', payload.account);
+    expect(tokens).toHaveLength(2);
+    expect(tokens).toContain(index.tokens.account);
+    expect(createBlindIndex('party_a', payload, ['account'], rotated).mk_version).toBe(2);
+  });
+
+  it('should be kept by a DEK re-wrap and by the schema', () => {
+    const record = { ...encryptEnvelope('party_a', payload, keyring), blind_index: createBlindIndex('party_a', payload, ['account'], keyring) };
+    const rewrapped = rewrapDEK(record, createKeyring({ 1: masterKey, 2: crypto.randomBytes(32) }, 2));
+
+    expect(rewrapped.blind_index).toEqual(record.blind_index);
+    expect(parseRecord(JSON.parse(JSON.stringify(record)))).toEqual(record);
+  });
+
+  it.each([
+    [[], /searchable must be a non-empty array/],
+    [['account', 'account'], /listed twice/],
+    [['iban'], /"iban" is not in the payload/],
+    [['nested'], /must be a string, number, boolean or null to be searchable/]
+  ])('should refuse searchable fields %j', (fields, message) => {
+    expect(() => createBlindIndex('party_a', { ...payload, nested: { a: 1 } }, fields, keyring)).toThrow(message);
+  });
+
+  it.each([
+    ['a short token', { mk_version: 1, tokens: { account: 'abcd' } }, 'blind_index.tokens.account'],
+    ['no tokens', { mk_version: 1, tokens: {} }, 'blind_index.tokens'],
+    ['a bad key version', { mk_version: 0, tokens: { account: '00'.repeat(32) } }, 'blind_index.mk_version']
+  ])('should reject a record with %s', (_name, blindIndex, field) => {
+    let error: unknown;
+    try {
+      parseRecord({ ...encryptEnvelope('party_a', payload, keyring), blind_index: blindIndex });
+    } catch (err) {
+      error = err;
+    }
+    expect((error as RecordValidationError).field).toBe(field);
+  });
+});
@@ -0,0 +1,76 @@
+import crypto from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import {
+  createKeyring,
+  createLocalKeyProvider,
+  decryptPayload,
+  encryptEnvelope,
+  encryptPayload,
+  envelopeFromSealedPayload,
+  payloadAAD,
+  unwrapDEK
+} from '../src/index.js';
+import { openPayloadInBrowser, sealPayloadInBrowser } from '../src/browser.js';
+
+// ============================================================================
+// TEST SUITE: BROWSER ENCRYPTION
+// ============================================================================
+// The WebCrypto implementation against the Node one, in both directions.
+
+const payload = { amount: 100, currency: 'USD', note: 'Ünïcode ✓' };
+const keyring = createKeyring({ 1: crypto.randomBytes(32) }, 1);
+
+describe('Browser Encryption', () => {
+  it('should seal payloads that decryptPayload opens', async () => {
+    const { sealed, dek } = await sealPayloadInBrowser('party_a', payload);
+
+    expect(sealed).toMatchObject({ partyId: 'party_a', alg: 'AES-256-GCM' });
+    expect(sealed.payload_nonce).toHaveLength(24);
+    expect(sealed.payload_tag).toHaveLength(32);
+    expect(decryptPayload({ ...sealed, format_version: 2 }, Buffer.from(dek, 'hex'))).toEqual(payload);
+  });
+
+  it('should open payloads that encryptPayload sealed', async () => {
+    const dek = crypto.randomBytes(32);
+    const context = { id: 'tx_1', partyId: 'party_a', alg: 'AES-256-GCM' as const };
+    const record = { ...context, ...encryptPayload(payload, dek, payloadAAD(context)), format_version: 2 };
+
+    expect(await openPayloadInBrowser(record, dek.toString('hex'))).toEqual(payload);
+    // Format 1: no AAD
+    expect(await openPayloadInBrowser({ ...context, ...encryptPayload(payload, dek) }, dek.toString('hex'))).toEqual(payload);
+  });
+
+  it('should open full envelopes once the DEK is unwrapped', async () => {
+    const record = encryptEnvelope('party_a', payload, keyring);
+    expect(await openPayloadInBrowser(record, unwrapDEK(record, keyring).toString('hex'))).toEqual(payload);
+  });
+
+  it('should build records around sealed payloads', async () => {
+    const { sealed, dek } = await sealPayloadInBrowser('party_a', [1, 'two']);
+    const record = await envelopeFromSealedPayload(sealed, Buffer.from(dek, 'hex'), createLocalKeyProvider(keyring));
+
+    expect(record).toMatchObject({ id: sealed.id, format_version: 2, key_provider: 'local', mk_version: 1 });
+    expect(record.dek_wrapped).not.toContain(dek);
+    expect(decryptPayload(record, unwrapDEK(record, keyring))).toEqual([1, 'two']);
+
+    await expect(envelopeFromSealedPayload(sealed, Buffer.alloc(16), createLocalKeyProvider(keyring))).rejects.toThrow(/DEK length/);
+    await expect(envelopeFromSealedPayload({ ...sealed, payload_nonce: 'abcd' }, Buffer.from(dek, 'hex'), createLocalKeyProvider(keyring)))
+      .rejects.toThrow(/payload_nonce/);
+  });
+
+  it('should reject payloads moved to another record', async () => {
+    const { sealed, dek } = await sealPayloadInBrowser('party_a', payload);
+
+    await expect(openPayloadInBrowser({ ...sealed, partyId: 'party_b', format_version: 2 }, dek)).rejects.toThrow(/Failed to decrypt/);
+    expect(() => decryptPayload({ ...sealed, id: 'tx_other', format_version: 2 }, Buffer.from(dek, 'hex'))).toThrow(/Failed to decrypt/);
+  });
+
+  it('should refuse records the browser cannot open', async () => {
+    const record = encryptEnvelope('party_a', payload, keyring, { alg: 'CHACHA20-POLY1305' });
+    const dek = unwrapDEK(record, keyring).toString('hex');
+    await expect(openPayloadInBrowser(record, dek)).rejects.toThrow(/Only AES-256-GCM/);
+
+    const fieldLevel = encryptEnvelope('party_a', payload, keyring, { fields: ['amount'] });
+    await expect(openPayloadInBrowser(fieldLevel, unwrapDEK(fieldLevel, keyring).toString('hex'))).rejects.toThrow(/Field-level/);
+  });
+});
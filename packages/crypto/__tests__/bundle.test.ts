@@ -0,0 +1,58 @@
+import crypto from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { createBundle, createKeyring, encryptEnvelope, openBundle, TxBundle } from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: EXPORT BUNDLES
+// ============================================================================
+
+const bundleKey = crypto.randomBytes(32);
+const keyring = createKeyring({ 1: crypto.randomBytes(32), 2: crypto.randomBytes(32) }, 2);
+const records = [
+  encryptEnvelope('party_a', { amount: 1 }, keyring),
+  encryptEnvelope('party_b', { amount: 2 }, createKeyring(new Map(keyring.keys), 1))
+];
+
+describe('Export Bundles', () => {
+  it('should round-trip records with a manifest describing them', () => {
+    const bundle = createBundle(records, bundleKey, new Date('2026-01-01T00:00:00Z'));
+
+    expect(bundle.manifest).toMatchObject({ bundle_version: 1, createdAt: '2026-01-01T00:00:00.000Z', count: 2, mk_versions: [1, 2] });
+    expect(openBundle(JSON.parse(JSON.stringify(bundle)), bundleKey)).toEqual({ manifest: bundle.manifest, records });
+    expect(openBundle(createBundle([], bundleKey), bundleKey).records).toEqual([]);
+  });
+
+  it('should not expose record metadata or wrapped keys', () => {
+    const serialized = JSON.stringify(createBundle(records, bundleKey));
+    expect(serialized).not.toContain('party_a');
+    expect(serialized).not.toContain(records[0].dek_wrapped);
+  });
+
+  it('should reject a wrong bundle key', () => {
+    const bundle = createBundle(records, bundleKey);
+    expect(() => openBundle(bundle, crypto.randomBytes(32))).toThrow(/signature does not verify/);
+  });
+
+  it.each([
+    ['a changed count', (b: TxBundle) => ({ ...b, manifest: { ...b.manifest, count: 1 } })],
+    ['a dropped key version', (b: TxBundle) => ({ ...b, manifest: { ...b.manifest, mk_versions: [2] } })],
+    ['truncated ciphertext', (b: TxBundle) => ({ ...b, ct: b.ct.slice(0, -2) })],
+    ['a flipped tag byte', (b: TxBundle) => ({ ...b, tag: (b.tag[0] === '0' ? '1' : '0') + b.tag.slice(1) })]
+  ])('should detect %s', (_name, change) => {
+    // Changed without re-signing, as someone without the bundle key would
+    const bundle = change(createBundle(records, bundleKey));
+    expect(() => openBundle(bundle, bundleKey)).toThrow(/signature does not verify/);
+  });
+
+  it.each([
+    [null, /must be an object/],
+    [{ manifest: { bundle_version: 2 } }, /Unsupported bundle version/],
+    [{ manifest: { bundle_version: 1, createdAt: 'x', count: -1, mk_versions: [], digest: '' } }, /manifest is malformed/]
+  ])('should reject the malformed bundle %j', (input, message) => {
+    expect(() => openBundle(input, bundleKey)).toThrow(message);
+  });
+
+  it('should refuse bundle keys that are not 32 bytes', () => {
+    expect(() => createBundle(records, crypto.randomBytes(16))).toThrow(/32 bytes/);
+  });
+});
@@ -1,6 +1,6 @@
 import crypto from 'node:crypto';
 import { describe, it, expect, beforeEach } from 'vitest';
-import { encryptEnvelope, decryptPayload, unwrapDEK } from '../src/index.js';
+import { IntegrityError, createKeyring, encryptEnvelope, decryptPayload, unwrapDEK } from '../src/index.js';
 
 // ============================================================================
 // TEST SUITE: ENVELOPE ENCRYPTION
@@ -85,6 +85,18 @@ describe('Envelope Encryption', () => {
         decryptPayload(tamperedRecord, dek);
       }).toThrow();
     });
+
+    it('should tell failed authentication apart from missing keys', () => {
+      const record = encryptEnvelope(partyId, payload, createKeyring({ 1: masterKey }, 1));
+
+      expect(() => unwrapDEK(record, crypto.randomBytes(32))).toThrow(IntegrityError);
+      expect(() => decryptPayload(record, crypto.randomBytes(32))).toThrow(IntegrityError);
+
+      // An unknown key version says nothing about the record
+      const missing = () => unwrapDEK({ ...record, mk_version: 2 }, createKeyring({ 1: masterKey }, 1));
+      expect(missing).toThrow('Unknown Master Key version: 2');
+      expect(missing).not.toThrow(IntegrityError);
+    });
   });
 
   // ==========================================================================
@@ -0,0 +1,143 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SUPPORTED_ALGORITHMS,
+  encryptEnvelope,
+  encryptEnvelopeWithProvider,
+  revealPayload,
+  decryptPayload,
+  unwrapDEK,
+  rewrapDEK,
+  createKeyring,
+  createLocalKeyProvider,
+  parseRecord,
+  RecordValidationError,
+  TxSecureRecord
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: FIELD-LEVEL ENCRYPTION
+// ============================================================================
+
+const payload = { currency: 'AED', amount: 1250, account: 'AE07 0331 2345 6789 0123 456', note: 'rent' };
+
+describe('Field-level Encryption', () => {
+  let masterKey: Buffer;
+  let record: TxSecureRecord;
+
+  const reveal = (r: TxSecureRecord, fields?: string[]) => revealPayload(r, unwrapDEK(r, masterKey), fields);
+
+  beforeEach(() => {
+    masterKey = crypto.randomBytes(32);
+    record = encryptEnvelope('party_a', payload, masterKey, { fields: ['amount', 'account', 'note'] });
+  });
+
+  it('should keep unselected fields clear and encrypt the rest one by one', () => {
+    expect(record.clear).toEqual({ currency: 'AED' });
+    expect(Object.keys(record.fields!)).toEqual(['amount', 'account', 'note']);
+    expect(JSON.stringify(record)).not.toContain('AE07');
+    expect(parseRecord(JSON.parse(JSON.stringify(record)))).toEqual(record);
+  });
+
+  it('should reveal the whole payload when no fields are asked for', () => {
+    expect(reveal(record)).toEqual(payload);
+  });
+
+  it('should reveal only the requested fields', () => {
+    expect(reveal(record, ['currency'])).toEqual({ currency: 'AED' });
+    expect(reveal(record, ['currency', 'amount'])).toEqual({ currency: 'AED', amount: 1250 });
+    expect(reveal(record, ['missing'])).toEqual({});
+  });
+
+  it('should not need the other fields to be intact', () => {
+    // A corrupted account number does not stop the currency being read
+    const damaged = { ...record, fields: { ...record.fields!, account: { ...record.fields!.account, tag: '00'.repeat(16) } } };
+
+    expect(reveal(damaged, ['currency', 'amount'])).toEqual({ currency: 'AED', amount: 1250 });
+    expect(() => reveal(damaged, ['account'])).toThrow(/Failed to decrypt field "account"/);
+  });
+
+  it('should select fields of whole-payload records too', () => {
+    const whole = encryptEnvelope('party_a', payload, masterKey);
+    expect(reveal(whole, ['currency'])).toEqual({ currency: 'AED' });
+    expect(reveal(encryptEnvelope('party_a', [1, 2], masterKey), ['currency'])).toEqual({});
+  });
+
+  it('should survive a master key rotation', () => {
+    const keyring = createKeyring({ 1: masterKey, 2: crypto.randomBytes(32) }, 2);
+    const rewrapped = rewrapDEK(record, keyring);
+
+    expect(rewrapped.fields).toEqual(record.fields);
+    expect(revealPayload(rewrapped, unwrapDEK(rewrapped, keyring), ['account'])).toEqual({ account: payload.account });
+  });
+
+  it.each(SUPPORTED_ALGORITHMS)('should work with %s through a key provider', async (alg) => {
+    const provider = createLocalKeyProvider(masterKey);
+    const fromProvider = await encryptEnvelopeWithProvider('party_a', payload, provider, { alg, fields: ['amount'] });
+
+    expect(revealPayload(fromProvider, await provider.unwrap(fromProvider), ['amount'])).toEqual({ amount: 1250 });
+  });
+
+  it.each([
+    [{ fields: [] }, /non-empty array/],
+    [{ fields: ['amount', 'amount'] }, /listed twice/],
+    [{ fields: ['iban'] }, /"iban" is not in the payload/],
+    [{ fields: [''] }, /strings of 1 to 128/]
+  ])('should refuse %j', (options, message) => {
+    expect(() => encryptEnvelope('party_a', payload, masterKey, options)).toThrow(message);
+  });
+
+  it('should refuse field encryption of a non-object payload', () => {
+    expect(() => encryptEnvelope('party_a', 'text', masterKey, { fields: ['length'] })).toThrow(/must be a JSON object/);
+  });
+
+  // ==========================================================================
+  // TAMPER DETECTION
+  // ==========================================================================
+  describe('Tamper Detection', () => {
+    it('should reject swapped field ciphertexts', () => {
+      const swapped = { ...record, fields: { ...record.fields!, amount: record.fields!.note, note: record.fields!.amount } };
+      expect(() => reveal(swapped, ['amount'])).toThrow(/Failed to decrypt field "amount"/);
+    });
+
+    it('should reject a field moved from another record', () => {
+      const other = encryptEnvelope('party_a', payload, masterKey, { fields: ['amount', 'account', 'note'] });
+      const moved = { ...record, fields: { ...record.fields!, account: other.fields!.account } };
+      expect(() => reveal(moved, ['account'])).toThrow(/Failed to decrypt field/);
+    });
+
+    it('should reject a removed or added field', () => {
+      const { note: _note, ...rest } = record.fields!;
+      expect(() => reveal({ ...record, fields: rest })).toThrow(/do not match the manifest/);
+      expect(() => reveal({ ...record, fields: { ...record.fields!, extra: record.fields!.note } })).toThrow(/do not match the manifest/);
+    });
+
+    it('should serve clear values from the authenticated manifest', () => {
+      const edited = { ...record, clear: { currency: 'USD' } };
+      expect(reveal(edited, ['currency'])).toEqual({ currency: 'AED' });
+      // The manifest itself is an ordinary payload ciphertext
+      expect(decryptPayload(record, unwrapDEK(record, masterKey))).toEqual({ clear: { currency: 'AED' }, fields: ['amount', 'account', 'note'] });
+    });
+  });
+
+  // ==========================================================================
+  // SCHEMA
+  // ==========================================================================
+  describe('Schema', () => {
+    it.each([
+      ['a short field nonce', (r: TxSecureRecord) => ({ ...r, fields: { ...r.fields!, amount: { ...r.fields!.amount, nonce: 'abcd' } } }), 'fields.amount.nonce'],
+      ['an empty fields object', (r: TxSecureRecord) => ({ ...r, fields: {} }), 'fields'],
+      ['clear without fields', (r: TxSecureRecord) => ({ ...r, fields: undefined }), 'clear'],
+      ['a field that is also clear', (r: TxSecureRecord) => ({ ...r, clear: { ...r.clear, amount: 1 } }), 'clear.amount'],
+      ['fields on a format 1 record', (r: TxSecureRecord) => ({ ...r, format_version: 1 }), 'fields']
+    ])('should reject %s', (_name, mutate, field) => {
+      let error: unknown;
+      try {
+        parseRecord(JSON.parse(JSON.stringify(mutate(record))));
+      } catch (err) {
+        error = err;
+      }
+      expect((error as RecordValidationError).field).toBe(field);
+    });
+  });
+});
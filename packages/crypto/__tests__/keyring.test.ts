@@ -0,0 +1,83 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createKeyring, encryptEnvelope, decryptPayload, unwrapDEK, rewrapDEK, Keyring } from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: MASTER KEY ROTATION
+// ============================================================================
+
+describe('Master Key Rotation', () => {
+  let v1: Buffer;
+  let v2: Buffer;
+  let payload: Record<string, unknown>;
+
+  beforeEach(() => {
+    v1 = crypto.randomBytes(32);
+    v2 = crypto.randomBytes(32);
+    payload = { amount: 100, currency: 'USD' };
+  });
+
+  // ==========================================================================
+  // KEYRING CONSTRUCTION
+  // ==========================================================================
+  describe('Keyring Construction', () => {
+    it('should reject an active version that is not in the keyring', () => {
+      expect(() => createKeyring({ 1: v1 }, 2)).toThrow(/Active Master Key version 2/);
+    });
+
+    it('should reject keys of the wrong length', () => {
+      expect(() => createKeyring({ 1: crypto.randomBytes(16) }, 1)).toThrow(/Invalid Master Key length for version 1/);
+    });
+  });
+
+  // ==========================================================================
+  // VERSION SELECTION
+  // ==========================================================================
+  describe('Version Selection', () => {
+    it('should wrap new records with the active version', () => {
+      const keyring = createKeyring({ 1: v1, 2: v2 }, 2);
+      const record = encryptEnvelope('user_123', payload, keyring);
+
+      expect(record.mk_version).toBe(2);
+      expect(decryptPayload(record, unwrapDEK(record, v2))).toEqual(payload);
+    });
+
+    it('should unwrap older records with the version they carry', () => {
+      const record = encryptEnvelope('user_123', payload, createKeyring({ 1: v1 }, 1));
+      const keyring = createKeyring({ 1: v1, 2: v2 }, 2);
+
+      expect(decryptPayload(record, unwrapDEK(record, keyring))).toEqual(payload);
+    });
+
+    it('should throw for an unknown mk_version', () => {
+      const record = encryptEnvelope('user_123', payload, createKeyring({ 3: v1 }, 3));
+
+      expect(() => unwrapDEK(record, createKeyring({ 1: v1 }, 1))).toThrow(/Unknown Master Key version: 3/);
+    });
+  });
+
+  // ==========================================================================
+  // DEK RE-WRAP
+  // ==========================================================================
+  describe('DEK Re-wrap', () => {
+    let keyring: Keyring;
+
+    beforeEach(() => {
+      keyring = createKeyring({ 1: v1, 2: v2 }, 2);
+    });
+
+    it('should move the DEK to the active version without touching the payload', () => {
+      const record = encryptEnvelope('user_123', payload, v1);
+      const rewrapped = rewrapDEK(record, keyring);
+
+      expect(rewrapped.mk_version).toBe(2);
+      expect(rewrapped.payload_ct).toBe(record.payload_ct);
+      expect(rewrapped.payload_nonce).toBe(record.payload_nonce);
+      expect(rewrapped.dek_wrapped).not.toBe(record.dek_wrapped);
+
+      // The retired key can no longer unwrap the new wrapping
+      expect(() => unwrapDEK(rewrapped, v1)).toThrow();
+      expect(decryptPayload(rewrapped, unwrapDEK(rewrapped, v2))).toEqual(payload);
+    });
+  });
+});
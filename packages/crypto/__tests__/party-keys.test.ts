@@ -0,0 +1,157 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, it, expect, afterAll } from 'vitest';
+import {
+  createFilePartyKeyStore,
+  createKeyring,
+  createLocalKeyProvider,
+  createMemoryPartyKeyStore,
+  createPartyKey,
+  decryptPayload,
+  derivePartyKEK,
+  encryptEnvelope,
+  encryptEnvelopeBatch,
+  encryptEnvelopeWithProvider,
+  parseRecord,
+  PartyKeyShreddedError,
+  rewrapDEK,
+  rewrapDEKWithProvider,
+  unwrapDEK
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: PARTY KEYS
+// ============================================================================
+
+const payload = { amount: 100, currency: 'USD' };
+const keyring = createKeyring({ 1: crypto.randomBytes(32), 2: crypto.randomBytes(32) }, 1);
+
+describe('Party Keys', () => {
+  it('should derive a distinct KEK per party, version and Master Key', () => {
+    const partyKey = createPartyKey('party_a', 1);
+    const masterKey = crypto.randomBytes(32);
+
+    expect(derivePartyKEK(masterKey, partyKey)).toEqual(derivePartyKEK(masterKey, { ...partyKey }));
+    expect(derivePartyKEK(masterKey, partyKey)).toHaveLength(32);
+    expect(derivePartyKEK(masterKey, partyKey)).not.toEqual(derivePartyKEK(crypto.randomBytes(32), partyKey));
+    expect(derivePartyKEK(masterKey, partyKey)).not.toEqual(derivePartyKEK(masterKey, { ...partyKey, version: 2 }));
+    expect(derivePartyKEK(masterKey, partyKey)).not.toEqual(derivePartyKEK(masterKey, { ...partyKey, partyId: 'party_b' }));
+  });
+
+  it('should need the record\'s party key to unwrap its DEK', () => {
+    const partyKey = createPartyKey('party_a', 3);
+    const record = encryptEnvelope('party_a', payload, keyring, { partyKey });
+
+    expect(record.kek_version).toBe(3);
+    expect(parseRecord(JSON.parse(JSON.stringify(record)))).toEqual(record);
+    expect(decryptPayload(record, unwrapDEK(record, keyring, partyKey))).toEqual(payload);
+
+    expect(() => unwrapDEK(record, keyring)).toThrow('Party key version 3 of party_a is required to unwrap this DEK');
+    expect(() => unwrapDEK(record, keyring, createPartyKey('party_a', 3))).toThrow(/Failed to unwrap DEK/);
+    // kek_version is bound as AAD
+    expect(() => unwrapDEK({ ...record, kek_version: 4 }, keyring, { ...partyKey, version: 4 })).toThrow(/Failed to unwrap DEK/);
+    expect(() => encryptEnvelope('party_b', payload, keyring, { partyKey })).toThrow('Party key belongs to party_a, not party_b');
+  });
+
+  it('should keep the party key across Master Key rotation', () => {
+    const partyKey = createPartyKey('party_a', 1);
+    const record = encryptEnvelope('party_a', payload, keyring, { partyKey });
+    const rotated = createKeyring(keyring.keys, 2);
+
+    const rewrapped = rewrapDEK(record, rotated, partyKey);
+    expect(rewrapped).toMatchObject({ mk_version: 2, kek_version: 1 });
+    expect(decryptPayload(rewrapped, unwrapDEK(rewrapped, rotated, partyKey))).toEqual(payload);
+  });
+
+  it('should wrap under the active party key and re-key one party only', async () => {
+    const partyKeys = createMemoryPartyKeyStore();
+    const provider = createLocalKeyProvider(keyring, 'local', partyKeys);
+
+    const a1 = await encryptEnvelopeWithProvider('party_a', payload, provider);
+    const b1 = await encryptEnvelopeWithProvider('party_b', payload, provider);
+    expect([a1.kek_version, b1.kek_version]).toEqual([1, 1]);
+
+    expect((await partyKeys.rotate('party_a')).version).toBe(2);
+    const a2 = await rewrapDEKWithProvider(a1, provider, provider);
+    expect(a2.kek_version).toBe(2);
+    expect(a2.payload_ct).toBe(a1.payload_ct);
+
+    expect(await partyKeys.destroy('party_a', [1])).toBe(1);
+    await expect(provider.unwrap(a1)).rejects.toThrow('Party key version 1 of party_a has been shredded');
+    expect(decryptPayload(a2, await provider.unwrap(a2))).toEqual(payload);
+    expect(decryptPayload(b1, await provider.unwrap(b1))).toEqual(payload);
+
+    const batch = await encryptEnvelopeBatch([{ partyId: 'party_a', payload: 1 }, { partyId: 'party_c', payload: 2 }], provider);
+    expect(batch.map(({ record }) => record?.kek_version)).toEqual([2, 1]);
+  });
+
+  it('should crypto-shred a party by destroying its keys', async () => {
+    const partyKeys = createMemoryPartyKeyStore();
+    const provider = createLocalKeyProvider(keyring, 'local', partyKeys);
+    const record = await encryptEnvelopeWithProvider('party_a', payload, provider);
+    await partyKeys.rotate('party_a');
+
+    expect(await partyKeys.destroy('party_a')).toBe(2);
+    expect(await partyKeys.list('party_a')).toEqual([]);
+    await expect(provider.unwrap(record)).rejects.toThrow(PartyKeyShreddedError);
+    // Even with the Master Key, the salt is gone
+    await expect(createLocalKeyProvider(keyring).unwrap(record)).rejects.toThrow('DEK is wrapped by a party key, but no party keys are configured');
+  });
+
+  it('should not reuse a destroyed version when a shredded party writes again', async () => {
+    const partyKeys = createMemoryPartyKeyStore();
+    const provider = createLocalKeyProvider(keyring, 'local', partyKeys);
+    const old = await encryptEnvelopeWithProvider('party_a', payload, provider);
+    await partyKeys.destroy('party_a');
+
+    const fresh = await encryptEnvelopeWithProvider('party_a', payload, provider);
+    expect(fresh.kek_version).toBe(2);
+    expect(await partyKeys.destroyedUpTo('party_a')).toBe(1);
+    // The old copy reads as shredded, not as a KEK that fails to authenticate
+    await expect(provider.unwrap(old)).rejects.toThrow(PartyKeyShreddedError);
+    expect(decryptPayload(fresh, await provider.unwrap(fresh))).toEqual(payload);
+    await expect(provider.unwrap({ ...fresh, kek_version: 3 })).rejects.toThrow(/not available/);
+  });
+
+  it('should move records between the Master Key and party keys', async () => {
+    const direct = createLocalKeyProvider(keyring);
+    const hierarchical = createLocalKeyProvider(keyring, 'local', createMemoryPartyKeyStore());
+    const record = await encryptEnvelopeWithProvider('party_a', payload, direct);
+
+    const wrapped = await rewrapDEKWithProvider(record, direct, hierarchical);
+    expect(wrapped.kek_version).toBe(1);
+    const unwrapped = await rewrapDEKWithProvider(wrapped, hierarchical, direct);
+    expect(unwrapped).not.toHaveProperty('kek_version');
+    expect(decryptPayload(unwrapped, await direct.unwrap(unwrapped))).toEqual(payload);
+  });
+
+  describe('File Store', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-party-keys-'));
+    afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+    it('should persist versions and deletions', async () => {
+      const file = path.join(dir, 'party-keys.json');
+      const store = createFilePartyKeyStore(file);
+      const first = await store.active('party_a');
+      await store.rotate('party_a');
+      await store.active('party_b');
+      await store.destroy('party_b');
+
+      expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+      const reopened = createFilePartyKeyStore(file);
+      expect((await reopened.list('party_a')).map(({ version }) => version)).toEqual([1, 2]);
+      expect(await reopened.get('party_a', 1)).toEqual(first);
+      expect(await reopened.list('party_b')).toEqual([]);
+      expect(await reopened.destroyedUpTo('party_b')).toBe(1);
+      expect((await reopened.active('party_b')).version).toBe(2);
+    });
+
+    it('should refuse malformed files', () => {
+      const file = path.join(dir, 'bad.json');
+      fs.writeFileSync(file, JSON.stringify({ parties: { party_a: [{ version: 1, salt: 'abcd' }] } }));
+      expect(() => createFilePartyKeyStore(file)).toThrow(/salt of party_a version 1 must be a 64-character hex string/);
+    });
+  });
+});
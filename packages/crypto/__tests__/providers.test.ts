@@ -0,0 +1,142 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+import http from 'node:http';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  createKeyring,
+  createLocalKeyProvider,
+  createFileKeyProvider,
+  createKmsKeyProvider,
+  createLocalKmsServer,
+  encryptEnvelopeWithProvider,
+  rewrapDEKWithProvider,
+  decryptPayload,
+  IntegrityError,
+  KeyProvider
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: KEY PROVIDERS
+// ============================================================================
+
+const payload = { amount: 100, currency: 'USD' };
+
+/**
+ * Encrypts with the provider, then unwraps and decrypts through it again.
+ */
+async function roundtrip(provider: KeyProvider) {
+  const record = await encryptEnvelopeWithProvider('user_123', payload, provider);
+  const dek = await provider.unwrap(record);
+  return { record, decrypted: decryptPayload(record, dek) };
+}
+
+describe('Key Providers', () => {
+  // ==========================================================================
+  // LOCAL PROVIDER
+  // ==========================================================================
+  describe('Local Provider', () => {
+    it('should roundtrip and record provider and key id', async () => {
+      const provider = createLocalKeyProvider(createKeyring({ 1: crypto.randomBytes(32), 2: crypto.randomBytes(32) }, 2));
+      const { record, decrypted } = await roundtrip(provider);
+
+      expect(decrypted).toEqual(payload);
+      expect(record.key_provider).toBe('local');
+      expect(record.key_id).toBe('mk-2');
+      expect(record.mk_version).toBe(2);
+    });
+  });
+
+  // ==========================================================================
+  // FILE PROVIDER
+  // ==========================================================================
+  describe('File Provider', () => {
+    let dir: string;
+
+    beforeAll(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mirfa-keystore-'));
+    });
+
+    afterAll(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should roundtrip with keys read from a keystore file', async () => {
+      const file = path.join(dir, 'keystore.json');
+      fs.writeFileSync(file, JSON.stringify({
+        activeVersion: 1,
+        keys: { 1: crypto.randomBytes(32).toString('hex') }
+      }));
+
+      const { record, decrypted } = await roundtrip(createFileKeyProvider(file));
+      expect(decrypted).toEqual(payload);
+      expect(record.key_provider).toBe('file');
+    });
+
+    it('should reject a keystore with malformed keys', () => {
+      const file = path.join(dir, 'bad.json');
+      fs.writeFileSync(file, JSON.stringify({ activeVersion: 1, keys: { 1: 'not-hex' } }));
+
+      expect(() => createFileKeyProvider(file)).toThrow(/must be a 64-character hex string/);
+    });
+  });
+
+  // ==========================================================================
+  // KMS PROVIDER (AGAINST THE LOCAL STAND-IN)
+  // ==========================================================================
+  describe('KMS Provider', () => {
+    let server: http.Server;
+    let endpoint: string;
+
+    beforeAll(async () => {
+      server = createLocalKmsServer({
+        keys: { 'vault-key': createKeyring({ 1: crypto.randomBytes(32) }, 1) },
+        token: 'test-token'
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should roundtrip through the KMS', async () => {
+      const provider = createKmsKeyProvider({ endpoint, keyId: 'vault-key', token: 'test-token' });
+      const { record, decrypted } = await roundtrip(provider);
+
+      expect(decrypted).toEqual(payload);
+      expect(record.key_provider).toBe('kms');
+      expect(record.key_id).toBe('vault-key');
+    });
+
+    it('should wrap with the record\'s algorithm', async () => {
+      const provider = createKmsKeyProvider({ endpoint, keyId: 'vault-key', token: 'test-token' });
+      const record = await encryptEnvelopeWithProvider('user_123', payload, provider, { alg: 'AES-256-GCM-SIV' });
+
+      expect(decryptPayload(record, await provider.unwrap(record))).toEqual(payload);
+      await expect(provider.unwrap({ ...record, alg: 'AES-256-GCM' })).rejects.toThrow(/status 400/);
+      await expect(provider.unwrap({ ...record, alg: 'AES-256-GCM' })).rejects.toBeInstanceOf(IntegrityError);
+    });
+
+    it('should fail when the KMS rejects the credential', async () => {
+      const provider = createKmsKeyProvider({ endpoint, keyId: 'vault-key', token: 'wrong' });
+
+      await expect(provider.wrap(crypto.randomBytes(32))).rejects.toThrow(/status 401/);
+    });
+
+    it('should move a record from a local key to the KMS', async () => {
+      const local = createLocalKeyProvider(crypto.randomBytes(32));
+      const kms = createKmsKeyProvider({ endpoint, keyId: 'vault-key', token: 'test-token' });
+
+      const record = await encryptEnvelopeWithProvider('user_123', payload, local);
+      const moved = await rewrapDEKWithProvider(record, local, kms);
+
+      expect(moved.payload_ct).toBe(record.payload_ct);
+      expect(moved.key_provider).toBe('kms');
+      expect(decryptPayload(moved, await kms.unwrap(moved))).toEqual(payload);
+    });
+  });
+});
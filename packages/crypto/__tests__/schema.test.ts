@@ -0,0 +1,124 @@
+import crypto from 'node:crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  parseRecord,
+  RecordValidationError,
+  upgradeRecord,
+  formatVersionOf,
+  encryptEnvelope,
+  encryptPayload,
+  wrapDEK,
+  generateDEK,
+  decryptPayload,
+  createLocalKeyProvider,
+  TxSecureRecord
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: RECORD SCHEMA AND FORMAT UPGRADES
+// ============================================================================
+
+/**
+ * Builds a record the way it was written before format versioning (no AAD).
+ */
+function legacyRecord(masterKey: Buffer, payload: unknown): TxSecureRecord {
+  const dek = generateDEK();
+  return {
+    id: crypto.randomUUID(),
+    partyId: 'party_a',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    ...encryptPayload(payload, dek),
+    ...wrapDEK(dek, masterKey),
+    alg: 'AES-256-GCM',
+    mk_version: 1
+  };
+}
+
+describe('Record Schema', () => {
+  let masterKey: Buffer;
+  let record: TxSecureRecord;
+
+  beforeEach(() => {
+    masterKey = crypto.randomBytes(32);
+    record = encryptEnvelope('party_a', { amount: 100 }, masterKey);
+  });
+
+  it('should accept current and legacy records', () => {
+    expect(parseRecord(JSON.parse(JSON.stringify(record)))).toEqual(record);
+
+    const legacy = legacyRecord(masterKey, { amount: 1 });
+    expect(parseRecord(legacy)).toEqual(legacy);
+  });
+
+  it('should accept a streamed record', () => {
+    const streamed = { ...record, stream: { chunk_size: 65536, size: 0 } };
+    expect(parseRecord(streamed).stream).toEqual({ chunk_size: 65536, size: 0 });
+  });
+
+  // ==========================================================================
+  // REJECTIONS
+  // ==========================================================================
+  describe('Rejections', () => {
+    const cases: Array<[string, (r: TxSecureRecord) => unknown, string]> = [
+      ['a missing id', ({ id: _id, ...rest }) => rest, 'id'],
+      ['an id with path characters', (r) => ({ ...r, id: '../etc' }), 'id'],
+      ['an empty partyId', (r) => ({ ...r, partyId: '' }), 'partyId'],
+      ['an invalid createdAt', (r) => ({ ...r, createdAt: 'yesterday' }), 'createdAt'],
+      ['an unknown alg', (r) => ({ ...r, alg: 'AES-128-ECB' }), 'alg'],
+      ['a short nonce', (r) => ({ ...r, payload_nonce: 'abcd' }), 'payload_nonce'],
+      ['non-hex ciphertext', (r) => ({ ...r, payload_ct: 'zz' }), 'payload_ct'],
+      ['a truncated tag', (r) => ({ ...r, dek_wrap_tag: r.dek_wrap_tag.slice(0, 8) }), 'dek_wrap_tag'],
+      ['a wrapped DEK of the wrong size', (r) => ({ ...r, dek_wrapped: r.dek_wrapped + '00' }), 'dek_wrapped'],
+      ['a string mk_version', (r) => ({ ...r, mk_version: '1' }), 'mk_version'],
+      ['a format_version from the future', (r) => ({ ...r, format_version: 3 }), 'format_version'],
+      ['an empty key_id', (r) => ({ ...r, key_id: '' }), 'key_id'],
+      ['an unknown field', (r) => ({ ...r, plaintext: 'oops' }), 'plaintext'],
+      ['a negative stream size', (r) => ({ ...r, stream: { chunk_size: 1024, size: -1 } }), 'stream.size'],
+      ['a stream on a format 1 record', (r) => ({ ...r, format_version: 1, stream: { chunk_size: 1024, size: 1 } }), 'stream']
+    ];
+
+    it.each(cases)('should reject %s', (_name, mutate, field) => {
+      let error: unknown;
+      try {
+        parseRecord(mutate(record));
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).toBeInstanceOf(RecordValidationError);
+      expect((error as RecordValidationError).field).toBe(field);
+      expect((error as Error).message).toContain(field);
+    });
+
+    it('should reject values that are not objects', () => {
+      expect(() => parseRecord(null)).toThrow(/record must be an object/);
+      expect(() => parseRecord([record])).toThrow(/record must be an object/);
+    });
+  });
+
+  // ==========================================================================
+  // FORMAT UPGRADES
+  // ==========================================================================
+  describe('Format Upgrades', () => {
+    it('should upgrade a legacy record to format 2', async () => {
+      const provider = createLocalKeyProvider(masterKey);
+      const legacy = legacyRecord(masterKey, { amount: 7 });
+
+      const upgraded = await upgradeRecord(legacy, provider);
+
+      expect(formatVersionOf(legacy)).toBe(1);
+      expect(upgraded.format_version).toBe(2);
+      expect(upgraded).toMatchObject({ id: legacy.id, partyId: legacy.partyId, createdAt: legacy.createdAt });
+      expect(parseRecord(upgraded)).toEqual(upgraded);
+      expect(decryptPayload(upgraded, await provider.unwrap(upgraded))).toEqual({ amount: 7 });
+
+      // Now bound as AAD: relabelling the party breaks it
+      await expect(provider.unwrap({ ...upgraded, partyId: 'party_b' })).rejects.toThrow(/Failed to unwrap DEK/);
+    });
+
+    it('should leave current records unchanged', async () => {
+      const provider = createLocalKeyProvider(masterKey);
+      expect(await upgradeRecord(record, provider)).toBe(record);
+    });
+  });
+});
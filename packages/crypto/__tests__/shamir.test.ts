@@ -0,0 +1,49 @@
+import crypto from 'node:crypto';
+import { describe, it, expect } from 'vitest';
+import { combineShares, parseShare, secretCheckValue, splitSecret } from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: SHAMIR SECRET SHARING
+// ============================================================================
+
+describe('Shamir Secret Sharing', () => {
+  const secret = crypto.randomBytes(32);
+
+  it('should rebuild the secret from any threshold of shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(shares).toHaveLength(5);
+    expect(shares.map((share) => parseShare(share).x)).toEqual([1, 2, 3, 4, 5]);
+
+    for (const subset of [[0, 1, 2], [4, 2, 0], [1, 3, 4], [0, 1, 2, 3, 4]]) {
+      expect(combineShares(subset.map((i) => shares[i]))).toEqual(secret);
+    }
+  });
+
+  it('should not rebuild the secret from fewer shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+    const partial = combineShares(shares.slice(0, 2));
+
+    expect(partial).not.toEqual(secret);
+    expect(secretCheckValue(partial)).not.toBe(secretCheckValue(secret));
+  });
+
+  it('should split every secret afresh', () => {
+    const first = splitSecret(Buffer.from('1:ab'), 3, 2);
+    const second = splitSecret(Buffer.from('1:ab'), 3, 2);
+
+    expect(first).not.toEqual(second);
+    expect(combineShares([first[0], first[2]]).toString()).toBe('1:ab');
+  });
+
+  it('should reject bad parameters and malformed shares', () => {
+    expect(() => splitSecret(secret, 3, 1)).toThrow('Threshold must be an integer of at least 2');
+    expect(() => splitSecret(secret, 2, 3)).toThrow(/Shares must be an integer from the threshold/);
+    expect(() => splitSecret(Buffer.alloc(0), 3, 2)).toThrow('Secret must not be empty');
+
+    expect(() => parseShare('0-abcd')).toThrow(/Share must look like/);
+    expect(() => parseShare('1-abc')).toThrow(/Share must look like/);
+    const [a, b] = splitSecret(secret, 2, 2);
+    expect(() => combineShares([a, a])).toThrow('Shares must all be different');
+    expect(() => combineShares([a, `${parseShare(b).x}-abcd`])).toThrow('Shares must all be the same length');
+  });
+});
@@ -0,0 +1,149 @@
+import crypto from 'node:crypto';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createEncryptStream,
+  createDecryptStream,
+  createEnvelopeEncryptStream,
+  createEnvelopeDecryptStream,
+  createLocalKeyProvider,
+  decryptPayload,
+  generateDEK
+} from '../src/index.js';
+
+// ============================================================================
+// TEST SUITE: CHUNKED STREAM ENCRYPTION
+// ============================================================================
+
+const CHUNK_SIZE = 64;
+const HEADER_LENGTH = 16;
+const SEALED_CHUNK_SIZE = CHUNK_SIZE + 16;
+
+/**
+ * Feeds input through a transform in pieces of pieceSize bytes and collects the output.
+ */
+async function run(transform: Transform, input: Buffer, pieceSize = 10): Promise<Buffer> {
+  const pieces: Buffer[] = [];
+  for (let i = 0; i < input.length; i += pieceSize) {
+    pieces.push(input.subarray(i, i + pieceSize));
+  }
+
+  const output: Buffer[] = [];
+  await pipeline(Readable.from(pieces), transform, async function* (source) {
+    for await (const chunk of source) output.push(chunk as Buffer);
+  });
+  return Buffer.concat(output);
+}
+
+describe('Stream Encryption', () => {
+  let dek: Buffer;
+
+  beforeEach(() => {
+    dek = generateDEK();
+  });
+
+  it.each([0, 1, CHUNK_SIZE - 1, CHUNK_SIZE, CHUNK_SIZE + 1, 3 * CHUNK_SIZE, 1000])(
+    'should roundtrip %i bytes',
+    async (length) => {
+      const plaintext = crypto.randomBytes(length);
+      const sealed = await run(createEncryptStream(dek, { chunkSize: CHUNK_SIZE }), plaintext);
+
+      expect(await run(createDecryptStream(dek), sealed)).toEqual(plaintext);
+      // Independent of how the input happens to be split
+      expect(await run(createDecryptStream(dek), sealed, 333)).toEqual(plaintext);
+    }
+  );
+
+  it('should not leave plaintext in the output', async () => {
+    const plaintext = Buffer.from('SECRET-'.repeat(50));
+    const sealed = await run(createEncryptStream(dek, { chunkSize: CHUNK_SIZE }), plaintext);
+
+    expect(sealed.includes(Buffer.from('SECRET'))).toBe(false);
+  });
+
+  // ==========================================================================
+  // TAMPERING, TRUNCATION AND REORDERING
+  // ==========================================================================
+  describe('Integrity', () => {
+    let sealed: Buffer;
+
+    beforeEach(async () => {
+      // Three full chunks plus a short final one
+      sealed = await run(createEncryptStream(dek, { chunkSize: CHUNK_SIZE }), crypto.randomBytes(3 * CHUNK_SIZE + 10));
+    });
+
+    const chunk = (index: number) =>
+      sealed.subarray(HEADER_LENGTH + index * SEALED_CHUNK_SIZE, HEADER_LENGTH + (index + 1) * SEALED_CHUNK_SIZE);
+
+    it('should reject a stream truncated at a chunk boundary', async () => {
+      const truncated = sealed.subarray(0, HEADER_LENGTH + 3 * SEALED_CHUNK_SIZE);
+      await expect(run(createDecryptStream(dek), truncated)).rejects.toThrow(/potential tampering or truncation/);
+    });
+
+    it('should reject a stream truncated mid-chunk', async () => {
+      const truncated = sealed.subarray(0, sealed.length - 5);
+      await expect(run(createDecryptStream(dek), truncated)).rejects.toThrow(/potential tampering or truncation/);
+    });
+
+    it('should reject reordered chunks', async () => {
+      const reordered = Buffer.concat([sealed.subarray(0, HEADER_LENGTH), chunk(1), chunk(0), sealed.subarray(HEADER_LENGTH + 2 * SEALED_CHUNK_SIZE)]);
+      await expect(run(createDecryptStream(dek), reordered)).rejects.toThrow(/chunk 0/);
+    });
+
+    it('should reject data appended after the final chunk', async () => {
+      const extended = Buffer.concat([sealed, chunk(0)]);
+      await expect(run(createDecryptStream(dek), extended)).rejects.toThrow(/potential tampering or truncation/);
+    });
+
+    it('should reject a flipped ciphertext bit', async () => {
+      const tampered = Buffer.from(sealed);
+      tampered[HEADER_LENGTH + SEALED_CHUNK_SIZE + 3] ^= 0x01;
+      await expect(run(createDecryptStream(dek), tampered)).rejects.toThrow(/chunk 1/);
+    });
+
+    it('should reject an edited header', async () => {
+      const tampered = Buffer.from(sealed);
+      tampered[HEADER_LENGTH - 1] ^= 0x01;
+      await expect(run(createDecryptStream(dek), tampered)).rejects.toThrow(/potential tampering or truncation/);
+    });
+
+    it('should reject input that is not a stream', async () => {
+      await expect(run(createDecryptStream(dek), Buffer.from('not a stream at all'))).rejects.toThrow(/Invalid stream header/);
+    });
+
+    it('should reject the wrong DEK or AAD', async () => {
+      await expect(run(createDecryptStream(generateDEK()), sealed)).rejects.toThrow(/chunk 0/);
+      await expect(run(createDecryptStream(dek, { aad: Buffer.from('other') }), sealed)).rejects.toThrow(/chunk 0/);
+    });
+  });
+
+  // ==========================================================================
+  // STREAMED ENVELOPES
+  // ==========================================================================
+  describe('Streamed Envelopes', () => {
+    it('should seal a record whose payload and content both decrypt', async () => {
+      const provider = createLocalKeyProvider(crypto.randomBytes(32));
+      const content = crypto.randomBytes(5000);
+
+      const upload = createEnvelopeEncryptStream('party_a', { chunkSize: CHUNK_SIZE });
+      const sealed = await run(upload.stream, content, 700);
+      const record = await upload.seal({ filename: 'statement.pdf' }, provider);
+
+      expect(record.id).toBe(upload.id);
+      expect(record.stream).toEqual({ chunk_size: CHUNK_SIZE, size: content.length });
+
+      const dek = await provider.unwrap(record);
+      expect(decryptPayload(record, dek)).toEqual({ filename: 'statement.pdf' });
+      expect(await run(createEnvelopeDecryptStream(record, dek), sealed)).toEqual(content);
+
+      // Content is bound to the record's metadata
+      await expect(run(createEnvelopeDecryptStream({ ...record, partyId: 'party_b' }, dek), sealed)).rejects.toThrow(/chunk 0/);
+    });
+
+    it('should refuse to seal before the content has been written', async () => {
+      const upload = createEnvelopeEncryptStream('party_a');
+      await expect(upload.seal({}, createLocalKeyProvider(crypto.randomBytes(32)))).rejects.toThrow(/not finished/);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { gcm, gcmsiv } from '@noble/ciphers/aes.js';
+import { chacha20poly1305 } from '@noble/ciphers/chacha.js';
+import {
+  AlgorithmId,
+  RandomSource,
+  TxSecureRecord,
+  createKeyring,
+  createLocalKeyProvider,
+  derivePartyKEK,
+  encryptEnvelope,
+  encryptPayload,
+  getAlgorithm,
+  parsePartyKeysFile,
+  revealPayload,
+  unwrapDEK,
+  wrapDEK
+} from '../src/index.js';
+import { openPayloadInBrowser, sealPayloadInBrowser } from '../src/browser.js';
+import { knownAnswerVectors as vectors } from '../test-vectors/index.js';
+
+// ============================================================================
+// TEST SUITE: KNOWN-ANSWER VECTORS
+// ============================================================================
+// Every implementation against test-vectors/known-answer.json: the Node
+// library, @noble/ciphers as an independent AEAD (for GCM-SIV it is also the
+// one the library uses) and the WebCrypto one. The API and CLI run the same
+// records in their own suites.
+
+const bytes = (hex: string) => Buffer.from(hex, 'hex');
+const aadOf = (aad: string | null) => (aad === null ? undefined : Buffer.from(aad, 'utf8'));
+
+/**
+ * Returns `draws` in order, failing on any draw of another length.
+ */
+function replay(draws: string[]): RandomSource {
+  const queue = [...draws];
+  return (length) => {
+    const next = queue.shift();
+    if (next === undefined || next.length !== length * 2) {
+      throw new Error(`Unexpected random draw of ${length} bytes`);
+    }
+    return bytes(next);
+  };
+}
+
+const noble = {
+  'AES-256-GCM': gcm,
+  'CHACHA20-POLY1305': chacha20poly1305,
+  'AES-256-GCM-SIV': gcmsiv
+} satisfies Record<AlgorithmId, unknown>;
+
+function keyringFor(record: TxSecureRecord) {
+  return createKeyring(Object.fromEntries(Object.entries(vectors.masterKeys).map(([version, key]) => [version, bytes(key)])), record.mk_version);
+}
+
+const { parties: partyKeys } = parsePartyKeysFile(JSON.stringify(vectors.partyKeys), 'known-answer.json');
+const partyKeyOf = (record: TxSecureRecord) =>
+  partyKeys.get(record.partyId)?.find((partyKey) => partyKey.version === record.kek_version);
+
+describe('Known-Answer Vectors', () => {
+  // ==========================================================================
+  // PRIMITIVES
+  // ==========================================================================
+  describe.each(vectors.payload)('$name', (vector) => {
+    it('should encrypt to the expected ciphertext and tag', () => {
+      const sealed = encryptPayload(vector.plaintext, bytes(vector.dek), aadOf(vector.aad), vector.alg, replay([vector.nonce]));
+      expect(sealed).toEqual({ payload_nonce: vector.nonce, payload_ct: vector.payload_ct, payload_tag: vector.payload_tag });
+    });
+
+    it('should match an independent AEAD', () => {
+      const aad = aadOf(vector.aad);
+      const sealed = noble[vector.alg](bytes(vector.dek), bytes(vector.nonce), aad)
+        .encrypt(Buffer.from(JSON.stringify(vector.plaintext), 'utf8'));
+      expect(Buffer.from(sealed).toString('hex')).toBe(vector.payload_ct + vector.payload_tag);
+
+      const opened = getAlgorithm(vector.alg).open(bytes(vector.dek), bytes(vector.nonce), bytes(vector.payload_ct), bytes(vector.payload_tag), aad);
+      expect(JSON.parse(opened.toString('utf8'))).toEqual(vector.plaintext);
+    });
+  });
+
+  describe.each(vectors.dekWrap)('$name', (vector) => {
+    it('should wrap to the expected bytes', () => {
+      const wrapped = wrapDEK(bytes(vector.dek), bytes(vector.kek), aadOf(vector.aad), vector.alg, replay([vector.nonce]));
+      expect(wrapped).toEqual({ dek_wrap_nonce: vector.nonce, dek_wrapped: vector.dek_wrapped, dek_wrap_tag: vector.dek_wrap_tag });
+
+      const sealed = noble[vector.alg](bytes(vector.kek), bytes(vector.nonce), aadOf(vector.aad)).encrypt(bytes(vector.dek));
+      expect(Buffer.from(sealed).toString('hex')).toBe(vector.dek_wrapped + vector.dek_wrap_tag);
+    });
+  });
+
+  it.each(vectors.partyKek)('should derive the party KEK ($name)', (vector) => {
+    const partyKey = partyKeys.get(vector.partyId)!.find((candidate) => candidate.version === vector.version)!;
+    expect(derivePartyKEK(bytes(vectors.masterKeys[vector.mkVersion]), partyKey).toString('hex')).toBe(vector.kek);
+  });
+
+  // ==========================================================================
+  // ENVELOPES
+  // ==========================================================================
+  describe.each(vectors.envelope)('$name', (vector) => {
+    const { record } = vector;
+
+    it.skipIf(vector.decryptOnly)('should encrypt to the expected record', () => {
+      const encrypted = encryptEnvelope(record.partyId, vector.plaintext, keyringFor(record), {
+        alg: record.alg,
+        fields: vector.fields,
+        partyKey: partyKeyOf(record),
+        random: replay(vector.draws),
+        now: new Date(record.createdAt)
+      });
+      expect(encrypted).toEqual(record);
+    });
+
+    it('should decrypt with the library and the local key provider', async () => {
+      const dek = unwrapDEK(record, keyringFor(record), partyKeyOf(record));
+      expect(dek.toString('hex')).toBe(vector.draws[1]);
+      expect(revealPayload(record, dek)).toEqual(vector.plaintext);
+
+      const provider = createLocalKeyProvider(keyringFor(record), 'local', {
+        active: async () => { throw new Error('Vectors only decrypt'); },
+        get: async (partyId, version) => partyKeys.get(partyId)?.find((partyKey) => partyKey.version === version),
+        destroyedUpTo: async () => 0
+      });
+      expect(await provider.unwrap(record)).toEqual(dek);
+    });
+
+    it.skipIf(record.alg !== 'AES-256-GCM' || record.fields !== undefined)('should decrypt in the browser', async () => {
+      expect(await openPayloadInBrowser(record, vector.draws[1])).toEqual(vector.plaintext);
+    });
+
+    it.skipIf(record.alg !== 'AES-256-GCM' || record.fields !== undefined || vector.decryptOnly)('should seal the same payload in the browser', async () => {
+      const draws = vector.draws.slice(1, 3).map((hex) => new Uint8Array(bytes(hex)));
+      const { sealed, dek } = await sealPayloadInBrowser(record.partyId, vector.plaintext, record.id, () => draws.shift()!);
+
+      expect(dek).toBe(vector.draws[1]);
+      expect(sealed).toEqual({
+        id: record.id,
+        partyId: record.partyId,
+        alg: record.alg,
+        payload_nonce: record.payload_nonce,
+        payload_ct: record.payload_ct,
+        payload_tag: record.payload_tag
+      });
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { TxSecureRecord } from './types.js';
+
+/**
+ * Record format written by this version of the library.
+ *
+ * 1 (or absent): no additional authenticated data
+ * 2: record metadata bound as AES-GCM AAD for the payload and the DEK wrap
+ */
+export const CURRENT_FORMAT_VERSION = 2;
+
+/**
+ * Record metadata bound into the ciphertexts.
+ */
+export type AadContext = Pick<TxSecureRecord, 'id' | 'partyId' | 'alg'>;
+
+/**
+ * Whether a record was written with AAD.
+ */
+export function usesAAD(record: Partial<Pick<TxSecureRecord, 'format_version'>>): boolean {
+  return (record.format_version ?? 1) >= 2;
+}
+
+/**
+ * AAD for the payload ciphertext: binds id, partyId and alg.
+ *
+ * mk_version is deliberately NOT bound here, unlike in dekWrapAAD: key
+ * rotation changes it, and rotation must be able to re-wrap the DEK without
+ * re-encrypting the payload (see "Binding metadata" in the README). The
+ * payload is still tied to mk_version indirectly, because its DEK can only
+ * be recovered from a wrap that binds mk_version.
+ */
+export function payloadAAD(context: AadContext): Buffer {
+  // A JSON array keeps field boundaries unambiguous
+  return Buffer.from(JSON.stringify(['mirfa/payload/v2', context.id, context.partyId, context.alg]), 'utf8');
+}
+
+/**
+ * AAD for the wrapped DEK: binds id, partyId, alg and mk_version, so a
+ * wrapped DEK cannot be moved onto another record or relabelled.
+ * DEKs wrapped by a party KEK also bind kek_version, under their own tag.
+ */
+export function dekWrapAAD(context: AadContext & Pick<TxSecureRecord, 'mk_version'> & Partial<Pick<TxSecureRecord, 'kek_version'>>): Buffer {
+  const { id, partyId, alg, mk_version, kek_version } = context;
+  const fields = kek_version === undefined
+    ? ['mirfa/dek/v2', id, partyId, alg, mk_version]
+    : ['mirfa/dek-kek/v1', id, partyId, alg, mk_version, kek_version];
+  return Buffer.from(JSON.stringify(fields), 'utf8');
+}
+
+/**
+ * AAD for every chunk of a streamed record's content: binds id, partyId and
+ * alg, so stored content cannot be swapped between records.
+ */
+export function streamAAD(context: AadContext): Buffer {
+  return Buffer.from(JSON.stringify(['mirfa/stream/v1', context.id, context.partyId, context.alg]), 'utf8');
+}
+
+/**
+ * AAD for one encrypted field of a field-level record: binds id, partyId,
+ * alg and the field name, so field ciphertexts cannot be swapped or renamed.
+ */
+export function fieldAAD(context: AadContext, name: string): Buffer {
+  return Buffer.from(JSON.stringify(['mirfa/field/v1', context.id, context.partyId, context.alg, name]), 'utf8');
+}
+
+/**
+ * Reads the AAD context from a record, failing clearly if a field is missing.
+ */
+export function aadContextOf(record: Partial<AadContext>): AadContext {
+  const { id, partyId, alg } = record;
+  if (typeof id !== 'string' || typeof partyId !== 'string' || typeof alg !== 'string') {
+    throw new Error('id, partyId and alg are required to authenticate a format 2 record');
+  }
+  return { id, partyId, alg: alg as AadContext['alg'] };
+}
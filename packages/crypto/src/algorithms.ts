@@ -0,0 +1,105 @@
+import crypto from 'node:crypto';
+import { gcmsiv } from '@noble/ciphers/aes.js';
+
+// ============================================================================
+// ALGORITHM REGISTRY
+// ============================================================================
+// Every AEAD a record can name in `alg`. The same algorithm encrypts the
+// payload and wraps the DEK, and decryption dispatches on the record's `alg`,
+// so records written under different algorithms can live side by side.
+//
+// All registered algorithms take a 32-byte key and a 12-byte nonce and
+// produce a 16-byte tag, so the record layout is the same for each.
+//
+// AES-256-GCM-SIV is not available in Node's OpenSSL build and comes from
+// @noble/ciphers. It is nonce-misuse resistant: a repeated nonce only reveals
+// whether two plaintexts are equal, instead of breaking confidentiality.
+
+export const SUPPORTED_ALGORITHMS = ['AES-256-GCM', 'CHACHA20-POLY1305', 'AES-256-GCM-SIV'] as const;
+
+export type AlgorithmId = typeof SUPPORTED_ALGORITHMS[number];
+
+export const DEFAULT_ALGORITHM: AlgorithmId = 'AES-256-GCM';
+
+export interface AeadAlgorithm {
+  id: AlgorithmId;
+  keyLength: number;
+  nonceLength: number;
+  tagLength: number;
+  seal(key: Buffer, nonce: Buffer, plaintext: Buffer, aad?: Buffer): { ciphertext: Buffer; tag: Buffer };
+  /** Throws if the tag does not verify. */
+  open(key: Buffer, nonce: Buffer, ciphertext: Buffer, tag: Buffer, aad?: Buffer): Buffer;
+}
+
+const TAG_LENGTH = 16;
+
+/**
+ * An AEAD implemented by Node's crypto module.
+ * Both default to a 16-byte tag.
+ */
+function nodeAead(id: AlgorithmId, cipherName: 'aes-256-gcm' | 'chacha20-poly1305'): AeadAlgorithm {
+  return {
+    id,
+    keyLength: 32,
+    nonceLength: 12,
+    tagLength: TAG_LENGTH,
+    seal(key, nonce, plaintext, aad) {
+      const cipher = crypto.createCipheriv(cipherName, key, nonce) as crypto.CipherGCM;
+      if (aad) {
+        cipher.setAAD(aad);
+      }
+      const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+      return { ciphertext, tag: cipher.getAuthTag() };
+    },
+    open(key, nonce, ciphertext, tag, aad) {
+      // Node would otherwise accept a truncated GCM tag
+      if (tag.length !== TAG_LENGTH) {
+        throw new Error(`Invalid tag length: expected ${TAG_LENGTH} bytes`);
+      }
+      const decipher = crypto.createDecipheriv(cipherName, key, nonce) as crypto.DecipherGCM;
+      decipher.setAuthTag(tag);
+      if (aad) {
+        decipher.setAAD(aad);
+      }
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    }
+  };
+}
+
+const aesGcmSiv: AeadAlgorithm = {
+  id: 'AES-256-GCM-SIV',
+  keyLength: 32,
+  nonceLength: 12,
+  tagLength: TAG_LENGTH,
+  seal(key, nonce, plaintext, aad) {
+    // @noble/ciphers appends the tag to the ciphertext
+    const sealed = Buffer.from(gcmsiv(key, nonce, aad).encrypt(plaintext));
+    return { ciphertext: sealed.subarray(0, sealed.length - TAG_LENGTH), tag: sealed.subarray(sealed.length - TAG_LENGTH) };
+  },
+  open(key, nonce, ciphertext, tag, aad) {
+    return Buffer.from(gcmsiv(key, nonce, aad).decrypt(Buffer.concat([ciphertext, tag])));
+  }
+};
+
+const registry: ReadonlyMap<AlgorithmId, AeadAlgorithm> = new Map([
+  ['AES-256-GCM', nodeAead('AES-256-GCM', 'aes-256-gcm')],
+  ['CHACHA20-POLY1305', nodeAead('CHACHA20-POLY1305', 'chacha20-poly1305')],
+  ['AES-256-GCM-SIV', aesGcmSiv]
+]);
+
+/**
+ * Whether a value names a registered algorithm.
+ */
+export function isSupportedAlgorithm(alg: unknown): alg is AlgorithmId {
+  return typeof alg === 'string' && registry.has(alg as AlgorithmId);
+}
+
+/**
+ * Looks up an algorithm by the name stored in `record.alg`.
+ */
+export function getAlgorithm(alg: string): AeadAlgorithm {
+  if (!isSupportedAlgorithm(alg)) {
+    throw new Error(`Unsupported algorithm "${alg}": expected one of ${SUPPORTED_ALGORITHMS.join(', ')}`);
+  }
+  return registry.get(alg)!;
+}
@@ -0,0 +1,82 @@
+import crypto from 'node:crypto';
+import { TxBlindIndex } from './types.js';
+import { Keyring, getActiveMasterKey } from './keyring.js';
+import { validateFieldNames } from './fields.js';
+
+// ============================================================================
+// BLIND INDEXES
+// ============================================================================
+// Deterministic tokens that let the server find records by an exact field
+// value without decrypting anything. Each token is an HMAC-SHA256 of the
+// party and the value, keyed per field with a subkey of a master key.
+//
+// Equal values in the same field of the same party always give equal tokens;
+// that equality is exactly what a search needs, and exactly what the index
+// leaks to anyone who can read the store.
+
+/**
+ * Field values that can be indexed. Objects and arrays have no single
+ * canonical form to match on, so they are refused.
+ */
+export type SearchableValue = string | number | boolean | null;
+
+/**
+ * HMAC key for one field: HKDF-SHA256 of a master key, with the field name as info.
+ */
+export function deriveBlindIndexKey(masterKey: Buffer, field: string): Buffer {
+  const info = Buffer.from(JSON.stringify(['mirfa/blind-index/v1', field]), 'utf8');
+  return Buffer.from(crypto.hkdfSync('sha256', masterKey, Buffer.alloc(0), info, 32));
+}
+
+/**
+ * Whether a value can be indexed.
+ */
+export function isSearchableValue(value: unknown): value is SearchableValue {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/**
+ * Token for one value of one field. The partyId is part of the MAC input,
+ * so the same value gives unrelated tokens for different parties.
+ */
+export function computeBlindIndexToken(masterKey: Buffer, partyId: string, field: string, value: SearchableValue): string {
+  return crypto
+    .createHmac('sha256', deriveBlindIndexKey(masterKey, field))
+    .update(JSON.stringify([partyId, value]), 'utf8')
+    .digest('hex');
+}
+
+/**
+ * Checks a list of searchable field names against the payload: they follow
+ * the rules for encrypted field names, and every value must be a scalar.
+ */
+export function validateSearchableFields(payload: unknown, names: unknown): void {
+  const object = validateFieldNames(payload, names, 'searchable', 'make fields searchable');
+  for (const name of names as string[]) {
+    if (!isSearchableValue(object[name])) {
+      throw new Error(`Field "${name}" must be a string, number, boolean or null to be searchable`);
+    }
+  }
+}
+
+/**
+ * Builds a record's blind index under the keyring's active master key.
+ */
+export function createBlindIndex(partyId: string, payload: unknown, fields: string[], keyring: Keyring): TxBlindIndex {
+  validateSearchableFields(payload, fields);
+  const { version, key } = getActiveMasterKey(keyring);
+  const values = payload as Record<string, SearchableValue>;
+
+  return {
+    mk_version: version,
+    tokens: Object.fromEntries(fields.map((field) => [field, computeBlindIndexToken(key, partyId, field, values[field])]))
+  };
+}
+
+/**
+ * Every token a stored record could hold for this value: one per master
+ * key version, so records indexed before a rotation are still found.
+ */
+export function blindIndexTokens(keyring: Keyring, partyId: string, field: string, value: SearchableValue): string[] {
+  return [...keyring.keys.values()].map((key) => computeBlindIndexToken(key, partyId, field, value));
+}
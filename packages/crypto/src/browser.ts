@@ -0,0 +1,137 @@
+import type { SealedPayload, TxSecureRecord } from './types.js';
+
+// ============================================================================
+// BROWSER ENCRYPTION (WebCrypto)
+// ============================================================================
+// Encrypts and decrypts payloads where they are used, so plaintext never
+// reaches the API: the server only wraps and unwraps the DEK (POST /tx/wrap,
+// POST /tx/:id/unwrap). Only WebCrypto is used and nothing else from this
+// package is imported at runtime, so browsers can load it on its own as
+// '@mirfa/crypto/browser'.
+//
+// The output is exactly what encryptPayload writes for a format 2 record
+// (same AAD, nonce length and hex encoding), so decryptPayload opens it and
+// the other way round. WebCrypto has no ChaCha20-Poly1305 or AES-GCM-SIV,
+// so only AES-256-GCM records can be sealed or opened here.
+
+export const BROWSER_ALGORITHM = 'AES-256-GCM';
+
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Fields of a record needed to open its payload.
+ */
+export type BrowserOpenable = Pick<TxSecureRecord, 'id' | 'partyId' | 'alg' | 'payload_nonce' | 'payload_ct' | 'payload_tag'> &
+  Partial<Pick<TxSecureRecord, 'format_version' | 'fields' | 'stream'>>;
+
+/**
+ * Fills `length` bytes; getRandomValues unless a test vector replays fixed bytes.
+ */
+export type BrowserRandomSource = (length: number) => Uint8Array;
+
+const browserRandom: BrowserRandomSource = (length) => globalThis.crypto.getRandomValues(new Uint8Array(length));
+
+function subtle() {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('WebCrypto is not available (a secure context is required)');
+  }
+  return globalThis.crypto.subtle;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string, field: string, byteLength?: number): Uint8Array<ArrayBuffer> {
+  if (!/^([0-9a-fA-F]{2})*$/.test(hex) || (byteLength !== undefined && hex.length !== byteLength * 2)) {
+    throw new Error(`Invalid hex string for ${field}`);
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Same bytes as payloadAAD in aad.ts, which cannot be imported here (Buffer).
+ */
+function payloadAAD(id: string, partyId: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify(['mirfa/payload/v2', id, partyId, BROWSER_ALGORITHM]));
+}
+
+function importDEK(dek: Uint8Array<ArrayBuffer>, usage: 'encrypt' | 'decrypt') {
+  return subtle().importKey('raw', dek, 'AES-GCM', false, [usage]);
+}
+
+/**
+ * Encrypts a payload under a new DEK. Send `sealed` and `dek` (hex) to
+ * POST /tx/wrap, then drop `dek`: only the wrapped copy should remain.
+ * `random` is for the known-answer test vectors only.
+ */
+export async function sealPayloadInBrowser(
+  partyId: string,
+  payload: unknown,
+  id: string = globalThis.crypto.randomUUID(),
+  random: BrowserRandomSource = browserRandom
+): Promise<{ sealed: SealedPayload; dek: string }> {
+  const json = JSON.stringify(payload);
+  if (json === undefined) {
+    throw new Error('payload must be a JSON value');
+  }
+
+  const dek = Uint8Array.from(random(KEY_LENGTH));
+  const nonce = Uint8Array.from(random(NONCE_LENGTH));
+  const sealed = new Uint8Array(await subtle().encrypt(
+    { name: 'AES-GCM', iv: nonce, additionalData: payloadAAD(id, partyId), tagLength: TAG_LENGTH * 8 },
+    await importDEK(dek, 'encrypt'),
+    new TextEncoder().encode(json)
+  ));
+
+  // WebCrypto appends the tag to the ciphertext; records keep them apart
+  return {
+    sealed: {
+      id,
+      partyId,
+      alg: BROWSER_ALGORITHM,
+      payload_nonce: toHex(nonce),
+      payload_ct: toHex(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+      payload_tag: toHex(sealed.subarray(sealed.length - TAG_LENGTH))
+    },
+    dek: toHex(dek)
+  };
+}
+
+/**
+ * Decrypts a record's payload with its DEK (hex, from POST /tx/:id/unwrap).
+ * Field-level and streamed records are not supported.
+ */
+export async function openPayloadInBrowser(record: BrowserOpenable, dek: string): Promise<unknown> {
+  if (record.alg !== BROWSER_ALGORITHM) {
+    throw new Error(`Only ${BROWSER_ALGORITHM} records can be decrypted in the browser`);
+  }
+  if (record.fields || record.stream) {
+    throw new Error('Field-level and streamed records can only be decrypted by the server');
+  }
+
+  const key = await importDEK(fromHex(dek, 'dek', KEY_LENGTH), 'decrypt');
+  const nonce = fromHex(record.payload_nonce, 'payload_nonce', NONCE_LENGTH);
+  const ct = fromHex(record.payload_ct, 'payload_ct');
+  const tag = fromHex(record.payload_tag, 'payload_tag', TAG_LENGTH);
+  const sealed = new Uint8Array(ct.length + tag.length);
+  sealed.set(ct);
+  sealed.set(tag, ct.length);
+
+  // Format 1 records were written without AAD
+  const aad = (record.format_version ?? 1) >= 2 ? { additionalData: payloadAAD(record.id, record.partyId) } : {};
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await subtle().decrypt({ name: 'AES-GCM', iv: nonce, tagLength: TAG_LENGTH * 8, ...aad }, key, sealed);
+  } catch (err) {
+    throw new Error('Failed to decrypt payload: potential tampering or invalid DEK');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
@@ -0,0 +1,198 @@
+import crypto from 'node:crypto';
+import { TxSecureRecord } from './types.js';
+import { AlgorithmId, DEFAULT_ALGORITHM, getAlgorithm, isSupportedAlgorithm } from './algorithms.js';
+import { parseRecord } from './schema.js';
+
+// ============================================================================
+// EXPORT BUNDLES
+// ============================================================================
+// A bundle carries stored records from one vault to another. Records are
+// already encrypted, but their metadata (parties, clear fields, blind index
+// tokens, wrapped DEKs) is not, so the whole set is sealed again under a
+// bundle key shared by both environments.
+//
+// The manifest stays readable so an operator can see what a bundle holds
+// before importing it. It is bound to the ciphertext as AAD and covered by
+// an HMAC-SHA256 signature, and its count, key versions and digest are
+// checked against the records once they are decrypted. Anyone holding the
+// bundle key can produce a valid signature; it proves the bundle came from
+// an environment trusted with that key, not from one in particular.
+
+export const BUNDLE_VERSION = 1;
+
+export interface TxBundleManifest {
+  bundle_version: number;
+  createdAt: string;
+  /** Number of records in the bundle. */
+  count: number;
+  /** Distinct master key versions that wrapped the records' DEKs, ascending. */
+  mk_versions: number[];
+  /** SHA-256 of the records as JSON lines, hex. */
+  digest: string;
+}
+
+export interface TxBundle {
+  manifest: TxBundleManifest;
+  alg: AlgorithmId;
+  nonce: string;
+  ct: string;
+  tag: string;
+  /** HMAC-SHA256 over the manifest, alg, nonce, ciphertext and tag, hex. */
+  signature: string;
+}
+
+/**
+ * Encryption and signing subkeys of a bundle key (HKDF-SHA256).
+ */
+function deriveBundleKeys(bundleKey: Buffer): { enc: Buffer; mac: Buffer } {
+  const derive = (purpose: string) => Buffer.from(crypto.hkdfSync(
+    'sha256', bundleKey, Buffer.alloc(0), Buffer.from(JSON.stringify(['mirfa/bundle/v1', purpose]), 'utf8'), 32
+  ));
+  return { enc: derive('enc'), mac: derive('mac') };
+}
+
+/**
+ * Fixed-order encoding of the manifest, so the AAD and signature do not
+ * depend on how the JSON was written.
+ */
+function manifestAAD(manifest: TxBundleManifest): Buffer {
+  const { bundle_version, createdAt, count, mk_versions, digest } = manifest;
+  return Buffer.from(JSON.stringify([bundle_version, createdAt, count, mk_versions, digest]), 'utf8');
+}
+
+function signBundle(mac: Buffer, bundle: Omit<TxBundle, 'signature'>): Buffer {
+  return crypto
+    .createHmac('sha256', mac)
+    .update(JSON.stringify([manifestAAD(bundle.manifest).toString('utf8'), bundle.alg, bundle.nonce, bundle.ct, bundle.tag]), 'utf8')
+    .digest();
+}
+
+function describeRecords(records: TxSecureRecord[]): { lines: Buffer; mk_versions: number[] } {
+  const lines = Buffer.from(records.map((record) => JSON.stringify(record) + '\n').join(''), 'utf8');
+  const mk_versions = [...new Set(records.map((record) => record.mk_version))].sort((a, b) => a - b);
+  return { lines, mk_versions };
+}
+
+function sha256Hex(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Seals records into a signed bundle. `bundleKey` must be 32 bytes.
+ */
+export function createBundle(records: TxSecureRecord[], bundleKey: Buffer, now: Date = new Date()): TxBundle {
+  if (bundleKey.length !== 32) {
+    throw new Error('Bundle key must be 32 bytes');
+  }
+  const { enc, mac } = deriveBundleKeys(bundleKey);
+  const { lines, mk_versions } = describeRecords(records);
+
+  const manifest: TxBundleManifest = {
+    bundle_version: BUNDLE_VERSION,
+    createdAt: now.toISOString(),
+    count: records.length,
+    mk_versions,
+    digest: sha256Hex(lines)
+  };
+
+  const algorithm = getAlgorithm(DEFAULT_ALGORITHM);
+  const nonce = crypto.randomBytes(algorithm.nonceLength);
+  const { ciphertext, tag } = algorithm.seal(enc, nonce, lines, manifestAAD(manifest));
+
+  const unsigned = {
+    manifest,
+    alg: algorithm.id,
+    nonce: nonce.toString('hex'),
+    ct: ciphertext.toString('hex'),
+    tag: tag.toString('hex')
+  };
+  return { ...unsigned, signature: signBundle(mac, unsigned).toString('hex') };
+}
+
+function isHex(value: unknown): value is string {
+  return typeof value === 'string' && /^([0-9a-fA-F]{2})*$/.test(value);
+}
+
+/**
+ * Checks the shape of an untrusted bundle. Throws naming the first bad part.
+ */
+function parseBundle(input: unknown): TxBundle {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Invalid bundle: must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+  const manifest = raw.manifest as Record<string, unknown> | undefined;
+
+  if (!manifest || typeof manifest !== 'object') {
+    throw new Error('Invalid bundle: manifest is missing');
+  }
+  if (manifest.bundle_version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: expected ${BUNDLE_VERSION}`);
+  }
+  if (typeof manifest.createdAt !== 'string'
+    || typeof manifest.count !== 'number' || !Number.isInteger(manifest.count) || manifest.count < 0
+    || !Array.isArray(manifest.mk_versions) || !manifest.mk_versions.every((version) => Number.isInteger(version))
+    || !isHex(manifest.digest) || manifest.digest.length !== 64) {
+    throw new Error('Invalid bundle: manifest is malformed');
+  }
+  if (!isSupportedAlgorithm(raw.alg)) {
+    throw new Error('Invalid bundle: alg is not supported');
+  }
+  for (const field of ['nonce', 'ct', 'tag', 'signature']) {
+    if (!isHex(raw[field])) {
+      throw new Error(`Invalid bundle: ${field} must be a hex string`);
+    }
+  }
+  return raw as unknown as TxBundle;
+}
+
+/**
+ * Verifies and decrypts a bundle. Fails on a wrong key or any change to the
+ * bundle, and when the records do not match the manifest (e.g. truncation).
+ * Every record is validated with parseRecord.
+ */
+export function openBundle(input: unknown, bundleKey: Buffer): { manifest: TxBundleManifest; records: TxSecureRecord[] } {
+  if (bundleKey.length !== 32) {
+    throw new Error('Bundle key must be 32 bytes');
+  }
+  const bundle = parseBundle(input);
+  const { enc, mac } = deriveBundleKeys(bundleKey);
+
+  // Signature first: nothing else is trusted until it verifies
+  const expected = signBundle(mac, bundle);
+  const signature = Buffer.from(bundle.signature, 'hex');
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+    throw new Error('Bundle signature does not verify (wrong bundle key or modified bundle)');
+  }
+
+  const algorithm = getAlgorithm(bundle.alg);
+  let lines: Buffer;
+  try {
+    lines = algorithm.open(enc, Buffer.from(bundle.nonce, 'hex'), Buffer.from(bundle.ct, 'hex'), Buffer.from(bundle.tag, 'hex'), manifestAAD(bundle.manifest));
+  } catch (err) {
+    throw new Error('Bundle contents do not decrypt');
+  }
+
+  if (sha256Hex(lines) !== bundle.manifest.digest.toLowerCase()) {
+    throw new Error('Bundle digest does not match its contents');
+  }
+
+  const text = lines.toString('utf8');
+  const records = (text === '' ? [] : text.replace(/\n$/, '').split('\n')).map((line, index) => {
+    try {
+      return parseRecord(JSON.parse(line));
+    } catch (err: any) {
+      throw new Error(`Bundle record ${index + 1}: ${err.message}`);
+    }
+  });
+
+  const { mk_versions } = describeRecords(records);
+  if (records.length !== bundle.manifest.count) {
+    throw new Error(`Bundle holds ${records.length} records but its manifest lists ${bundle.manifest.count}`);
+  }
+  if (JSON.stringify(mk_versions) !== JSON.stringify(bundle.manifest.mk_versions)) {
+    throw new Error('Bundle key versions do not match its manifest');
+  }
+
+  return { manifest: bundle.manifest, records };
+}
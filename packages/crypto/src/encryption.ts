@@ -1,11 +1,50 @@
 import crypto from 'node:crypto';
-import { TxSecureRecord } from './types.js';
+import { SealedPayload, TxSecureRecord } from './types.js';
+import { Keyring, MasterKeyInput, getActiveMasterKey, getMasterKey, keyringKeyId } from './keyring.js';
+import { KeyProvider, WrappedDEK } from './providers/types.js';
+import { AadContext, CURRENT_FORMAT_VERSION, aadContextOf, dekWrapAAD, payloadAAD, usesAAD } from './aad.js';
+import { AlgorithmId, DEFAULT_ALGORITHM, getAlgorithm } from './algorithms.js';
+import { FieldManifest, decryptField, encryptField, isPlainObject, validateFieldNames } from './fields.js';
+import { PartyKey, derivePartyKEK } from './party-keys.js';
+import { IntegrityError } from './errors.js';
+import { RandomSource, randomUUIDFrom, systemRandom } from './random.js';
 
-const ALG = 'aes-256-gcm';
-const NONCE_LENGTH = 12;
-const TAG_LENGTH = 16;
 const KEY_LENGTH = 32;
 
+/** Items encryptEnvelopeBatch accepts at once unless told otherwise. */
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+/**
+ * Record metadata the decrypt side needs to rebuild the AAD.
+ * Only required for format 2 records.
+ */
+type RecordContext = Partial<Pick<TxSecureRecord, 'id' | 'partyId' | 'alg' | 'mk_version' | 'kek_version' | 'format_version'>>;
+
+/**
+ * Options for building a new record.
+ */
+export interface EnvelopeOptions {
+  /** Algorithm for the payload and the DEK wrap (see algorithms.ts). */
+  alg?: AlgorithmId;
+  /**
+   * Top-level payload fields to encrypt individually (see fields.ts).
+   * All other fields are stored in the record's `clear` object.
+   */
+  fields?: string[];
+}
+
+/**
+ * Options for encryptEnvelope, which wraps the DEK itself.
+ */
+export interface LocalEnvelopeOptions extends EnvelopeOptions {
+  /** Wraps the DEK with this party's KEK (see party-keys.ts) instead of the Master Key directly. */
+  partyKey?: PartyKey;
+  /** Test vectors only (see random.ts): source of the record ID, DEK and nonces. */
+  random?: RandomSource;
+  /** Test vectors only: the record's createdAt. */
+  now?: Date;
+}
+
 /**
  * Validates that the input is a valid hex string of a specific byte length.
  */
@@ -21,40 +60,38 @@ function validateHex(hex: string, expectedByteLength: number, fieldName: string)
 /**
  * Generates a 32-byte Data Encryption Key (DEK).
  */
-export function generateDEK(): Buffer {
-  return crypto.randomBytes(KEY_LENGTH);
+export function generateDEK(random: RandomSource = systemRandom): Buffer {
+  return random(KEY_LENGTH);
 }
 
 /**
- * Encrypts a payload using a DEK with AES-256-GCM.
+ * Encrypts a payload using a DEK (AES-256-GCM unless `alg` says otherwise).
+ * Pass `aad` (see payloadAAD) to bind record metadata to the ciphertext.
  */
-export function encryptPayload(payload: unknown, dek: Buffer) {
+export function encryptPayload(payload: unknown, dek: Buffer, aad?: Buffer, alg: AlgorithmId = DEFAULT_ALGORITHM, random: RandomSource = systemRandom) {
+  const algorithm = getAlgorithm(alg);
   const jsonPayload = JSON.stringify(payload);
-  const nonce = crypto.randomBytes(NONCE_LENGTH);
-  const cipher = crypto.createCipheriv(ALG, dek, nonce);
-  
-  const encrypted = Buffer.concat([cipher.update(jsonPayload, 'utf8'), cipher.final()]);
-  const tag = cipher.getAuthTag();
+  const nonce = random(algorithm.nonceLength);
+  const { ciphertext, tag } = algorithm.seal(dek, nonce, Buffer.from(jsonPayload, 'utf8'), aad);
 
   return {
     payload_nonce: nonce.toString('hex'),
-    payload_ct: encrypted.toString('hex'),
+    payload_ct: ciphertext.toString('hex'),
     payload_tag: tag.toString('hex')
   };
 }
 
 /**
- * Wraps (encrypts) a DEK using a Master Key (MK).
+ * Wraps (encrypts) a DEK using a Master Key (MK), with the record's algorithm.
+ * Pass `aad` (see dekWrapAAD) to bind record metadata to the wrapped DEK.
  */
-export function wrapDEK(dek: Buffer, masterKey: Buffer) {
+export function wrapDEK(dek: Buffer, masterKey: Buffer, aad?: Buffer, alg: AlgorithmId = DEFAULT_ALGORITHM, random: RandomSource = systemRandom) {
   if (masterKey.length !== KEY_LENGTH) {
     throw new Error(`Invalid Master Key length: expected ${KEY_LENGTH} bytes`);
   }
-  const nonce = crypto.randomBytes(NONCE_LENGTH);
-  const cipher = crypto.createCipheriv(ALG, masterKey, nonce);
-  
-  const wrapped = Buffer.concat([cipher.update(dek), cipher.final()]);
-  const tag = cipher.getAuthTag();
+  const algorithm = getAlgorithm(alg);
+  const nonce = random(algorithm.nonceLength);
+  const { ciphertext: wrapped, tag } = algorithm.seal(masterKey, nonce, dek, aad);
 
   return {
     dek_wrap_nonce: nonce.toString('hex'),
@@ -63,15 +100,46 @@ export function wrapDEK(dek: Buffer, masterKey: Buffer) {
   };
 }
 
+/**
+ * KEK for a record wrapped by a party key: the record's kek_version must
+ * name `partyKey`.
+ */
+function partyKEKFor(record: RecordContext, masterKey: Buffer, partyKey: PartyKey | undefined): Buffer {
+  if (!partyKey || partyKey.partyId !== record.partyId || partyKey.version !== record.kek_version) {
+    throw new Error(`Party key version ${record.kek_version} of ${record.partyId} is required to unwrap this DEK`);
+  }
+  return derivePartyKEK(masterKey, partyKey);
+}
+
 /**
  * Unwraps (decrypts) a DEK using a Master Key (MK).
+ * When given a keyring, the key is selected by the record's mk_version.
+ * The algorithm is read from record.alg (AES-256-GCM when absent).
+ * Format 2 records are authenticated against their id, partyId, alg and mk_version.
+ * Records with a kek_version also need the matching party key.
  */
-export function unwrapDEK(record: Pick<TxSecureRecord, 'dek_wrap_nonce' | 'dek_wrapped' | 'dek_wrap_tag'>, masterKey: Buffer): Buffer {
+export function unwrapDEK(
+  record: Pick<TxSecureRecord, 'dek_wrap_nonce' | 'dek_wrapped' | 'dek_wrap_tag'> & RecordContext,
+  masterKeyInput: MasterKeyInput,
+  partyKey?: PartyKey
+): Buffer {
+  let masterKey: Buffer;
+  if (Buffer.isBuffer(masterKeyInput)) {
+    masterKey = masterKeyInput;
+  } else {
+    if (record.mk_version === undefined) {
+      throw new Error('mk_version is required to select a key from the keyring');
+    }
+    masterKey = getMasterKey(masterKeyInput, record.mk_version);
+  }
+
   if (masterKey.length !== KEY_LENGTH) {
     throw new Error(`Invalid Master Key length: expected ${KEY_LENGTH} bytes`);
   }
-  validateHex(record.dek_wrap_nonce, NONCE_LENGTH, 'dek_wrap_nonce');
-  validateHex(record.dek_wrap_tag, TAG_LENGTH, 'dek_wrap_tag');
+  const wrappingKey = record.kek_version === undefined ? masterKey : partyKEKFor(record, masterKey, partyKey);
+  const algorithm = getAlgorithm(record.alg ?? DEFAULT_ALGORITHM);
+  validateHex(record.dek_wrap_nonce, algorithm.nonceLength, 'dek_wrap_nonce');
+  validateHex(record.dek_wrap_tag, algorithm.tagLength, 'dek_wrap_tag');
   
   if (!/^[0-9a-fA-F]+$/.test(record.dek_wrapped)) {
     throw new Error(`Invalid hex string for dek_wrapped`);
@@ -81,22 +149,29 @@ export function unwrapDEK(record: Pick<TxSecureRecord, 'dek_wrap_nonce' | 'dek_w
   const tag = Buffer.from(record.dek_wrap_tag, 'hex');
   const encryptedDEK = Buffer.from(record.dek_wrapped, 'hex');
 
-  const decipher = crypto.createDecipheriv(ALG, masterKey, nonce);
-  decipher.setAuthTag(tag);
+  let aad: Buffer | undefined;
+  if (usesAAD(record)) {
+    if (record.mk_version === undefined) {
+      throw new Error('mk_version is required to authenticate a format 2 record');
+    }
+    aad = dekWrapAAD({ ...aadContextOf(record), mk_version: record.mk_version, kek_version: record.kek_version });
+  }
 
   try {
-    return Buffer.concat([decipher.update(encryptedDEK), decipher.final()]);
+    return algorithm.open(wrappingKey, nonce, encryptedDEK, tag, aad);
   } catch (err) {
-    throw new Error('Failed to unwrap DEK: potential tampering or invalid Master Key');
+    throw new IntegrityError('Failed to unwrap DEK: potential tampering or invalid Master Key');
   }
 }
 
 /**
- * Decrypts a payload using a DEK.
+ * Decrypts a payload using a DEK, with the algorithm named by record.alg.
+ * Format 2 records are authenticated against their id, partyId and alg.
  */
-export function decryptPayload(record: Pick<TxSecureRecord, 'payload_nonce' | 'payload_ct' | 'payload_tag'>, dek: Buffer): unknown {
-  validateHex(record.payload_nonce, NONCE_LENGTH, 'payload_nonce');
-  validateHex(record.payload_tag, TAG_LENGTH, 'payload_tag');
+export function decryptPayload(record: Pick<TxSecureRecord, 'payload_nonce' | 'payload_ct' | 'payload_tag'> & RecordContext, dek: Buffer): unknown {
+  const algorithm = getAlgorithm(record.alg ?? DEFAULT_ALGORITHM);
+  validateHex(record.payload_nonce, algorithm.nonceLength, 'payload_nonce');
+  validateHex(record.payload_tag, algorithm.tagLength, 'payload_tag');
 
   if (!/^[0-9a-fA-F]+$/.test(record.payload_ct)) {
     throw new Error(`Invalid hex string for payload_ct`);
@@ -106,30 +181,129 @@ export function decryptPayload(record: Pick<TxSecureRecord, 'payload_nonce' | 'p
   const tag = Buffer.from(record.payload_tag, 'hex');
   const ciphertext = Buffer.from(record.payload_ct, 'hex');
 
-  const decipher = crypto.createDecipheriv(ALG, dek, nonce);
-  decipher.setAuthTag(tag);
+  const aad = usesAAD(record) ? payloadAAD(aadContextOf(record)) : undefined;
 
   try {
-    const decrypted = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+    const decrypted = algorithm.open(dek, nonce, ciphertext, tag, aad);
     return JSON.parse(decrypted.toString('utf8'));
   } catch (err) {
-    throw new Error('Failed to decrypt payload: potential tampering or invalid DEK');
+    throw new IntegrityError('Failed to decrypt payload: potential tampering or invalid DEK');
   }
 }
 
+/**
+ * Encrypts a new record's payload: as one ciphertext, or field by field
+ * when `fields` is given.
+ */
+function sealPayload(payload: unknown, dek: Buffer, context: AadContext, fields?: string[], random: RandomSource = systemRandom) {
+  if (fields === undefined) {
+    return encryptPayload(payload, dek, payloadAAD(context), context.alg, random);
+  }
+  const object = validateFieldNames(payload, fields);
+
+  const clear = Object.fromEntries(Object.entries(object).filter(([name]) => !fields.includes(name)));
+  const manifest: FieldManifest = { clear, fields };
+
+  return {
+    ...encryptPayload(manifest, dek, payloadAAD(context), context.alg, random),
+    fields: Object.fromEntries(fields.map((name) => [name, encryptField(object[name], dek, context, name, random)])),
+    clear
+  };
+}
+
+/**
+ * Decrypts a record's payload, or only the named top-level fields of it.
+ *
+ * For field-level records only the requested encrypted fields are decrypted;
+ * the others are never touched. Names the payload does not have are left out.
+ * Clear values are taken from the authenticated manifest, not from `clear`.
+ */
+export function revealPayload(record: TxSecureRecord, dek: Buffer, fields?: string[]): unknown {
+  if (!record.fields) {
+    const payload = decryptPayload(record, dek);
+    if (fields === undefined) return payload;
+    return isPlainObject(payload)
+      ? Object.fromEntries(fields.filter((name) => Object.hasOwn(payload, name)).map((name) => [name, payload[name]]))
+      : {};
+  }
+
+  const encrypted = record.fields;
+  const manifest = decryptPayload(record, dek) as FieldManifest;
+  // Encrypted fields sit outside the authenticated payload: check none were added or removed
+  if (Object.keys(encrypted).length !== manifest.fields.length || manifest.fields.some((name) => !Object.hasOwn(encrypted, name))) {
+    throw new IntegrityError('Failed to decrypt payload: encrypted fields do not match the manifest');
+  }
+
+  const context = aadContextOf(record);
+  const names = fields ?? [...Object.keys(manifest.clear), ...manifest.fields];
+  const revealed: Array<[string, unknown]> = [];
+  for (const name of names) {
+    if (manifest.fields.includes(name)) {
+      revealed.push([name, decryptField(encrypted[name], dek, context, name)]);
+    } else if (Object.hasOwn(manifest.clear, name)) {
+      revealed.push([name, manifest.clear[name]]);
+    }
+  }
+  return Object.fromEntries(revealed);
+}
+
 /**
  * High-level function to perform envelope encryption.
+ * When given a keyring, the DEK is wrapped with the active Master Key.
  */
-export function encryptEnvelope(partyId: string, payload: unknown, masterKey: Buffer): TxSecureRecord {
+export function encryptEnvelope(partyId: string, payload: unknown, masterKeyInput: MasterKeyInput, options: LocalEnvelopeOptions = {}): TxSecureRecord {
+  const { version, key: masterKey } = Buffer.isBuffer(masterKeyInput)
+    ? { version: 1, key: masterKeyInput }
+    : getActiveMasterKey(masterKeyInput);
+
   if (masterKey.length !== KEY_LENGTH) {
     throw new Error(`Invalid Master Key length: expected ${KEY_LENGTH} bytes`);
   }
+  const { partyKey } = options;
+  if (partyKey && partyKey.partyId !== partyId) {
+    throw new Error(`Party key belongs to ${partyKey.partyId}, not ${partyId}`);
+  }
+  const random = options.random ?? systemRandom;
+  const id = randomUUIDFrom(random);
+  const createdAt = (options.now ?? new Date()).toISOString();
+  const context: AadContext = { id, partyId, alg: options.alg ?? DEFAULT_ALGORITHM };
+  
+  const dek = generateDEK(random);
+  const payloadEncryption = sealPayload(payload, dek, context, options.fields, random);
+  const wrappingKey = partyKey ? derivePartyKEK(masterKey, partyKey) : masterKey;
+  const dekWrapping = wrapDEK(dek, wrappingKey, dekWrapAAD({ ...context, mk_version: version, kek_version: partyKey?.version }), context.alg, random);
+
+  return {
+    id,
+    partyId,
+    createdAt,
+    ...payloadEncryption,
+    ...dekWrapping,
+    alg: context.alg,
+    mk_version: version,
+    ...(partyKey ? { kek_version: partyKey.version } : {}),
+    format_version: CURRENT_FORMAT_VERSION,
+    key_provider: 'local',
+    key_id: keyringKeyId(version)
+  };
+}
+
+/**
+ * Envelope encryption with the DEK wrapped by a key provider (local, file or KMS).
+ */
+export async function encryptEnvelopeWithProvider(
+  partyId: string,
+  payload: unknown,
+  provider: KeyProvider,
+  options: EnvelopeOptions = {}
+): Promise<TxSecureRecord> {
   const id = crypto.randomUUID();
   const createdAt = new Date().toISOString();
-  
+  const context: AadContext = { id, partyId, alg: options.alg ?? DEFAULT_ALGORITHM };
+
   const dek = generateDEK();
-  const payloadEncryption = encryptPayload(payload, dek);
-  const dekWrapping = wrapDEK(dek, masterKey);
+  const payloadEncryption = sealPayload(payload, dek, context, options.fields);
+  const dekWrapping = await provider.wrap(dek, context);
 
   return {
     id,
@@ -137,7 +311,175 @@ export function encryptEnvelope(partyId: string, payload: unknown, masterKey: Bu
     createdAt,
     ...payloadEncryption,
     ...dekWrapping,
-    alg: "AES-256-GCM",
-    mk_version: 1
+    alg: context.alg,
+    format_version: CURRENT_FORMAT_VERSION
   };
 }
+
+/**
+ * One payload of a batch (see encryptEnvelopeBatch).
+ */
+export interface BatchEncryptItem {
+  partyId: string;
+  payload: unknown;
+  /** As EnvelopeOptions.fields, per item. */
+  fields?: string[];
+}
+
+export interface BatchEncryptOptions {
+  /** Algorithm for every record of the batch. */
+  alg?: AlgorithmId;
+  /** Larger batches are refused as a whole. Defaults to DEFAULT_MAX_BATCH_SIZE. */
+  maxItems?: number;
+}
+
+/**
+ * Outcome for one item of a batch, in the order the items were given.
+ */
+export type BatchEncryptResult = { record: TxSecureRecord; error?: undefined } | { record?: undefined; error: string };
+
+/**
+ * Envelope encryption of many payloads, as encryptEnvelopeWithProvider does
+ * one by one. Providers with wrapBatch set up their key once for the whole
+ * batch (the local keyring resolves the active version once, so every record
+ * gets the same mk_version); others wrap each DEK in turn.
+ *
+ * An item that cannot be encrypted (e.g. invalid `fields`) fails on its own;
+ * the others are still encrypted. Only a batch over `maxItems` throws.
+ */
+export async function encryptEnvelopeBatch(
+  items: BatchEncryptItem[],
+  provider: KeyProvider,
+  options: BatchEncryptOptions = {}
+): Promise<BatchEncryptResult[]> {
+  const maxItems = options.maxItems ?? DEFAULT_MAX_BATCH_SIZE;
+  if (items.length > maxItems) {
+    throw new Error(`Batch too large: expected at most ${maxItems} items, got ${items.length}`);
+  }
+  const alg = options.alg ?? DEFAULT_ALGORITHM;
+
+  const results: BatchEncryptResult[] = new Array(items.length);
+
+  // Step 1: seal every payload under its own DEK
+  const pending: Array<{ index: number; context: AadContext; dek: Buffer; createdAt: string; payloadEncryption: ReturnType<typeof sealPayload> }> = [];
+  items.forEach((item, index) => {
+    const context: AadContext = { id: crypto.randomUUID(), partyId: item.partyId, alg };
+    const dek = generateDEK();
+    try {
+      pending.push({ index, context, dek, createdAt: new Date().toISOString(), payloadEncryption: sealPayload(item.payload, dek, context, item.fields) });
+    } catch (err: any) {
+      results[index] = { error: err.message };
+    }
+  });
+
+  // Step 2: wrap the DEKs of the payloads that sealed
+  let wrapped: Array<WrappedDEK | Error>;
+  if (provider.wrapBatch) {
+    try {
+      wrapped = await provider.wrapBatch(pending.map(({ dek, context }) => ({ dek, context })));
+    } catch (err: any) {
+      wrapped = pending.map(() => err);
+    }
+  } else {
+    const settled = await Promise.allSettled(pending.map(({ dek, context }) => provider.wrap(dek, context)));
+    wrapped = settled.map((outcome) => (outcome.status === 'fulfilled' ? outcome.value : outcome.reason));
+  }
+
+  pending.forEach(({ index, context, createdAt, payloadEncryption }, i) => {
+    const dekWrapping = wrapped[i];
+    results[index] = dekWrapping instanceof Error
+      ? { error: dekWrapping.message }
+      : {
+          record: {
+            id: context.id,
+            partyId: context.partyId,
+            createdAt,
+            ...payloadEncryption,
+            ...dekWrapping,
+            alg,
+            format_version: CURRENT_FORMAT_VERSION
+          }
+        };
+  });
+  return results;
+}
+
+/**
+ * Checks the shape of a payload encrypted elsewhere and of its DEK. The
+ * ciphertext itself cannot be checked without decrypting it.
+ */
+export function validateSealedPayload(sealed: SealedPayload, dek: Buffer) {
+  if (dek.length !== KEY_LENGTH) {
+    throw new Error(`Invalid DEK length: expected ${KEY_LENGTH} bytes`);
+  }
+  const algorithm = getAlgorithm(sealed.alg);
+  validateHex(sealed.payload_nonce, algorithm.nonceLength, 'payload_nonce');
+  validateHex(sealed.payload_tag, algorithm.tagLength, 'payload_tag');
+  if (!/^[0-9a-fA-F]+$/.test(sealed.payload_ct)) {
+    throw new Error(`Invalid hex string for payload_ct`);
+  }
+}
+
+/**
+ * Builds a record around a payload encrypted elsewhere (see browser.ts) by
+ * wrapping the DEK it was encrypted with. The payload is never decrypted, so
+ * a payload that does not match the DEK is only discovered when it is opened.
+ */
+export async function envelopeFromSealedPayload(sealed: SealedPayload, dek: Buffer, provider: KeyProvider): Promise<TxSecureRecord> {
+  validateSealedPayload(sealed, dek);
+
+  const context = aadContextOf(sealed);
+  return {
+    id: context.id,
+    partyId: context.partyId,
+    createdAt: new Date().toISOString(),
+    payload_nonce: sealed.payload_nonce.toLowerCase(),
+    payload_ct: sealed.payload_ct.toLowerCase(),
+    payload_tag: sealed.payload_tag.toLowerCase(),
+    ...(await provider.wrap(dek, context)),
+    alg: context.alg,
+    format_version: CURRENT_FORMAT_VERSION
+  };
+}
+
+/**
+ * A record with its DEK wrapping replaced. kek_version is dropped when the
+ * new wrapping has none: the Master Key then wraps the DEK directly.
+ */
+function withWrapping(record: TxSecureRecord, wrapping: WrappedDEK): TxSecureRecord {
+  const updated = { ...record, ...wrapping };
+  if (wrapping.kek_version === undefined) {
+    delete updated.kek_version;
+  }
+  return updated;
+}
+
+/**
+ * Re-wraps a record's DEK under the keyring's active Master Key.
+ * The encrypted payload and the record's format are left untouched.
+ * Records wrapped by a party KEK need their party key, and keep it.
+ */
+export function rewrapDEK(record: TxSecureRecord, keyring: Keyring, partyKey?: PartyKey): TxSecureRecord {
+  const dek = unwrapDEK(record, keyring, partyKey);
+  const { version, key } = getActiveMasterKey(keyring);
+  const kekVersion = record.kek_version;
+  const wrappingKey = kekVersion === undefined ? key : partyKEKFor(record, key, partyKey);
+  const aad = usesAAD(record) ? dekWrapAAD({ ...aadContextOf(record), mk_version: version, kek_version: kekVersion }) : undefined;
+
+  return {
+    ...record,
+    ...wrapDEK(dek, wrappingKey, aad, record.alg),
+    mk_version: version,
+    key_provider: 'local',
+    key_id: keyringKeyId(version)
+  };
+}
+
+/**
+ * Re-wraps a record's DEK from one key provider to another.
+ * The encrypted payload and the record's format are left untouched.
+ */
+export async function rewrapDEKWithProvider(record: TxSecureRecord, from: KeyProvider, to: KeyProvider): Promise<TxSecureRecord> {
+  const dek = await from.unwrap(record);
+  return withWrapping(record, await to.wrap(dek, usesAAD(record) ? aadContextOf(record) : undefined));
+}
@@ -0,0 +1,28 @@
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Ciphertext, a tag or a wrapped DEK did not authenticate: the record or
+ * stream was tampered with, truncated, moved to another record, or is read
+ * with the wrong key. Every other error from a decrypt (a missing key
+ * version, an unreachable KMS) says nothing about the data itself.
+ */
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * The party key version a DEK was wrapped under has been destroyed: its
+ * party was crypto-shredded, or the version retired after a re-key. The
+ * record can never be decrypted again, but nothing was tampered with.
+ */
+export class PartyKeyShreddedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PartyKeyShreddedError';
+  }
+}
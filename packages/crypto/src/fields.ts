@@ -0,0 +1,109 @@
+import crypto from 'node:crypto';
+import { TxEncryptedField } from './types.js';
+import { AadContext, fieldAAD } from './aad.js';
+import { getAlgorithm } from './algorithms.js';
+import { IntegrityError } from './errors.js';
+import { RandomSource, systemRandom } from './random.js';
+
+// ============================================================================
+// FIELD-LEVEL ENCRYPTION
+// ============================================================================
+// Instead of one ciphertext for the whole payload, chosen top-level fields
+// are each sealed under their own key, derived from the record's DEK and the
+// field name. A field can then be revealed without decrypting the others.
+//
+// The remaining fields stay in the record's `clear` object. The usual
+// payload_* ciphertext holds a manifest ({ clear, fields: [names] }), so
+// clear values and the set of encrypted fields are still authenticated.
+
+export const MAX_FIELD_NAME_LENGTH = 128;
+
+/**
+ * What the payload_* ciphertext of a field-level record decrypts to.
+ */
+export interface FieldManifest {
+  clear: Record<string, unknown>;
+  fields: string[];
+}
+
+/**
+ * Subkey for one field: HKDF-SHA256 of the DEK, with the field name as info.
+ */
+export function deriveFieldKey(dek: Buffer, name: string): Buffer {
+  const info = Buffer.from(JSON.stringify(['mirfa/field/v1', name]), 'utf8');
+  return Buffer.from(crypto.hkdfSync('sha256', dek, Buffer.alloc(0), info, 32));
+}
+
+/**
+ * Whether a value is a plain JSON object (not null or an array).
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Checks a list of field names to encrypt against the payload, and returns
+ * the payload as an object. `option` and `purpose` word the error messages.
+ */
+export function validateFieldNames(
+  payload: unknown,
+  names: unknown,
+  option = 'fields',
+  purpose = 'encrypt individual fields'
+): Record<string, unknown> {
+  if (!Array.isArray(names) || names.length === 0) {
+    throw new Error(`${option} must be a non-empty array of field names`);
+  }
+  if (!isPlainObject(payload)) {
+    throw new Error(`payload must be a JSON object to ${purpose}`);
+  }
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (typeof name !== 'string' || name.length === 0 || name.length > MAX_FIELD_NAME_LENGTH) {
+      throw new Error(`${option} must be strings of 1 to ${MAX_FIELD_NAME_LENGTH} characters`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`Field "${name}" is listed twice`);
+    }
+    if (!Object.hasOwn(payload, name) || payload[name] === undefined) {
+      throw new Error(`Field "${name}" is not in the payload`);
+    }
+    seen.add(name);
+  }
+  return payload;
+}
+
+/**
+ * Encrypts one field value (as JSON) under its subkey.
+ */
+export function encryptField(value: unknown, dek: Buffer, context: AadContext, name: string, random: RandomSource = systemRandom): TxEncryptedField {
+  const algorithm = getAlgorithm(context.alg);
+  const nonce = random(algorithm.nonceLength);
+  const plaintext = Buffer.from(JSON.stringify(value), 'utf8');
+  const { ciphertext, tag } = algorithm.seal(deriveFieldKey(dek, name), nonce, plaintext, fieldAAD(context, name));
+
+  return {
+    nonce: nonce.toString('hex'),
+    ct: ciphertext.toString('hex'),
+    tag: tag.toString('hex')
+  };
+}
+
+/**
+ * Decrypts one field. Throws if it was tampered with, renamed or moved.
+ */
+export function decryptField(field: TxEncryptedField, dek: Buffer, context: AadContext, name: string): unknown {
+  const algorithm = getAlgorithm(context.alg);
+  try {
+    const plaintext = algorithm.open(
+      deriveFieldKey(dek, name),
+      Buffer.from(field.nonce, 'hex'),
+      Buffer.from(field.ct, 'hex'),
+      Buffer.from(field.tag, 'hex'),
+      fieldAAD(context, name)
+    );
+    return JSON.parse(plaintext.toString('utf8'));
+  } catch (err) {
+    throw new IntegrityError(`Failed to decrypt field "${name}": potential tampering or invalid DEK`);
+  }
+}
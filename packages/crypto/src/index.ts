@@ -1,2 +1,16 @@
 export * from './types.js';
+export * from './errors.js';
 export * from './encryption.js';
+export * from './algorithms.js';
+export * from './keyring.js';
+export * from './random.js';
+export * from './party-keys.js';
+export * from './shamir.js';
+export * from './aad.js';
+export * from './stream.js';
+export * from './fields.js';
+export * from './blind-index.js';
+export * from './schema.js';
+export * from './upgrade.js';
+export * from './bundle.js';
+export * from './providers/index.js';
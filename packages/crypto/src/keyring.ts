@@ -0,0 +1,77 @@
+const KEY_LENGTH = 32;
+
+/**
+ * A versioned set of Master Keys. New records are wrapped with the active
+ * version; existing records are unwrapped with the version they carry.
+ */
+export type Keyring = {
+  activeVersion: number;
+  keys: ReadonlyMap<number, Buffer>;
+};
+
+/**
+ * Anything accepted where a Master Key is expected. A bare Buffer behaves
+ * like a keyring holding only version 1.
+ */
+export type MasterKeyInput = Buffer | Keyring;
+
+/**
+ * Builds a keyring from a version → key mapping and validates every entry.
+ */
+export function createKeyring(keys: Record<number, Buffer> | Map<number, Buffer>, activeVersion: number): Keyring {
+  const entries = keys instanceof Map
+    ? [...keys.entries()]
+    : Object.entries(keys).map(([version, key]) => [Number(version), key] as const);
+
+  const map = new Map<number, Buffer>();
+  for (const [version, key] of entries) {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid Master Key version: ${version}`);
+    }
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid Master Key length for version ${version}: expected ${KEY_LENGTH} bytes`);
+    }
+    map.set(version, key);
+  }
+
+  if (!map.has(activeVersion)) {
+    throw new Error(`Active Master Key version ${activeVersion} is not in the keyring`);
+  }
+
+  return { activeVersion, keys: map };
+}
+
+/**
+ * Normalises a Buffer or keyring into a keyring.
+ */
+export function toKeyring(input: MasterKeyInput): Keyring {
+  if (Buffer.isBuffer(input)) {
+    return createKeyring(new Map([[1, input]]), 1);
+  }
+  return input;
+}
+
+/**
+ * Returns the Master Key for a given version.
+ */
+export function getMasterKey(keyring: Keyring, version: number): Buffer {
+  const key = keyring.keys.get(version);
+  if (!key) {
+    throw new Error(`Unknown Master Key version: ${version}`);
+  }
+  return key;
+}
+
+/**
+ * Returns the active Master Key together with its version.
+ */
+export function getActiveMasterKey(keyring: Keyring): { version: number; key: Buffer } {
+  return { version: keyring.activeVersion, key: getMasterKey(keyring, keyring.activeVersion) };
+}
+
+/**
+ * Key id recorded for a keyring version, e.g. "mk-2".
+ */
+export function keyringKeyId(version: number): string {
+  return `mk-${version}`;
+}
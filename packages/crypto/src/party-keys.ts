@@ -0,0 +1,237 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+
+// ============================================================================
+// PARTY KEYS (KEY-ENCRYPTION KEY HIERARCHY)
+// ============================================================================
+// Master Key -> party KEK -> DEK. With party keys configured, each party's
+// DEKs are wrapped by a key-encryption key (KEK) of its own instead of the
+// Master Key itself. A KEK is derived with HKDF from the Master Key and a
+// random per-party salt; only the salt is stored, in a PartyKeyStore kept
+// apart from the records.
+//
+// - Crypto-shredding a party deletes its salts: every record of that party,
+//   backups included, becomes undecryptable even with the Master Key.
+// - Re-keying a party adds a salt version and re-wraps that party's DEKs
+//   only; deleting the old version afterwards retires it.
+// - The KEK still depends on the Master Key version, so Master Key rotation
+//   re-wraps DEKs exactly as before.
+//
+// Records carry the KEK version as kek_version, bound into the DEK wrap AAD.
+// Records without it have their DEK wrapped by the Master Key directly.
+//
+// Version numbers are never reused. Each store remembers the highest version
+// it destroyed per party, so a party created again after being shredded
+// starts above it, and an old copy of a record reads as shredded rather
+// than as a KEK that fails to authenticate.
+
+const SALT_LENGTH = 32;
+
+/**
+ * One version of a party's key. The KEK itself is derived, never stored.
+ */
+export type PartyKey = {
+  partyId: string;
+  version: number;
+  /** Random HKDF salt (hex). */
+  salt: string;
+  createdAt: string;
+};
+
+/**
+ * Where key providers look party keys up.
+ */
+export interface PartyKeySource {
+  /** The version new DEKs of the party are wrapped with; created on first use. */
+  active(partyId: string): Promise<PartyKey>;
+  /** One version, or undefined when it does not exist (never created, or shredded). */
+  get(partyId: string, version: number): Promise<PartyKey | undefined>;
+  /** The highest version of the party ever destroyed, or 0. */
+  destroyedUpTo(partyId: string): Promise<number>;
+}
+
+/**
+ * A PartyKeySource that can also re-key and shred parties.
+ */
+export interface PartyKeyStore extends PartyKeySource {
+  /** Every version of a party's key, oldest first. */
+  list(partyId: string): Promise<PartyKey[]>;
+  /** Adds a new version and makes it the active one. */
+  rotate(partyId: string): Promise<PartyKey>;
+  /** Deletes the given versions, or all of them. Resolves to how many were deleted. */
+  destroy(partyId: string, versions?: number[]): Promise<number>;
+}
+
+/**
+ * A new party key version with a random salt.
+ */
+export function createPartyKey(partyId: string, version: number): PartyKey {
+  return { partyId, version, salt: crypto.randomBytes(SALT_LENGTH).toString('hex'), createdAt: new Date().toISOString() };
+}
+
+/**
+ * KEK for one party key version: HKDF-SHA256 of a Master Key, salted with the
+ * party key's salt, with the partyId and version as info.
+ */
+export function derivePartyKEK(masterKey: Buffer, partyKey: PartyKey): Buffer {
+  const info = Buffer.from(JSON.stringify(['mirfa/kek/v1', partyKey.partyId, partyKey.version]), 'utf8');
+  return Buffer.from(crypto.hkdfSync('sha256', masterKey, Buffer.from(partyKey.salt, 'hex'), info, 32));
+}
+
+/**
+ * Party key store over a map of partyId -> versions (oldest first) and the
+ * highest destroyed version per party. `persist` is called after every change.
+ */
+function createPartyKeyStoreOver({ parties, destroyed }: PartyKeys, persist: () => void = () => {}): PartyKeyStore {
+  function add(partyId: string): PartyKey {
+    const versions = parties.get(partyId) ?? [];
+    const latest = Math.max(versions.at(-1)?.version ?? 0, destroyed.get(partyId) ?? 0);
+    const partyKey = createPartyKey(partyId, latest + 1);
+    parties.set(partyId, [...versions, partyKey]);
+    persist();
+    return partyKey;
+  }
+
+  return {
+    async active(partyId) {
+      return parties.get(partyId)?.at(-1) ?? add(partyId);
+    },
+
+    async get(partyId, version) {
+      return parties.get(partyId)?.find((partyKey) => partyKey.version === version);
+    },
+
+    async destroyedUpTo(partyId) {
+      return destroyed.get(partyId) ?? 0;
+    },
+
+    async list(partyId) {
+      return [...(parties.get(partyId) ?? [])];
+    },
+
+    async rotate(partyId) {
+      return add(partyId);
+    },
+
+    async destroy(partyId, versions) {
+      const existing = parties.get(partyId) ?? [];
+      const kept = versions ? existing.filter((partyKey) => !versions.includes(partyKey.version)) : [];
+      if (kept.length === existing.length) {
+        return 0;
+      }
+      if (kept.length > 0) {
+        parties.set(partyId, kept);
+      } else {
+        parties.delete(partyId);
+      }
+      const highest = Math.max(...existing.filter((partyKey) => !kept.includes(partyKey)).map((partyKey) => partyKey.version));
+      destroyed.set(partyId, Math.max(destroyed.get(partyId) ?? 0, highest));
+      persist();
+      return existing.length - kept.length;
+    }
+  };
+}
+
+/**
+ * Party key store in process memory (tests, single-process development).
+ */
+export function createMemoryPartyKeyStore(): PartyKeyStore {
+  return createPartyKeyStoreOver({ parties: new Map(), destroyed: new Map() });
+}
+
+/**
+ * On-disk party key store layout:
+ * { "parties": { "<partyId>": [{ "version": 1, "salt": "<64 hex>", "createdAt": "..." }] },
+ *   "destroyed": { "<partyId>": <highest destroyed version> } }
+ * `destroyed` is optional; files written before it have no entries.
+ */
+export type PartyKeysFile = {
+  parties: Record<string, Array<Omit<PartyKey, 'partyId'>>>;
+  destroyed?: Record<string, number>;
+};
+
+/**
+ * A party key file's content: versions by partyId (oldest first), and the
+ * highest destroyed version by partyId.
+ */
+export type PartyKeys = {
+  parties: Map<string, PartyKey[]>;
+  destroyed: Map<string, number>;
+};
+
+/**
+ * Reads and validates a party key file. A missing file holds no parties.
+ */
+export function readPartyKeysFile(path: string): PartyKeys {
+  if (!fs.existsSync(path)) {
+    return { parties: new Map(), destroyed: new Map() };
+  }
+  let text: string;
+  try {
+    text = fs.readFileSync(path, 'utf8');
+  } catch (err: any) {
+    throw new Error(`Unable to read party key file ${path}: ${err.message}`);
+  }
+  return parsePartyKeysFile(text, path);
+}
+
+/**
+ * Validates the content of a party key file.
+ */
+export function parsePartyKeysFile(text: string, path: string): PartyKeys {
+  let parsed: PartyKeysFile;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`Unable to read party key file ${path}: ${err.message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.parties || typeof parsed.parties !== 'object') {
+    throw new Error(`Party key file ${path} must contain a "parties" object`);
+  }
+
+  const parties = new Map<string, PartyKey[]>();
+  for (const [partyId, versions] of Object.entries(parsed.parties)) {
+    if (!Array.isArray(versions)) {
+      throw new Error(`Party key file ${path}: keys of ${partyId} must be an array`);
+    }
+    const keys = versions.map(({ version, salt, createdAt }) => {
+      if (!Number.isInteger(version) || version < 1) {
+        throw new Error(`Party key file ${path}: key versions of ${partyId} must be positive integers`);
+      }
+      if (typeof salt !== 'string' || !/^[0-9a-fA-F]{64}$/.test(salt)) {
+        throw new Error(`Party key file ${path}: salt of ${partyId} version ${version} must be a 64-character hex string`);
+      }
+      return { partyId, version, salt, createdAt: String(createdAt) };
+    });
+    parties.set(partyId, keys.sort((a, b) => a.version - b.version));
+  }
+
+  const destroyed = new Map<string, number>();
+  for (const [partyId, version] of Object.entries(parsed.destroyed ?? {})) {
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Party key file ${path}: destroyed version of ${partyId} must be a positive integer`);
+    }
+    destroyed.set(partyId, version);
+  }
+  return { parties, destroyed };
+}
+
+/**
+ * Party key store backed by a JSON file, read once and rewritten (atomically,
+ * mode 0600) after every change. Keep it apart from record backups: shredding
+ * relies on deleted salts being gone for good.
+ */
+export function createFilePartyKeyStore(path: string): PartyKeyStore {
+  const partyKeys = readPartyKeysFile(path);
+
+  return createPartyKeyStoreOver(partyKeys, () => {
+    const file: PartyKeysFile = { parties: {}, destroyed: Object.fromEntries(partyKeys.destroyed) };
+    for (const [partyId, versions] of partyKeys.parties) {
+      file.parties[partyId] = versions.map(({ version, salt, createdAt }) => ({ version, salt, createdAt }));
+    }
+    const temp = `${path}.${process.pid}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(file, null, 2), { mode: 0o600 });
+    fs.renameSync(temp, path);
+  });
+}
@@ -0,0 +1,48 @@
+import fs from 'node:fs';
+import { createKeyring, Keyring } from '../keyring.js';
+import { PartyKeySource } from '../party-keys.js';
+import { createLocalKeyProvider } from './local.js';
+import { KeyProvider } from './types.js';
+
+/**
+ * On-disk keystore layout:
+ * { "activeVersion": 2, "keys": { "1": "<64 hex>", "2": "<64 hex>" } }
+ */
+export type KeystoreFile = {
+  activeVersion: number;
+  keys: Record<string, string>;
+};
+
+/**
+ * Reads and validates a keystore file into a keyring.
+ */
+export function readKeystoreFile(path: string): Keyring {
+  let parsed: KeystoreFile;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Unable to read keystore file ${path}: ${err.message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !parsed.keys || typeof parsed.keys !== 'object') {
+    throw new Error(`Keystore file ${path} must contain a "keys" object`);
+  }
+
+  const keys = new Map<number, Buffer>();
+  for (const [version, hex] of Object.entries(parsed.keys)) {
+    if (typeof hex !== 'string' || !/^[0-9a-fA-F]{64}$/.test(hex)) {
+      throw new Error(`Keystore key ${version} must be a 64-character hex string`);
+    }
+    keys.set(Number(version), Buffer.from(hex, 'hex'));
+  }
+
+  return createKeyring(keys, parsed.activeVersion);
+}
+
+/**
+ * Key provider backed by a JSON keystore file. The file is read once.
+ * `partyKeys` is as for createLocalKeyProvider.
+ */
+export function createFileKeyProvider(path: string, partyKeys?: PartyKeySource): KeyProvider {
+  return createLocalKeyProvider(readKeystoreFile(path), 'file', partyKeys);
+}
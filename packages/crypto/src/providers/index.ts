@@ -0,0 +1,5 @@
+export * from './types.js';
+export * from './local.js';
+export * from './file.js';
+export * from './kms.js';
+export * from './kms-server.js';
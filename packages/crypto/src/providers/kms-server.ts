@@ -0,0 +1,119 @@
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { fileURLToPath } from 'node:url';
+import { wrapDEK, unwrapDEK } from '../encryption.js';
+import { Keyring, createKeyring, getActiveMasterKey } from '../keyring.js';
+import { CURRENT_FORMAT_VERSION, dekWrapAAD } from '../aad.js';
+
+// ============================================================================
+// LOCAL STAND-IN KMS
+// ============================================================================
+// A tiny HTTP service speaking the same protocol as createKmsKeyProvider,
+// so the remote wrapping path can be exercised offline and in tests.
+// It is NOT a real KMS: keys live in process memory.
+//
+// POST /keys/:keyId/wrap    { plaintext, context? }                            -> { key_id, key_version, nonce, ciphertext, tag }
+// POST /keys/:keyId/unwrap  { key_version, nonce, ciphertext, tag, context? }  -> { plaintext }
+//
+// `context` ({ id, partyId, alg }) is bound as AAD with the key version, and
+// its alg selects the wrapping algorithm.
+
+export interface LocalKmsServerOptions {
+  /** Keyrings by KMS key id. */
+  keys: Record<string, Keyring>;
+  /** When set, requests must carry `Authorization: Bearer <token>`. */
+  token?: string;
+}
+
+const ROUTE = /^\/keys\/([^/]+)\/(wrap|unwrap)$/;
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Creates (but does not start) the stand-in KMS HTTP server.
+ */
+export function createLocalKmsServer(options: LocalKmsServerOptions): http.Server {
+  return http.createServer(async (req, res) => {
+    const match = req.method === 'POST' ? ROUTE.exec(req.url ?? '') : null;
+    if (!match) {
+      return send(res, 404, { error: 'Not found' });
+    }
+
+    if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+      return send(res, 401, { error: 'Unauthorized' });
+    }
+
+    const keyId = decodeURIComponent(match[1]);
+    const keyring = options.keys[keyId];
+    if (!keyring) {
+      return send(res, 404, { error: 'Unknown key' });
+    }
+
+    try {
+      const body = await readJson(req);
+
+      if (match[2] === 'wrap') {
+        const { version, key } = getActiveMasterKey(keyring);
+        const aad = body.context ? dekWrapAAD({ ...body.context, mk_version: version }) : undefined;
+        const wrapped = wrapDEK(Buffer.from(body.plaintext, 'base64'), key, aad, body.context?.alg);
+        return send(res, 200, {
+          key_id: keyId,
+          key_version: version,
+          nonce: wrapped.dek_wrap_nonce,
+          ciphertext: wrapped.dek_wrapped,
+          tag: wrapped.dek_wrap_tag
+        });
+      }
+
+      const dek = unwrapDEK({
+        dek_wrap_nonce: body.nonce,
+        dek_wrapped: body.ciphertext,
+        dek_wrap_tag: body.tag,
+        mk_version: body.key_version,
+        ...(body.context
+          ? { id: body.context.id, partyId: body.context.partyId, alg: body.context.alg, format_version: CURRENT_FORMAT_VERSION }
+          : {})
+      }, keyring);
+      return send(res, 200, { plaintext: dek.toString('base64') });
+    } catch (err) {
+      return send(res, 400, { error: `${match[2] === 'wrap' ? 'Wrap' : 'Unwrap'} failed` });
+    }
+  });
+}
+
+// ============================================================================
+// STANDALONE STARTUP
+// ============================================================================
+// LOCAL_KMS_PORT    port to listen on (default 8200)
+// LOCAL_KMS_KEY_ID  key id to serve (default "local-kms-key")
+// LOCAL_KMS_KEY     64 hex chars; a random key is generated when unset
+// LOCAL_KMS_TOKEN   optional bearer token
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = process.env.LOCAL_KMS_PORT ? parseInt(process.env.LOCAL_KMS_PORT) : 8200;
+  const keyId = process.env.LOCAL_KMS_KEY_ID || 'local-kms-key';
+  const keyHex = process.env.LOCAL_KMS_KEY;
+
+  if (!keyHex) {
+    console.warn('LOCAL_KMS_KEY not set - using a random key, wrapped DEKs will not survive a restart');
+  }
+  const key = keyHex ? Buffer.from(keyHex, 'hex') : crypto.randomBytes(32);
+
+  createLocalKmsServer({
+    keys: { [keyId]: createKeyring({ 1: key }, 1) },
+    token: process.env.LOCAL_KMS_TOKEN
+  }).listen(port, () => {
+    console.log(`Local KMS listening on port ${port} serving key "${keyId}"`);
+  });
+}
@@ -0,0 +1,100 @@
+import { AadContext, aadContextOf, usesAAD } from '../aad.js';
+import { IntegrityError } from '../errors.js';
+import { KeyProvider, WrappedDEK, WrappedDEKInput } from './types.js';
+
+export interface KmsKeyProviderOptions {
+  /** Base URL of the KMS, e.g. http://localhost:8200 */
+  endpoint: string;
+  /** Key new DEKs are wrapped with. */
+  keyId: string;
+  /** Optional bearer token sent on every request. */
+  token?: string;
+  /** Request timeout in milliseconds. */
+  timeoutMs?: number;
+}
+
+type KmsWrapResponse = {
+  key_id: string;
+  key_version: number;
+  nonce: string;
+  ciphertext: string;
+  tag: string;
+};
+
+type KmsUnwrapResponse = {
+  plaintext: string;
+};
+
+/**
+ * Key provider that delegates wrapping to a KMS-style HTTP service.
+ * The Master Key never leaves the KMS; only DEKs travel over the wire.
+ * The AAD context is sent as an "encryption context" which the KMS binds
+ * together with the key version it wraps under.
+ */
+export function createKmsKeyProvider(options: KmsKeyProviderOptions): KeyProvider {
+  const endpoint = options.endpoint.replace(/\/$/, '');
+  const timeoutMs = options.timeoutMs ?? 5000;
+
+  async function call<T>(keyId: string, operation: 'wrap' | 'unwrap', body: unknown): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.token) {
+      headers.Authorization = `Bearer ${options.token}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}/keys/${encodeURIComponent(keyId)}/${operation}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+    } catch (err: any) {
+      throw new Error(`KMS ${operation} request failed: ${err.message}`);
+    }
+
+    // The KMS answers 400 to a wrapped DEK that does not authenticate;
+    // anything else (auth, unknown key, outage) is not about the record
+    if (response.status === 400 && operation === 'unwrap') {
+      throw new IntegrityError(`KMS ${operation} rejected with status ${response.status}`);
+    }
+    if (!response.ok) {
+      throw new Error(`KMS ${operation} rejected with status ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  return {
+    name: 'kms',
+
+    keyId() {
+      return options.keyId;
+    },
+
+    async wrap(dek: Buffer, context?: AadContext): Promise<WrappedDEK> {
+      const result = await call<KmsWrapResponse>(options.keyId, 'wrap', {
+        plaintext: dek.toString('base64'),
+        context
+      });
+      return {
+        dek_wrap_nonce: result.nonce,
+        dek_wrapped: result.ciphertext,
+        dek_wrap_tag: result.tag,
+        mk_version: result.key_version,
+        key_provider: 'kms',
+        key_id: result.key_id
+      };
+    },
+
+    async unwrap(record: WrappedDEKInput): Promise<Buffer> {
+      const result = await call<KmsUnwrapResponse>(record.key_id ?? options.keyId, 'unwrap', {
+        key_version: record.mk_version,
+        nonce: record.dek_wrap_nonce,
+        ciphertext: record.dek_wrapped,
+        tag: record.dek_wrap_tag,
+        context: usesAAD(record) ? aadContextOf(record) : undefined
+      });
+      return Buffer.from(result.plaintext, 'base64');
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import { wrapDEK, unwrapDEK } from '../encryption.js';
+import { MasterKeyInput, getActiveMasterKey, keyringKeyId, toKeyring } from '../keyring.js';
+import { AadContext, dekWrapAAD } from '../aad.js';
+import { PartyKey, PartyKeySource, derivePartyKEK } from '../party-keys.js';
+import { PartyKeyShreddedError } from '../errors.js';
+import { KeyProvider, WrappedDEK, WrappedDEKInput } from './types.js';
+
+/**
+ * Key provider backed by a Master Key or keyring held in process memory.
+ * With `partyKeys`, DEKs wrapped with a context go under the party's KEK
+ * (see party-keys.ts); legacy wraps without a context stay under the Master Key.
+ */
+export function createLocalKeyProvider(masterKey: MasterKeyInput, name = 'local', partyKeys?: PartyKeySource): KeyProvider {
+  const keyring = toKeyring(masterKey);
+
+  /**
+   * Wraps a DEK with one key version (and party key), binding both as AAD
+   * along with `context`.
+   */
+  function wrapWith(version: number, key: Buffer, dek: Buffer, context?: AadContext, partyKey?: PartyKey): WrappedDEK {
+    const aad = context ? dekWrapAAD({ ...context, mk_version: version, kek_version: partyKey?.version }) : undefined;
+    return {
+      ...wrapDEK(dek, partyKey ? derivePartyKEK(key, partyKey) : key, aad, context?.alg),
+      mk_version: version,
+      ...(partyKey ? { kek_version: partyKey.version } : {}),
+      key_provider: name,
+      key_id: keyringKeyId(version)
+    };
+  }
+
+  return {
+    name,
+
+    keyId() {
+      return keyringKeyId(keyring.activeVersion);
+    },
+
+    async wrap(dek: Buffer, context?: AadContext): Promise<WrappedDEK> {
+      const { version, key } = getActiveMasterKey(keyring);
+      const partyKey = partyKeys && context ? await partyKeys.active(context.partyId) : undefined;
+      return wrapWith(version, key, dek, context, partyKey);
+    },
+
+    async unwrap(record: WrappedDEKInput): Promise<Buffer> {
+      if (record.kek_version === undefined) {
+        return unwrapDEK(record, keyring);
+      }
+      if (!partyKeys) {
+        throw new Error('DEK is wrapped by a party key, but no party keys are configured');
+      }
+      const partyKey = record.partyId === undefined ? undefined : await partyKeys.get(record.partyId, record.kek_version);
+      if (!partyKey) {
+        if (record.partyId !== undefined && record.kek_version <= await partyKeys.destroyedUpTo(record.partyId)) {
+          throw new PartyKeyShreddedError(`Party key version ${record.kek_version} of ${record.partyId} has been shredded`);
+        }
+        throw new Error(`Party key version ${record.kek_version} of ${record.partyId} is not available`);
+      }
+      return unwrapDEK(record, keyring, partyKey);
+    },
+
+    async wrapBatch(items: Array<{ dek: Buffer; context: AadContext }>): Promise<WrappedDEK[]> {
+      const { version, key } = getActiveMasterKey(keyring);
+      const active = new Map<string, PartyKey>();
+      const wrapped: WrappedDEK[] = [];
+      for (const { dek, context } of items) {
+        let partyKey: PartyKey | undefined;
+        if (partyKeys) {
+          partyKey = active.get(context.partyId) ?? await partyKeys.active(context.partyId);
+          active.set(context.partyId, partyKey);
+        }
+        wrapped.push(wrapWith(version, key, dek, context, partyKey));
+      }
+      return wrapped;
+    }
+  };
+}
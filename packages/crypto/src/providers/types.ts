@@ -0,0 +1,47 @@
+import { TxSecureRecord } from '../types.js';
+import { AadContext } from '../aad.js';
+
+/**
+ * The DEK wrapping fields of a record, plus where the wrapping came from.
+ */
+export type WrappedDEK = Pick<
+  TxSecureRecord,
+  'dek_wrap_nonce' | 'dek_wrapped' | 'dek_wrap_tag' | 'mk_version'
+> & Partial<Pick<TxSecureRecord, 'kek_version'>> & {
+  key_provider: string;
+  key_id: string;
+};
+
+/**
+ * Fields a provider needs to unwrap a DEK.
+ */
+export type WrappedDEKInput = Pick<TxSecureRecord, 'dek_wrap_nonce' | 'dek_wrapped' | 'dek_wrap_tag' | 'mk_version'> &
+  Partial<Pick<TxSecureRecord, 'key_provider' | 'key_id' | 'format_version' | 'id' | 'partyId' | 'alg' | 'kek_version'>>;
+
+/**
+ * Abstraction over whatever holds the Master Key: a raw key in memory,
+ * a keystore file, or a remote KMS.
+ */
+export interface KeyProvider {
+  /** Stable provider name stored on every record it wraps. */
+  readonly name: string;
+
+  /** Identifier of the key new DEKs are wrapped with. */
+  keyId(): string;
+
+  /**
+   * Wraps a DEK with the provider's current key. When `context` is given,
+   * it is bound as AAD together with the key version the provider picks.
+   * Omit it only when re-wrapping legacy (format 1) records.
+   */
+  wrap(dek: Buffer, context?: AadContext): Promise<WrappedDEK>;
+
+  /** Unwraps a DEK previously wrapped by this provider, checking AAD for format 2 records. */
+  unwrap(record: WrappedDEKInput): Promise<Buffer>;
+
+  /**
+   * Optional: wraps several DEKs, in order, setting up the current key once
+   * for all of them. Batch helpers fall back to `wrap` for each DEK.
+   */
+  wrapBatch?(items: Array<{ dek: Buffer; context: AadContext }>): Promise<WrappedDEK[]>;
+}
@@ -0,0 +1,32 @@
+import crypto from 'node:crypto';
+
+// ============================================================================
+// RANDOMNESS
+// ============================================================================
+// Every record ID, DEK and nonce the encrypt functions create is drawn from
+// a RandomSource, crypto.randomBytes unless one is passed in. The seam exists
+// for the known-answer test vectors (test-vectors/), which replay fixed bytes
+// through it to check that the output has not changed by a single bit.
+// Nothing outside tests should pass a source: a repeated DEK or nonce breaks
+// AES-GCM and ChaCha20-Poly1305.
+
+/**
+ * Returns `length` fresh random bytes per call.
+ */
+export type RandomSource = (length: number) => Buffer;
+
+export const systemRandom: RandomSource = (length) => crypto.randomBytes(length);
+
+/**
+ * A version 4 UUID from 16 bytes of `random`, as crypto.randomUUID() makes.
+ */
+export function randomUUIDFrom(random: RandomSource): string {
+  if (random === systemRandom) {
+    return crypto.randomUUID();
+  }
+  const bytes = Buffer.from(random(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
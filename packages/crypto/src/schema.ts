@@ -0,0 +1,215 @@
+import { TxSecureRecord } from './types.js';
+import { getAlgorithm, isSupportedAlgorithm, SUPPORTED_ALGORITHMS } from './algorithms.js';
+import { CURRENT_FORMAT_VERSION } from './aad.js';
+import { MAX_CHUNK_SIZE } from './stream.js';
+import { MAX_FIELD_NAME_LENGTH, isPlainObject } from './fields.js';
+
+// ============================================================================
+// RECORD SCHEMA
+// ============================================================================
+// The single runtime check for TxSecureRecord. Anything that did not come
+// straight out of encryptEnvelope (a storage row, a client import) goes
+// through parseRecord before it is used. Failures name the offending field.
+//
+// format_version 1 (or absent) and 2 share the same shape; they differ only
+// in whether metadata is bound as AAD (see aad.ts and upgrade.ts).
+
+const DEK_LENGTH = 32;
+const BLIND_INDEX_TOKEN_LENGTH = 32;
+
+/**
+ * A record failed validation. `field` is the first field that did not match.
+ */
+export class RecordValidationError extends Error {
+  constructor(readonly field: string, reason: string) {
+    super(`Invalid record: ${field} ${reason}`);
+    this.name = 'RecordValidationError';
+  }
+}
+
+const KNOWN_FIELDS = new Set<string>([
+  'id', 'partyId', 'createdAt',
+  'payload_nonce', 'payload_ct', 'payload_tag',
+  'dek_wrap_nonce', 'dek_wrapped', 'dek_wrap_tag',
+  'alg', 'mk_version', 'kek_version', 'format_version', 'key_provider', 'key_id', 'stream', 'fields', 'clear',
+  'blind_index', 'expiresAt'
+]);
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new RecordValidationError(field, 'must be a non-empty string');
+  }
+  return value;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  return value === undefined ? undefined : requireString(value, field);
+}
+
+function requireHex(value: unknown, field: string, byteLength?: number): string {
+  if (typeof value !== 'string' || !/^([0-9a-fA-F]{2})*$/.test(value)) {
+    throw new RecordValidationError(field, 'must be a hex string');
+  }
+  if (byteLength !== undefined && value.length !== byteLength * 2) {
+    throw new RecordValidationError(field, `must be ${byteLength} bytes (${byteLength * 2} hex characters)`);
+  }
+  return value;
+}
+
+function requireInteger(value: unknown, field: string, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new RecordValidationError(field, `must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
+
+/**
+ * Validates an untrusted value as a TxSecureRecord.
+ * Returns a new object holding only the known fields.
+ */
+export function parseRecord(input: unknown): TxSecureRecord {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new RecordValidationError('record', 'must be an object');
+  }
+  const raw = input as Record<string, unknown>;
+
+  for (const field of Object.keys(raw)) {
+    if (!KNOWN_FIELDS.has(field)) {
+      throw new RecordValidationError(field, 'is not a known field');
+    }
+  }
+
+  const id = requireString(raw.id, 'id');
+  // IDs name blobs and appear in URLs, so keep them to UUID characters
+  if (!/^[0-9a-zA-Z-]{1,128}$/.test(id)) {
+    throw new RecordValidationError('id', 'must contain only letters, digits and "-" (max 128)');
+  }
+  const partyId = requireString(raw.partyId, 'partyId');
+  const createdAt = requireString(raw.createdAt, 'createdAt');
+  if (Number.isNaN(Date.parse(createdAt))) {
+    throw new RecordValidationError('createdAt', 'must be an ISO 8601 date');
+  }
+
+  if (!isSupportedAlgorithm(raw.alg)) {
+    throw new RecordValidationError('alg', `must be one of ${SUPPORTED_ALGORITHMS.join(', ')}`);
+  }
+  const alg = raw.alg;
+  const algorithm = getAlgorithm(alg);
+
+  const formatVersion = raw.format_version === undefined
+    ? undefined
+    : requireInteger(raw.format_version, 'format_version', 1, CURRENT_FORMAT_VERSION);
+
+  const record: TxSecureRecord = {
+    id,
+    partyId,
+    createdAt,
+    payload_nonce: requireHex(raw.payload_nonce, 'payload_nonce', algorithm.nonceLength),
+    payload_ct: requireHex(raw.payload_ct, 'payload_ct'),
+    payload_tag: requireHex(raw.payload_tag, 'payload_tag', algorithm.tagLength),
+    dek_wrap_nonce: requireHex(raw.dek_wrap_nonce, 'dek_wrap_nonce', algorithm.nonceLength),
+    dek_wrapped: requireHex(raw.dek_wrapped, 'dek_wrapped', DEK_LENGTH),
+    dek_wrap_tag: requireHex(raw.dek_wrap_tag, 'dek_wrap_tag', algorithm.tagLength),
+    alg,
+    mk_version: requireInteger(raw.mk_version, 'mk_version', 1)
+  };
+
+  if (formatVersion !== undefined) record.format_version = formatVersion;
+  if (raw.kek_version !== undefined) {
+    // Party KEK wraps always bind the KEK version as AAD
+    if ((formatVersion ?? 1) < 2) {
+      throw new RecordValidationError('kek_version', 'requires format_version 2 or later');
+    }
+    record.kek_version = requireInteger(raw.kek_version, 'kek_version', 1);
+  }
+  const keyProvider = optionalString(raw.key_provider, 'key_provider');
+  if (keyProvider !== undefined) record.key_provider = keyProvider;
+  const keyId = optionalString(raw.key_id, 'key_id');
+  if (keyId !== undefined) record.key_id = keyId;
+  const expiresAt = optionalString(raw.expiresAt, 'expiresAt');
+  if (expiresAt !== undefined) {
+    if (Number.isNaN(Date.parse(expiresAt))) {
+      throw new RecordValidationError('expiresAt', 'must be an ISO 8601 date');
+    }
+    record.expiresAt = expiresAt;
+  }
+
+  if (raw.stream !== undefined) {
+    const stream = raw.stream as Record<string, unknown>;
+    if (!stream || typeof stream !== 'object' || Array.isArray(stream)) {
+      throw new RecordValidationError('stream', 'must be an object');
+    }
+    // Streamed content was introduced with format 2 and is always AAD-bound
+    if ((formatVersion ?? 1) < 2) {
+      throw new RecordValidationError('stream', 'requires format_version 2 or later');
+    }
+    record.stream = {
+      chunk_size: requireInteger(stream.chunk_size, 'stream.chunk_size', 1, MAX_CHUNK_SIZE),
+      size: requireInteger(stream.size, 'stream.size', 0)
+    };
+  }
+
+  if (raw.fields !== undefined) {
+    if (!isPlainObject(raw.fields) || Object.keys(raw.fields).length === 0) {
+      throw new RecordValidationError('fields', 'must be a non-empty object');
+    }
+    // Like streams, field-level records only exist from format 2 on
+    if ((formatVersion ?? 1) < 2) {
+      throw new RecordValidationError('fields', 'requires format_version 2 or later');
+    }
+    if (record.stream) {
+      throw new RecordValidationError('fields', 'cannot be combined with stream');
+    }
+    record.fields = Object.fromEntries(Object.entries(raw.fields).map(([name, value]) => {
+      const field = `fields.${name}`;
+      if (name.length > MAX_FIELD_NAME_LENGTH) {
+        throw new RecordValidationError(field, `name must be at most ${MAX_FIELD_NAME_LENGTH} characters`);
+      }
+      if (!isPlainObject(value)) {
+        throw new RecordValidationError(field, 'must be an object');
+      }
+      return [name, {
+        nonce: requireHex(value.nonce, `${field}.nonce`, algorithm.nonceLength),
+        ct: requireHex(value.ct, `${field}.ct`),
+        tag: requireHex(value.tag, `${field}.tag`, algorithm.tagLength)
+      }];
+    }));
+  }
+
+  if (raw.clear !== undefined) {
+    if (!record.fields) {
+      throw new RecordValidationError('clear', 'is only allowed together with fields');
+    }
+    if (!isPlainObject(raw.clear)) {
+      throw new RecordValidationError('clear', 'must be an object');
+    }
+    for (const name of Object.keys(raw.clear)) {
+      if (Object.hasOwn(record.fields, name)) {
+        throw new RecordValidationError(`clear.${name}`, 'is also an encrypted field');
+      }
+    }
+    record.clear = raw.clear;
+  }
+
+  if (raw.blind_index !== undefined) {
+    const index = raw.blind_index;
+    if (!isPlainObject(index)) {
+      throw new RecordValidationError('blind_index', 'must be an object');
+    }
+    if (!isPlainObject(index.tokens) || Object.keys(index.tokens).length === 0) {
+      throw new RecordValidationError('blind_index.tokens', 'must be a non-empty object');
+    }
+    record.blind_index = {
+      mk_version: requireInteger(index.mk_version, 'blind_index.mk_version', 1),
+      tokens: Object.fromEntries(Object.entries(index.tokens).map(([name, token]) => {
+        const field = `blind_index.tokens.${name}`;
+        if (name.length > MAX_FIELD_NAME_LENGTH) {
+          throw new RecordValidationError(field, `name must be at most ${MAX_FIELD_NAME_LENGTH} characters`);
+        }
+        return [name, requireHex(token, field, BLIND_INDEX_TOKEN_LENGTH)];
+      }))
+    };
+  }
+
+  return record;
+}
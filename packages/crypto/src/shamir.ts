@@ -0,0 +1,130 @@
+import crypto from 'node:crypto';
+
+// ============================================================================
+// SHAMIR SECRET SHARING
+// ============================================================================
+// Splits a secret into N shares so that any M of them rebuild it and fewer
+// reveal nothing about it. Each byte of the secret is the constant term of
+// its own random polynomial of degree M - 1 over GF(256); share x holds the
+// value of every polynomial at x (1 to 255).
+//
+// A share is written as "<x>-<hex>". Combining too few shares, or shares of
+// different secrets, gives a wrong secret rather than an error: compare the
+// result with secretCheckValue() to tell.
+
+const MAX_SHARES = 255;
+
+// GF(256) with the AES polynomial x^8 + x^4 + x^3 + x + 1, via log/exp tables
+// over the generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = value;
+  LOG[value] = i;
+  // value * 3 = value * 2 XOR value
+  value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+}
+
+function multiply(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function divide(a: number, b: number): number {
+  return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * One share, decoded.
+ */
+export interface SecretShare {
+  /** Point the polynomials were evaluated at, 1 to 255. */
+  x: number;
+  /** One byte per byte of the secret. */
+  y: Buffer;
+}
+
+/**
+ * Splits `secret` into `shares` shares, any `threshold` of which rebuild it.
+ */
+export function splitSecret(secret: Buffer, shares: number, threshold: number): string[] {
+  if (secret.length === 0) {
+    throw new Error('Secret must not be empty');
+  }
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('Threshold must be an integer of at least 2');
+  }
+  if (!Number.isInteger(shares) || shares < threshold || shares > MAX_SHARES) {
+    throw new Error(`Shares must be an integer from the threshold (${threshold}) to ${MAX_SHARES}`);
+  }
+
+  const ys = Array.from({ length: shares }, () => Buffer.alloc(secret.length));
+  const coefficients = Buffer.alloc(threshold);
+  for (let i = 0; i < secret.length; i++) {
+    coefficients[0] = secret[i];
+    crypto.randomFillSync(coefficients, 1);
+    for (let share = 0; share < shares; share++) {
+      // Horner's rule at x = share + 1
+      let y = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        y = multiply(y, share + 1) ^ coefficients[c];
+      }
+      ys[share][i] = y;
+    }
+  }
+  coefficients.fill(0);
+
+  return ys.map((y, share) => `${share + 1}-${y.toString('hex')}`);
+}
+
+/**
+ * Decodes and validates one "<x>-<hex>" share.
+ */
+export function parseShare(share: string): SecretShare {
+  const match = /^(\d{1,3})-((?:[0-9a-fA-F]{2})+)$/.exec(share.trim());
+  const x = match ? Number(match[1]) : NaN;
+  if (!match || x < 1 || x > MAX_SHARES) {
+    throw new Error('Share must look like "<1-255>-<hex>"');
+  }
+  return { x, y: Buffer.from(match[2], 'hex') };
+}
+
+/**
+ * Rebuilds a secret from shares (strings or decoded) by Lagrange
+ * interpolation at 0. Needs at least the threshold the secret was split with.
+ */
+export function combineShares(shares: Array<string | SecretShare>): Buffer {
+  const decoded = shares.map((share) => typeof share === 'string' ? parseShare(share) : share);
+  if (decoded.length < 2) {
+    throw new Error('At least 2 shares are needed');
+  }
+  const length = decoded[0].y.length;
+  if (decoded.some(({ y }) => y.length !== length)) {
+    throw new Error('Shares must all be the same length');
+  }
+  if (new Set(decoded.map(({ x }) => x)).size !== decoded.length) {
+    throw new Error('Shares must all be different');
+  }
+
+  // Lagrange basis at 0: product of x_j / (x_j - x_i); subtraction is XOR
+  const basis = decoded.map(({ x }, i) => decoded.reduce(
+    (product, other, j) => (j === i ? product : multiply(product, divide(other.x, other.x ^ x))),
+    1
+  ));
+
+  const secret = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    let value = 0;
+    for (const [share, { y }] of decoded.entries()) {
+      value ^= multiply(y[i], basis[share]);
+    }
+    secret[i] = value;
+  }
+  return secret;
+}
+
+/**
+ * Public value to check a rebuilt secret against: HMAC-SHA256 keyed with it.
+ */
+export function secretCheckValue(secret: Buffer): string {
+  return crypto.createHmac('sha256', secret).update('mirfa/unseal-check/v1').digest('hex');
+}
@@ -0,0 +1,276 @@
+import crypto from 'node:crypto';
+import { Transform } from 'node:stream';
+import { TxSecureRecord } from './types.js';
+import { KeyProvider } from './providers/types.js';
+import { AadContext, CURRENT_FORMAT_VERSION, aadContextOf, payloadAAD, streamAAD } from './aad.js';
+import { EnvelopeOptions, encryptPayload, generateDEK } from './encryption.js';
+import { AlgorithmId, DEFAULT_ALGORITHM, getAlgorithm } from './algorithms.js';
+import { IntegrityError } from './errors.js';
+
+// ============================================================================
+// CHUNKED STREAM ENCRYPTION
+// ============================================================================
+// Large content is split into fixed-size chunks, each sealed with an AEAD from
+// the registry (AES-256-GCM by default) under a key derived from the DEK
+// (the STREAM construction):
+//
+//   header = "MRFS" | version (1) | chunk size (u32 BE) | nonce prefix (7 bytes)
+//   nonce  = nonce prefix | chunk counter (u32 BE) | last flag (1 byte)
+//   chunk  = ciphertext | tag (16 bytes), AAD = header | caller AAD
+//
+// The counter in the nonce rejects reordered or dropped chunks, and only the
+// final chunk is sealed with the last flag set, so a truncated stream (even
+// one cut exactly at a chunk boundary) fails on its new last chunk.
+
+const TAG_LENGTH = 16;
+const MAGIC = Buffer.from('MRFS', 'ascii');
+const STREAM_FORMAT_VERSION = 1;
+const NONCE_PREFIX_LENGTH = 7;
+const HEADER_LENGTH = MAGIC.length + 1 + 4 + NONCE_PREFIX_LENGTH;
+const MAX_CHUNKS = 0xffffffff;
+
+export const DEFAULT_CHUNK_SIZE = 64 * 1024;
+export const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+export interface StreamOptions {
+  /** Plaintext bytes per chunk (encrypt only; decrypt reads it from the header). */
+  chunkSize?: number;
+  /** Extra data authenticated with every chunk (see streamAAD). */
+  aad?: Buffer;
+  /** Chunk AEAD; must be the same on both sides (envelopes take it from record.alg). */
+  alg?: AlgorithmId;
+}
+
+/**
+ * Derives the stream key from a DEK, so the DEK itself is never used
+ * for both the payload and the stream.
+ */
+export function deriveStreamKey(dek: Buffer): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', dek, Buffer.alloc(0), 'mirfa/stream/v1', 32));
+}
+
+function validateChunkSize(chunkSize: number) {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Invalid chunk size: expected an integer between 1 and ${MAX_CHUNK_SIZE}`);
+  }
+}
+
+function chunkNonce(prefix: Buffer, counter: number, last: boolean): Buffer {
+  const nonce = Buffer.alloc(NONCE_PREFIX_LENGTH + 5);
+  prefix.copy(nonce, 0);
+  nonce.writeUInt32BE(counter, NONCE_PREFIX_LENGTH);
+  nonce[NONCE_PREFIX_LENGTH + 4] = last ? 1 : 0;
+  return nonce;
+}
+
+/**
+ * Returns a Transform that turns plaintext bytes into the chunked format.
+ */
+export function createEncryptStream(dek: Buffer, options: StreamOptions = {}): Transform {
+  return sealingStream(dek, options, () => undefined);
+}
+
+/**
+ * createEncryptStream, reporting the length of every plaintext chunk it reads.
+ */
+function sealingStream(dek: Buffer, options: StreamOptions, onPlaintext: (length: number) => void): Transform {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  validateChunkSize(chunkSize);
+
+  const algorithm = getAlgorithm(options.alg ?? DEFAULT_ALGORITHM);
+  const key = deriveStreamKey(dek);
+  const prefix = crypto.randomBytes(NONCE_PREFIX_LENGTH);
+  const header = Buffer.alloc(HEADER_LENGTH);
+  MAGIC.copy(header, 0);
+  header[MAGIC.length] = STREAM_FORMAT_VERSION;
+  header.writeUInt32BE(chunkSize, MAGIC.length + 1);
+  prefix.copy(header, MAGIC.length + 5);
+  const aad = Buffer.concat([header, options.aad ?? Buffer.alloc(0)]);
+
+  let counter = 0;
+  let pending: Buffer = Buffer.alloc(0);
+
+  const seal = (plaintext: Buffer, last: boolean) => {
+    if (counter > MAX_CHUNKS) {
+      throw new Error('Stream too long: chunk counter exhausted');
+    }
+    const { ciphertext, tag } = algorithm.seal(key, chunkNonce(prefix, counter++, last), plaintext, aad);
+    return Buffer.concat([ciphertext, tag]);
+  };
+
+  return new Transform({
+    construct(callback) {
+      this.push(header);
+      callback();
+    },
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        onPlaintext(chunk.length);
+        pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+        // Hold back the last full chunk: only flush knows which chunk is final
+        while (pending.length > chunkSize) {
+          this.push(seal(pending.subarray(0, chunkSize), false));
+          pending = pending.subarray(chunkSize);
+        }
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        this.push(seal(pending, true));
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    }
+  });
+}
+
+/**
+ * Returns a Transform that verifies and decrypts the chunked format.
+ *
+ * Each chunk is authenticated before its plaintext is emitted, but earlier
+ * chunks have already been emitted when a later one fails: consumers must
+ * treat a stream that ends with an error as failed in full.
+ */
+export function createDecryptStream(dek: Buffer, options: Pick<StreamOptions, 'aad' | 'alg'> = {}): Transform {
+  const algorithm = getAlgorithm(options.alg ?? DEFAULT_ALGORITHM);
+  const key = deriveStreamKey(dek);
+
+  let header: Buffer | undefined;
+  let aad: Buffer = Buffer.alloc(0);
+  let prefix: Buffer = Buffer.alloc(0);
+  let sealedChunkSize = 0;
+  let counter = 0;
+  let pending: Buffer = Buffer.alloc(0);
+
+  const readHeader = () => {
+    const candidate = pending.subarray(0, HEADER_LENGTH);
+    if (!candidate.subarray(0, MAGIC.length).equals(MAGIC) || candidate[MAGIC.length] !== STREAM_FORMAT_VERSION) {
+      throw new IntegrityError('Invalid stream header');
+    }
+    const chunkSize = candidate.readUInt32BE(MAGIC.length + 1);
+    if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+      throw new IntegrityError('Invalid stream header');
+    }
+
+    header = Buffer.from(candidate);
+    prefix = header.subarray(MAGIC.length + 5);
+    aad = Buffer.concat([header, options.aad ?? Buffer.alloc(0)]);
+    sealedChunkSize = chunkSize + TAG_LENGTH;
+    pending = pending.subarray(HEADER_LENGTH);
+  };
+
+  const open = (sealed: Buffer, last: boolean) => {
+    if (counter > MAX_CHUNKS || sealed.length < TAG_LENGTH) {
+      throw new IntegrityError(`Failed to decrypt stream chunk ${counter}: potential tampering or truncation`);
+    }
+    const nonce = chunkNonce(prefix, counter, last);
+    try {
+      const plaintext = algorithm.open(key, nonce, sealed.subarray(0, sealed.length - TAG_LENGTH), sealed.subarray(sealed.length - TAG_LENGTH), aad);
+      counter++;
+      return plaintext;
+    } catch (err) {
+      throw new IntegrityError(`Failed to decrypt stream chunk ${counter}: potential tampering or truncation`);
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+        if (!header && pending.length >= HEADER_LENGTH) {
+          readHeader();
+        }
+        // More than one sealed chunk buffered means the first is not the last
+        while (header && pending.length > sealedChunkSize) {
+          this.push(open(pending.subarray(0, sealedChunkSize), false));
+          pending = pending.subarray(sealedChunkSize);
+        }
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+    flush(callback) {
+      try {
+        if (!header) {
+          throw new IntegrityError('Invalid stream header');
+        }
+        this.push(open(pending, true));
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    }
+  });
+}
+
+// ============================================================================
+// STREAMED ENVELOPES
+// ============================================================================
+// A streamed record is a normal envelope: its DEK is wrapped like any other,
+// its (small) JSON payload describes the content, and record.stream points at
+// content encrypted with a key derived from the same DEK. Rotation re-wraps
+// the DEK without touching the stored stream.
+
+export interface EnvelopeEncryptStream {
+  /** Record id, known up front so the content can be stored under it. */
+  id: string;
+  /** Encrypts the content; pipe plaintext in and store what comes out. */
+  stream: Transform;
+  /** Builds the record once the stream has finished. */
+  seal(payload: unknown, provider: KeyProvider): Promise<TxSecureRecord>;
+}
+
+/**
+ * Starts a streamed envelope for partyId.
+ */
+export function createEnvelopeEncryptStream(
+  partyId: string,
+  options: Pick<StreamOptions, 'chunkSize'> & EnvelopeOptions = {}
+): EnvelopeEncryptStream {
+  const id = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  const context: AadContext = { id, partyId, alg: options.alg ?? DEFAULT_ALGORITHM };
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+
+  let size = 0;
+  let finished = false;
+  const dek = generateDEK();
+  const stream = sealingStream(dek, { chunkSize, aad: streamAAD(context), alg: context.alg }, (length) => { size += length; });
+  stream.once('finish', () => { finished = true; });
+
+  return {
+    id,
+    stream,
+    async seal(payload, provider) {
+      if (!finished) {
+        throw new Error('Stream has not finished');
+      }
+      return {
+        id,
+        partyId,
+        createdAt,
+        ...encryptPayload(payload, dek, payloadAAD(context), context.alg),
+        ...(await provider.wrap(dek, context)),
+        alg: context.alg,
+        format_version: CURRENT_FORMAT_VERSION,
+        stream: { chunk_size: chunkSize, size }
+      };
+    }
+  };
+}
+
+/**
+ * Returns a Transform that decrypts a streamed record's content with its
+ * (already unwrapped) DEK, authenticating it against the record's metadata.
+ */
+export function createEnvelopeDecryptStream(record: Pick<TxSecureRecord, 'id' | 'partyId' | 'alg' | 'stream'>, dek: Buffer): Transform {
+  if (!record.stream) {
+    throw new Error('Record has no streamed content');
+  }
+  return createDecryptStream(dek, { aad: streamAAD(aadContextOf(record)), alg: record.alg });
+}
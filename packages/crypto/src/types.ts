@@ -1,7 +1,11 @@
+import type { AlgorithmId } from './algorithms.js';
+
 export type TxSecureRecord = {
   id: string;
   partyId: string;
   createdAt: string;
+  // When the record is crypto-shredded; party retention policies may apply earlier
+  expiresAt?: string;
 
   payload_nonce: string;
   payload_ct: string;
@@ -11,6 +15,54 @@ export type TxSecureRecord = {
   dek_wrapped: string;
   dek_wrap_tag: string;
 
-  alg: "AES-256-GCM";
-  mk_version: 1;
+  // Algorithm for both the payload and the DEK wrap (see algorithms.ts)
+  alg: AlgorithmId;
+  mk_version: number;
+  // Present when the DEK is wrapped by a party KEK (see party-keys.ts) rather
+  // than by the Master Key directly: the party key version
+  kek_version?: number;
+
+  // Record format: 1 (or absent) = no AAD, 2 = metadata bound as AAD
+  format_version?: number;
+
+  // Which key provider and key wrapped the DEK (absent on legacy records)
+  key_provider?: string;
+  key_id?: string;
+
+  // Present when the content was uploaded as a chunked stream and stored
+  // outside the record; the payload then only describes it
+  stream?: TxStreamInfo;
+
+  // Field-level records only: these top-level payload fields are encrypted
+  // one by one (see fields.ts), the rest are kept in `clear`, and the
+  // payload_* ciphertext holds the authenticated manifest of both
+  fields?: Record<string, TxEncryptedField>;
+  clear?: Record<string, unknown>;
+
+  // Searchable records only: deterministic tokens of chosen payload fields
+  // (see blind-index.ts). Used by the server for lookups, never for decryption
+  blind_index?: TxBlindIndex;
 };
+
+export type TxStreamInfo = {
+  chunk_size: number;
+  // Plaintext size in bytes
+  size: number;
+};
+
+export type TxEncryptedField = {
+  nonce: string;
+  ct: string;
+  tag: string;
+};
+
+export type TxBlindIndex = {
+  // Master key version the tokens were computed under
+  mk_version: number;
+  // Field name -> HMAC-SHA256 token (hex)
+  tokens: Record<string, string>;
+};
+
+// A payload encrypted outside the server (see browser.ts), with the fields
+// needed to build a record around it once its DEK is wrapped
+export type SealedPayload = Pick<TxSecureRecord, 'id' | 'partyId' | 'alg' | 'payload_nonce' | 'payload_ct' | 'payload_tag'>;
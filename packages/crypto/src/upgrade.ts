@@ -0,0 +1,56 @@
+import { TxSecureRecord } from './types.js';
+import { KeyProvider } from './providers/types.js';
+import { CURRENT_FORMAT_VERSION, aadContextOf, payloadAAD } from './aad.js';
+import { decryptPayload, encryptPayload } from './encryption.js';
+
+// ============================================================================
+// FORMAT UPGRADES
+// ============================================================================
+// One step per format version, each turning a record of version N into
+// version N + 1. upgradeRecord chains them up to CURRENT_FORMAT_VERSION.
+// Steps need the DEK, so they run through the provider that wrapped the record.
+
+/**
+ * Rewrites a record of one format version as the next version.
+ */
+type UpgradeStep = (record: TxSecureRecord, provider: KeyProvider) => Promise<TxSecureRecord>;
+
+const UPGRADES: Record<number, UpgradeStep> = {
+  // 1 -> 2: bind metadata as AAD. The payload is re-encrypted under the same
+  // DEK with a fresh nonce, and the DEK is re-wrapped with its AAD.
+  1: async (record, provider) => {
+    const dek = await provider.unwrap(record);
+    const payload = decryptPayload(record, dek);
+    const context = aadContextOf(record);
+
+    return {
+      ...record,
+      ...encryptPayload(payload, dek, payloadAAD(context), record.alg),
+      ...(await provider.wrap(dek, context)),
+      format_version: 2
+    };
+  }
+};
+
+/**
+ * Format version of a record; records written before versioning are 1.
+ */
+export function formatVersionOf(record: Pick<TxSecureRecord, 'format_version'>): number {
+  return record.format_version ?? 1;
+}
+
+/**
+ * Upgrades a record to CURRENT_FORMAT_VERSION. Records that are already
+ * current are returned unchanged; id, partyId and createdAt never change.
+ */
+export async function upgradeRecord(record: TxSecureRecord, provider: KeyProvider): Promise<TxSecureRecord> {
+  let current = record;
+  while (formatVersionOf(current) < CURRENT_FORMAT_VERSION) {
+    const step = UPGRADES[formatVersionOf(current)];
+    if (!step) {
+      throw new Error(`No upgrade from format_version ${formatVersionOf(current)}`);
+    }
+    current = await step(current, provider);
+  }
+  return current;
+}
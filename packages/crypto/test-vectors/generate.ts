@@ -0,0 +1,154 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import {
+  AlgorithmId,
+  PartyKey,
+  PartyKeysFile,
+  RandomSource,
+  TxSecureRecord,
+  createKeyring,
+  derivePartyKEK,
+  dekWrapAAD,
+  encryptEnvelope,
+  encryptPayload,
+  payloadAAD,
+  randomUUIDFrom,
+  wrapDEK
+} from '../src/index.js';
+import type { DekWrapVector, EnvelopeVector, KnownAnswerVectors, PayloadVector } from './index.js';
+
+// ============================================================================
+// VECTOR GENERATOR
+// ============================================================================
+// Writes known-answer.json from the current implementation. Every input is
+// derived from fixed labels, so a rerun writes the same file unless the
+// output changed. Only rerun it for an intended format change (with a new
+// format_version): otherwise a failing vector is a bug, not a stale file.
+//
+//   pnpm --filter @mirfa/crypto vectors
+
+/**
+ * `length` bytes from SHA-256 over a label and a block counter.
+ */
+function derive(label: string, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  for (let i = 0; blocks.length * 32 < length; i++) {
+    blocks.push(crypto.createHash('sha256').update(`mirfa/test-vectors/${label}/${i}`).digest());
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+/**
+ * A deterministic RandomSource that remembers what it returned.
+ */
+function recordingRandom(label: string): { random: RandomSource; draws: string[] } {
+  const draws: string[] = [];
+  const random: RandomSource = (length) => {
+    const bytes = derive(`${label}/draw-${draws.length}`, length);
+    draws.push(bytes.toString('hex'));
+    return bytes;
+  };
+  return { random, draws };
+}
+
+const hex = (bytes: Buffer) => bytes.toString('hex');
+const utf8 = (aad: Buffer | undefined) => (aad === undefined ? null : aad.toString('utf8'));
+
+const masterKeys = { 1: derive('master-key-1', 32), 2: derive('master-key-2', 32) };
+const partyKey: PartyKey = {
+  partyId: 'party_a',
+  version: 1,
+  salt: hex(derive('party_a/salt-1', 32)),
+  createdAt: '2026-01-01T00:00:00.000Z'
+};
+const partyKeys: PartyKeysFile = {
+  parties: { party_a: [{ version: partyKey.version, salt: partyKey.salt, createdAt: partyKey.createdAt }] }
+};
+const partyKek = derivePartyKEK(masterKeys[1], partyKey);
+const createdAt = new Date('2026-01-02T03:04:05.678Z');
+const plaintext = { amount: 1250.5, currency: 'AED', note: 'Ünïcode ✓', tags: ['a', 'b'], settled: true, ref: null };
+
+// ============================================================================
+// PRIMITIVES
+// ============================================================================
+
+function payloadVector(name: string, alg: AlgorithmId, aad: Buffer | undefined): PayloadVector {
+  const dek = derive(`${name}/dek`, 32);
+  const nonce = derive(`${name}/nonce`, 12);
+  const sealed = encryptPayload(plaintext, dek, aad, alg, () => nonce);
+  return { name, alg, dek: hex(dek), nonce: hex(nonce), aad: utf8(aad), plaintext, payload_ct: sealed.payload_ct, payload_tag: sealed.payload_tag };
+}
+
+function dekWrapVector(name: string, alg: AlgorithmId, kek: Buffer, aad: Buffer | undefined): DekWrapVector {
+  const dek = derive(`${name}/dek`, 32);
+  const nonce = derive(`${name}/nonce`, 12);
+  const wrapped = wrapDEK(dek, kek, aad, alg, () => nonce);
+  return { name, alg, kek: hex(kek), dek: hex(dek), nonce: hex(nonce), aad: utf8(aad), dek_wrapped: wrapped.dek_wrapped, dek_wrap_tag: wrapped.dek_wrap_tag };
+}
+
+const context = (alg: AlgorithmId) => ({ id: '00000000-0000-4000-8000-000000000001', partyId: 'party_a', alg });
+
+// ============================================================================
+// ENVELOPES
+// ============================================================================
+
+function envelopeVector(
+  name: string,
+  alg: AlgorithmId,
+  mkVersion: 1 | 2,
+  options: { fields?: string[]; partyKey?: PartyKey } = {}
+): EnvelopeVector {
+  const { random, draws } = recordingRandom(name);
+  const record = encryptEnvelope('party_a', plaintext, createKeyring(masterKeys, mkVersion), { alg, random, now: createdAt, ...options });
+  return { name, plaintext, ...(options.fields ? { fields: options.fields } : {}), draws, record };
+}
+
+/**
+ * A format 1 record (no AAD, no key provider), as written before format 2.
+ */
+function legacyVector(name: string): EnvelopeVector {
+  const { random, draws } = recordingRandom(name);
+  const id = randomUUIDFrom(random);
+  const dek = random(32);
+  const record: TxSecureRecord = {
+    id,
+    partyId: 'party_a',
+    createdAt: createdAt.toISOString(),
+    ...encryptPayload(plaintext, dek, undefined, 'AES-256-GCM', random),
+    ...wrapDEK(dek, masterKeys[1], undefined, 'AES-256-GCM', random),
+    alg: 'AES-256-GCM',
+    mk_version: 1
+  };
+  return { name, plaintext, draws, decryptOnly: true, record };
+}
+
+const vectors: KnownAnswerVectors = {
+  masterKeys: { 1: hex(masterKeys[1]), 2: hex(masterKeys[2]) },
+  partyKeys,
+  payload: [
+    payloadVector('payload AES-256-GCM', 'AES-256-GCM', payloadAAD(context('AES-256-GCM'))),
+    payloadVector('payload CHACHA20-POLY1305', 'CHACHA20-POLY1305', payloadAAD(context('CHACHA20-POLY1305'))),
+    payloadVector('payload AES-256-GCM-SIV', 'AES-256-GCM-SIV', payloadAAD(context('AES-256-GCM-SIV'))),
+    payloadVector('payload AES-256-GCM without AAD', 'AES-256-GCM', undefined)
+  ],
+  dekWrap: [
+    dekWrapVector('wrap AES-256-GCM', 'AES-256-GCM', masterKeys[1], dekWrapAAD({ ...context('AES-256-GCM'), mk_version: 1 })),
+    dekWrapVector('wrap CHACHA20-POLY1305', 'CHACHA20-POLY1305', masterKeys[2], dekWrapAAD({ ...context('CHACHA20-POLY1305'), mk_version: 2 })),
+    dekWrapVector('wrap AES-256-GCM-SIV', 'AES-256-GCM-SIV', masterKeys[1], dekWrapAAD({ ...context('AES-256-GCM-SIV'), mk_version: 1 })),
+    dekWrapVector('wrap under a party KEK', 'AES-256-GCM', partyKek, dekWrapAAD({ ...context('AES-256-GCM'), mk_version: 1, kek_version: 1 })),
+    dekWrapVector('wrap AES-256-GCM without AAD', 'AES-256-GCM', masterKeys[1], undefined)
+  ],
+  partyKek: [{ name: 'party_a version 1', mkVersion: 1, partyId: partyKey.partyId, version: partyKey.version, kek: hex(partyKek) }],
+  envelope: [
+    envelopeVector('envelope AES-256-GCM', 'AES-256-GCM', 1),
+    envelopeVector('envelope CHACHA20-POLY1305', 'CHACHA20-POLY1305', 2),
+    envelopeVector('envelope AES-256-GCM-SIV', 'AES-256-GCM-SIV', 2),
+    envelopeVector('envelope with encrypted fields', 'AES-256-GCM', 2, { fields: ['amount', 'note'] }),
+    envelopeVector('envelope under a party KEK', 'AES-256-GCM', 1, { partyKey }),
+    legacyVector('envelope format 1')
+  ]
+};
+
+const path = new URL('./known-answer.json', import.meta.url);
+fs.writeFileSync(path, JSON.stringify(vectors, null, 2) + '\n');
+console.log(`Wrote ${path.pathname}`);
@@ -0,0 +1,85 @@
+import fs from 'node:fs';
+import type { AlgorithmId } from '../src/algorithms.js';
+import type { PartyKeysFile } from '../src/party-keys.js';
+import type { TxSecureRecord } from '../src/types.js';
+
+// ============================================================================
+// KNOWN-ANSWER TEST VECTORS
+// ============================================================================
+// Fixed inputs and the exact bytes every implementation must produce from
+// them (known-answer.json, written by generate.ts). A change to any output is
+// a change to the record format: existing records would no longer open.
+//
+// All binary values are hex. AADs are given as the UTF-8 string they encode
+// (null: no AAD), plaintexts as the JSON value that is encrypted.
+
+/**
+ * encryptPayload(plaintext, dek, aad, alg) with `nonce` as its only random draw.
+ */
+export interface PayloadVector {
+  name: string;
+  alg: AlgorithmId;
+  dek: string;
+  nonce: string;
+  aad: string | null;
+  plaintext: unknown;
+  payload_ct: string;
+  payload_tag: string;
+}
+
+/**
+ * wrapDEK(dek, kek, aad, alg) with `nonce` as its only random draw.
+ */
+export interface DekWrapVector {
+  name: string;
+  alg: AlgorithmId;
+  /** Master Key, or a party KEK (see partyKek). */
+  kek: string;
+  dek: string;
+  nonce: string;
+  aad: string | null;
+  dek_wrapped: string;
+  dek_wrap_tag: string;
+}
+
+/**
+ * derivePartyKEK(masterKeys[mkVersion], partyKeys.parties[partyId][version]).
+ */
+export interface PartyKekVector {
+  name: string;
+  mkVersion: number;
+  partyId: string;
+  version: number;
+  kek: string;
+}
+
+/**
+ * A full record. encryptEnvelope with a keyring whose active version is
+ * record.mk_version, `now` = record.createdAt and a RandomSource returning
+ * `draws` in order (record ID, DEK, payload nonce, field nonces, wrap nonce)
+ * returns `record`. Records with `decryptOnly` are older formats that can
+ * no longer be written; every record must decrypt to `plaintext`.
+ */
+export interface EnvelopeVector {
+  name: string;
+  plaintext: unknown;
+  fields?: string[];
+  draws: string[];
+  decryptOnly?: boolean;
+  record: TxSecureRecord;
+}
+
+export interface KnownAnswerVectors {
+  /** By version, as in MASTER_KEYS. */
+  masterKeys: Record<string, string>;
+  /** In the party key file layout (PARTY_KEYS_FILE, --party-keys). */
+  partyKeys: PartyKeysFile;
+  payload: PayloadVector[];
+  dekWrap: DekWrapVector[];
+  partyKek: PartyKekVector[];
+  envelope: EnvelopeVector[];
+}
+
+export const knownAnswerVectors: KnownAnswerVectors = JSON.parse(
+  fs.readFileSync(new URL('./known-answer.json', import.meta.url), 'utf8')
+);